@@ -3,6 +3,13 @@ const nextConfig = {
   output: 'standalone',
   reactStrictMode: true,
   swcMinify: true,
+  experimental: {
+    // Runs src/instrumentation.ts on server start (background sync worker)
+    instrumentationHook: true,
+    // Native drivers (SQLite, DuckDB, ssh2 crypto bindings) and oracledb, which loads its
+    // optional thick-mode binary at runtime, must not be bundled
+    serverComponentsExternalPackages: ['better-sqlite3', '@duckdb/node-api', 'ssh2', 'oracledb'],
+  },
   images: {
     domains: [],
   },
@@ -0,0 +1,71 @@
+/**
+ * Secret Re-encryption Script
+ * Re-encrypts every stored secret (connection passwords, TLS and SSH keys, not-yet-hashed API keys)
+ * under the active ENCRYPTION_KEY
+ *
+ * Rotating the key:
+ *   1. Move the current ENCRYPTION_KEY to the front of ENCRYPTION_PREVIOUS_KEYS
+ *   2. Set ENCRYPTION_KEY to a new key (openssl rand -hex 32) and restart the app
+ *   3. npm run secrets:reencrypt -- --dry-run   (check nothing fails to decrypt)
+ *   4. npm run secrets:reencrypt
+ *   5. Remove the old key from ENCRYPTION_PREVIOUS_KEYS and restart again
+ *
+ * Usage: npm run secrets:reencrypt [-- --dry-run]
+ */
+
+import mongoose from 'mongoose';
+import * as dotenv from 'dotenv';
+import * as path from 'path';
+
+// Load environment variables from .env.local
+dotenv.config({ path: path.resolve(process.cwd(), '.env.local') });
+
+const MONGODB_URI = process.env.MONGODB_URI || 'mongodb://localhost:27017/flash-ops';
+
+/**
+ * Main re-encryption function
+ */
+async function run() {
+  const dryRun = process.argv.includes('--dry-run');
+
+  try {
+    // Imported after dotenv: the encryption module reads its keys on load
+    const { reencryptSecrets } = await import('../src/lib/secret-rotation');
+
+    await mongoose.connect(MONGODB_URI);
+    console.log('✅ Connected to MongoDB');
+
+    const report = await reencryptSecrets({ dryRun });
+
+    console.log(`\n🔑 Active key: ${report.keys.active}`);
+    console.log(`   Previous keys: ${report.keys.previous.join(', ') || 'none'}`);
+    console.log(dryRun ? '\n🔍 Dry run, nothing is written\n' : '');
+
+    Object.entries(report.collections).forEach(([collection, counts]) => {
+      console.log(
+        `   ${collection}: ${counts.secrets} secrets in ${counts.documents} documents, ` +
+          `${counts.reencrypted} ${dryRun ? 'to re-encrypt' : 're-encrypted'}` +
+          (counts.skipped ? `, ${counts.skipped} skipped (changed while running, run again)` : '')
+      );
+    });
+
+    if (report.failures.length > 0) {
+      console.log(`\n❌ ${report.failures.length} secrets could not be decrypted:`);
+      report.failures.forEach((failure) => {
+        console.log(`   ${failure.collection}/${failure.documentId} ${failure.field}: ${failure.error}`);
+      });
+      process.exitCode = 1;
+    } else {
+      console.log('\n✅ All secrets decrypted with the configured keys');
+    }
+  } catch (error) {
+    console.error('\n❌ Re-encryption failed:', error);
+    process.exitCode = 1;
+  } finally {
+    await mongoose.disconnect();
+    console.log('\n🔌 Disconnected from MongoDB');
+  }
+}
+
+// Run re-encryption
+run();
@@ -1,18 +1,37 @@
 'use client';
 
-import { signIn } from 'next-auth/react';
+import { signIn, getProviders, type ClientSafeProvider } from 'next-auth/react';
 import { useRouter, useSearchParams } from 'next/navigation';
-import { useState, Suspense } from 'react';
+import { useState, useEffect, Suspense } from 'react';
 import { toast } from 'sonner';
 import { motion } from 'framer-motion';
 import { Logo } from '@/components/Logo';
 
+/**
+ * NextAuth error codes that can come back from a single sign-on attempt
+ */
+const SSO_ERROR_MESSAGES: Record<string, string> = {
+  OAuthSignin: 'Could not start single sign-on. Please try again.',
+  OAuthCallback: 'Single sign-on failed. Please try again.',
+  OAuthAccountNotLinked: 'This email is linked to another sign-in method.',
+  Callback: 'Single sign-on failed. Please try again.',
+  AccessDenied: 'Access denied.',
+};
+
 function LoginForm() {
   const router = useRouter();
   const searchParams = useSearchParams();
   const [isLoading, setIsLoading] = useState(false);
+  const [ssoProviders, setSsoProviders] = useState<ClientSafeProvider[]>([]);
 
   const error = searchParams.get('error');
+  const ssoError = error && error !== 'unauthorized' ? SSO_ERROR_MESSAGES[error] || error : null;
+
+  useEffect(() => {
+    getProviders()
+      .then((providers) => setSsoProviders(Object.values(providers || {}).filter((provider) => provider.type === 'oauth')))
+      .catch((error) => console.error('Failed to load sign-in providers:', error));
+  }, []);
 
   const handleSubmit = async (e: React.FormEvent<HTMLFormElement>) => {
     e.preventDefault();
@@ -78,6 +97,15 @@ function LoginForm() {
           You don't have permission to access that page.
         </motion.div>
       )}
+      {ssoError && (
+        <motion.div
+          initial={{ opacity: 0, height: 0 }}
+          animate={{ opacity: 1, height: 'auto' }}
+          className="mb-6 p-4 bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 rounded-xl text-red-800 dark:text-red-200 text-sm font-medium"
+        >
+          {ssoError}
+        </motion.div>
+      )}
 
       {/* Form */}
       <motion.form
@@ -148,6 +176,38 @@ function LoginForm() {
         </motion.button>
       </motion.form>
 
+      {/* Single sign-on */}
+      {ssoProviders.length > 0 && (
+        <motion.div
+          initial={{ opacity: 0 }}
+          animate={{ opacity: 1 }}
+          transition={{ delay: 0.25, duration: 0.5 }}
+          className="mt-6 space-y-3"
+        >
+          <div className="flex items-center gap-3 text-xs text-slate-500 dark:text-slate-400">
+            <div className="flex-1 h-px bg-slate-200 dark:bg-slate-800" />
+            or
+            <div className="flex-1 h-px bg-slate-200 dark:bg-slate-800" />
+          </div>
+          {ssoProviders.map((provider) => (
+            <motion.button
+              key={provider.id}
+              type="button"
+              disabled={isLoading}
+              whileHover={{ scale: isLoading ? 1 : 1.01 }}
+              whileTap={{ scale: isLoading ? 1 : 0.98 }}
+              onClick={() => {
+                setIsLoading(true);
+                signIn(provider.id, { callbackUrl: '/chat' });
+              }}
+              className="w-full py-3 px-6 bg-white dark:bg-slate-900 border border-slate-300 dark:border-slate-700 hover:bg-slate-50 dark:hover:bg-slate-800 text-slate-900 dark:text-white rounded-xl font-semibold transition-all duration-200 disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              Continue with {provider.name}
+            </motion.button>
+          ))}
+        </motion.div>
+      )}
+
       {/* Demo credentials */}
       <motion.div
         initial={{ opacity: 0 }}
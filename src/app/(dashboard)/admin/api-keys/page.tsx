@@ -2,9 +2,10 @@
 
 import { useState, useEffect } from 'react';
 import { motion } from 'framer-motion';
-import { Key, Shield, Clock, Activity, Check, X, Copy, AlertCircle } from 'lucide-react';
+import { Key, Shield, Clock, Activity, Check, X, Copy, AlertCircle, RefreshCw } from 'lucide-react';
 import { toast } from 'sonner';
 import { formatDistanceToNow } from 'date-fns';
+import ApiKeyUsagePanel from '@/components/ApiKeyUsagePanel';
 
 interface ApiKey {
   _id: string;
@@ -23,6 +24,7 @@ interface ApiKey {
   lastUsedAt?: string;
   usageCount: number;
   isActive: boolean;
+  graceEndsAt?: string;
   metadata?: {
     lastUsedBy?: string;
     lastQuery?: string;
@@ -37,13 +39,15 @@ interface Statistics {
   activeKeys: number;
   totalUsage: number;
   expiredKeys: number;
+  expiringSoonKeys: number;
 }
 
 export default function AdminApiKeysPage() {
   const [apiKeys, setApiKeys] = useState<ApiKey[]>([]);
   const [statistics, setStatistics] = useState<Statistics | null>(null);
   const [isLoading, setIsLoading] = useState(true);
-  const [filter, setFilter] = useState<'all' | 'active' | 'inactive'>('all');
+  const [filter, setFilter] = useState<'all' | 'active' | 'inactive' | 'expiring'>('all');
+  const [expiryWarningDays, setExpiryWarningDays] = useState(7);
 
   useEffect(() => {
     fetchApiKeys();
@@ -52,7 +56,9 @@ export default function AdminApiKeysPage() {
   const fetchApiKeys = async () => {
     try {
       const params = new URLSearchParams();
-      if (filter !== 'all') {
+      if (filter === 'expiring') {
+        params.append('expiringSoon', 'true');
+      } else if (filter !== 'all') {
         params.append('isActive', filter === 'active' ? 'true' : 'false');
       }
 
@@ -61,6 +67,7 @@ export default function AdminApiKeysPage() {
         const data = await response.json();
         setApiKeys(data.data.apiKeys || []);
         setStatistics(data.data.statistics);
+        setExpiryWarningDays(data.data.expiryWarningDays);
       }
     } catch (error) {
       toast.error('Failed to fetch API keys');
@@ -178,6 +185,9 @@ export default function AdminApiKeysPage() {
         </div>
       )}
 
+      {/* Usage */}
+      <ApiKeyUsagePanel endpoint="/api/admin/api-keys/usage" />
+
       {/* Filters */}
       <div className="mb-6 flex gap-3">
         <button
@@ -210,6 +220,18 @@ export default function AdminApiKeysPage() {
         >
           Inactive
         </button>
+        <button
+          onClick={() => setFilter('expiring')}
+          title={`Active keys expiring within ${expiryWarningDays} days`}
+          className={`px-4 py-2 rounded-lg font-medium transition-colors ${
+            filter === 'expiring'
+              ? 'bg-orange-600 text-white'
+              : 'bg-slate-100 dark:bg-slate-800 text-slate-700 dark:text-slate-300 hover:bg-slate-200 dark:hover:bg-slate-700'
+          }`}
+        >
+          Expiring Soon
+          {statistics && statistics.expiringSoonKeys > 0 && ` (${statistics.expiringSoonKeys})`}
+        </button>
       </div>
 
       {/* API Keys Table */}
@@ -281,6 +303,12 @@ export default function AdminApiKeysPage() {
                           Revoked
                         </span>
                       )}
+                      {apiKey.graceEndsAt && apiKey.isActive && (
+                        <span className="inline-flex items-center gap-1 px-2 py-1 bg-yellow-100 dark:bg-yellow-900/30 text-yellow-700 dark:text-yellow-300 text-xs font-medium rounded">
+                          <RefreshCw className="w-3 h-3" />
+                          Rotated · ends {formatDistanceToNow(new Date(apiKey.graceEndsAt), { addSuffix: true })}
+                        </span>
+                      )}
                       {isExpired(apiKey.expiresAt) && apiKey.isActive && (
                         <span className="inline-flex items-center gap-1 px-2 py-1 bg-orange-100 dark:bg-orange-900/30 text-orange-700 dark:text-orange-300 text-xs font-medium rounded">
                           <AlertCircle className="w-3 h-3" />
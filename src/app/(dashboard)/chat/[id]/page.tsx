@@ -24,6 +24,7 @@ import {
   ChevronUp,
   X,
   FileSpreadsheet,
+  RotateCw,
 } from 'lucide-react';
 import { toast } from 'sonner';
 
@@ -74,16 +75,33 @@ interface Message {
   createdAt?: Date;
 }
 
+interface RerunTarget {
+  chatId: string;
+  messageId: string;
+  tier: number;
+  databases: DatabaseType[];
+}
+
+interface RerunSummary {
+  rowCount: number;
+  executionTimeMs: number;
+  truncated: boolean;
+}
+
 /**
  * Component to display query results in a modal
  * Handles both inline results and file-based results from MinIO
+ * When a rerun target is given, the SQL can be run again directly against the database
  */
-function QueryResultDisplay({ result }: { result: QueryResult }) {
+function QueryResultDisplay({ result, rerun }: { result: QueryResult; rerun?: RerunTarget }) {
   const [data, setData] = useState<any[] | null>(result.result || null);
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [isModalOpen, setIsModalOpen] = useState(false);
   const [hasFetched, setHasFetched] = useState(false);
+  const [isRerunning, setIsRerunning] = useState(false);
+  const [rerunSummary, setRerunSummary] = useState<RerunSummary | null>(null);
+  const [rerunDatabaseId, setRerunDatabaseId] = useState(rerun?.databases[0]?._id || '');
 
   const fetchDataFromMinio = async () => {
     if (hasFetched || !result.file_path) {
@@ -118,6 +136,42 @@ function QueryResultDisplay({ result }: { result: QueryResult }) {
     }
   };
 
+  // Run the generated SQL again without the LLM round trip
+  const handleRerun = async () => {
+    if (!rerun) return;
+
+    try {
+      setIsRerunning(true);
+      setError(null);
+
+      const response = await fetch(`/api/chats/${rerun.chatId}/messages/${rerun.messageId}/rerun`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ tier: rerun.tier, databaseId: rerunDatabaseId }),
+      });
+
+      const responseData = await response.json();
+      if (!response.ok) {
+        throw new Error(responseData.error || 'Failed to run query');
+      }
+
+      setData(responseData.data.rows || []);
+      setHasFetched(true);
+      setRerunSummary({
+        rowCount: responseData.data.rowCount,
+        executionTimeMs: responseData.data.executionTimeMs,
+        truncated: responseData.data.truncated,
+      });
+      setIsModalOpen(true);
+      toast.success('Query executed successfully');
+    } catch (err: any) {
+      console.error('Error re-running query:', err);
+      toast.error(err.message || 'Failed to run query');
+    } finally {
+      setIsRerunning(false);
+    }
+  };
+
   // Handle modal open
   const handleOpenModal = () => {
     setIsModalOpen(true);
@@ -199,6 +253,39 @@ function QueryResultDisplay({ result }: { result: QueryResult }) {
         </div>
       )}
 
+      {/* Run Again */}
+      {rerun && result.sql_generated && (
+        <div className="flex flex-wrap items-center gap-2">
+          {rerun.databases.length > 1 && (
+            <select
+              value={rerunDatabaseId}
+              onChange={(e) => setRerunDatabaseId(e.target.value)}
+              className="px-3 py-2 text-sm bg-white dark:bg-slate-800 border border-slate-300 dark:border-slate-700 rounded-lg"
+            >
+              {rerun.databases.map((db) => (
+                <option key={db._id} value={db._id}>
+                  {db.displayName || db.databaseName}
+                </option>
+              ))}
+            </select>
+          )}
+          <button
+            onClick={handleRerun}
+            disabled={isRerunning}
+            className="inline-flex items-center gap-2 px-4 py-2 bg-indigo-500 hover:bg-indigo-600 disabled:bg-indigo-300 disabled:cursor-not-allowed text-white text-sm font-medium rounded-lg transition-colors"
+          >
+            {isRerunning ? <Loader2 className="w-4 h-4 animate-spin" /> : <RotateCw className="w-4 h-4" />}
+            Run Again
+          </button>
+          {rerunSummary && (
+            <span className="text-xs text-slate-500 dark:text-slate-400">
+              Last run: {rerunSummary.rowCount.toLocaleString()} rows in {rerunSummary.executionTimeMs}ms
+              {rerunSummary.truncated && ' (truncated)'}
+            </span>
+          )}
+        </div>
+      )}
+
       {/* View Results Button */}
       {(data || result.file_path) && (
         <Dialog.Root open={isModalOpen} onOpenChange={setIsModalOpen}>
@@ -218,7 +305,7 @@ function QueryResultDisplay({ result }: { result: QueryResult }) {
               {/* Modal Header */}
               <div className="flex items-center justify-between p-6 border-b border-slate-200 dark:border-slate-700">
                 <Dialog.Title className="text-lg font-semibold text-slate-900 dark:text-white">
-                  Query Results ({result.row_count?.toLocaleString() || 0} rows)
+                  Query Results ({(rerunSummary?.rowCount ?? result.row_count)?.toLocaleString() || 0} rows)
                 </Dialog.Title>
                 <div className="flex items-center gap-2">
                   <button
@@ -668,7 +755,15 @@ export default function ChatViewPage() {
                               {msg.queryResults && msg.queryResults.length > 0 && (
                                 <div className="mt-4 space-y-4">
                                   {msg.queryResults.map((result, idx) => (
-                                    <QueryResultDisplay key={idx} result={result} />
+                                    <QueryResultDisplay
+                                      key={idx}
+                                      result={result}
+                                      rerun={
+                                        msg._id && chat
+                                          ? { chatId, messageId: msg._id, tier: idx, databases: chat.databaseIds }
+                                          : undefined
+                                      }
+                                    />
                                   ))}
                                 </div>
                               )}
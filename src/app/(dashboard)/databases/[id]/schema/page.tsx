@@ -0,0 +1,430 @@
+'use client';
+
+import { useState, useEffect, useMemo } from 'react';
+import { useParams, useRouter } from 'next/navigation';
+import Link from 'next/link';
+import { motion, AnimatePresence } from 'framer-motion';
+import {
+  Database,
+  ChevronRight,
+  ChevronDown,
+  ArrowLeft,
+  Search,
+  Loader2,
+  AlertCircle,
+  Table as TableIcon,
+  RefreshCw,
+  KeyRound,
+  Link2,
+  ListTree,
+  Eye,
+  Hash,
+} from 'lucide-react';
+import { toast } from 'sonner';
+
+interface ColumnSchema {
+  name: string;
+  dataType: string;
+  nullable: boolean;
+  defaultValue?: string | null;
+}
+
+interface ForeignKeySchema {
+  name: string;
+  columns: string[];
+  referencedSchema?: string;
+  referencedTable: string;
+  referencedColumns: string[];
+}
+
+interface IndexSchema {
+  name: string;
+  columns: string[];
+  unique: boolean;
+  primary: boolean;
+}
+
+interface TableSchema {
+  schema?: string;
+  name: string;
+  type: 'table' | 'view' | 'collection';
+  rowEstimate: number | null;
+  columns: ColumnSchema[];
+  primaryKey: string[];
+  foreignKeys: ForeignKeySchema[];
+  indexes: IndexSchema[];
+}
+
+interface SchemaSnapshot {
+  connectionType: string;
+  databaseName: string;
+  introspectedAt: string;
+  tables: TableSchema[];
+}
+
+function qualifiedName(table: { schema?: string; name: string }) {
+  return table.schema ? `${table.schema}.${table.name}` : table.name;
+}
+
+export default function SchemaPage() {
+  const params = useParams();
+  const router = useRouter();
+  const databaseId = params.id as string;
+
+  const [schema, setSchema] = useState<SchemaSnapshot | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isRefreshing, setIsRefreshing] = useState(false);
+  const [loadError, setLoadError] = useState('');
+  const [searchQuery, setSearchQuery] = useState('');
+  const [expandedTables, setExpandedTables] = useState<Set<string>>(new Set());
+  const [collapsedSchemas, setCollapsedSchemas] = useState<Set<string>>(new Set());
+
+  useEffect(() => {
+    fetchSchema();
+  }, [databaseId]);
+
+  const fetchSchema = async (refresh: boolean = false) => {
+    if (refresh) {
+      setIsRefreshing(true);
+    } else {
+      setIsLoading(true);
+    }
+
+    try {
+      const response = await fetch(`/api/databases/${databaseId}/schema${refresh ? '?refresh=true' : ''}`);
+      const result = await response.json();
+
+      if (response.ok && result.success) {
+        setSchema(result.data.schema);
+        setLoadError('');
+        if (refresh) {
+          toast.success('Schema refreshed from the database');
+        }
+      } else {
+        setLoadError(result.message || 'Failed to load schema');
+        toast.error(result.message || 'Failed to load schema');
+      }
+    } catch (error) {
+      console.error('Error fetching schema:', error);
+      setLoadError('Failed to load schema');
+      toast.error('Failed to load schema');
+    } finally {
+      setIsLoading(false);
+      setIsRefreshing(false);
+    }
+  };
+
+  // Group tables by namespace, filtered by table or column name
+  const groupedTables = useMemo(() => {
+    const groups = new Map<string, TableSchema[]>();
+    const search = searchQuery.trim().toLowerCase();
+
+    (schema?.tables || [])
+      .filter(
+        (table) =>
+          !search ||
+          qualifiedName(table).toLowerCase().includes(search) ||
+          table.columns.some((column) => column.name.toLowerCase().includes(search))
+      )
+      .forEach((table) => {
+        const group = table.schema || schema?.databaseName || '';
+        groups.set(group, [...(groups.get(group) || []), table]);
+      });
+
+    return [...groups.entries()];
+  }, [schema, searchQuery]);
+
+  const toggleTable = (key: string) => {
+    const next = new Set(expandedTables);
+    if (next.has(key)) {
+      next.delete(key);
+    } else {
+      next.add(key);
+    }
+    setExpandedTables(next);
+  };
+
+  const toggleSchema = (name: string) => {
+    const next = new Set(collapsedSchemas);
+    if (next.has(name)) {
+      next.delete(name);
+    } else {
+      next.add(name);
+    }
+    setCollapsedSchemas(next);
+  };
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center h-64">
+        <div className="text-center">
+          <Loader2 className="w-12 h-12 text-blue-500 animate-spin mx-auto mb-4" />
+          <p className="text-slate-600 dark:text-slate-400">Loading schema...</p>
+        </div>
+      </div>
+    );
+  }
+
+  const totalColumns = schema?.tables.reduce((sum, table) => sum + table.columns.length, 0) || 0;
+
+  return (
+    <div className="space-y-6">
+      {/* Breadcrumb */}
+      <div className="flex items-center gap-2 text-sm">
+        <Link href="/databases" className="text-slate-600 dark:text-slate-400 hover:text-blue-600 dark:hover:text-blue-400 transition-colors">
+          Databases
+        </Link>
+        <ChevronRight className="w-4 h-4 text-slate-400" />
+        <span className="text-slate-900 dark:text-white font-medium">Schema</span>
+      </div>
+
+      {/* Back Button */}
+      <motion.button
+        whileHover={{ x: -4 }}
+        whileTap={{ scale: 0.98 }}
+        onClick={() => router.push('/databases')}
+        className="flex items-center gap-2 text-slate-600 dark:text-slate-400 hover:text-slate-900 dark:hover:text-white transition-colors"
+      >
+        <ArrowLeft className="w-4 h-4" />
+        <span className="text-sm font-medium">Back to Databases</span>
+      </motion.button>
+
+      {/* Header Card */}
+      <motion.div
+        initial={{ opacity: 0, y: 20 }}
+        animate={{ opacity: 1, y: 0 }}
+        className="bg-gradient-to-br from-blue-50 to-indigo-50 dark:from-blue-900/20 dark:to-indigo-900/20 rounded-2xl p-6 border border-blue-200 dark:border-blue-800"
+      >
+        <div className="flex items-start justify-between">
+          <div className="flex items-center gap-4">
+            <div className="w-14 h-14 rounded-xl bg-gradient-to-br from-blue-600 to-indigo-600 flex items-center justify-center shadow-lg">
+              <ListTree className="w-7 h-7 text-white" />
+            </div>
+            <div>
+              <h2 className="text-2xl font-bold text-slate-900 dark:text-white mb-1">
+                {schema?.databaseName || 'Database Schema'}
+              </h2>
+              {schema && (
+                <p className="text-slate-600 dark:text-slate-400">
+                  {schema.tables.length} tables • {totalColumns} columns • {schema.connectionType} • introspected{' '}
+                  {new Date(schema.introspectedAt).toLocaleString()}
+                </p>
+              )}
+            </div>
+          </div>
+          <div className="flex items-center gap-3">
+            <motion.button
+              whileHover={{ scale: 1.02 }}
+              whileTap={{ scale: 0.98 }}
+              onClick={() => router.push(`/databases/${databaseId}/vectors`)}
+              className="flex items-center gap-2 px-5 py-3 bg-white dark:bg-slate-800 hover:bg-slate-50 dark:hover:bg-slate-700 border border-slate-200 dark:border-slate-700 rounded-xl font-semibold transition-all"
+            >
+              <Eye className="w-5 h-5" />
+              View Data
+            </motion.button>
+            <motion.button
+              whileHover={{ scale: 1.02 }}
+              whileTap={{ scale: 0.98 }}
+              onClick={() => fetchSchema(true)}
+              disabled={isRefreshing}
+              className="flex items-center gap-2 px-5 py-3 bg-gradient-to-r from-blue-600 to-indigo-600 hover:from-blue-700 hover:to-indigo-700 text-white rounded-xl font-semibold shadow-lg shadow-blue-500/25 transition-all disabled:opacity-50"
+            >
+              <RefreshCw className={`w-5 h-5 ${isRefreshing ? 'animate-spin' : ''}`} />
+              {isRefreshing ? 'Introspecting...' : 'Refresh Schema'}
+            </motion.button>
+          </div>
+        </div>
+      </motion.div>
+
+      {!schema ? (
+        <div className="text-center py-16 bg-white dark:bg-slate-900 rounded-2xl border border-slate-200 dark:border-slate-800">
+          <AlertCircle className="w-16 h-16 mx-auto text-yellow-500 mb-4" />
+          <h3 className="text-lg font-semibold text-slate-900 dark:text-white mb-2">
+            Schema Unavailable
+          </h3>
+          <p className="text-slate-600 dark:text-slate-400 mb-4">{loadError}</p>
+          <button
+            onClick={() => fetchSchema(true)}
+            className="px-4 py-2 bg-blue-600 hover:bg-blue-700 rounded-lg text-white transition-colors"
+          >
+            Try Again
+          </button>
+        </div>
+      ) : (
+        <>
+          {/* Search Bar */}
+          <div className="bg-white dark:bg-slate-900 rounded-xl p-4 border border-slate-200 dark:border-slate-800">
+            <div className="relative">
+              <Search className="absolute left-3 top-1/2 -translate-y-1/2 w-5 h-5 text-slate-400" />
+              <input
+                type="text"
+                placeholder="Filter by table or column name..."
+                value={searchQuery}
+                onChange={(e) => setSearchQuery(e.target.value)}
+                className="w-full pl-11 pr-4 py-3 bg-slate-50 dark:bg-slate-800 border border-slate-200 dark:border-slate-700 rounded-lg text-slate-900 dark:text-white placeholder-slate-400 focus:outline-none focus:border-blue-500 focus:ring-2 focus:ring-blue-500/20"
+              />
+            </div>
+          </div>
+
+          {/* Schema Tree */}
+          <div className="bg-white dark:bg-slate-900 rounded-2xl border border-slate-200 dark:border-slate-800 divide-y divide-slate-100 dark:divide-slate-800">
+            {groupedTables.length === 0 && (
+              <p className="p-6 text-center text-slate-500 dark:text-slate-400">No tables match your filter.</p>
+            )}
+
+            {groupedTables.map(([group, tables]) => (
+              <div key={group} className="p-4">
+                <button
+                  onClick={() => toggleSchema(group)}
+                  className="flex items-center gap-2 text-sm font-semibold text-slate-700 dark:text-slate-300"
+                >
+                  {collapsedSchemas.has(group) ? (
+                    <ChevronRight className="w-4 h-4" />
+                  ) : (
+                    <ChevronDown className="w-4 h-4" />
+                  )}
+                  <Database className="w-4 h-4 text-blue-500" />
+                  {group}
+                  <span className="text-xs font-normal text-slate-500">({tables.length})</span>
+                </button>
+
+                {!collapsedSchemas.has(group) && (
+                  <div className="mt-2 ml-4 space-y-1">
+                    {tables.map((table) => {
+                      const key = qualifiedName(table);
+                      const isExpanded = expandedTables.has(key);
+                      const foreignKeyColumns = new Set(table.foreignKeys.flatMap((fk) => fk.columns));
+
+                      return (
+                        <div key={key}>
+                          <button
+                            onClick={() => toggleTable(key)}
+                            className="w-full flex items-center gap-2 px-3 py-2 rounded-lg hover:bg-slate-50 dark:hover:bg-slate-800 text-left transition-colors"
+                          >
+                            {isExpanded ? (
+                              <ChevronDown className="w-4 h-4 text-slate-400" />
+                            ) : (
+                              <ChevronRight className="w-4 h-4 text-slate-400" />
+                            )}
+                            {table.type === 'view' ? (
+                              <Eye className="w-4 h-4 text-violet-500" />
+                            ) : (
+                              <TableIcon className="w-4 h-4 text-indigo-500" />
+                            )}
+                            <span className="font-medium text-slate-900 dark:text-white">{table.name}</span>
+                            <span className="text-xs text-slate-500">
+                              {table.columns.length} {table.type === 'collection' ? 'fields' : 'columns'}
+                            </span>
+                            {table.rowEstimate !== null && (
+                              <span className="ml-auto text-xs text-slate-500">
+                                ~{table.rowEstimate.toLocaleString()} rows
+                              </span>
+                            )}
+                          </button>
+
+                          <AnimatePresence>
+                            {isExpanded && (
+                              <motion.div
+                                initial={{ opacity: 0, height: 0 }}
+                                animate={{ opacity: 1, height: 'auto' }}
+                                exit={{ opacity: 0, height: 0 }}
+                                className="ml-9 mb-3 space-y-3 overflow-hidden"
+                              >
+                                {/* Columns */}
+                                <div className="rounded-lg border border-slate-200 dark:border-slate-700 overflow-hidden">
+                                  <table className="w-full text-sm">
+                                    <thead className="bg-slate-50 dark:bg-slate-800 text-slate-500 dark:text-slate-400">
+                                      <tr>
+                                        <th className="px-3 py-2 text-left font-medium">Column</th>
+                                        <th className="px-3 py-2 text-left font-medium">Type</th>
+                                        <th className="px-3 py-2 text-left font-medium">Nullable</th>
+                                        <th className="px-3 py-2 text-left font-medium">Default</th>
+                                      </tr>
+                                    </thead>
+                                    <tbody className="divide-y divide-slate-100 dark:divide-slate-800">
+                                      {table.columns.map((column) => (
+                                        <tr key={column.name}>
+                                          <td className="px-3 py-2 text-slate-900 dark:text-white">
+                                            <span className="flex items-center gap-2">
+                                              {column.name}
+                                              {table.primaryKey.includes(column.name) && (
+                                                <span title="Primary key">
+                                                  <KeyRound className="w-3.5 h-3.5 text-amber-500" />
+                                                </span>
+                                              )}
+                                              {foreignKeyColumns.has(column.name) && (
+                                                <span title="Foreign key">
+                                                  <Link2 className="w-3.5 h-3.5 text-blue-500" />
+                                                </span>
+                                              )}
+                                            </span>
+                                          </td>
+                                          <td className="px-3 py-2 font-mono text-xs text-slate-600 dark:text-slate-400">
+                                            {column.dataType}
+                                          </td>
+                                          <td className="px-3 py-2 text-slate-600 dark:text-slate-400">
+                                            {column.nullable ? 'Yes' : 'No'}
+                                          </td>
+                                          <td className="px-3 py-2 font-mono text-xs text-slate-500 truncate max-w-[16rem]">
+                                            {column.defaultValue ?? ''}
+                                          </td>
+                                        </tr>
+                                      ))}
+                                    </tbody>
+                                  </table>
+                                </div>
+
+                                {/* Foreign Keys */}
+                                {table.foreignKeys.length > 0 && (
+                                  <div className="space-y-1">
+                                    <p className="text-xs font-semibold uppercase text-slate-500">Foreign Keys</p>
+                                    {table.foreignKeys.map((fk) => (
+                                      <div key={fk.name} className="flex items-center gap-2 text-sm text-slate-700 dark:text-slate-300">
+                                        <Link2 className="w-3.5 h-3.5 text-blue-500" />
+                                        <span className="font-mono text-xs">
+                                          ({fk.columns.join(', ')}) → {qualifiedName({ schema: fk.referencedSchema, name: fk.referencedTable })}
+                                          ({fk.referencedColumns.join(', ')})
+                                        </span>
+                                      </div>
+                                    ))}
+                                  </div>
+                                )}
+
+                                {/* Indexes */}
+                                {table.indexes.length > 0 && (
+                                  <div className="space-y-1">
+                                    <p className="text-xs font-semibold uppercase text-slate-500">Indexes</p>
+                                    {table.indexes.map((index) => (
+                                      <div key={index.name} className="flex items-center gap-2 text-sm text-slate-700 dark:text-slate-300">
+                                        <Hash className="w-3.5 h-3.5 text-slate-400" />
+                                        <span className="font-mono text-xs">{index.name}</span>
+                                        <span className="font-mono text-xs text-slate-500">({index.columns.join(', ')})</span>
+                                        {index.primary ? (
+                                          <span className="px-1.5 py-0.5 text-[10px] rounded bg-amber-100 dark:bg-amber-900/30 text-amber-700 dark:text-amber-400">
+                                            PRIMARY
+                                          </span>
+                                        ) : index.unique && (
+                                          <span className="px-1.5 py-0.5 text-[10px] rounded bg-blue-100 dark:bg-blue-900/30 text-blue-700 dark:text-blue-400">
+                                            UNIQUE
+                                          </span>
+                                        )}
+                                      </div>
+                                    ))}
+                                  </div>
+                                )}
+                              </motion.div>
+                            )}
+                          </AnimatePresence>
+                        </div>
+                      );
+                    })}
+                  </div>
+                )}
+              </div>
+            ))}
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
@@ -21,6 +21,7 @@ import {
   Ban,
   Code2,
   FileText,
+  ListTree,
 } from 'lucide-react';
 import { toast } from 'sonner';
 
@@ -399,6 +400,15 @@ export default function VectorsPage() {
               </div>
             </div>
             <div className="flex items-center gap-3">
+              <motion.button
+                whileHover={{ scale: 1.02 }}
+                whileTap={{ scale: 0.98 }}
+                onClick={() => router.push(`/databases/${databaseId}/schema`)}
+                className="flex items-center gap-2 px-5 py-3 bg-white dark:bg-slate-800 hover:bg-slate-50 dark:hover:bg-slate-700 border border-slate-200 dark:border-slate-700 rounded-xl font-semibold transition-all"
+              >
+                <ListTree className="w-5 h-5" />
+                Schema
+              </motion.button>
               <motion.button
                 whileHover={{ scale: 1.02 }}
                 whileTap={{ scale: 0.98 }}
@@ -3,7 +3,7 @@
 import { useState, useEffect } from 'react';
 import { useRouter } from 'next/navigation';
 import { motion, AnimatePresence } from 'framer-motion';
-import { Plus, Database as DatabaseIcon, Trash2, Loader2, CheckCircle, XCircle, AlertCircle, RefreshCw, Plug, Shield, X, MoreVertical, Edit2, Eye } from 'lucide-react';
+import { Plus, Database as DatabaseIcon, Trash2, Loader2, CheckCircle, XCircle, AlertCircle, RefreshCw, Plug, Shield, X, MoreVertical, Edit2, Eye, ListTree, GitCompare, History, Ban, CalendarClock, Pause, Play } from 'lucide-react';
 import { toast } from 'sonner';
 
 interface Database {
@@ -15,6 +15,8 @@ interface Database {
   syncStatus: 'synced' | 'yet_to_sync' | 'syncing' | 'error';
   syncLastAt?: string;
   lastConnectionTest?: string;
+  schemaDrift?: SchemaDriftReport;
+  syncSchedule?: SyncSchedule;
   connectionId: {
     _id: string;
     name: string;
@@ -27,6 +29,54 @@ interface Database {
   };
 }
 
+interface SchemaDriftReport {
+  checkedAt: string;
+  hasDrift: boolean;
+  liveTableCount: number;
+  storedTableCount: number;
+  addedTables: string[];
+  removedTables: string[];
+  changedTables: Array<{
+    table: string;
+    addedColumns: string[];
+    removedColumns: string[];
+    changedColumns: Array<{ name: string; storedType: string; liveType: string }>;
+  }>;
+}
+
+interface SyncSchedule {
+  enabled: boolean;
+  type: 'interval' | 'cron';
+  intervalMinutes?: number;
+  cronExpression?: string;
+  forceRegenerate: boolean;
+  nextRunAt?: string;
+  lastRunAt?: string;
+}
+
+interface SyncJob {
+  _id: string;
+  status: 'queued' | 'running' | 'succeeded' | 'failed' | 'cancelled';
+  progress: number;
+  progressMessage?: string;
+  forceRegenerate: boolean;
+  trigger: 'manual' | 'scheduled';
+  attempts: number;
+  maxAttempts: number;
+  nextRunAt: string;
+  startedAt?: string;
+  finishedAt?: string;
+  errorMessage?: string;
+  result?: {
+    tablesProcessed?: number;
+    embeddingsCreated?: number;
+  };
+  requestedBy?: {
+    name: string;
+  };
+  createdAt: string;
+}
+
 interface Connection {
   _id: string;
   name: string;
@@ -67,6 +117,19 @@ export default function DatabasesPage() {
   const [availableDatabases, setAvailableDatabases] = useState<any[]>([]);
   const [testingIds, setTestingIds] = useState<Set<string>>(new Set());
   const [syncingIds, setSyncingIds] = useState<Set<string>>(new Set());
+  const [checkingDriftIds, setCheckingDriftIds] = useState<Set<string>>(new Set());
+  const [driftDatabase, setDriftDatabase] = useState<Database | null>(null);
+  const [historyDatabase, setHistoryDatabase] = useState<Database | null>(null);
+  const [syncJobs, setSyncJobs] = useState<SyncJob[]>([]);
+  const [isLoadingJobs, setIsLoadingJobs] = useState(false);
+  const [scheduleDatabase, setScheduleDatabase] = useState<Database | null>(null);
+  const [isSavingSchedule, setIsSavingSchedule] = useState(false);
+  const [scheduleForm, setScheduleForm] = useState({
+    type: 'interval' as SyncSchedule['type'],
+    intervalMinutes: 1440,
+    cronExpression: '0 2 * * *',
+    forceRegenerate: false,
+  });
   const [openMenuId, setOpenMenuId] = useState<string | null>(null);
   const [menuPosition, setMenuPosition] = useState<{ top: number; left: number } | null>(null);
   const [editingDatabase, setEditingDatabase] = useState<Database | null>(null);
@@ -109,6 +172,22 @@ export default function DatabasesPage() {
     };
   }, []);
 
+  // Keep refreshing while any sync is queued or running in the background
+  useEffect(() => {
+    if (!databases.some((database) => database.syncStatus === 'syncing')) return;
+
+    const timeout = setTimeout(fetchDatabases, 3000);
+    return () => clearTimeout(timeout);
+  }, [databases]);
+
+  // Refresh the open sync history while it has active jobs
+  useEffect(() => {
+    if (!historyDatabase || !syncJobs.some((job) => job.status === 'queued' || job.status === 'running')) return;
+
+    const timeout = setTimeout(() => fetchSyncJobs(historyDatabase._id), 3000);
+    return () => clearTimeout(timeout);
+  }, [historyDatabase, syncJobs]);
+
   const fetchDatabases = async () => {
     try {
       const response = await fetch('/api/databases');
@@ -250,15 +329,10 @@ export default function DatabasesPage() {
 
       if (response.ok) {
         const message = forceRegenerate
-          ? 'Force re-sync completed successfully!'
-          : data.message || 'Sync started successfully!';
+          ? 'Force re-sync queued'
+          : data.message || 'Sync queued';
         toast.success(message);
         fetchDatabases();
-        // Poll for updates
-        const interval = setInterval(() => {
-          fetchDatabases();
-        }, 2000);
-        setTimeout(() => clearInterval(interval), 10000);
       } else {
         toast.error(data.error || 'Sync failed');
       }
@@ -273,6 +347,166 @@ export default function DatabasesPage() {
     }
   };
 
+  const handleCheckDrift = async (database: Database) => {
+    setCheckingDriftIds(prev => new Set(prev).add(database._id));
+
+    try {
+      const response = await fetch(`/api/databases/${database._id}/drift`, {
+        method: 'POST',
+      });
+
+      const data = await response.json();
+
+      if (response.ok) {
+        const report: SchemaDriftReport = data.data.drift;
+        if (report.hasDrift) {
+          toast.warning('Schema drift detected - re-sync recommended');
+          setDriftDatabase({ ...database, schemaDrift: report, syncStatus: data.data.syncStatus });
+        } else {
+          toast.success('Embeddings match the live schema');
+        }
+        fetchDatabases();
+      } else {
+        toast.error(data.error || 'Drift check failed');
+      }
+    } catch (error) {
+      toast.error('Failed to check schema drift');
+    } finally {
+      setCheckingDriftIds(prev => {
+        const newSet = new Set(prev);
+        newSet.delete(database._id);
+        return newSet;
+      });
+    }
+  };
+
+  const fetchSyncJobs = async (databaseId: string) => {
+    try {
+      const response = await fetch(`/api/databases/${databaseId}/sync-jobs`);
+      if (response.ok) {
+        const data = await response.json();
+        setSyncJobs(data.data.jobs || []);
+      }
+    } catch (error) {
+      console.error('Failed to fetch sync jobs:', error);
+    } finally {
+      setIsLoadingJobs(false);
+    }
+  };
+
+  const handleShowHistory = (database: Database) => {
+    setHistoryDatabase(database);
+    setSyncJobs([]);
+    setIsLoadingJobs(true);
+    fetchSyncJobs(database._id);
+  };
+
+  const handleCancelJob = async (databaseId: string, jobId: string) => {
+    try {
+      const response = await fetch(`/api/databases/${databaseId}/sync-jobs/${jobId}/cancel`, {
+        method: 'POST',
+      });
+
+      const data = await response.json();
+
+      if (response.ok) {
+        toast.success('Sync cancelled');
+        fetchSyncJobs(databaseId);
+        fetchDatabases();
+      } else {
+        toast.error(data.error || 'Failed to cancel sync');
+      }
+    } catch (error) {
+      toast.error('Failed to cancel sync');
+    }
+  };
+
+  const handleEditSchedule = (database: Database) => {
+    const schedule = database.syncSchedule;
+    setScheduleForm({
+      type: schedule?.type || 'interval',
+      intervalMinutes: schedule?.intervalMinutes || 1440,
+      cronExpression: schedule?.cronExpression || '0 2 * * *',
+      forceRegenerate: schedule?.forceRegenerate || false,
+    });
+    setScheduleDatabase(database);
+  };
+
+  const saveSchedule = async (databaseId: string, schedule: Omit<SyncSchedule, 'nextRunAt' | 'lastRunAt'>) => {
+    const response = await fetch(`/api/databases/${databaseId}/sync-schedule`, {
+      method: 'PUT',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        enabled: schedule.enabled,
+        type: schedule.type,
+        forceRegenerate: schedule.forceRegenerate,
+        ...(schedule.type === 'interval'
+          ? { intervalMinutes: schedule.intervalMinutes }
+          : { cronExpression: schedule.cronExpression }),
+      }),
+    });
+
+    const data = await response.json();
+
+    if (response.ok) {
+      toast.success(data.message || 'Sync schedule saved');
+      fetchDatabases();
+      return true;
+    }
+
+    toast.error(data.error || 'Failed to save sync schedule');
+    return false;
+  };
+
+  const handleSaveSchedule = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!scheduleDatabase) return;
+
+    setIsSavingSchedule(true);
+    try {
+      const saved = await saveSchedule(scheduleDatabase._id, { ...scheduleForm, enabled: true });
+      if (saved) setScheduleDatabase(null);
+    } catch (error) {
+      toast.error('Failed to save sync schedule');
+    } finally {
+      setIsSavingSchedule(false);
+    }
+  };
+
+  const handleToggleSchedule = async (database: Database) => {
+    if (!database.syncSchedule) return;
+
+    try {
+      await saveSchedule(database._id, {
+        ...database.syncSchedule,
+        enabled: !database.syncSchedule.enabled,
+      });
+    } catch (error) {
+      toast.error('Failed to update sync schedule');
+    }
+  };
+
+  const handleRemoveSchedule = async (databaseId: string) => {
+    if (!confirm('Remove the automatic sync schedule for this database?')) return;
+
+    try {
+      const response = await fetch(`/api/databases/${databaseId}/sync-schedule`, {
+        method: 'DELETE',
+      });
+
+      if (response.ok) {
+        toast.success('Sync schedule removed');
+        setScheduleDatabase(null);
+        fetchDatabases();
+      } else {
+        const data = await response.json();
+        toast.error(data.error || 'Failed to remove sync schedule');
+      }
+    } catch (error) {
+      toast.error('Failed to remove sync schedule');
+    }
+  };
+
   const handleDelete = async (id: string) => {
     if (!confirm('Are you sure you want to delete this database?')) {
       return;
@@ -650,6 +884,36 @@ export default function DatabasesPage() {
                       {database.syncLastAt && (
                         <>Last synced: {new Date(database.syncLastAt).toLocaleDateString()}</>
                       )}
+                      {database.schemaDrift?.hasDrift && (
+                        <button
+                          onClick={() => setDriftDatabase(database)}
+                          className="ml-2 inline-flex items-center gap-1 text-amber-600 dark:text-amber-400 hover:underline"
+                        >
+                          <GitCompare className="w-3.5 h-3.5" />
+                          Schema drift
+                        </button>
+                      )}
+                      {database.syncSchedule && (
+                        <div className="flex items-center gap-1 mt-1">
+                          <CalendarClock className="w-3.5 h-3.5" />
+                          {database.syncSchedule.enabled && database.syncSchedule.nextRunAt ? (
+                            <>Next sync: {new Date(database.syncSchedule.nextRunAt).toLocaleString()}</>
+                          ) : (
+                            <>Schedule paused</>
+                          )}
+                          <button
+                            onClick={() => handleToggleSchedule(database)}
+                            className="p-0.5 hover:text-blue-600 dark:hover:text-blue-400 transition-colors"
+                            title={database.syncSchedule.enabled ? 'Pause schedule' : 'Resume schedule'}
+                          >
+                            {database.syncSchedule.enabled ? (
+                              <Pause className="w-3.5 h-3.5" />
+                            ) : (
+                              <Play className="w-3.5 h-3.5" />
+                            )}
+                          </button>
+                        </div>
+                      )}
                     </div>
                   </div>
 
@@ -723,6 +987,40 @@ export default function DatabasesPage() {
                       <Shield className="w-4 h-4" />
                       Manage Access
                     </button>
+                    <button
+                      onClick={() => handleCheckDrift(database)}
+                      disabled={
+                        database.connectionStatus !== 'connected' ||
+                        checkingDriftIds.has(database._id) ||
+                        database.syncStatus === 'syncing' ||
+                        database.syncStatus === 'yet_to_sync'
+                      }
+                      className="flex items-center gap-2 px-3 py-1.5 bg-amber-50 dark:bg-amber-900/20 hover:bg-amber-100 dark:hover:bg-amber-900/30 text-amber-600 dark:text-amber-400 rounded-lg text-sm font-medium transition-colors disabled:opacity-50"
+                      title="Compare the live schema with the synced embeddings"
+                    >
+                      {checkingDriftIds.has(database._id) ? (
+                        <Loader2 className="w-4 h-4 animate-spin" />
+                      ) : (
+                        <GitCompare className="w-4 h-4" />
+                      )}
+                      Check Drift
+                    </button>
+                    <button
+                      onClick={() => handleShowHistory(database)}
+                      className="flex items-center gap-2 px-3 py-1.5 bg-slate-100 dark:bg-slate-800 hover:bg-slate-200 dark:hover:bg-slate-700 text-slate-600 dark:text-slate-300 rounded-lg text-sm font-medium transition-colors"
+                      title="Sync job history"
+                    >
+                      <History className="w-4 h-4" />
+                      History
+                    </button>
+                    <button
+                      onClick={() => handleEditSchedule(database)}
+                      className="flex items-center gap-2 px-3 py-1.5 bg-slate-100 dark:bg-slate-800 hover:bg-slate-200 dark:hover:bg-slate-700 text-slate-600 dark:text-slate-300 rounded-lg text-sm font-medium transition-colors"
+                      title="Automatic sync schedule"
+                    >
+                      <CalendarClock className="w-4 h-4" />
+                      Schedule
+                    </button>
                     <button
                       onClick={() => router.push(`/databases/${database._id}/vectors`)}
                       disabled={database.syncStatus !== 'synced'}
@@ -732,6 +1030,14 @@ export default function DatabasesPage() {
                       <Eye className="w-4 h-4" />
                       View Data
                     </button>
+                    <button
+                      onClick={() => router.push(`/databases/${database._id}/schema`)}
+                      className="flex items-center gap-2 px-3 py-1.5 bg-sky-50 dark:bg-sky-900/20 hover:bg-sky-100 dark:hover:bg-sky-900/30 text-sky-600 dark:text-sky-400 rounded-lg text-sm font-medium transition-colors"
+                      title="Browse tables, columns, keys and indexes"
+                    >
+                      <ListTree className="w-4 h-4" />
+                      Schema
+                    </button>
                   </div>
                 </div>
 
@@ -757,6 +1063,395 @@ export default function DatabasesPage() {
         </div>
       )}
 
+      {/* Sync Schedule Modal */}
+      <AnimatePresence>
+        {scheduleDatabase && (
+          <motion.div
+            initial={{ opacity: 0 }}
+            animate={{ opacity: 1 }}
+            exit={{ opacity: 0 }}
+            className="fixed inset-0 bg-black/50 backdrop-blur-sm flex items-center justify-center p-4 z-50"
+            onClick={() => setScheduleDatabase(null)}
+          >
+            <motion.div
+              initial={{ scale: 0.95, opacity: 0 }}
+              animate={{ scale: 1, opacity: 1 }}
+              exit={{ scale: 0.95, opacity: 0 }}
+              className="bg-white dark:bg-slate-900 rounded-2xl p-6 max-w-lg w-full max-h-[90vh] overflow-y-auto border border-slate-200 dark:border-slate-800"
+              onClick={(e) => e.stopPropagation()}
+            >
+              {/* Modal Header */}
+              <div className="flex items-center justify-between mb-6 pb-4 border-b border-slate-200 dark:border-slate-800">
+                <div>
+                  <h2 className="text-2xl font-bold text-slate-900 dark:text-white">
+                    Sync Schedule
+                  </h2>
+                  <p className="text-sm text-slate-600 dark:text-slate-400 mt-1">
+                    {scheduleDatabase.displayName || scheduleDatabase.databaseName}
+                  </p>
+                </div>
+                <button
+                  onClick={() => setScheduleDatabase(null)}
+                  className="p-2 hover:bg-slate-100 dark:hover:bg-slate-800 rounded-lg transition-colors"
+                >
+                  <X className="w-5 h-5" />
+                </button>
+              </div>
+
+              <form onSubmit={handleSaveSchedule} className="space-y-4">
+                <div>
+                  <label className="block text-sm font-medium text-slate-700 dark:text-slate-300 mb-2">
+                    Run
+                  </label>
+                  <div className="flex gap-2">
+                    <button
+                      type="button"
+                      onClick={() => setScheduleForm({ ...scheduleForm, type: 'interval' })}
+                      className={`flex-1 px-4 py-2 rounded-lg font-medium transition-all ${
+                        scheduleForm.type === 'interval'
+                          ? 'bg-blue-600 text-white'
+                          : 'bg-slate-100 dark:bg-slate-800 text-slate-700 dark:text-slate-300 hover:bg-slate-200 dark:hover:bg-slate-700'
+                      }`}
+                    >
+                      Every interval
+                    </button>
+                    <button
+                      type="button"
+                      onClick={() => setScheduleForm({ ...scheduleForm, type: 'cron' })}
+                      className={`flex-1 px-4 py-2 rounded-lg font-medium transition-all ${
+                        scheduleForm.type === 'cron'
+                          ? 'bg-blue-600 text-white'
+                          : 'bg-slate-100 dark:bg-slate-800 text-slate-700 dark:text-slate-300 hover:bg-slate-200 dark:hover:bg-slate-700'
+                      }`}
+                    >
+                      Cron expression
+                    </button>
+                  </div>
+                </div>
+
+                {scheduleForm.type === 'interval' ? (
+                  <div>
+                    <label className="block text-sm font-medium text-slate-700 dark:text-slate-300 mb-2">
+                      Interval (minutes)
+                    </label>
+                    <input
+                      type="number"
+                      min={5}
+                      value={scheduleForm.intervalMinutes}
+                      onChange={(e) => setScheduleForm({ ...scheduleForm, intervalMinutes: parseInt(e.target.value) || 0 })}
+                      className="w-full px-4 py-2.5 bg-white dark:bg-slate-800 border border-slate-300 dark:border-slate-700 rounded-xl focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                      required
+                    />
+                  </div>
+                ) : (
+                  <div>
+                    <label className="block text-sm font-medium text-slate-700 dark:text-slate-300 mb-2">
+                      Cron expression (UTC)
+                    </label>
+                    <input
+                      type="text"
+                      value={scheduleForm.cronExpression}
+                      onChange={(e) => setScheduleForm({ ...scheduleForm, cronExpression: e.target.value })}
+                      placeholder="0 2 * * *"
+                      className="w-full px-4 py-2.5 bg-white dark:bg-slate-800 border border-slate-300 dark:border-slate-700 rounded-xl font-mono focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                      required
+                    />
+                    <p className="text-xs text-slate-500 dark:text-slate-400 mt-1">
+                      minute hour day month weekday, e.g. 0 2 * * * runs daily at 02:00 UTC
+                    </p>
+                  </div>
+                )}
+
+                <label className="flex items-center gap-2 text-sm text-slate-700 dark:text-slate-300">
+                  <input
+                    type="checkbox"
+                    checked={scheduleForm.forceRegenerate}
+                    onChange={(e) => setScheduleForm({ ...scheduleForm, forceRegenerate: e.target.checked })}
+                    className="rounded border-slate-300 dark:border-slate-700"
+                  />
+                  Regenerate all embeddings on each run (force re-sync)
+                </label>
+
+                {scheduleDatabase.syncSchedule && (
+                  <div className="text-xs text-slate-500 dark:text-slate-400 space-y-0.5">
+                    <p>
+                      Next run:{' '}
+                      {scheduleDatabase.syncSchedule.enabled && scheduleDatabase.syncSchedule.nextRunAt
+                        ? new Date(scheduleDatabase.syncSchedule.nextRunAt).toLocaleString()
+                        : 'paused'}
+                    </p>
+                    {scheduleDatabase.syncSchedule.lastRunAt && (
+                      <p>Last run: {new Date(scheduleDatabase.syncSchedule.lastRunAt).toLocaleString()}</p>
+                    )}
+                  </div>
+                )}
+
+                <div className="flex gap-3 pt-2">
+                  {scheduleDatabase.syncSchedule && (
+                    <button
+                      type="button"
+                      onClick={() => handleRemoveSchedule(scheduleDatabase._id)}
+                      className="px-4 py-2.5 text-red-600 dark:text-red-400 hover:bg-red-50 dark:hover:bg-red-900/30 rounded-xl font-medium transition-colors"
+                    >
+                      Remove
+                    </button>
+                  )}
+                  <button
+                    type="submit"
+                    disabled={isSavingSchedule}
+                    className="flex-1 flex items-center justify-center gap-2 px-4 py-2.5 bg-gradient-to-r from-blue-600 to-indigo-600 hover:from-blue-700 hover:to-indigo-700 text-white rounded-xl font-semibold disabled:opacity-50 disabled:cursor-not-allowed transition-all"
+                  >
+                    {isSavingSchedule && <Loader2 className="w-4 h-4 animate-spin" />}
+                    Save Schedule
+                  </button>
+                </div>
+              </form>
+            </motion.div>
+          </motion.div>
+        )}
+      </AnimatePresence>
+
+      {/* Sync History Modal */}
+      <AnimatePresence>
+        {historyDatabase && (
+          <motion.div
+            initial={{ opacity: 0 }}
+            animate={{ opacity: 1 }}
+            exit={{ opacity: 0 }}
+            className="fixed inset-0 bg-black/50 backdrop-blur-sm flex items-center justify-center p-4 z-50"
+            onClick={() => setHistoryDatabase(null)}
+          >
+            <motion.div
+              initial={{ scale: 0.95, opacity: 0 }}
+              animate={{ scale: 1, opacity: 1 }}
+              exit={{ scale: 0.95, opacity: 0 }}
+              className="bg-white dark:bg-slate-900 rounded-2xl p-6 max-w-3xl w-full max-h-[90vh] overflow-y-auto border border-slate-200 dark:border-slate-800"
+              onClick={(e) => e.stopPropagation()}
+            >
+              {/* Modal Header */}
+              <div className="flex items-center justify-between mb-6 pb-4 border-b border-slate-200 dark:border-slate-800">
+                <div>
+                  <h2 className="text-2xl font-bold text-slate-900 dark:text-white">
+                    Sync History
+                  </h2>
+                  <p className="text-sm text-slate-600 dark:text-slate-400 mt-1">
+                    {historyDatabase.displayName || historyDatabase.databaseName}
+                  </p>
+                </div>
+                <button
+                  onClick={() => setHistoryDatabase(null)}
+                  className="p-2 hover:bg-slate-100 dark:hover:bg-slate-800 rounded-lg transition-colors"
+                >
+                  <X className="w-5 h-5" />
+                </button>
+              </div>
+
+              {isLoadingJobs ? (
+                <div className="flex items-center justify-center py-12">
+                  <Loader2 className="w-8 h-8 animate-spin text-blue-500" />
+                </div>
+              ) : syncJobs.length === 0 ? (
+                <p className="text-sm text-slate-500 dark:text-slate-400 py-4">
+                  No sync jobs yet
+                </p>
+              ) : (
+                <div className="space-y-3">
+                  {syncJobs.map((job) => {
+                    const isActive = job.status === 'queued' || job.status === 'running';
+
+                    return (
+                      <div key={job._id} className="p-4 bg-slate-50 dark:bg-slate-800/50 rounded-lg">
+                        <div className="flex items-center justify-between gap-3">
+                          <div className="flex items-center gap-3">
+                            <span className={`px-2 py-1 rounded text-xs font-medium capitalize ${
+                              job.status === 'succeeded'
+                                ? 'bg-green-100 dark:bg-green-900/30 text-green-700 dark:text-green-300'
+                                : job.status === 'failed'
+                                  ? 'bg-red-100 dark:bg-red-900/30 text-red-700 dark:text-red-300'
+                                  : job.status === 'cancelled'
+                                    ? 'bg-slate-200 dark:bg-slate-700 text-slate-700 dark:text-slate-300'
+                                    : 'bg-blue-100 dark:bg-blue-900/30 text-blue-700 dark:text-blue-300'
+                            }`}>
+                              {job.status}
+                            </span>
+                            <span className="text-sm text-slate-700 dark:text-slate-300">
+                              {job.forceRegenerate ? 'Force re-sync' : 'Sync'}
+                              {job.trigger === 'scheduled' ? <> (scheduled)</> : job.requestedBy && <> by {job.requestedBy.name}</>}
+                            </span>
+                          </div>
+                          <div className="flex items-center gap-3">
+                            <span className="text-xs text-slate-500 dark:text-slate-400">
+                              {new Date(job.createdAt).toLocaleString()}
+                            </span>
+                            {isActive && (
+                              <button
+                                onClick={() => handleCancelJob(historyDatabase._id, job._id)}
+                                className="flex items-center gap-1 px-2 py-1 text-xs text-red-600 dark:text-red-400 hover:bg-red-50 dark:hover:bg-red-900/30 rounded transition-colors"
+                              >
+                                <Ban className="w-3.5 h-3.5" />
+                                Cancel
+                              </button>
+                            )}
+                          </div>
+                        </div>
+
+                        {isActive && (
+                          <div className="mt-3">
+                            <div className="h-2 bg-slate-200 dark:bg-slate-700 rounded-full overflow-hidden">
+                              <div
+                                className="h-full bg-gradient-to-r from-blue-600 to-indigo-600 transition-all"
+                                style={{ width: `${job.progress}%` }}
+                              />
+                            </div>
+                          </div>
+                        )}
+
+                        <div className="mt-2 text-xs text-slate-500 dark:text-slate-400 space-y-0.5">
+                          {job.progressMessage && <p>{job.progressMessage}</p>}
+                          <p>
+                            Attempt {job.attempts}/{job.maxAttempts}
+                            {job.finishedAt && job.startedAt && (
+                              <> · took {Math.round((new Date(job.finishedAt).getTime() - new Date(job.startedAt).getTime()) / 1000)}s</>
+                            )}
+                            {job.result && (
+                              <> · {job.result.tablesProcessed ?? 0} tables, {job.result.embeddingsCreated ?? 0} embeddings</>
+                            )}
+                          </p>
+                          {job.errorMessage && job.status !== 'succeeded' && (
+                            <p className="text-red-600 dark:text-red-400">{job.errorMessage}</p>
+                          )}
+                        </div>
+                      </div>
+                    );
+                  })}
+                </div>
+              )}
+            </motion.div>
+          </motion.div>
+        )}
+      </AnimatePresence>
+
+      {/* Schema Drift Modal */}
+      <AnimatePresence>
+        {driftDatabase?.schemaDrift && (
+          <motion.div
+            initial={{ opacity: 0 }}
+            animate={{ opacity: 1 }}
+            exit={{ opacity: 0 }}
+            className="fixed inset-0 bg-black/50 backdrop-blur-sm flex items-center justify-center p-4 z-50"
+            onClick={() => setDriftDatabase(null)}
+          >
+            <motion.div
+              initial={{ scale: 0.95, opacity: 0 }}
+              animate={{ scale: 1, opacity: 1 }}
+              exit={{ scale: 0.95, opacity: 0 }}
+              className="bg-white dark:bg-slate-900 rounded-2xl p-6 max-w-3xl w-full max-h-[90vh] overflow-y-auto border border-slate-200 dark:border-slate-800"
+              onClick={(e) => e.stopPropagation()}
+            >
+              {/* Modal Header */}
+              <div className="flex items-center justify-between mb-6 pb-4 border-b border-slate-200 dark:border-slate-800">
+                <div>
+                  <h2 className="text-2xl font-bold text-slate-900 dark:text-white">
+                    Schema Drift
+                  </h2>
+                  <p className="text-sm text-slate-600 dark:text-slate-400 mt-1">
+                    {driftDatabase.displayName || driftDatabase.databaseName} · checked{' '}
+                    {new Date(driftDatabase.schemaDrift.checkedAt).toLocaleString()} ·{' '}
+                    {driftDatabase.schemaDrift.liveTableCount} live / {driftDatabase.schemaDrift.storedTableCount} embedded tables
+                  </p>
+                </div>
+                <button
+                  onClick={() => setDriftDatabase(null)}
+                  className="p-2 hover:bg-slate-100 dark:hover:bg-slate-800 rounded-lg transition-colors"
+                >
+                  <X className="w-5 h-5" />
+                </button>
+              </div>
+
+              <div className="space-y-6">
+                {driftDatabase.schemaDrift.addedTables.length > 0 && (
+                  <div>
+                    <h3 className="text-sm font-semibold text-green-700 dark:text-green-400 mb-2">
+                      New tables (not embedded)
+                    </h3>
+                    <div className="flex flex-wrap gap-2">
+                      {driftDatabase.schemaDrift.addedTables.map((table) => (
+                        <span key={table} className="px-2 py-1 rounded bg-green-50 dark:bg-green-900/20 text-green-700 dark:text-green-300 text-xs font-mono">
+                          + {table}
+                        </span>
+                      ))}
+                    </div>
+                  </div>
+                )}
+
+                {driftDatabase.schemaDrift.removedTables.length > 0 && (
+                  <div>
+                    <h3 className="text-sm font-semibold text-red-700 dark:text-red-400 mb-2">
+                      Dropped tables (still embedded)
+                    </h3>
+                    <div className="flex flex-wrap gap-2">
+                      {driftDatabase.schemaDrift.removedTables.map((table) => (
+                        <span key={table} className="px-2 py-1 rounded bg-red-50 dark:bg-red-900/20 text-red-700 dark:text-red-300 text-xs font-mono">
+                          − {table}
+                        </span>
+                      ))}
+                    </div>
+                  </div>
+                )}
+
+                {driftDatabase.schemaDrift.changedTables.length > 0 && (
+                  <div>
+                    <h3 className="text-sm font-semibold text-amber-700 dark:text-amber-400 mb-2">
+                      Changed tables
+                    </h3>
+                    <div className="space-y-2">
+                      {driftDatabase.schemaDrift.changedTables.map((change) => (
+                        <div key={change.table} className="p-3 bg-slate-50 dark:bg-slate-800/50 rounded-lg text-sm">
+                          <p className="font-medium font-mono text-slate-900 dark:text-white mb-1">{change.table}</p>
+                          <div className="space-y-0.5 font-mono text-xs">
+                            {change.addedColumns.map((column) => (
+                              <p key={`+${column}`} className="text-green-700 dark:text-green-400">+ {column}</p>
+                            ))}
+                            {change.removedColumns.map((column) => (
+                              <p key={`-${column}`} className="text-red-700 dark:text-red-400">− {column}</p>
+                            ))}
+                            {change.changedColumns.map((column) => (
+                              <p key={`~${column.name}`} className="text-amber-700 dark:text-amber-400">
+                                ~ {column.name}: {column.storedType} → {column.liveType}
+                              </p>
+                            ))}
+                          </div>
+                        </div>
+                      ))}
+                    </div>
+                  </div>
+                )}
+
+                <div className="flex justify-end gap-3 pt-4 border-t border-slate-200 dark:border-slate-800">
+                  <button
+                    onClick={() => setDriftDatabase(null)}
+                    className="px-4 py-2.5 bg-slate-100 dark:bg-slate-800 hover:bg-slate-200 dark:hover:bg-slate-700 text-slate-700 dark:text-slate-300 rounded-xl font-medium transition-colors"
+                  >
+                    Close
+                  </button>
+                  <button
+                    onClick={() => {
+                      handleSync(driftDatabase._id, false);
+                      setDriftDatabase(null);
+                    }}
+                    disabled={driftDatabase.connectionStatus !== 'connected'}
+                    className="flex items-center gap-2 px-4 py-2.5 bg-gradient-to-r from-blue-600 to-indigo-600 hover:from-blue-700 hover:to-indigo-700 text-white rounded-xl font-semibold disabled:opacity-50 transition-all"
+                  >
+                    <RefreshCw className="w-4 h-4" />
+                    Re-sync Now
+                  </button>
+                </div>
+              </div>
+            </motion.div>
+          </motion.div>
+        )}
+      </AnimatePresence>
+
       {/* Access Management Modal */}
       <AnimatePresence>
         {showAccessModal && selectedDatabase && (
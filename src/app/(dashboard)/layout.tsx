@@ -18,6 +18,7 @@ import {
   Key,
 } from 'lucide-react';
 import { Logo } from '@/components/Logo';
+import NotificationCenter from '@/components/NotificationCenter';
 import { useEffect, useState } from 'react';
 
 interface Chat {
@@ -280,6 +281,7 @@ export default function DashboardLayout({
 
           {/* User section */}
           <div className="pt-6 border-t border-slate-200/50 dark:border-slate-800/50">
+            <NotificationCenter />
             <Link href="/settings">
               <motion.div
                 whileHover={{ x: 4 }}
@@ -4,9 +4,18 @@ import { useState, useEffect } from 'react';
 import { useParams, useRouter } from 'next/navigation';
 import Link from 'next/link';
 import { motion, AnimatePresence } from 'framer-motion';
-import { Plus, Key, Trash2, Copy, Check, X, Eye, EyeOff, AlertCircle, ChevronRight, Users, ArrowLeft } from 'lucide-react';
+import { Plus, Key, Trash2, Copy, Check, X, Eye, EyeOff, AlertCircle, ChevronRight, Users, ArrowLeft, RefreshCw } from 'lucide-react';
 import { toast } from 'sonner';
 import { formatDistanceToNow } from 'date-fns';
+import { API_KEY_SCOPES, API_KEY_SCOPE_DESCRIPTIONS, type ApiKeyScope, type UsageLimitsInput } from '@/lib/validation';
+import UsageLimitsFields, {
+  EMPTY_USAGE_LIMITS,
+  describeUsageLimits,
+  formToUsageLimits,
+  type UsageLimitsForm,
+} from '@/components/UsageLimitsFields';
+import ApiKeyUsagePanel from '@/components/ApiKeyUsagePanel';
+import type { RotationKeyUsage } from '@/lib/api-key-usage-stats';
 
 interface ApiKey {
   _id: string;
@@ -24,13 +33,39 @@ interface ApiKey {
   lastUsedAt?: string;
   usageCount: number;
   isActive: boolean;
+  permissions: string[];
+  databaseIds: ({ _id: string; databaseName: string; displayName?: string } | null)[];
+  allowedCidrs: string[];
+  limits?: UsageLimitsInput;
+  rejectedCount: number;
+  rejectedAttempts: { at: string; ipAddress: string; reason: string }[];
+  rotatedFromId?: string;
+  rotatedToId?: string;
+  graceEndsAt?: string;
+  rotation?: { rotatedAt: string; oldKey: RotationKeyUsage; newKey: RotationKeyUsage } | null;
   createdAt: string;
 }
 
+const GRACE_PERIOD_OPTIONS = [
+  { hours: 0, label: 'None (revoke the old key now)' },
+  { hours: 1, label: '1 hour' },
+  { hours: 24, label: '24 hours' },
+  { hours: 72, label: '3 days' },
+  { hours: 168, label: '7 days' },
+  { hours: 720, label: '30 days' },
+];
+
+interface TeamDatabase {
+  id: string;
+  databaseName: string;
+  displayName?: string;
+}
+
 interface Team {
   _id: string;
   name: string;
   description?: string;
+  databases?: TeamDatabase[];
 }
 
 export default function TeamApiKeysPage() {
@@ -43,9 +78,22 @@ export default function TeamApiKeysPage() {
   const [isLoading, setIsLoading] = useState(true);
   const [showCreateModal, setShowCreateModal] = useState(false);
   const [newApiKey, setNewApiKey] = useState<{key: string; details: ApiKey} | null>(null);
-  const [formData, setFormData] = useState({
+  const [rotatingKey, setRotatingKey] = useState<ApiKey | null>(null);
+  const [gracePeriodHours, setGracePeriodHours] = useState(24);
+  const [formData, setFormData] = useState<{
+    name: string;
+    expiresInDays: number;
+    permissions: ApiKeyScope[];
+    databaseIds: string[];
+    allowedCidrs: string;
+    limits: UsageLimitsForm;
+  }>({
     name: '',
     expiresInDays: 90,
+    permissions: ['query:read'],
+    databaseIds: [],
+    allowedCidrs: '',
+    limits: EMPTY_USAGE_LIMITS,
   });
 
   useEffect(() => {
@@ -86,7 +134,14 @@ export default function TeamApiKeysPage() {
       const response = await fetch(`/api/teams/${teamId}/api-keys`, {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify(formData),
+        body: JSON.stringify({
+          ...formData,
+          allowedCidrs: formData.allowedCidrs
+            .split(/[\s,]+/)
+            .map((cidr) => cidr.trim())
+            .filter(Boolean),
+          limits: formToUsageLimits(formData.limits),
+        }),
       });
 
       const data = await response.json();
@@ -101,7 +156,14 @@ export default function TeamApiKeysPage() {
         });
         toast.success('API key created successfully!');
         setShowCreateModal(false);
-        setFormData({ name: '', expiresInDays: 90 });
+        setFormData({
+          name: '',
+          expiresInDays: 90,
+          permissions: ['query:read'],
+          databaseIds: [],
+          allowedCidrs: '',
+          limits: EMPTY_USAGE_LIMITS,
+        });
         fetchApiKeys();
       } else {
         toast.error(data.error || data.message || 'Failed to create API key');
@@ -112,6 +174,24 @@ export default function TeamApiKeysPage() {
     }
   };
 
+  const toggleScope = (scope: ApiKeyScope) => {
+    setFormData({
+      ...formData,
+      permissions: formData.permissions.includes(scope)
+        ? formData.permissions.filter((s) => s !== scope)
+        : [...formData.permissions, scope],
+    });
+  };
+
+  const toggleDatabase = (databaseId: string) => {
+    setFormData({
+      ...formData,
+      databaseIds: formData.databaseIds.includes(databaseId)
+        ? formData.databaseIds.filter((id) => id !== databaseId)
+        : [...formData.databaseIds, databaseId],
+    });
+  };
+
   const handleRevoke = async (keyId: string) => {
     if (!confirm('Are you sure you want to revoke this API key? This action cannot be undone.')) {
       return;
@@ -133,6 +213,36 @@ export default function TeamApiKeysPage() {
     }
   };
 
+  const handleRotate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!rotatingKey) return;
+
+    try {
+      const response = await fetch(`/api/teams/${teamId}/api-keys/${rotatingKey._id}/rotation`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ gracePeriodHours }),
+      });
+
+      const data = await response.json();
+
+      if (response.ok) {
+        setNewApiKey({
+          key: data.data.apiKey.fullKey,
+          details: data.data.apiKey,
+        });
+        toast.success('API key rotated successfully!');
+        setRotatingKey(null);
+        setGracePeriodHours(24);
+        fetchApiKeys();
+      } else {
+        toast.error(data.error || data.message || 'Failed to rotate API key');
+      }
+    } catch (error) {
+      toast.error('Failed to rotate API key');
+    }
+  };
+
   const copyToClipboard = async (text: string) => {
     try {
       await navigator.clipboard.writeText(text);
@@ -282,6 +392,9 @@ export default function TeamApiKeysPage() {
         </div>
       )}
 
+      {/* Usage */}
+      {apiKeys.length > 0 && <ApiKeyUsagePanel endpoint={`/api/teams/${teamId}/api-keys/usage`} />}
+
       {/* API Keys List */}
       <div className="space-y-4">
         {apiKeys.map((apiKey, index) => (
@@ -320,7 +433,15 @@ export default function TeamApiKeysPage() {
                 <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
                   <div>
                     <p className="text-xs text-slate-500 dark:text-slate-400 mb-1">Status</p>
-                    {apiKey.isActive && !isExpired(apiKey.expiresAt) ? (
+                    {apiKey.isActive && apiKey.graceEndsAt && !isExpired(apiKey.expiresAt) ? (
+                      <span
+                        className="inline-flex items-center gap-1 px-2 py-1 bg-yellow-100 dark:bg-yellow-900/30 text-yellow-700 dark:text-yellow-300 text-xs font-medium rounded"
+                        title={`Valid until ${new Date(apiKey.graceEndsAt).toLocaleString()}`}
+                      >
+                        <RefreshCw className="w-3 h-3" />
+                        Rotated · ends {formatDistanceToNow(new Date(apiKey.graceEndsAt), { addSuffix: true })}
+                      </span>
+                    ) : apiKey.isActive && !isExpired(apiKey.expiresAt) ? (
                       <span className="inline-flex items-center gap-1 px-2 py-1 bg-green-100 dark:bg-green-900/30 text-green-700 dark:text-green-300 text-xs font-medium rounded">
                         <Check className="w-3 h-3" />
                         Active
@@ -361,16 +482,121 @@ export default function TeamApiKeysPage() {
                     </p>
                   </div>
                 </div>
+
+                <div className="mt-4">
+                  <p className="text-xs text-slate-500 dark:text-slate-400 mb-1">Databases</p>
+                  {apiKey.databaseIds?.length > 0 ? (
+                    <div className="flex flex-wrap gap-1.5">
+                      {apiKey.databaseIds.map((db, dbIndex) => (
+                        <span
+                          key={db?._id || dbIndex}
+                          className="px-2 py-0.5 bg-slate-100 dark:bg-slate-800 text-slate-700 dark:text-slate-300 text-xs rounded"
+                        >
+                          {db ? db.displayName || db.databaseName : 'Deleted database'}
+                        </span>
+                      ))}
+                    </div>
+                  ) : (
+                    <p className="text-sm text-slate-900 dark:text-white">All team databases</p>
+                  )}
+                </div>
+
+                {describeUsageLimits(apiKey.limits) && (
+                  <div className="mt-4">
+                    <p className="text-xs text-slate-500 dark:text-slate-400 mb-1">Limits</p>
+                    <p className="text-sm text-slate-900 dark:text-white">{describeUsageLimits(apiKey.limits)}</p>
+                  </div>
+                )}
+
+                {apiKey.allowedCidrs?.length > 0 && (
+                  <div className="mt-4">
+                    <p className="text-xs text-slate-500 dark:text-slate-400 mb-1">Allowed IP Ranges</p>
+                    <div className="flex flex-wrap gap-1.5">
+                      {apiKey.allowedCidrs.map((cidr) => (
+                        <code
+                          key={cidr}
+                          className="px-2 py-0.5 bg-slate-100 dark:bg-slate-800 text-slate-700 dark:text-slate-300 text-xs rounded"
+                        >
+                          {cidr}
+                        </code>
+                      ))}
+                    </div>
+                  </div>
+                )}
+
+                {apiKey.rotation && (
+                  <div className="mt-4 p-3 bg-yellow-50 dark:bg-yellow-900/10 border border-yellow-200 dark:border-yellow-900/30 rounded-lg">
+                    <p className="text-xs font-medium text-yellow-800 dark:text-yellow-200 mb-1">
+                      Since rotation ({formatDistanceToNow(new Date(apiKey.rotation.rotatedAt), { addSuffix: true })}):{' '}
+                      {apiKey.rotation.oldKey.calls.toLocaleString()} calls with this key,{' '}
+                      {apiKey.rotation.newKey.calls.toLocaleString()} with its replacement
+                    </p>
+                    {apiKey.rotation.oldKey.clients.length > 0 ? (
+                      <ul className="space-y-0.5">
+                        {apiKey.rotation.oldKey.clients.slice(0, 5).map((client) => (
+                          <li key={client.ipAddress} className="text-xs text-yellow-700 dark:text-yellow-300">
+                            Still used from <code>{client.ipAddress}</code> · {client.calls.toLocaleString()} calls · last{' '}
+                            {formatDistanceToNow(new Date(client.lastSeenAt), { addSuffix: true })}
+                          </li>
+                        ))}
+                      </ul>
+                    ) : (
+                      <p className="text-xs text-yellow-700 dark:text-yellow-300">
+                        No client has used this key since the rotation.
+                      </p>
+                    )}
+                  </div>
+                )}
+
+                {apiKey.rejectedCount > 0 && (
+                  <div className="mt-4 p-3 bg-red-50 dark:bg-red-900/10 border border-red-200 dark:border-red-900/30 rounded-lg">
+                    <p className="text-xs font-medium text-red-700 dark:text-red-300 mb-1">
+                      {apiKey.rejectedCount.toLocaleString()} rejected {apiKey.rejectedCount === 1 ? 'attempt' : 'attempts'}
+                    </p>
+                    <ul className="space-y-0.5">
+                      {apiKey.rejectedAttempts.slice(0, 5).map((attempt, attemptIndex) => (
+                        <li key={attemptIndex} className="text-xs text-red-600 dark:text-red-400">
+                          <code>{attempt.ipAddress}</code> · {attempt.reason} ·{' '}
+                          {formatDistanceToNow(new Date(attempt.at), { addSuffix: true })}
+                        </li>
+                      ))}
+                    </ul>
+                  </div>
+                )}
+
+                {apiKey.permissions?.length > 0 && (
+                  <div className="flex flex-wrap gap-1.5 mt-4">
+                    {apiKey.permissions.map((scope) => (
+                      <span
+                        key={scope}
+                        title={API_KEY_SCOPE_DESCRIPTIONS[scope as ApiKeyScope] || 'All scopes'}
+                        className="px-2 py-0.5 bg-blue-50 dark:bg-blue-900/20 text-blue-700 dark:text-blue-300 text-xs font-mono rounded"
+                      >
+                        {scope}
+                      </span>
+                    ))}
+                  </div>
+                )}
               </div>
 
-              <button
-                onClick={() => handleRevoke(apiKey._id)}
-                disabled={!apiKey.isActive}
-                className="p-2 text-red-600 hover:bg-red-50 dark:hover:bg-red-900/20 rounded-lg transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
-                title="Revoke API key"
-              >
-                <Trash2 className="w-5 h-5" />
-              </button>
+              <div className="flex gap-1">
+                <button
+                  onClick={() => setRotatingKey(apiKey)}
+                  disabled={!apiKey.isActive || !!apiKey.rotatedToId || isExpired(apiKey.expiresAt)}
+                  className="p-2 text-blue-600 hover:bg-blue-50 dark:hover:bg-blue-900/20 rounded-lg transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                  title="Rotate API key"
+                >
+                  <RefreshCw className="w-5 h-5" />
+                </button>
+                <button
+                  onClick={() => handleRevoke(apiKey._id)}
+                  disabled={!apiKey.isActive}
+                  className="p-2 text-red-600 hover:bg-red-50 dark:hover:bg-red-900/20 rounded-lg transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                  title="Revoke API key"
+                >
+                  <Trash2 className="w-5 h-5" />
+                </button>
+              </div>
             </div>
           </motion.div>
         ))}
@@ -445,10 +671,105 @@ export default function TeamApiKeysPage() {
                   </select>
                 </div>
 
+                <div>
+                  <label className="block text-sm font-medium text-slate-700 dark:text-slate-300 mb-2">
+                    Scopes
+                  </label>
+                  <div className="space-y-2 max-h-64 overflow-y-auto">
+                    {API_KEY_SCOPES.map((scope) => (
+                      <label
+                        key={scope}
+                        className="flex items-start gap-3 p-2 rounded-lg hover:bg-slate-50 dark:hover:bg-slate-800 cursor-pointer"
+                      >
+                        <input
+                          type="checkbox"
+                          checked={formData.permissions.includes(scope)}
+                          onChange={() => toggleScope(scope)}
+                          className="mt-0.5 w-4 h-4 text-blue-600 rounded focus:ring-blue-500"
+                        />
+                        <div>
+                          <code className="text-sm font-mono text-slate-900 dark:text-white">{scope}</code>
+                          <p className="text-xs text-slate-500 dark:text-slate-400">
+                            {API_KEY_SCOPE_DESCRIPTIONS[scope]}
+                          </p>
+                        </div>
+                      </label>
+                    ))}
+                  </div>
+                  {formData.permissions.length === 0 && (
+                    <p className="text-xs text-red-600 dark:text-red-400 mt-1">Select at least one scope</p>
+                  )}
+                </div>
+
+                <div>
+                  <label className="block text-sm font-medium text-slate-700 dark:text-slate-300 mb-2">
+                    Databases
+                  </label>
+                  <p className="text-xs text-slate-500 dark:text-slate-400 mb-2">
+                    {formData.databaseIds.length === 0
+                      ? 'No restriction: the key can use every database the team has access to.'
+                      : `Restricted to ${formData.databaseIds.length} of the team's databases.`}
+                  </p>
+                  {team?.databases && team.databases.length > 0 ? (
+                    <div className="space-y-1 max-h-48 overflow-y-auto">
+                      {team.databases.map((db) => (
+                        <label
+                          key={db.id}
+                          className="flex items-center gap-3 p-2 rounded-lg hover:bg-slate-50 dark:hover:bg-slate-800 cursor-pointer"
+                        >
+                          <input
+                            type="checkbox"
+                            checked={formData.databaseIds.includes(db.id)}
+                            onChange={() => toggleDatabase(db.id)}
+                            className="w-4 h-4 text-blue-600 rounded focus:ring-blue-500"
+                          />
+                          <span className="text-sm text-slate-900 dark:text-white">
+                            {db.displayName || db.databaseName}
+                          </span>
+                        </label>
+                      ))}
+                    </div>
+                  ) : (
+                    <p className="text-xs text-slate-500 dark:text-slate-400">This team has no database grants yet.</p>
+                  )}
+                </div>
+
+                <div>
+                  <label className="block text-sm font-medium text-slate-700 dark:text-slate-300 mb-2">
+                    Allowed IP Ranges
+                  </label>
+                  <textarea
+                    value={formData.allowedCidrs}
+                    onChange={(e) => setFormData({ ...formData, allowedCidrs: e.target.value })}
+                    placeholder={'e.g., 203.0.113.0/24\n2001:db8::/32'}
+                    rows={3}
+                    className="w-full px-4 py-2.5 bg-white dark:bg-slate-800 border border-slate-300 dark:border-slate-700 rounded-xl focus:ring-2 focus:ring-blue-500 focus:border-transparent font-mono text-sm"
+                  />
+                  <p className="text-xs text-slate-500 dark:text-slate-400 mt-1">
+                    One IP address or CIDR range per line. Leave empty to allow any address.
+                  </p>
+                </div>
+
+                <div>
+                  <label className="block text-sm font-medium text-slate-700 dark:text-slate-300 mb-2">
+                    Rate Limit &amp; Quotas
+                  </label>
+                  <UsageLimitsFields
+                    value={formData.limits}
+                    onChange={(limits) => setFormData({ ...formData, limits })}
+                    labelClassName="block text-xs text-slate-500 dark:text-slate-400 mb-1"
+                    inputClassName="w-full px-3 py-2 bg-white dark:bg-slate-800 border border-slate-300 dark:border-slate-700 rounded-xl focus:ring-2 focus:ring-blue-500 focus:border-transparent text-sm"
+                  />
+                  <p className="text-xs text-slate-500 dark:text-slate-400 mt-1">
+                    Leave empty for no limit. Team limits apply on top of these.
+                  </p>
+                </div>
+
                 <div className="flex gap-3 pt-4">
                   <button
                     type="submit"
-                    className="flex-1 px-4 py-2.5 bg-gradient-to-r from-blue-600 to-indigo-600 hover:from-blue-700 hover:to-indigo-700 text-white rounded-xl font-semibold"
+                    disabled={formData.permissions.length === 0}
+                    className="flex-1 px-4 py-2.5 disabled:opacity-50 disabled:cursor-not-allowed bg-gradient-to-r from-blue-600 to-indigo-600 hover:from-blue-700 hover:to-indigo-700 text-white rounded-xl font-semibold"
                   >
                     Generate Key
                   </button>
@@ -466,6 +787,74 @@ export default function TeamApiKeysPage() {
         )}
       </AnimatePresence>
 
+      {/* Rotate Modal */}
+      <AnimatePresence>
+        {rotatingKey && (
+          <motion.div
+            initial={{ opacity: 0 }}
+            animate={{ opacity: 1 }}
+            exit={{ opacity: 0 }}
+            className="fixed inset-0 bg-black/50 backdrop-blur-sm flex items-center justify-center p-4 z-50"
+            onClick={() => setRotatingKey(null)}
+          >
+            <motion.div
+              initial={{ scale: 0.95, opacity: 0 }}
+              animate={{ scale: 1, opacity: 1 }}
+              exit={{ scale: 0.95, opacity: 0 }}
+              className="bg-white dark:bg-slate-900 rounded-2xl p-6 max-w-md w-full border border-slate-200 dark:border-slate-800"
+              onClick={(e) => e.stopPropagation()}
+            >
+              <h2 className="text-xl font-bold text-slate-900 dark:text-white mb-2">
+                Rotate API Key
+              </h2>
+              <p className="text-sm text-slate-600 dark:text-slate-400 mb-4">
+                A new key with the same scopes, databases, IP ranges and limits replaces{' '}
+                <span className="font-semibold text-blue-600 dark:text-blue-400">{rotatingKey.name}</span>{' '}
+                (<code>{rotatingKey.keyPrefix}***</code>).
+              </p>
+
+              <form onSubmit={handleRotate} className="space-y-4">
+                <div>
+                  <label className="block text-sm font-medium text-slate-700 dark:text-slate-300 mb-2">
+                    Grace Period
+                  </label>
+                  <select
+                    value={gracePeriodHours}
+                    onChange={(e) => setGracePeriodHours(parseInt(e.target.value))}
+                    className="w-full px-4 py-2.5 bg-white dark:bg-slate-800 border border-slate-300 dark:border-slate-700 rounded-xl focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                  >
+                    {GRACE_PERIOD_OPTIONS.map((option) => (
+                      <option key={option.hours} value={option.hours}>
+                        {option.label}
+                      </option>
+                    ))}
+                  </select>
+                  <p className="text-xs text-slate-500 dark:text-slate-400 mt-1">
+                    The old key keeps working until then, so clients can switch over; it is deactivated automatically afterwards.
+                  </p>
+                </div>
+
+                <div className="flex gap-3 pt-4">
+                  <button
+                    type="submit"
+                    className="flex-1 px-4 py-2.5 bg-gradient-to-r from-blue-600 to-indigo-600 hover:from-blue-700 hover:to-indigo-700 text-white rounded-xl font-semibold"
+                  >
+                    Rotate Key
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() => setRotatingKey(null)}
+                    className="px-4 py-2.5 bg-slate-100 dark:bg-slate-800 hover:bg-slate-200 dark:hover:bg-slate-700 text-slate-700 dark:text-slate-300 rounded-xl font-medium"
+                  >
+                    Cancel
+                  </button>
+                </div>
+              </form>
+            </motion.div>
+          </motion.div>
+        )}
+      </AnimatePresence>
+
       {/* New API Key Modal */}
       <AnimatePresence>
         {newApiKey && (
@@ -5,6 +5,12 @@ import { motion, AnimatePresence } from 'framer-motion';
 import { toast } from 'sonner';
 import { Users, Plus, Edit, Trash2, Check, X, Search, MoreVertical, Key } from 'lucide-react';
 import { useRouter } from 'next/navigation';
+import type { UsageLimitsInput } from '@/lib/validation';
+import UsageLimitsFields, {
+  EMPTY_USAGE_LIMITS,
+  formToUsageLimits,
+  usageLimitsToForm,
+} from '@/components/UsageLimitsFields';
 
 interface User {
   _id: string;
@@ -18,6 +24,8 @@ interface Team {
   description: string;
   members: User[];
   memberCount: number;
+  limits?: UsageLimitsInput;
+  ssoGroups?: string[];
   createdAt: string;
   updatedAt: string;
 }
@@ -36,6 +44,8 @@ export default function TeamsPage() {
     name: '',
     description: '',
     members: [] as string[],
+    limits: EMPTY_USAGE_LIMITS,
+    ssoGroups: '',
   });
 
   // Fetch teams
@@ -83,7 +93,7 @@ export default function TeamsPage() {
 
   const handleAddClick = () => {
     setEditingTeam(null);
-    setFormData({ name: '', description: '', members: [] });
+    setFormData({ name: '', description: '', members: [], limits: EMPTY_USAGE_LIMITS, ssoGroups: '' });
     setSearchQuery('');
     setShowModal(true);
   };
@@ -94,6 +104,8 @@ export default function TeamsPage() {
       name: team.name,
       description: team.description,
       members: team.members.map((m) => m._id),
+      limits: usageLimitsToForm(team.limits),
+      ssoGroups: (team.ssoGroups || []).join('\n'),
     });
     setSearchQuery('');
     setShowModal(true);
@@ -140,7 +152,12 @@ export default function TeamsPage() {
       const payload = {
         name: formData.name,
         description: formData.description,
-        members: memberObjectIds
+        members: memberObjectIds,
+        limits: formToUsageLimits(formData.limits),
+        ssoGroups: formData.ssoGroups
+          .split(/[\n,]/)
+          .map((group) => group.trim())
+          .filter(Boolean),
       };
 
       const response = await fetch(url, {
@@ -433,6 +450,39 @@ export default function TeamsPage() {
                   />
                 </motion.div>
 
+                {/* Query API Limits */}
+                <div>
+                  <label className="block text-sm font-bold text-gray-900 mb-1">
+                    API Rate Limit &amp; Quotas
+                  </label>
+                  <p className="text-xs text-gray-500 mb-3">
+                    Shared by all of the team&apos;s API keys. Leave empty for no limit.
+                  </p>
+                  <UsageLimitsFields
+                    value={formData.limits}
+                    onChange={(limits) => setFormData((prev) => ({ ...prev, limits }))}
+                    labelClassName="block text-xs font-semibold text-gray-600 mb-1"
+                    inputClassName="w-full px-4 py-2.5 bg-gray-50 border-2 border-gray-200 rounded-xl focus:ring-2 focus:ring-blue-500 focus:border-blue-500 focus:bg-white transition-all outline-none text-gray-900 placeholder:text-gray-400"
+                  />
+                </div>
+
+                {/* SSO Groups */}
+                <div>
+                  <label className="block text-sm font-bold text-gray-900 mb-1">
+                    SSO Groups
+                  </label>
+                  <p className="text-xs text-gray-500 mb-3">
+                    Users whose single sign-on groups include one of these join the team when they sign in, and leave it when they no longer do. One group per line.
+                  </p>
+                  <textarea
+                    value={formData.ssoGroups}
+                    onChange={(e) => setFormData(prev => ({ ...prev, ssoGroups: e.target.value }))}
+                    rows={2}
+                    className="w-full px-5 py-4 bg-gray-50 border-2 border-gray-200 rounded-2xl focus:ring-2 focus:ring-blue-500 focus:border-blue-500 focus:bg-white transition-all outline-none resize-none font-mono text-sm text-gray-900 placeholder:text-gray-400"
+                    placeholder="/engineering/data-team"
+                  />
+                </div>
+
                 {/* Team Members */}
                 <div>
                   <label className="block text-sm font-semibold text-gray-700 mb-3">
@@ -511,8 +561,7 @@ export default function TeamsPage() {
                                     : [...currentMemberIds, userId];
 
                                   return {
-                                    name: currentFormData.name,
-                                    description: currentFormData.description,
+                                    ...currentFormData,
                                     members: newMembers
                                   };
                                 });
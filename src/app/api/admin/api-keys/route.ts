@@ -2,13 +2,15 @@ import { NextRequest } from 'next/server';
 import { getServerSession } from 'next-auth';
 import { authOptions } from '@/lib/auth';
 import { connectDB } from '@/lib/mongodb';
-import ApiKey from '@/models/ApiKey';
+import ApiKey, { API_KEY_EXPIRY_WARNING_DAYS } from '@/models/ApiKey';
 import { successResponse, errorResponse } from '@/lib/api-helpers';
 
 /**
  * GET /api/admin/api-keys
  * Admin view of all API keys across all teams
  * Admin only
+ *
+ * Query params: teamId, isActive, expiringSoon (active keys expiring within API_KEY_EXPIRY_WARNING_DAYS), page, limit
  */
 export async function GET(request: NextRequest) {
   try {
@@ -27,6 +29,7 @@ export async function GET(request: NextRequest) {
     const { searchParams } = new URL(request.url);
     const teamId = searchParams.get('teamId');
     const isActive = searchParams.get('isActive');
+    const expiringSoon = searchParams.get('expiringSoon') === 'true';
     const page = parseInt(searchParams.get('page') || '1');
     const limit = parseInt(searchParams.get('limit') || '50');
 
@@ -37,6 +40,13 @@ export async function GET(request: NextRequest) {
       filter.isActive = isActive === 'true';
     }
 
+    const now = new Date();
+    const expiringBefore = new Date(now.getTime() + API_KEY_EXPIRY_WARNING_DAYS * 24 * 60 * 60 * 1000);
+    if (expiringSoon) {
+      filter.isActive = true;
+      filter.expiresAt = { $gt: now, $lte: expiringBefore };
+    }
+
     // Get total count
     const total = await ApiKey.countDocuments(filter);
 
@@ -44,7 +54,7 @@ export async function GET(request: NextRequest) {
     const apiKeys = await ApiKey.find(filter)
       .populate('createdBy', 'name email')
       .populate('teamId', 'name')
-      .sort({ createdAt: -1 })
+      .sort(expiringSoon ? { expiresAt: 1 } : { createdAt: -1 })
       .skip((page - 1) * limit)
       .limit(limit);
 
@@ -61,7 +71,16 @@ export async function GET(request: NextRequest) {
           expiredKeys: {
             $sum: {
               $cond: [
-                { $and: ['$isActive', { $lt: ['$expiresAt', new Date()] }] },
+                { $and: ['$isActive', { $lt: ['$expiresAt', now] }] },
+                1,
+                0,
+              ],
+            },
+          },
+          expiringSoonKeys: {
+            $sum: {
+              $cond: [
+                { $and: ['$isActive', { $gt: ['$expiresAt', now] }, { $lte: ['$expiresAt', expiringBefore] }] },
                 1,
                 0,
               ],
@@ -85,7 +104,9 @@ export async function GET(request: NextRequest) {
           activeKeys: 0,
           totalUsage: 0,
           expiredKeys: 0,
+          expiringSoonKeys: 0,
         },
+        expiryWarningDays: API_KEY_EXPIRY_WARNING_DAYS,
       },
       'API keys retrieved successfully'
     );
@@ -0,0 +1,43 @@
+import { NextRequest } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import { apiKeyUsageQuerySchema } from '@/lib/validation';
+import { successResponse, errorResponse } from '@/lib/api-helpers';
+import { getApiKeyUsageStats } from '@/lib/api-key-usage-stats';
+
+/**
+ * GET /api/admin/api-keys/usage
+ * Usage analytics across all API keys: calls per day, error rates, top databases per key, latest calls
+ * Admin only
+ *
+ * Query params: days (default 30, max 365), teamId, apiKeyId
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session?.user) {
+      return errorResponse('Unauthorized', 401);
+    }
+
+    if (session.user.role !== 'admin') {
+      return errorResponse('Forbidden: Admin access required', 403);
+    }
+
+    const { searchParams } = new URL(request.url);
+    const validation = apiKeyUsageQuerySchema.safeParse({
+      days: searchParams.get('days') ?? undefined,
+      teamId: searchParams.get('teamId') ?? undefined,
+      apiKeyId: searchParams.get('apiKeyId') ?? undefined,
+    });
+    if (!validation.success) {
+      return errorResponse(validation.error.errors[0].message, 400);
+    }
+
+    const usage = await getApiKeyUsageStats(validation.data);
+
+    return successResponse({ usage }, 'API key usage retrieved successfully');
+  } catch (error: any) {
+    console.error('Error fetching API key usage:', error);
+    return errorResponse(error.message || 'Failed to fetch API key usage', 500);
+  }
+}
@@ -0,0 +1,57 @@
+import { NextRequest } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import { connectDB } from '@/lib/mongodb';
+import Connection from '@/models/Connection';
+import { successResponse, errorResponse } from '@/lib/api-helpers';
+import { getConnectionPoolMetrics, getConnectionPoolConfig } from '@/lib/connection-pool';
+
+/**
+ * GET /api/admin/connection-pools
+ * Health metrics for the pooled customer database connections held by this server
+ * Admin only
+ */
+export async function GET(_request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session?.user) {
+      return errorResponse('Unauthorized', 401);
+    }
+
+    if (session.user.role !== 'admin') {
+      return errorResponse('Forbidden: Admin access required', 403);
+    }
+
+    await connectDB();
+
+    const metrics = getConnectionPoolMetrics();
+
+    // Attach connection names for display
+    const connections = await Connection.find({
+      _id: { $in: [...new Set(metrics.map((pool) => pool.connectionId))] },
+    }).select('name');
+    const names = new Map(connections.map((connection) => [connection._id.toString(), connection.name]));
+
+    const pools = metrics.map((pool) => ({
+      ...pool,
+      connectionName: names.get(pool.connectionId) || null,
+    }));
+
+    return successResponse(
+      {
+        pools,
+        config: getConnectionPoolConfig(),
+        statistics: {
+          totalPools: pools.length,
+          activeBorrowers: pools.reduce((sum, pool) => sum + pool.active, 0),
+          totalAcquisitions: pools.reduce((sum, pool) => sum + pool.acquisitions, 0),
+          totalErrors: pools.reduce((sum, pool) => sum + pool.errors, 0),
+        },
+      },
+      'Connection pool metrics retrieved successfully'
+    );
+  } catch (error: any) {
+    console.error('Error fetching connection pool metrics:', error);
+    return errorResponse(error.message || 'Failed to fetch connection pool metrics', 500);
+  }
+}
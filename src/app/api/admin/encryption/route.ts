@@ -0,0 +1,48 @@
+import { NextRequest } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import { connectDB } from '@/lib/mongodb';
+import { reencryptSecretsSchema } from '@/lib/validation';
+import { successResponse, errorResponse } from '@/lib/api-helpers';
+import { reencryptSecrets } from '@/lib/secret-rotation';
+
+/**
+ * POST /api/admin/encryption
+ * Re-encrypt all stored secrets under the active ENCRYPTION_KEY
+ * Admin only
+ *
+ * Body: { dryRun?: boolean } (default true: report what would change without writing)
+ * Same operation as `npm run secrets:reencrypt`.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session?.user) {
+      return errorResponse('Unauthorized', 401);
+    }
+
+    if (session.user.role !== 'admin') {
+      return errorResponse('Forbidden: Admin access required', 403);
+    }
+
+    const body = await request.json().catch(() => ({}));
+
+    // Validate request body
+    const validation = reencryptSecretsSchema.safeParse(body);
+    if (!validation.success) {
+      return errorResponse(validation.error.errors[0].message, 400);
+    }
+
+    await connectDB();
+
+    const report = await reencryptSecrets(validation.data);
+
+    return successResponse(
+      report,
+      report.dryRun ? 'Dry run complete, nothing was written' : 'Secrets re-encrypted successfully'
+    );
+  } catch (error: any) {
+    console.error('Error re-encrypting secrets:', error);
+    return errorResponse(error.message || 'Failed to re-encrypt secrets', 500);
+  }
+}
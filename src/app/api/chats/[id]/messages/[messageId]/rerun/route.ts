@@ -0,0 +1,102 @@
+import { NextRequest } from 'next/server';
+import { connectDB } from '@/lib/mongodb';
+import Chat from '@/models/Chat';
+import Message from '@/models/Message';
+import Database from '@/models/Database';
+import { successResponse, errorResponse } from '@/lib/api-helpers';
+import { canAccessDatabase, ownsChat } from '@/lib/authz';
+import { authenticateRequest, withApiKeyUsage } from '@/lib/request-auth';
+import { executeReadOnlyQuery } from '@/lib/query-executor';
+
+/**
+ * POST /api/chats/[id]/messages/[messageId]/rerun
+ * Re-run a message's generated SQL directly against the database (no LLM round trip)
+ * Body: { tier?: number, databaseId?: string }
+ * - tier: index into queryResults whose sql_generated to run (defaults to message.sqlQuery)
+ * - databaseId: required when the chat spans more than one database
+ */
+export const POST = withApiKeyUsage('/api/chats/[id]/messages/[messageId]/rerun', async (
+  request: NextRequest,
+  { params }: { params: { id: string; messageId: string } }
+) => {
+  try {
+    const auth = await authenticateRequest(request, 'chats:write');
+    if (auth.error) {
+      return auth.error;
+    }
+
+    const body = await request.json().catch(() => ({}));
+    const { tier, databaseId } = body;
+
+    await connectDB();
+
+    // Verify chat exists and user owns it
+    const chat = await Chat.findById(params.id);
+    if (!chat) {
+      return errorResponse('Chat not found', 404);
+    }
+
+    if (!ownsChat(auth.principal, chat)) {
+      return errorResponse('Unauthorized', 403);
+    }
+
+    const message = await Message.findOne({ _id: params.messageId, chatId: params.id });
+    if (!message) {
+      return errorResponse('Message not found', 404);
+    }
+
+    // Pick the SQL to run
+    let sqlQuery = message.sqlQuery;
+    if (tier !== undefined) {
+      const tierResult = Array.isArray(message.queryResults)
+        ? message.queryResults[tier]
+        : undefined;
+      sqlQuery = tierResult?.sql_generated;
+    }
+
+    if (!sqlQuery) {
+      return errorResponse('This message has no SQL to run', 400);
+    }
+
+    // Pick the target database
+    const chatDatabaseIds = chat.databaseIds.map((id) => id.toString());
+    const targetDatabaseId = databaseId || (chatDatabaseIds.length === 1 ? chatDatabaseIds[0] : null);
+
+    if (!targetDatabaseId) {
+      return errorResponse('databaseId is required for chats with multiple databases', 400);
+    }
+
+    if (!chatDatabaseIds.includes(targetDatabaseId)) {
+      return errorResponse('Database is not part of this chat', 400);
+    }
+
+    if (!(await canAccessDatabase(auth.principal, targetDatabaseId))) {
+      return errorResponse('Access denied to this database', 403);
+    }
+
+    const database = await Database.findById(targetDatabaseId).populate('connectionId');
+    if (!database) {
+      return errorResponse('Database not found', 404);
+    }
+
+    try {
+      const result = await executeReadOnlyQuery(database, sqlQuery);
+
+      return successResponse(
+        {
+          messageId: message._id,
+          databaseId: targetDatabaseId,
+          sqlQuery,
+          ...result,
+        },
+        'Query executed successfully'
+      );
+    } catch (executionError: any) {
+      console.error('Query re-run failed:', executionError);
+      return errorResponse(`Query failed: ${executionError.message}`, 400);
+    }
+  } catch (error: any) {
+    console.error('Error re-running query:', error);
+    return errorResponse(error.message || 'Failed to re-run query', 500);
+  }
+});
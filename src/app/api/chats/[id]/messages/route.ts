@@ -1,27 +1,28 @@
 import { NextRequest } from 'next/server';
-import { getServerSession } from 'next-auth';
-import { authOptions } from '@/lib/auth';
 import { connectDB } from '@/lib/mongodb';
 import Chat from '@/models/Chat';
 import Message from '@/models/Message';
 import { successResponse, errorResponse } from '@/lib/api-helpers';
 import { FASTAPI_ENDPOINTS, getApiUrl } from '@/lib/constants/api';
+import { canAccessAllDatabases, ownsChat } from '@/lib/authz';
+import { authenticateRequest, withApiKeyUsage } from '@/lib/request-auth';
+import { normalizeChatCompletion, loadDialectHints, CHAT_COMPLETION_TIMEOUT_MS } from '@/lib/fastapi';
 
 /**
  * GET /api/chats/[id]/messages
  * Get all messages for a specific chat
  */
-export async function GET(
+export const GET = withApiKeyUsage('/api/chats/[id]/messages', async (
   request: NextRequest,
   { params }: { params: { id: string } }
-) {
+) => {
   console.log('=== GET /api/chats/[id]/messages called ===');
   console.log('Chat ID:', params.id);
 
   try {
-    const session = await getServerSession(authOptions);
-    if (!session?.user) {
-      return errorResponse('Unauthorized', 401);
+    const auth = await authenticateRequest(request, 'chats:read');
+    if (auth.error) {
+      return auth.error;
     }
 
     await connectDB();
@@ -34,7 +35,7 @@ export async function GET(
       return errorResponse('Chat not found', 404);
     }
 
-    if (chat.userId.toString() !== session.user.id) {
+    if (!ownsChat(auth.principal, chat)) {
       return errorResponse('Unauthorized', 403);
     }
 
@@ -51,20 +52,20 @@ export async function GET(
     console.error('Error fetching messages:', error);
     return errorResponse(error.message || 'Failed to fetch messages', 500);
   }
-}
+});
 
 /**
  * POST /api/chats/[id]/messages
  * Send a new message and get AI response from FastAPI (with streaming support)
  */
-export async function POST(
+export const POST = withApiKeyUsage('/api/chats/[id]/messages', async (
   request: NextRequest,
   { params }: { params: { id: string } }
-) {
+) => {
   try {
-    const session = await getServerSession(authOptions);
-    if (!session?.user) {
-      return errorResponse('Unauthorized', 401);
+    const auth = await authenticateRequest(request, 'chats:write');
+    if (auth.error) {
+      return auth.error;
     }
 
     const body = await request.json();
@@ -82,10 +83,16 @@ export async function POST(
       return errorResponse('Chat not found', 404);
     }
 
-    if (chat.userId.toString() !== session.user.id) {
+    if (!ownsChat(auth.principal, chat)) {
       return errorResponse('Unauthorized', 403);
     }
 
+    // Grants may have been revoked since the chat was created
+    const chatDatabaseIds = chat.databaseIds.map((db: any) => db._id.toString());
+    if (!(await canAccessAllDatabases(auth.principal, chatDatabaseIds))) {
+      return errorResponse('You no longer have access to all databases in this chat', 403);
+    }
+
     // Create message document with user message (assistant message will be added later)
     const messageDoc = await Message.create({
       chatId: params.id,
@@ -95,8 +102,9 @@ export async function POST(
 
     // Prepare parameters for FastAPI
     const fastApiPayload = {
-      database_ids: chat.databaseIds.map((db: any) => db._id.toString()),
+      database_ids: chatDatabaseIds,
       query: message.trim(),
+      dialects: await loadDialectHints(chatDatabaseIds),
     };
 
     console.log('Calling FastAPI with payload:', fastApiPayload);
@@ -108,7 +116,7 @@ export async function POST(
 
       // Create AbortController for timeout
       const abortController = new AbortController();
-      const timeoutId = setTimeout(() => abortController.abort(), 100000); // 100 seconds
+      const timeoutId = setTimeout(() => abortController.abort(), CHAT_COMPLETION_TIMEOUT_MS);
 
       const fastApiResponse = await fetch(fastApiUrl, {
         method: 'POST',
@@ -236,26 +244,7 @@ export async function POST(
       const fastApiData = await fastApiResponse.json();
       console.log('FastAPI Response:', fastApiData);
 
-      // Handle array response (FastAPI returns array of query results)
-      let queryResults = [];
-      let assistantMessage = '';
-      let sqlQuery = '';
-
-      if (Array.isArray(fastApiData)) {
-        // FastAPI returns array directly
-        queryResults = fastApiData;
-
-        // Extract formatted_result from first result for assistant message
-        if (queryResults.length > 0 && queryResults[0].formatted_result) {
-          assistantMessage = queryResults[0].formatted_result;
-          sqlQuery = queryResults[0].sql_generated || '';
-        }
-      } else {
-        // Handle object response
-        assistantMessage = fastApiData.response || fastApiData.message || fastApiData.formatted_result || '';
-        sqlQuery = fastApiData.sqlQuery || fastApiData.sql_query || '';
-        queryResults = fastApiData.queryResults || fastApiData.results || [];
-      }
+      const { assistantMessage, sqlQuery, queryResults } = normalizeChatCompletion(fastApiData);
 
       // Update message with assistant response
       messageDoc.assistantMessage = assistantMessage || 'Query executed successfully';
@@ -296,7 +285,7 @@ export async function POST(
     console.error('Error sending message:', error);
     return errorResponse(error.message || 'Failed to send message', 500);
   }
-}
+});
 
 /**
  * Generate a chat title from the first message
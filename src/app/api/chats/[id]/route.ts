@@ -1,23 +1,23 @@
 import { NextRequest } from 'next/server';
-import { getServerSession } from 'next-auth';
-import { authOptions } from '@/lib/auth';
 import { connectDB } from '@/lib/mongodb';
 import Chat from '@/models/Chat';
 import Message from '@/models/Message';
 import { successResponse, errorResponse } from '@/lib/api-helpers';
+import { ownsChat } from '@/lib/authz';
+import { authenticateRequest, withApiKeyUsage } from '@/lib/request-auth';
 
 /**
  * GET /api/chats/[id]
  * Get a specific chat by ID
  */
-export async function GET(
+export const GET = withApiKeyUsage('/api/chats/[id]', async (
   request: NextRequest,
   { params }: { params: { id: string } }
-) {
+) => {
   try {
-    const session = await getServerSession(authOptions);
-    if (!session?.user) {
-      return errorResponse('Unauthorized', 401);
+    const auth = await authenticateRequest(request, 'chats:read');
+    if (auth.error) {
+      return auth.error;
     }
 
     await connectDB();
@@ -37,7 +37,7 @@ export async function GET(
     }
 
     // Verify user owns this chat
-    if (chat.userId.toString() !== session.user.id) {
+    if (!ownsChat(auth.principal, chat)) {
       return errorResponse('Unauthorized', 403);
     }
 
@@ -46,20 +46,20 @@ export async function GET(
     console.error('Error fetching chat:', error);
     return errorResponse(error.message || 'Failed to fetch chat', 500);
   }
-}
+});
 
 /**
  * PUT /api/chats/[id]
  * Update a chat (e.g., change title)
  */
-export async function PUT(
+export const PUT = withApiKeyUsage('/api/chats/[id]', async (
   request: NextRequest,
   { params }: { params: { id: string } }
-) {
+) => {
   try {
-    const session = await getServerSession(authOptions);
-    if (!session?.user) {
-      return errorResponse('Unauthorized', 401);
+    const auth = await authenticateRequest(request, 'chats:write');
+    if (auth.error) {
+      return auth.error;
     }
 
     const body = await request.json();
@@ -78,7 +78,7 @@ export async function PUT(
     }
 
     // Verify user owns this chat
-    if (chat.userId.toString() !== session.user.id) {
+    if (!ownsChat(auth.principal, chat)) {
       return errorResponse('Unauthorized', 403);
     }
 
@@ -100,20 +100,20 @@ export async function PUT(
     console.error('Error updating chat:', error);
     return errorResponse(error.message || 'Failed to update chat', 500);
   }
-}
+});
 
 /**
  * DELETE /api/chats/[id]
  * Delete a chat and all its messages
  */
-export async function DELETE(
+export const DELETE = withApiKeyUsage('/api/chats/[id]', async (
   request: NextRequest,
   { params }: { params: { id: string } }
-) {
+) => {
   try {
-    const session = await getServerSession(authOptions);
-    if (!session?.user) {
-      return errorResponse('Unauthorized', 401);
+    const auth = await authenticateRequest(request, 'chats:write');
+    if (auth.error) {
+      return auth.error;
     }
 
     await connectDB();
@@ -125,7 +125,7 @@ export async function DELETE(
     }
 
     // Verify user owns this chat
-    if (chat.userId.toString() !== session.user.id) {
+    if (!ownsChat(auth.principal, chat)) {
       return errorResponse('Unauthorized', 403);
     }
 
@@ -140,4 +140,4 @@ export async function DELETE(
     console.error('Error deleting chat:', error);
     return errorResponse(error.message || 'Failed to delete chat', 500);
   }
-}
+});
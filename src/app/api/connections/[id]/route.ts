@@ -5,8 +5,11 @@ import { connectDB } from '@/lib/mongodb';
 import Connection from '@/models/Connection';
 import Database from '@/models/Database';
 import { encrypt } from '@/lib/encryption';
+import { encryptTlsSettings } from '@/lib/connectors/tls';
+import { encryptSshTunnelSettings } from '@/lib/ssh-tunnel';
 import { updateConnectionSchema } from '@/lib/validation';
 import { successResponse, errorResponse } from '@/lib/api-helpers';
+import { invalidateConnectionPools } from '@/lib/connection-pool';
 
 /**
  * GET /api/connections/[id]
@@ -84,7 +87,7 @@ export async function PUT(
       return errorResponse('Connection not found', 404);
     }
 
-    const { name, connectionType, host, port, username, password } =
+    const { name, connectionType, host, port, username, password, filePath, ssl, sshTunnel, options } =
       validation.data;
 
     // Update fields
@@ -93,6 +96,12 @@ export async function PUT(
     if (host !== undefined) connection.host = host;
     if (port !== undefined) connection.port = port;
     if (username !== undefined) connection.username = username;
+    if (filePath !== undefined) connection.filePath = filePath;
+    if (ssl !== undefined) connection.ssl = encryptTlsSettings(ssl, connection.ssl);
+    if (sshTunnel !== undefined) {
+      connection.sshTunnel = encryptSshTunnelSettings(sshTunnel, connection.sshTunnel);
+    }
+    if (options !== undefined) connection.options = options;
 
     // Encrypt password if provided
     if (password !== undefined && password.trim() !== '') {
@@ -101,9 +110,11 @@ export async function PUT(
 
     await connection.save();
 
-    // Remove password from response
-    const connectionResponse = connection.toObject();
-    delete (connectionResponse as any).password;
+    // Pools (and their tunnel) hold the old host/credentials/TLS/SSH settings and URI options
+    invalidateConnectionPools(params.id);
+
+    // Remove password and other secrets from response (toJSON transform)
+    const connectionResponse = connection.toJSON();
 
     return successResponse(connectionResponse, 'Connection updated successfully');
   } catch (error: any) {
@@ -143,6 +154,7 @@ export async function DELETE(
 
     // Delete the connection
     await Connection.findByIdAndDelete(params.id);
+    invalidateConnectionPools(params.id);
 
     return successResponse(
       { id: params.id },
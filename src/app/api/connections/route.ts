@@ -4,7 +4,9 @@ import { authOptions } from '@/lib/auth';
 import { connectDB } from '@/lib/mongodb';
 import Connection from '@/models/Connection';
 import { encrypt } from '@/lib/encryption';
-import { createConnectionSchema } from '@/lib/validation';
+import { encryptTlsSettings } from '@/lib/connectors/tls';
+import { encryptSshTunnelSettings } from '@/lib/ssh-tunnel';
+import { createConnectionSchema, isFileDatabaseType } from '@/lib/validation';
 import { successResponse, errorResponse } from '@/lib/api-helpers';
 
 /**
@@ -63,27 +65,33 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    const { name, connectionType, host, port, username, password } =
+    const { name, connectionType, host, port, username, password, filePath, ssl, sshTunnel, options } =
       validation.data;
 
     await connectDB();
 
-    // Encrypt password before storing
-    const encryptedPassword = encrypt(password);
+    // File-based connections have a path instead of server credentials
+    const target = isFileDatabaseType(connectionType)
+      ? { filePath }
+      : {
+          host,
+          port,
+          username,
+          password: encrypt(password!), // Encrypt password before storing
+          ssl: ssl && encryptTlsSettings(ssl),
+          sshTunnel: sshTunnel && encryptSshTunnelSettings(sshTunnel),
+          options,
+        };
 
     const connection = await Connection.create({
       name,
       connectionType,
-      host,
-      port,
-      username,
-      password: encryptedPassword,
+      ...target,
       createdBy: session.user.id,
     });
 
-    // Remove password from response
-    const connectionResponse = connection.toObject();
-    delete (connectionResponse as any).password;
+    // Remove password and other secrets from response (toJSON transform)
+    const connectionResponse = connection.toJSON();
 
     return successResponse(connectionResponse, 'Connection created successfully', 201);
   } catch (error: any) {
@@ -3,95 +3,8 @@ import { getServerSession } from 'next-auth';
 import { authOptions } from '@/lib/auth';
 import { testConnectionSchema } from '@/lib/validation';
 import { successResponse, errorResponse } from '@/lib/api-helpers';
-import { Client as PgClient } from 'pg';
-import mysql from 'mysql2/promise';
-import { MongoClient } from 'mongodb';
-import sql from 'mssql';
-
-/**
- * Test PostgreSQL connection
- */
-async function testPostgreSQLConnection(host: string, port: number, username: string, password: string) {
-  const client = new PgClient({
-    host,
-    port,
-    user: username,
-    password,
-    database: 'postgres',
-    connectionTimeoutMillis: 5000,
-  });
-
-  try {
-    await client.connect();
-    await client.query('SELECT 1');
-    return { success: true, message: 'Successfully connected to PostgreSQL' };
-  } finally {
-    await client.end();
-  }
-}
-
-/**
- * Test MySQL connection
- */
-async function testMySQLConnection(host: string, port: number, username: string, password: string) {
-  const conn = await mysql.createConnection({
-    host,
-    port,
-    user: username,
-    password,
-    connectTimeout: 5000,
-  });
-
-  try {
-    await conn.query('SELECT 1');
-    return { success: true, message: 'Successfully connected to MySQL' };
-  } finally {
-    await conn.end();
-  }
-}
-
-/**
- * Test MongoDB connection
- */
-async function testMongoDBConnection(host: string, port: number, username: string, password: string) {
-  const uri = `mongodb://${username}:${encodeURIComponent(password)}@${host}:${port}`;
-  const client = new MongoClient(uri, {
-    serverSelectionTimeoutMS: 5000,
-  });
-
-  try {
-    await client.connect();
-    await client.db('admin').command({ ping: 1 });
-    return { success: true, message: 'Successfully connected to MongoDB' };
-  } finally {
-    await client.close();
-  }
-}
-
-/**
- * Test MSSQL connection
- */
-async function testMSSQLConnection(host: string, port: number, username: string, password: string) {
-  const config = {
-    server: host,
-    port,
-    user: username,
-    password,
-    options: {
-      encrypt: false,
-      trustServerCertificate: true,
-    },
-    connectionTimeout: 5000,
-  };
-
-  try {
-    await sql.connect(config);
-    await sql.query('SELECT 1');
-    return { success: true, message: 'Successfully connected to SQL Server' };
-  } finally {
-    await sql.close();
-  }
-}
+import { getConnector, describeConnectorError, isSupportedConnectionType } from '@/lib/connectors';
+import { optionsThroughTunnel, testTunnel, withTunnel } from '@/lib/ssh-tunnel';
 
 /**
  * POST /api/connections/test
@@ -99,6 +12,11 @@ async function testMSSQLConnection(host: string, port: number, username: string,
  * Admin only
  *
  * Actually tests the connection to the database server with provided credentials.
+ * Unsaved credentials are not pooled: each test opens and closes its own client.
+ *
+ * With an SSH tunnel, the tunnel is checked first so a bastion failure is reported
+ * separately from a database failure; step "tunnel" stops after that check.
+ * The response carries the bastion's host key fingerprint so the form can pin it.
  */
 export async function POST(request: NextRequest) {
   try {
@@ -122,59 +40,79 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    const { connectionType, host, port, username, password, databaseName } =
-      validation.data;
+    const {
+      connectionType,
+      host,
+      port,
+      username,
+      password,
+      filePath,
+      ssl,
+      sshTunnel,
+      options,
+      databaseName,
+      step,
+    } = validation.data;
+
+    if (!isSupportedConnectionType(connectionType)) {
+      return errorResponse('Unsupported database type', 400);
+    }
 
-    let result;
+    const connector = getConnector(connectionType);
+    let message = `Successfully connected to ${connector.displayName}`;
+    const tunnel = sshTunnel?.enabled && !connector.fileBased ? sshTunnel : undefined;
+    let hostKeyFingerprint: string | undefined;
+
+    if (tunnel) {
+      try {
+        hostKeyFingerprint = await testTunnel(tunnel, { host: host!, port: port! });
+      } catch (error: any) {
+        console.error('SSH tunnel test failed:', error);
+        return errorResponse(describeConnectorError(connector, error, { host, port }), 400);
+      }
+
+      if (step === 'tunnel') {
+        message = `SSH tunnel via ${tunnel.host} can reach ${host}:${port}`;
+        return successResponse(
+          { success: true, message, connectionType, host, port, hostKeyFingerprint },
+          message
+        );
+      }
+    }
 
     try {
-      // Test connection based on database type
-      switch (connectionType) {
-        case 'postgresql':
-          result = await testPostgreSQLConnection(host, port, username, password);
-          break;
-        case 'mysql':
-          result = await testMySQLConnection(host, port, username, password);
-          break;
-        case 'mongodb':
-          result = await testMongoDBConnection(host, port, username, password);
-          break;
-        case 'mssql':
-          result = await testMSSQLConnection(host, port, username, password);
-          break;
-        default:
-          return errorResponse('Unsupported database type', 400);
+      if (tunnel) {
+        // TLS still verifies against the real host name, not 127.0.0.1
+        await withTunnel(tunnel, { host: host!, port: port! }, (localPort) =>
+          connector.test({
+            host: '127.0.0.1',
+            port: localPort,
+            username,
+            password,
+            ssl: ssl && { ...ssl, servername: ssl.servername || host },
+            options: optionsThroughTunnel(options),
+          })
+        );
+      } else {
+        await connector.test({ host, port, username, password, filePath, ssl, options });
       }
     } catch (error: any) {
       console.error('Connection test failed:', error);
-
-      // Provide more specific error messages
-      let errorMessage = 'Connection test failed';
-      if (error.code === 'ECONNREFUSED') {
-        errorMessage = `Cannot connect to ${host}:${port}. Server is not reachable.`;
-      } else if (error.code === 'ENOTFOUND') {
-        errorMessage = `Host "${host}" not found. Please check the hostname.`;
-      } else if (error.code === '28P01' || error.code === 'ER_ACCESS_DENIED_ERROR') {
-        errorMessage = 'Authentication failed. Please check username and password.';
-      } else if (error.code === 'ETIMEDOUT') {
-        errorMessage = 'Connection timeout. Server took too long to respond.';
-      } else if (error.message) {
-        errorMessage = error.message;
-      }
-
-      return errorResponse(errorMessage, 400);
+      return errorResponse(describeConnectorError(connector, error, { host, port, filePath }), 400);
     }
 
     return successResponse(
       {
         success: true,
-        message: result.message,
+        message,
         connectionType,
         host,
         port,
+        filePath,
         databaseName,
+        hostKeyFingerprint,
       },
-      result.message
+      message
     );
   } catch (error: any) {
     console.error('Error testing connection:', error);
@@ -0,0 +1,113 @@
+import { NextRequest } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import { connectDB } from '@/lib/mongodb';
+import Database from '@/models/Database';
+import { successResponse, errorResponse } from '@/lib/api-helpers';
+import { sessionPrincipal, canAccessDatabase } from '@/lib/authz';
+import { introspectSchema } from '@/lib/schema-introspection';
+import { detectSchemaDrift } from '@/lib/schema-drift';
+
+/**
+ * GET /api/databases/[id]/drift
+ * Last schema drift report for a database (null if never checked)
+ */
+export async function GET(
+  _request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session?.user) {
+      return errorResponse('Unauthorized', 401);
+    }
+
+    if (!(await canAccessDatabase(sessionPrincipal(session), params.id))) {
+      return errorResponse('Access denied to this database', 403);
+    }
+
+    await connectDB();
+
+    const database = await Database.findById(params.id).select('schemaDrift syncStatus');
+    if (!database) {
+      return errorResponse('Database not found', 404);
+    }
+
+    return successResponse({
+      drift: database.schemaDrift || null,
+      syncStatus: database.syncStatus,
+    });
+  } catch (error: any) {
+    console.error('Error fetching schema drift:', error);
+    return errorResponse(error.message || 'Failed to fetch schema drift', 500);
+  }
+}
+
+/**
+ * POST /api/databases/[id]/drift
+ * Introspect the live database and diff it against the tables embedded in Milvus
+ * Admin only
+ *
+ * A synced database with drift is moved back to yet_to_sync so it can be re-synced.
+ */
+export async function POST(
+  _request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session?.user) {
+      return errorResponse('Unauthorized', 401);
+    }
+
+    if (session.user.role !== 'admin') {
+      return errorResponse('Forbidden: Admin access required', 403);
+    }
+
+    await connectDB();
+
+    const database = await Database.findById(params.id).populate('connectionId');
+    if (!database) {
+      return errorResponse('Database not found', 404);
+    }
+
+    if (database.syncStatus === 'syncing') {
+      return errorResponse('Database is syncing. Check for drift once the sync finishes.', 409);
+    }
+
+    let report;
+    try {
+      const snapshot = await introspectSchema(database);
+      report = await detectSchemaDrift(database._id.toString(), snapshot);
+
+      // The fresh introspection doubles as the cached schema snapshot
+      database.schemaSnapshot = snapshot;
+      database.markModified('schemaSnapshot');
+    } catch (driftError: any) {
+      console.error('Schema drift check failed:', driftError);
+      return errorResponse(`Failed to check schema drift: ${driftError.message}`, 502);
+    }
+
+    database.schemaDrift = report;
+    database.markModified('schemaDrift');
+
+    if (report.hasDrift && database.syncStatus === 'synced') {
+      database.syncStatus = 'yet_to_sync';
+    }
+
+    await database.save();
+
+    console.log(
+      `Schema drift for ${database.databaseName}: +${report.addedTables.length} tables, ` +
+        `-${report.removedTables.length} tables, ${report.changedTables.length} changed`
+    );
+
+    return successResponse(
+      { drift: report, syncStatus: database.syncStatus },
+      report.hasDrift ? 'Schema drift detected' : 'No schema drift detected'
+    );
+  } catch (error: any) {
+    console.error('Error checking schema drift:', error);
+    return errorResponse(error.message || 'Failed to check schema drift', 500);
+  }
+}
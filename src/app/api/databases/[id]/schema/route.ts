@@ -0,0 +1,68 @@
+import { NextRequest } from 'next/server';
+import { connectDB } from '@/lib/mongodb';
+import Database from '@/models/Database';
+import { successResponse, errorResponse } from '@/lib/api-helpers';
+import { canAccessDatabase } from '@/lib/authz';
+import { authenticateRequest, withApiKeyUsage } from '@/lib/request-auth';
+import { introspectSchema } from '@/lib/schema-introspection';
+
+/**
+ * GET /api/databases/[id]/schema
+ * Tables, columns, keys, indexes and row estimates of a database
+ * Returns the cached snapshot unless ?refresh=true or nothing is cached yet
+ * Session or API key auth (databases:read scope)
+ */
+export const GET = withApiKeyUsage('/api/databases/[id]/schema', async (
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) => {
+  try {
+    const auth = await authenticateRequest(request, 'databases:read');
+    if (auth.error) {
+      return auth.error;
+    }
+
+    if (!(await canAccessDatabase(auth.principal, params.id))) {
+      return errorResponse('Access denied to this database', 403);
+    }
+
+    const { searchParams } = new URL(request.url);
+    const refresh = searchParams.get('refresh') === 'true';
+
+    await connectDB();
+
+    const database = await Database.findById(params.id)
+      .select('+schemaSnapshot')
+      .populate('connectionId');
+
+    if (!database) {
+      return errorResponse('Database not found', 404);
+    }
+
+    if (database.schemaSnapshot && !refresh) {
+      return successResponse(
+        { schema: database.schemaSnapshot, cached: true },
+        'Schema retrieved from cache'
+      );
+    }
+
+    let snapshot;
+    try {
+      snapshot = await introspectSchema(database);
+    } catch (introspectionError: any) {
+      console.error('Schema introspection failed:', introspectionError);
+      return errorResponse(`Failed to introspect schema: ${introspectionError.message}`, 502);
+    }
+
+    database.schemaSnapshot = snapshot;
+    database.markModified('schemaSnapshot');
+    await database.save();
+
+    console.log(`✅ Introspected ${snapshot.tables.length} tables for database ${database.databaseName}`);
+
+    return successResponse({ schema: snapshot, cached: false }, 'Schema introspected successfully');
+  } catch (error: any) {
+    console.error('Error fetching database schema:', error);
+    return errorResponse(error.message || 'Failed to fetch database schema', 500);
+  }
+});
@@ -0,0 +1,45 @@
+import { NextRequest } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import { connectDB } from '@/lib/mongodb';
+import SyncJob from '@/models/SyncJob';
+import { successResponse, errorResponse } from '@/lib/api-helpers';
+import { cancelSyncJob } from '@/lib/sync-worker';
+
+/**
+ * POST /api/databases/[id]/sync-jobs/[jobId]/cancel
+ * Cancel a queued or running sync job
+ * Admin only
+ */
+export async function POST(
+  _request: NextRequest,
+  { params }: { params: { id: string; jobId: string } }
+) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session?.user) {
+      return errorResponse('Unauthorized', 401);
+    }
+
+    if (session.user.role !== 'admin') {
+      return errorResponse('Forbidden: Admin access required', 403);
+    }
+
+    await connectDB();
+
+    const existing = await SyncJob.findOne({ _id: params.jobId, databaseId: params.id });
+    if (!existing) {
+      return errorResponse('Sync job not found', 404);
+    }
+
+    const job = await cancelSyncJob(params.jobId);
+    if (!job) {
+      return errorResponse(`Sync job is already ${existing.status}`, 409);
+    }
+
+    return successResponse(job, 'Sync job cancelled');
+  } catch (error: any) {
+    console.error('Error cancelling sync job:', error);
+    return errorResponse(error.message || 'Failed to cancel sync job', 500);
+  }
+}
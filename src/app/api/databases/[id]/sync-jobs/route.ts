@@ -0,0 +1,53 @@
+import { NextRequest } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import { connectDB } from '@/lib/mongodb';
+import SyncJob from '@/models/SyncJob';
+import { SYNC_JOB_STATUS } from '@/lib/validation';
+import { successResponse, errorResponse } from '@/lib/api-helpers';
+
+/**
+ * GET /api/databases/[id]/sync-jobs
+ * Sync job history for a database, newest first
+ * Admin only
+ *
+ * Query: ?status=queued|running|succeeded|failed|cancelled&limit=20
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session?.user) {
+      return errorResponse('Unauthorized', 401);
+    }
+
+    if (session.user.role !== 'admin') {
+      return errorResponse('Forbidden: Admin access required', 403);
+    }
+
+    const { searchParams } = new URL(request.url);
+    const status = searchParams.get('status');
+    const limit = Math.min(parseInt(searchParams.get('limit') || '20'), 100);
+
+    if (status && !(SYNC_JOB_STATUS as readonly string[]).includes(status)) {
+      return errorResponse('Invalid sync job status', 400);
+    }
+
+    await connectDB();
+
+    const filter: any = { databaseId: params.id };
+    if (status) filter.status = status;
+
+    const jobs = await SyncJob.find(filter)
+      .populate('requestedBy', 'name email')
+      .sort({ createdAt: -1 })
+      .limit(limit);
+
+    return successResponse({ jobs }, 'Sync jobs retrieved successfully');
+  } catch (error: any) {
+    console.error('Error fetching sync jobs:', error);
+    return errorResponse(error.message || 'Failed to fetch sync jobs', 500);
+  }
+}
@@ -0,0 +1,140 @@
+import { NextRequest } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import { connectDB } from '@/lib/mongodb';
+import Database from '@/models/Database';
+import { syncScheduleSchema } from '@/lib/validation';
+import { successResponse, errorResponse } from '@/lib/api-helpers';
+import { computeNextRun } from '@/lib/sync-scheduler';
+
+/**
+ * GET /api/databases/[id]/sync-schedule
+ * Automatic re-sync schedule for a database (null if none)
+ * Admin only
+ */
+export async function GET(
+  _request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session?.user) {
+      return errorResponse('Unauthorized', 401);
+    }
+
+    if (session.user.role !== 'admin') {
+      return errorResponse('Forbidden: Admin access required', 403);
+    }
+
+    await connectDB();
+
+    const database = await Database.findById(params.id).select('syncSchedule');
+    if (!database) {
+      return errorResponse('Database not found', 404);
+    }
+
+    return successResponse({ schedule: database.syncSchedule || null });
+  } catch (error: any) {
+    console.error('Error fetching sync schedule:', error);
+    return errorResponse(error.message || 'Failed to fetch sync schedule', 500);
+  }
+}
+
+/**
+ * PUT /api/databases/[id]/sync-schedule
+ * Create or replace the re-sync schedule; enabled=false pauses it
+ * Admin only
+ */
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session?.user) {
+      return errorResponse('Unauthorized', 401);
+    }
+
+    if (session.user.role !== 'admin') {
+      return errorResponse('Forbidden: Admin access required', 403);
+    }
+
+    const body = await request.json();
+
+    // Validate request body
+    const validation = syncScheduleSchema.safeParse(body);
+    if (!validation.success) {
+      return errorResponse(validation.error.errors[0].message, 400);
+    }
+
+    await connectDB();
+
+    const database = await Database.findById(params.id);
+    if (!database) {
+      return errorResponse('Database not found', 404);
+    }
+
+    const { enabled, type, intervalMinutes, cronExpression, forceRegenerate } = validation.data;
+    const nextRunAt = computeNextRun({ enabled, type, intervalMinutes, cronExpression });
+
+    if (enabled && !nextRunAt) {
+      return errorResponse('Cron expression never matches a date', 400);
+    }
+
+    database.syncSchedule = {
+      enabled,
+      type,
+      intervalMinutes: type === 'interval' ? intervalMinutes : undefined,
+      cronExpression: type === 'cron' ? cronExpression : undefined,
+      forceRegenerate,
+      nextRunAt,
+      lastRunAt: database.syncSchedule?.lastRunAt,
+      lastJobId: database.syncSchedule?.lastJobId,
+    };
+
+    await database.save();
+
+    return successResponse(
+      { schedule: database.syncSchedule },
+      enabled ? 'Sync schedule saved' : 'Sync schedule paused'
+    );
+  } catch (error: any) {
+    console.error('Error saving sync schedule:', error);
+    return errorResponse(error.message || 'Failed to save sync schedule', 500);
+  }
+}
+
+/**
+ * DELETE /api/databases/[id]/sync-schedule
+ * Remove the re-sync schedule
+ * Admin only
+ */
+export async function DELETE(
+  _request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session?.user) {
+      return errorResponse('Unauthorized', 401);
+    }
+
+    if (session.user.role !== 'admin') {
+      return errorResponse('Forbidden: Admin access required', 403);
+    }
+
+    await connectDB();
+
+    const database = await Database.findByIdAndUpdate(params.id, {
+      $unset: { syncSchedule: 1 },
+    });
+    if (!database) {
+      return errorResponse('Database not found', 404);
+    }
+
+    return successResponse(null, 'Sync schedule removed');
+  } catch (error: any) {
+    console.error('Error removing sync schedule:', error);
+    return errorResponse(error.message || 'Failed to remove sync schedule', 500);
+  }
+}
@@ -0,0 +1,89 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import type { NextRequest } from 'next/server';
+import { PUT } from './route';
+
+const mocks = vi.hoisted(() => ({
+  canAccessDatabase: vi.fn(async (_principal: unknown, _databaseId: string) => true),
+  updateVectorDescription: vi.fn(async (..._args: unknown[]) => ({ success: true, message: 'Description updated successfully' })),
+}));
+
+vi.mock('@/lib/mongodb', () => ({ connectDB: async () => undefined }));
+vi.mock('@/models/Database', () => ({
+  default: { findById: async () => null, findByIdAndUpdate: async () => null },
+}));
+vi.mock('@/lib/milvus', () => ({ updateVectorDescription: mocks.updateVectorDescription }));
+vi.mock('@/lib/authz', () => ({ canAccessDatabase: mocks.canAccessDatabase }));
+vi.mock('@/lib/request-auth', () => ({
+  authenticateRequest: async () => ({
+    principal: { kind: 'api-key', apiKeyId: 'key-1', teamId: 'team-1', databaseIds: [] },
+  }),
+  withApiKeyUsage: (_route: string, handler: unknown) => handler,
+}));
+
+const DATABASE_ID = 'a'.repeat(24);
+const OTHER_DATABASE_ID = 'b'.repeat(24);
+
+async function put(databaseId: string, body: unknown) {
+  const request = { headers: new Headers(), json: async () => body } as unknown as NextRequest;
+  const handler = PUT as unknown as (
+    request: NextRequest,
+    context: { params: { id: string; vectorId: string } }
+  ) => Promise<Response>;
+  const response = await handler(request, { params: { id: databaseId, vectorId: 'vector-1' } });
+  return { status: response.status, body: await response.json() };
+}
+
+beforeEach(() => {
+  mocks.canAccessDatabase.mockClear();
+  mocks.canAccessDatabase.mockResolvedValue(true);
+  mocks.updateVectorDescription.mockClear();
+});
+
+describe('PUT /api/databases/[id]/vectors/[vectorId]', () => {
+  it('authorizes and updates the database in the URL', async () => {
+    const response = await put(DATABASE_ID, { description: 'Orders', table_name: 'orders' });
+
+    expect(response.status).toBe(200);
+    expect(mocks.canAccessDatabase).toHaveBeenCalledWith(expect.anything(), DATABASE_ID);
+    expect(mocks.updateVectorDescription).toHaveBeenCalledWith('vector-1', 'Orders', undefined, DATABASE_ID, 'orders');
+  });
+
+  it('refuses a body database_id that differs from the URL', async () => {
+    const response = await put(DATABASE_ID, {
+      description: 'Orders',
+      table_name: 'orders',
+      database_id: OTHER_DATABASE_ID,
+    });
+
+    expect(response.status).toBe(400);
+    expect(response.body.error).toBe('database_id does not match the database in the URL');
+    expect(mocks.canAccessDatabase).not.toHaveBeenCalled();
+    expect(mocks.updateVectorDescription).not.toHaveBeenCalled();
+  });
+
+  it('accepts a matching body database_id', async () => {
+    const response = await put(DATABASE_ID, { description: 'Orders', table_name: 'orders', database_id: DATABASE_ID });
+
+    expect(response.status).toBe(200);
+  });
+
+  it('returns 403 without access to the URL database', async () => {
+    mocks.canAccessDatabase.mockResolvedValue(false);
+
+    const response = await put(DATABASE_ID, { description: 'Orders', table_name: 'orders' });
+
+    expect(response.status).toBe(403);
+    expect(mocks.updateVectorDescription).not.toHaveBeenCalled();
+  });
+
+  it.each<[string, string, unknown, string]>([
+    ['a malformed database id', 'not-an-id', { description: 'x', table_name: 't' }, 'Invalid database ID'],
+    ['a missing description', DATABASE_ID, { table_name: 't' }, 'Description is required'],
+    ['a non-string table name', DATABASE_ID, { description: 'x', table_name: { $ne: 1 } }, 'table_name must be a string'],
+  ])('returns 400 for %s', async (_label, databaseId, body, error) => {
+    const response = await put(databaseId, body);
+
+    expect(response.status).toBe(400);
+    expect(response.body.error).toBe(error);
+  });
+});
@@ -1,36 +1,48 @@
 import { NextRequest } from 'next/server';
-import { getServerSession } from 'next-auth';
-import { authOptions } from '@/lib/auth';
 import { successResponse, errorResponse } from '@/lib/api-helpers';
 import { updateVectorDescription } from '@/lib/milvus';
 import { connectDB } from '@/lib/mongodb';
 import Database from '@/models/Database';
+import { canAccessDatabase } from '@/lib/authz';
+import { authenticateRequest, withApiKeyUsage } from '@/lib/request-auth';
+import { isValidObjectId } from '@/lib/utils';
+import { updateVectorSchema } from '@/lib/validation';
 
 /**
  * PUT /api/databases/[id]/vectors/[vectorId]
  * Update a vector's description
+ * Session or API key auth (vectors:write scope) on the database in the URL
  */
-export async function PUT(
+export const PUT = withApiKeyUsage('/api/databases/[id]/vectors/[vectorId]', async (
   request: NextRequest,
   { params }: { params: { id: string; vectorId: string } }
-) {
+) => {
   try {
-    const session = await getServerSession(authOptions);
-    if (!session?.user) {
-      return errorResponse('Unauthorized', 401);
+    const auth = await authenticateRequest(request, 'vectors:write');
+    if (auth.error) {
+      return auth.error;
     }
 
-    const { vectorId } = params;
-    const { id: databaseId } = params;
-    const body = await request.json();
-    const { description, table_name, database_id } = body;
+    const { id: databaseId, vectorId } = params;
+    if (!isValidObjectId(databaseId)) {
+      return errorResponse('Invalid database ID', 400);
+    }
+
+    const body = await request.json().catch(() => ({}));
+    const validation = updateVectorSchema.safeParse(body);
+    if (!validation.success) {
+      return errorResponse(validation.error.errors[0].message, 400);
+    }
+
+    const { description, table_name, database_id } = validation.data;
 
-    if (!description) {
-      return errorResponse('Description is required', 400);
+    // Access is checked on the URL's database, so the body may not name another one
+    if (database_id !== undefined && database_id !== databaseId) {
+      return errorResponse('database_id does not match the database in the URL', 400);
     }
 
-    if (!table_name || !database_id) {
-      return errorResponse('table_name and database_id are required', 400);
+    if (!(await canAccessDatabase(auth.principal, databaseId))) {
+      return errorResponse('Access denied to this database', 403);
     }
 
     try {
@@ -38,20 +50,20 @@ export async function PUT(
         vectorId,
         description,
         undefined, // collectionName (use default)
-        database_id,
+        databaseId,
         table_name
       );
 
       // Update MongoDB: mark database as needing sync (only if already synced)
       await connectDB();
-      const database = await Database.findById(database_id);
+      const database = await Database.findById(databaseId);
 
       if (database && database.syncStatus === 'synced') {
         await Database.findByIdAndUpdate(
-          database_id,
+          databaseId,
           { syncStatus: 'yet_to_sync' }
         );
-        console.log(`Database ${database_id} marked as needing sync`);
+        console.log(`Database ${databaseId} marked as needing sync`);
       }
 
       return successResponse(
@@ -73,4 +85,4 @@ export async function PUT(
     console.error('Error updating vector:', error);
     return errorResponse(error.message || 'Failed to update vector', 500);
   }
-}
+});
@@ -1,26 +1,31 @@
 import { NextRequest } from 'next/server';
-import { getServerSession } from 'next-auth';
-import { authOptions } from '@/lib/auth';
 import { successResponse, errorResponse } from '@/lib/api-helpers';
 import { queryVectorsByDatabaseId } from '@/lib/milvus';
+import { canAccessDatabase } from '@/lib/authz';
+import { authenticateRequest, withApiKeyUsage } from '@/lib/request-auth';
 
 /**
  * GET /api/databases/[id]/vectors
  * Fetch vector embeddings from Milvus for a specific database
+ * Session or API key auth (vectors:read scope)
  */
-export async function GET(
+export const GET = withApiKeyUsage('/api/databases/[id]/vectors', async (
   request: NextRequest,
   { params }: { params: { id: string } }
-) {
+) => {
   try {
-    const session = await getServerSession(authOptions);
-    if (!session?.user) {
-      return errorResponse('Unauthorized', 401);
+    const auth = await authenticateRequest(request, 'vectors:read');
+    if (auth.error) {
+      return auth.error;
     }
 
     const { id: databaseId } = params;
     const { searchParams } = new URL(request.url);
 
+    if (!(await canAccessDatabase(auth.principal, databaseId))) {
+      return errorResponse('Access denied to this database', 403);
+    }
+
     // Get filter parameters
     const search = searchParams.get('search') || '';
     const limit = parseInt(searchParams.get('limit') || '100');
@@ -80,4 +85,4 @@ export async function GET(
     console.error('Error fetching vectors:', error);
     return errorResponse(error.message || 'Failed to fetch vector data', 500);
   }
-}
+});
@@ -1,21 +1,22 @@
 import { NextRequest } from 'next/server';
-import { getServerSession } from 'next-auth';
-import { authOptions } from '@/lib/auth';
 import { successResponse, errorResponse } from '@/lib/api-helpers';
 import { toggleTableSkipStatus } from '@/lib/milvus';
+import { canAccessDatabase } from '@/lib/authz';
+import { authenticateRequest, withApiKeyUsage } from '@/lib/request-auth';
 
 /**
  * PUT /api/databases/[id]/vectors/tables/[tableName]/skip
  * Toggle skip status for a table
+ * Session or API key auth (vectors:write scope)
  */
-export async function PUT(
+export const PUT = withApiKeyUsage('/api/databases/[id]/vectors/tables/[tableName]/skip', async (
   request: NextRequest,
   { params }: { params: { id: string; tableName: string } }
-) {
+) => {
   try {
-    const session = await getServerSession(authOptions);
-    if (!session?.user) {
-      return errorResponse('Unauthorized', 401);
+    const auth = await authenticateRequest(request, 'vectors:write');
+    if (auth.error) {
+      return auth.error;
     }
 
     const { id: databaseId, tableName: encodedTableName } = params;
@@ -27,6 +28,10 @@ export async function PUT(
       return errorResponse('Skipped status (boolean) is required', 400);
     }
 
+    if (!(await canAccessDatabase(auth.principal, databaseId))) {
+      return errorResponse('Access denied to this database', 403);
+    }
+
     console.log(`Toggling skip status for table ${tableName} to ${skipped}`);
 
     try {
@@ -51,4 +56,4 @@ export async function PUT(
     console.error('Error toggling skip status:', error);
     return errorResponse(error.message || 'Failed to toggle skip status', 500);
   }
-}
+});
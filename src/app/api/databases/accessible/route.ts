@@ -1,42 +1,26 @@
 import { NextRequest } from 'next/server';
-import { getServerSession } from 'next-auth';
-import { authOptions } from '@/lib/auth';
 import { connectDB } from '@/lib/mongodb';
 import Database from '@/models/Database';
-import Team from '@/models/Team';
-import Access from '@/models/Access';
 import { successResponse, errorResponse } from '@/lib/api-helpers';
+import { getAccessibleDatabaseIds } from '@/lib/authz';
+import { authenticateRequest, withApiKeyUsage } from '@/lib/request-auth';
 
 /**
  * GET /api/databases/accessible
  * Get all databases accessible to the current user
- * Available to all authenticated users
+ * Available to all authenticated users and API keys (databases:read scope)
  */
-export async function GET(request: NextRequest) {
+export const GET = withApiKeyUsage('/api/databases/accessible', async (request: NextRequest) => {
   try {
-    const session = await getServerSession(authOptions);
-    if (!session?.user) {
-      return errorResponse('Unauthorized', 401);
+    const auth = await authenticateRequest(request, 'databases:read');
+    if (auth.error) {
+      return auth.error;
     }
 
     await connectDB();
 
-    const userId = session.user.id;
-
-    // Find all teams the user is a member of
-    const userTeams = await Team.find({ members: userId }).select('_id');
-    const teamIds = userTeams.map((team) => team._id);
-
-    // Find all access records for this user (both team and individual)
-    const accessRecords = await Access.find({
-      $or: [
-        { accessType: 'team', teamId: { $in: teamIds } },
-        { accessType: 'individual', userId: userId },
-      ],
-    }).select('databaseId');
-
-    // Get unique database IDs
-    const databaseIds = [...new Set(accessRecords.map((record) => record.databaseId.toString()))];
+    // Team and individual grants held by this user (or the key's team)
+    const databaseIds = await getAccessibleDatabaseIds(auth.principal);
 
     // Fetch all accessible databases with connection info
     const databases = await Database.find({ _id: { $in: databaseIds } })
@@ -60,4 +44,4 @@ export async function GET(request: NextRequest) {
     console.error('Error fetching accessible databases:', error);
     return errorResponse(error.message || 'Failed to fetch accessible databases', 500);
   }
-}
+});
@@ -4,10 +4,9 @@ import { authOptions } from '@/lib/auth';
 import { connectDB } from '@/lib/mongodb';
 import Database from '@/models/Database';
 import Connection from '@/models/Connection';
-import Access from '@/models/Access';
-import Team from '@/models/Team';
 import { createDatabaseSchema } from '@/lib/validation';
 import { successResponse, errorResponse } from '@/lib/api-helpers';
+import { sessionPrincipal, getAccessibleDatabaseIds } from '@/lib/authz';
 
 /**
  * GET /api/databases
@@ -33,31 +32,8 @@ export async function GET(request: NextRequest) {
         .sort({ createdAt: -1 });
     } else {
       // Regular users: get databases they have access to (individual or team-based)
+      const allDatabaseIds = await getAccessibleDatabaseIds(sessionPrincipal(session));
 
-      // 1. Get individual access
-      const individualAccess = await Access.find({
-        userId: session.user.id,
-        accessType: 'individual',
-      }).select('databaseId');
-
-      // 2. Get team access - find all teams user is a member of
-      const userTeams = await Team.find({
-        members: session.user.id,
-      }).select('_id');
-
-      const teamIds = userTeams.map((team) => team._id);
-
-      const teamAccess = await Access.find({
-        accessType: 'team',
-        teamId: { $in: teamIds },
-      }).select('databaseId');
-
-      // 3. Combine all database IDs
-      const individualDbIds = individualAccess.map((a) => a.databaseId);
-      const teamDbIds = teamAccess.map((a) => a.databaseId);
-      const allDatabaseIds = [...new Set([...individualDbIds, ...teamDbIds])];
-
-      // 4. Fetch databases
       databases = await Database.find({
         _id: { $in: allDatabaseIds },
       })
@@ -1,24 +1,27 @@
 import { NextRequest } from 'next/server';
-import { getServerSession } from 'next-auth';
-import { authOptions } from '@/lib/auth';
 import { connectDB } from '@/lib/mongodb';
 import Database from '@/models/Database';
 import { successResponse, errorResponse } from '@/lib/api-helpers';
-import { FASTAPI_ENDPOINTS, getApiUrl } from '@/lib/constants/api';
+import { enqueueSyncJob } from '@/lib/sync-worker';
+import { canAccessDatabase } from '@/lib/authz';
+import { authenticateRequest, noteApiKeyUsage, withApiKeyUsage } from '@/lib/request-auth';
 
 /**
  * POST /api/databases/sync
- * Trigger sync for a database (calls FastAPI to sync embeddings)
- * Admin only
+ * Queue an embeddings sync for a database (processed by the background sync worker)
+ * Admins, or API keys with the sync:trigger scope on databases their team can access
+ *
+ * Returns 202 with the queued job; poll GET /api/databases/[id]/sync-jobs for progress.
  */
-export async function POST(request: NextRequest) {
+export const POST = withApiKeyUsage('/api/databases/sync', async (request: NextRequest) => {
   try {
-    const session = await getServerSession(authOptions);
-    if (!session?.user) {
-      return errorResponse('Unauthorized', 401);
+    const auth = await authenticateRequest(request, 'sync:trigger');
+    if (auth.error) {
+      return auth.error;
     }
 
-    if (session.user.role !== 'admin') {
+    const { session, principal } = auth;
+    if (session && session.user.role !== 'admin') {
       return errorResponse('Forbidden: Admin access required', 403);
     }
 
@@ -29,6 +32,12 @@ export async function POST(request: NextRequest) {
       return errorResponse('Database ID is required', 400);
     }
 
+    noteApiKeyUsage(request, { databaseId: String(databaseId) });
+
+    if (!session && !(await canAccessDatabase(principal, databaseId))) {
+      return errorResponse('API key team does not have access to this database', 403);
+    }
+
     await connectDB();
 
     const database = await Database.findById(databaseId).populate(
@@ -47,99 +56,32 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    // Update status to syncing
-    database.syncStatus = 'syncing';
-    await database.save();
-
-    console.log('Starting embeddings sync for database:', databaseId);
-
-    // Call FastAPI to sync embeddings
-    const fastApiUrl = getApiUrl(FASTAPI_ENDPOINTS.SYNC_EMBEDDINGS);
-
-    // Determine if this is a re-sync (force regenerate)
-    // If database has already been synced before, default to false (incremental)
-    // Otherwise, it's a first sync (force_regenerate = false is appropriate)
+    // Queue the sync; the background worker calls FastAPI and updates syncStatus
     const forceRegenerate = body.forceRegenerate ?? false;
 
-    try {
-      const fastApiResponse = await fetch(fastApiUrl, {
-        method: 'POST',
-        headers: {
-          'Accept': 'application/json',
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({
-          db_id: databaseId,
-          force_regenerate: forceRegenerate,
-        }),
-      });
-
-      if (!fastApiResponse.ok) {
-        const errorText = await fastApiResponse.text();
-        console.error('FastAPI Sync Error:', errorText);
-        throw new Error(`FastAPI returned ${fastApiResponse.status}: ${errorText}`);
-      }
-
-      const fastApiData = await fastApiResponse.json();
-      console.log('Sync completed:', databaseId);
-
-      // Update database with sync results
-      database.syncStatus = 'synced';
-      database.syncLastAt = new Date();
-      database.syncErrorMessage = undefined;
-      database.metadata = {
-        ...database.metadata,
-        lastSyncedBy: session.user.id,
-        lastSyncResponse: fastApiData,
-        tablesProcessed: fastApiData.tables_processed || 0,
-        embeddingsCreated: fastApiData.embeddings_created || 0,
-        indexPath: fastApiData.index_path || '',
-        processingTimeMs: fastApiData.processing_time_ms || 0,
-      };
-
-      await database.save();
+    const { job, created } = await enqueueSyncJob(databaseId, {
+      requestedBy: session?.user.id,
+      forceRegenerate,
+    });
 
-      return successResponse(
-        {
-          databaseId: database._id,
-          databaseName: database.databaseName,
-          syncStatus: 'synced',
-          syncLastAt: database.syncLastAt,
-          message: fastApiData.message || 'Sync completed successfully',
-          metadata: database.metadata,
-        },
-        'Database sync completed successfully'
-      );
-    } catch (fastApiError: any) {
-      console.error('FastAPI sync call failed:', fastApiError);
-
-      // Update database status to error
-      database.syncStatus = 'error';
-      database.syncErrorMessage = `Sync failed: ${fastApiError.message}. Please make sure the FastAPI server is running.`;
-      await database.save();
+    console.log(
+      created
+        ? `Queued sync job ${job._id} for database: ${databaseId}`
+        : `Sync job ${job._id} already active for database: ${databaseId}`
+    );
 
-      return errorResponse(
-        `Failed to sync database: ${fastApiError.message}`,
-        500
-      );
-    }
+    return successResponse(
+      {
+        databaseId: database._id,
+        databaseName: database.databaseName,
+        syncStatus: 'syncing',
+        job,
+      },
+      created ? 'Sync queued' : 'A sync is already queued or running for this database',
+      created ? 202 : 200
+    );
   } catch (error: any) {
     console.error('Error syncing database:', error);
-
-    // Try to update status to error
-    const { databaseId } = await request.json();
-    if (databaseId) {
-      try {
-        await connectDB();
-        await Database.findByIdAndUpdate(databaseId, {
-          syncStatus: 'error',
-          syncErrorMessage: error.message || 'Sync failed',
-        });
-      } catch (updateError) {
-        console.error('Error updating database status:', updateError);
-      }
-    }
-
-    return errorResponse(error.message || 'Failed to sync database', 500);
+    return errorResponse(error.message || 'Failed to queue database sync', 500);
   }
-}
+});
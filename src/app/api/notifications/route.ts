@@ -0,0 +1,79 @@
+import { NextRequest } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import { connectDB } from '@/lib/mongodb';
+import Notification from '@/models/Notification';
+import { markNotificationsReadSchema } from '@/lib/validation';
+import { successResponse, errorResponse } from '@/lib/api-helpers';
+
+const NOTIFICATIONS_LIMIT = 50;
+
+/**
+ * GET /api/notifications
+ * Latest notifications of the current user, with the unread count
+ * Authenticated users only
+ */
+export async function GET() {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session?.user) {
+      return errorResponse('Unauthorized', 401);
+    }
+
+    await connectDB();
+
+    const [notifications, unreadCount] = await Promise.all([
+      Notification.find({ userId: session.user.id })
+        .sort({ createdAt: -1 })
+        .limit(NOTIFICATIONS_LIMIT)
+        .lean(),
+      Notification.countDocuments({ userId: session.user.id, readAt: { $exists: false } }),
+    ]);
+
+    return successResponse(
+      { notifications, unreadCount },
+      'Notifications retrieved successfully'
+    );
+  } catch (error: any) {
+    console.error('Error fetching notifications:', error);
+    return errorResponse(error.message || 'Failed to fetch notifications', 500);
+  }
+}
+
+/**
+ * PUT /api/notifications
+ * Mark notifications of the current user as read
+ *
+ * Body: { ids? } (omit to mark all as read)
+ */
+export async function PUT(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session?.user) {
+      return errorResponse('Unauthorized', 401);
+    }
+
+    const body = await request.json().catch(() => ({}));
+    const validation = markNotificationsReadSchema.safeParse(body);
+    if (!validation.success) {
+      return errorResponse(validation.error.errors[0].message, 400);
+    }
+
+    await connectDB();
+
+    const filter: Record<string, any> = { userId: session.user.id, readAt: { $exists: false } };
+    if (validation.data.ids) {
+      filter._id = { $in: validation.data.ids };
+    }
+
+    const result = await Notification.updateMany(filter, { $set: { readAt: new Date() } });
+
+    return successResponse(
+      { updated: result.modifiedCount },
+      'Notifications marked as read'
+    );
+  } catch (error: any) {
+    console.error('Error updating notifications:', error);
+    return errorResponse(error.message || 'Failed to update notifications', 500);
+  }
+}
@@ -1,8 +1,8 @@
 import { NextRequest } from 'next/server';
-import { getServerSession } from 'next-auth';
-import { authOptions } from '@/lib/auth';
 import { successResponse, errorResponse } from '@/lib/api-helpers';
 import { getMinioClient, getMinioBucket } from '@/lib/minio';
+import { canAccessResultFile } from '@/lib/authz';
+import { authenticateRequest, withApiKeyUsage } from '@/lib/request-auth';
 import { parquetRead, parquetMetadata } from 'hyparquet';
 
 /**
@@ -33,14 +33,15 @@ function convertBigIntsToStrings(obj: any): any {
 /**
  * POST /api/query-results
  * Fetch and parse parquet file from MinIO
- * Authenticated users only
+ * Supports both session auth and API key auth (results:read scope)
  */
-export async function POST(request: NextRequest) {
+export const POST = withApiKeyUsage('/api/query-results', async (request: NextRequest) => {
   try {
-    const session = await getServerSession(authOptions);
-    if (!session?.user) {
-      return errorResponse('Unauthorized', 401);
+    const auth = await authenticateRequest(request, 'results:read');
+    if (auth.error) {
+      return auth.error;
     }
+    const { principal } = auth;
 
     const body = await request.json();
     const { s3Path } = body;
@@ -52,6 +53,11 @@ export async function POST(request: NextRequest) {
       return errorResponse('S3 path is required', 400);
     }
 
+    // Result must come from a chat or query on a database the caller can access
+    if (!(await canAccessResultFile(principal, s3Path))) {
+      return errorResponse('Access denied to this query result', 403);
+    }
+
     // Extract object key - remove s3:// prefix if present, otherwise use as-is
     let objectKey = s3Path;
     if (s3Path.startsWith('s3://')) {
@@ -135,4 +141,4 @@ export async function POST(request: NextRequest) {
       500
     );
   }
-}
+});
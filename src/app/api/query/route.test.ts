@@ -0,0 +1,57 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import type { NextRequest } from 'next/server';
+import { POST } from './route';
+
+const Database = vi.hoisted(() => ({ findById: vi.fn(async () => null) }));
+
+vi.mock('@/lib/mongodb', () => ({ connectDB: async () => undefined }));
+vi.mock('@/models/Database', () => ({ default: Database }));
+vi.mock('@/models/QueryLog', () => ({ default: { create: async () => undefined } }));
+vi.mock('@/lib/request-auth', () => ({
+  authenticateRequest: async () => ({
+    principal: { kind: 'user', userId: 'user-1', role: 'admin' },
+    session: { user: { id: 'user-1', name: 'Admin', email: 'admin@example.com', role: 'admin' } },
+  }),
+  noteApiKeyUsage: () => undefined,
+  withApiKeyUsage: (_route: string, handler: unknown) => handler,
+}));
+
+function post(body: unknown): NextRequest {
+  return {
+    headers: new Headers(),
+    json: async () => (typeof body === 'string' ? JSON.parse(body) : body),
+  } as unknown as NextRequest;
+}
+
+async function send(body: unknown) {
+  const response = await (POST as unknown as (request: NextRequest) => Promise<Response>)(post(body));
+  return { status: response.status, body: await response.json() };
+}
+
+beforeEach(() => {
+  Database.findById.mockClear();
+});
+
+describe('POST /api/query input validation', () => {
+  it.each<[string, unknown, string]>([
+    ['a missing query', { databaseId: 'a'.repeat(24) }, 'Database ID and query are required'],
+    ['a blank query', { databaseId: 'a'.repeat(24), query: '  ' }, 'Database ID and query are required'],
+    ['a non-string query', { databaseId: 'a'.repeat(24), query: { $ne: 1 } }, 'Query must be a string'],
+    ['a malformed database id', { databaseId: 'not-an-id', query: 'how many users?' }, 'Invalid database ID'],
+    ['a non-string database id', { databaseId: 42, query: 'how many users?' }, 'Invalid database ID'],
+    ['a body that is not JSON', '{', 'Database ID and query are required'],
+  ])('returns 400 for %s', async (_label, body, error) => {
+    const response = await send(body);
+
+    expect(response.status).toBe(400);
+    expect(response.body.error).toBe(error);
+    expect(Database.findById).not.toHaveBeenCalled();
+  });
+
+  it('looks up a well-formed request', async () => {
+    const response = await send({ databaseId: 'a'.repeat(24), query: 'how many users?' });
+
+    expect(response.status).toBe(404);
+    expect(Database.findById).toHaveBeenCalledWith('a'.repeat(24));
+  });
+});
@@ -1,94 +1,85 @@
 import { NextRequest } from 'next/server';
-import { getServerSession } from 'next-auth';
-import { authOptions } from '@/lib/auth';
 import { connectDB } from '@/lib/mongodb';
 import Database from '@/models/Database';
-import Team from '@/models/Team';
 import { successResponse, errorResponse } from '@/lib/api-helpers';
-import { validateApiKey, trackApiKeyUsage, getClientIp } from '@/lib/api-key-auth';
+import { queryRequestSchema } from '@/lib/validation';
+import { trackApiKeyUsage, getClientIp } from '@/lib/api-key-auth';
+import { canAccessDatabase } from '@/lib/authz';
+import { authenticateRequest, noteApiKeyUsage, withApiKeyUsage } from '@/lib/request-auth';
+import {
+  getApiKeyLimitSubjects,
+  checkRateLimits,
+  checkQuotas,
+  limitExceededResponse,
+  withLimitHeaders,
+  type LimitCheck,
+} from '@/lib/rate-limit';
+import { requestChatCompletion, ChatCompletion } from '@/lib/fastapi';
+import QueryLog, { IQueryLog } from '@/models/QueryLog';
 
 /**
  * POST /api/query
  * Execute natural language query against a database
- * Supports both session auth and API key auth
+ * Supports both session auth and API key auth (query:read scope)
+ * API keys are rate limited (429 + Retry-After) by their own and their team's limits;
+ * the request is counted against quotas only once it is about to reach FastAPI
+ * Every call is persisted to QueryLog for auditing
  */
-export async function POST(request: NextRequest) {
+export const POST = withApiKeyUsage('/api/query', async (request: NextRequest) => {
   try {
-    let userId: string | undefined;
-    let userName: string | undefined;
-    let teamId: string | undefined;
-    let apiKeyId: string | undefined;
-    let authMethod: 'session' | 'api-key';
-
-    // Try session authentication first
-    const session = await getServerSession(authOptions);
-
-    if (session?.user) {
-      // Session-based authentication
-      userId = session.user.id;
-      userName = session.user.name || session.user.email;
-      authMethod = 'session';
-    } else {
-      // Try API key authentication
-      const apiKeyValidation = await validateApiKey(request);
-
-      if (!apiKeyValidation.isValid) {
-        return errorResponse(
-          apiKeyValidation.error || 'Authentication required',
-          401
-        );
-      }
-
-      // API key authentication
-      teamId = apiKeyValidation.context!.teamId;
-      apiKeyId = apiKeyValidation.context!.apiKeyId;
-      authMethod = 'api-key';
-
-      // Check if key has query permission
-      const hasQueryPermission =
-        apiKeyValidation.context!.permissions.includes('query:read') ||
-        apiKeyValidation.context!.permissions.includes('*');
+    const auth = await authenticateRequest(request, 'query:read');
+    if (auth.error) {
+      return auth.error;
+    }
 
-      if (!hasQueryPermission) {
-        return errorResponse('API key does not have query permission', 403);
+    const { principal, session, apiKey } = auth;
+    const authMethod: 'session' | 'api-key' = session ? 'session' : 'api-key';
+    const userId = session?.user.id;
+    const userName = session ? session.user.name || session.user.email : undefined;
+    const teamId = apiKey?.teamId;
+    const apiKeyId = apiKey?.apiKeyId;
+
+    // Rate limits are checked before anything else touches the database or FastAPI
+    const limitSubjects = apiKey ? await getApiKeyLimitSubjects(apiKey) : [];
+    let rateLimit: LimitCheck | undefined;
+    let quota: LimitCheck | undefined;
+    if (apiKey) {
+      rateLimit = await checkRateLimits(limitSubjects);
+      if (!rateLimit.allowed) {
+        return limitExceededResponse(rateLimit);
       }
     }
 
-    // Parse request body
-    const body = await request.json();
-    const { databaseId, query } = body;
-
-    if (!databaseId || !query) {
-      return errorResponse('Database ID and query are required', 400);
+    // Parse and validate request body (wrong types would otherwise fail later as 500s)
+    const body = await request.json().catch(() => ({}));
+    const validation = queryRequestSchema.safeParse(body);
+    if (!validation.success) {
+      return errorResponse(validation.error.errors[0].message, 400);
     }
 
+    const { databaseId, query } = validation.data;
+
+    noteApiKeyUsage(request, { databaseId, query });
+
     await connectDB();
 
-    // Get database and check access
-    const database = await Database.findById(databaseId)
-      .populate('teamId', 'name members')
-      .populate('connectionId');
+    const database = await Database.findById(databaseId);
 
     if (!database) {
       return errorResponse('Database not found', 404);
     }
 
-    // Access control
-    if (authMethod === 'session') {
-      // For session auth, check if user is admin or team member
-      const isAdmin = session!.user.role === 'admin';
-      const isTeamMember = database.teamId.members.includes(userId as any);
-
-      if (!isAdmin && !isTeamMember) {
-        return errorResponse('Access denied to this database', 403);
-      }
-
-      teamId = database.teamId._id.toString();
-    } else {
-      // For API key auth, check if key belongs to same team as database
-      if (database.teamId._id.toString() !== teamId) {
-        return errorResponse('API key team does not match database team', 403);
+    // Access control: admins, or a team/individual grant for this database
+    // (API keys: their team's grant, within the key's database allow-list)
+    if (!(await canAccessDatabase(principal, databaseId))) {
+      let message = 'Access denied to this database';
+      if (apiKey) {
+        message =
+          apiKey.databaseIds.length > 0 && !apiKey.databaseIds.includes(databaseId)
+            ? 'API key is not allowed to use this database'
+            : 'API key team does not have access to this database';
       }
+      return errorResponse(message, 403);
     }
 
     // Check if database has embeddings
@@ -99,16 +90,76 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    // TODO: Call FastAPI endpoint to process natural language query
-    // For now, return a placeholder response
+    if (apiKey) {
+      quota = await checkQuotas(limitSubjects);
+      if (!quota.allowed) {
+        return limitExceededResponse(quota);
+      }
+    }
+
+    // Run the question through the same FastAPI pipeline used by chats
+    const startedAt = Date.now();
+    let completion: ChatCompletion;
+
+    try {
+      completion = await requestChatCompletion([database._id.toString()], query);
+    } catch (fastApiError: any) {
+      console.error('FastAPI query call failed:', fastApiError);
+
+      await recordQuery({
+        databaseId,
+        authMethod,
+        userId,
+        teamId,
+        apiKeyId,
+        query,
+        status: 'error',
+        executionTimeMs: Date.now() - startedAt,
+        errorMessage: fastApiError.message,
+        ipAddress: getClientIp(request),
+      });
+
+      return errorResponse(`Failed to execute query: ${fastApiError.message}`, 502);
+    }
+
+    const executionTime = Date.now() - startedAt;
+    const tiers = completion.queryResults;
+
+    // Prefer the first successful tier for the summary fields
+    const primary = tiers.find((tier) => tier.status === 'success') || tiers[0];
+    const filePath = primary?.file_path || undefined;
+    const rowCount = primary?.row_count ?? primary?.result?.length ?? 0;
+    const generatedSql = completion.sqlQuery || primary?.sql_generated || '';
+    const failed = tiers.length > 0 && tiers.every((tier) => tier.status !== 'success');
+
     const result = {
       query,
       databaseId,
-      generatedSql: 'SELECT * FROM users LIMIT 10', // Placeholder
-      results: [], // Placeholder
-      executionTime: 0,
+      answer: completion.assistantMessage,
+      generatedSql,
+      results: tiers,
+      rowCount,
+      executionTime,
+      filePath,
     };
 
+    await recordQuery({
+      databaseId,
+      authMethod,
+      userId,
+      teamId,
+      apiKeyId,
+      query,
+      status: failed ? 'error' : 'success',
+      generatedSql,
+      results: tiers.map(({ result: _rows, ...summary }) => summary),
+      rowCount,
+      executionTimeMs: executionTime,
+      filePath,
+      errorMessage: failed ? primary?.error_message || undefined : undefined,
+      ipAddress: getClientIp(request),
+    });
+
     // Track API key usage if using API key auth
     if (authMethod === 'api-key' && apiKeyId) {
       await trackApiKeyUsage(apiKeyId, {
@@ -119,16 +170,42 @@ export async function POST(request: NextRequest) {
       });
     }
 
-    return successResponse(
-      {
-        result,
-        authMethod,
-        teamId,
-      },
-      'Query executed successfully'
+    // The rate limit headers win over the quota ones when both are configured
+    return withLimitHeaders(
+      withLimitHeaders(
+        successResponse(
+          {
+            result,
+            authMethod,
+            teamId,
+          },
+          'Query executed successfully'
+        ),
+        quota
+      ),
+      rateLimit
     );
   } catch (error: any) {
     console.error('Error executing query:', error);
     return errorResponse(error.message || 'Failed to execute query', 500);
   }
+});
+
+/**
+ * Persist a query API call for auditing
+ * Logging failures are swallowed so they never break the request
+ */
+async function recordQuery(
+  entry: Omit<Partial<IQueryLog>, 'databaseId' | 'userId' | 'teamId' | 'apiKeyId'> & {
+    databaseId: string;
+    userId?: string;
+    teamId?: string;
+    apiKeyId?: string;
+  }
+): Promise<void> {
+  try {
+    await QueryLog.create(entry);
+  } catch (error) {
+    console.error('Error recording query log:', error);
+  }
 }
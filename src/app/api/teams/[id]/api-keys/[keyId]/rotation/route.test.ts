@@ -0,0 +1,142 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import type { NextRequest } from 'next/server';
+import { ownsChat, type Principal } from '@/lib/authz';
+import { POST } from './route';
+
+const TEAM_ID = 'a'.repeat(24);
+const OLD_KEY_ID = 'b'.repeat(24);
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * In-memory ApiKey and Chat collections; filters compare ids as strings
+ */
+const db = vi.hoisted(() => {
+  const state = {
+    keys: [] as Record<string, any>[],
+    chats: [] as Record<string, any>[],
+    failCreate: false,
+  };
+
+  const matches = (document: Record<string, any>, filter: Record<string, any>) =>
+    Object.entries(filter).every(([field, condition]) =>
+      condition && typeof condition === 'object' && '$exists' in condition
+        ? (document[field] !== undefined) === condition.$exists
+        : String(document[field]) === String(condition)
+    );
+
+  const toDocument = (record: Record<string, any>) => ({
+    ...record,
+    populate: async () => undefined,
+    toJSON: () => record,
+  });
+
+  const ApiKey = {
+    findById: async (id: string) => {
+      const key = state.keys.find((candidate) => String(candidate._id) === id);
+      return key && toDocument(key);
+    },
+    findOneAndUpdate: async (filter: Record<string, any>, update: { $set: Record<string, any> }) => {
+      const key = state.keys.find((candidate) => matches(candidate, filter));
+      return key ? Object.assign(key, update.$set) : null;
+    },
+    create: async (record: Record<string, any>) => {
+      if (state.failCreate) throw new Error('insert failed');
+      state.keys.push(record);
+      return toDocument(record);
+    },
+    updateOne: async (filter: Record<string, any>, update: Record<string, any>) => {
+      const key = state.keys.find((candidate) => matches(candidate, filter));
+      if (!key) return;
+      Object.keys(update.$unset || {}).forEach((field) => delete key[field]);
+      Object.assign(key, update.$set);
+    },
+    deleteOne: async (filter: Record<string, any>) => {
+      state.keys = state.keys.filter((key) => !matches(key, filter));
+    },
+  };
+
+  const Chat = {
+    updateMany: async (filter: Record<string, any>, update: { $set: Record<string, any> }) => {
+      state.chats.filter((chat) => matches(chat, filter)).forEach((chat) => Object.assign(chat, update.$set));
+    },
+  };
+
+  return { state, ApiKey, Chat };
+});
+
+vi.mock('next-auth', () => ({
+  getServerSession: async () => ({ user: { id: 'user-1', role: 'user' } }),
+}));
+vi.mock('@/lib/auth', () => ({ authOptions: {} }));
+vi.mock('@/lib/mongodb', () => ({ connectDB: async () => undefined }));
+vi.mock('@/models/ApiKey', () => ({ default: db.ApiKey }));
+vi.mock('@/models/Chat', () => ({ default: db.Chat }));
+vi.mock('@/models/Team', () => ({ default: { findById: async () => ({ members: ['user-1'] }) } }));
+vi.mock('@/models/Access', () => ({ default: {} }));
+vi.mock('@/models/Message', () => ({ default: {} }));
+vi.mock('@/models/QueryLog', () => ({ default: {} }));
+vi.mock('@/lib/api-key-auth', () => ({
+  generateApiKey: () => ({ fullKey: 'flash_new_secret', prefix: 'flash_new' }),
+}));
+vi.mock('@/lib/api-key-usage-stats', () => ({ getRotationStatus: async () => null }));
+
+async function rotate(body: Record<string, unknown> = {}) {
+  const request = { json: async () => body } as unknown as NextRequest;
+  const response = await POST(request, { params: { id: TEAM_ID, keyId: OLD_KEY_ID } });
+  return { status: response.status, body: await response.json() };
+}
+
+const keyPrincipal = (apiKeyId: string, rotatedToId?: string): Principal => ({
+  kind: 'api-key',
+  apiKeyId,
+  teamId: TEAM_ID,
+  databaseIds: [],
+  rotatedToId,
+});
+
+beforeEach(() => {
+  const createdAt = new Date(Date.now() - DAY_MS);
+  db.state.failCreate = false;
+  db.state.keys = [
+    {
+      _id: OLD_KEY_ID,
+      name: 'reporting',
+      teamId: TEAM_ID,
+      isActive: true,
+      createdAt,
+      expiresAt: new Date(createdAt.getTime() + 30 * DAY_MS),
+      permissions: ['query'],
+      databaseIds: [],
+    },
+  ];
+  db.state.chats = [{ _id: 'chat-1', apiKeyId: OLD_KEY_ID }];
+});
+
+describe('POST /api/teams/[id]/api-keys/[keyId]/rotation', () => {
+  it('chat created by the old key is still reachable with the new key', async () => {
+    const response = await rotate();
+
+    expect(response.status).toBe(201);
+    const newKeyId = String(response.body.data.apiKey._id);
+    const [chat] = db.state.chats;
+
+    expect(String(chat.apiKeyId)).toBe(newKeyId);
+    expect(ownsChat(keyPrincipal(newKeyId), chat)).toBe(true);
+    // The old key reaches it through its replacement until the grace period ends
+    expect(ownsChat(keyPrincipal(OLD_KEY_ID, newKeyId), chat)).toBe(true);
+    expect(ownsChat(keyPrincipal(OLD_KEY_ID), chat)).toBe(false);
+  });
+
+  it('leaves chats with the old key when the replacement cannot be issued', async () => {
+    db.state.failCreate = true;
+    vi.spyOn(console, 'error').mockImplementation(() => undefined);
+
+    const response = await rotate();
+
+    expect(response.status).toBe(500);
+    expect(db.state.chats[0].apiKeyId).toBe(OLD_KEY_ID);
+    expect(db.state.keys).toHaveLength(1);
+    expect(db.state.keys[0]).toMatchObject({ isActive: true });
+    expect(db.state.keys[0].rotatedToId).toBeUndefined();
+  });
+});
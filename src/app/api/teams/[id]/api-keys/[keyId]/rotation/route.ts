@@ -0,0 +1,217 @@
+import { NextRequest } from 'next/server';
+import mongoose from 'mongoose';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import { connectDB } from '@/lib/mongodb';
+import ApiKey from '@/models/ApiKey';
+import Chat from '@/models/Chat';
+import Team from '@/models/Team';
+import { successResponse, errorResponse } from '@/lib/api-helpers';
+import { rotateApiKeySchema } from '@/lib/validation';
+import { generateApiKey } from '@/lib/api-key-auth';
+import { getRotationStatus } from '@/lib/api-key-usage-stats';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * POST /api/teams/[id]/api-keys/[keyId]/rotation
+ * Rotate an API key: issue a replacement with the same name, scopes, allow-lists and limits,
+ * hand the old key's chats to it, and keep the old key working until the grace period ends
+ * (it is then deactivated)
+ *
+ * Body: { gracePeriodHours? (default 24, 0 = revoke now), expiresInDays? (default: the old key's lifetime) }
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string; keyId: string } }
+) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session?.user) {
+      return errorResponse('Unauthorized', 401);
+    }
+
+    const { id: teamId, keyId } = params;
+    const body = await request.json().catch(() => ({}));
+
+    const validation = rotateApiKeySchema.safeParse(body);
+    if (!validation.success) {
+      return errorResponse(validation.error.errors[0].message, 400);
+    }
+
+    const { gracePeriodHours } = validation.data;
+
+    await connectDB();
+
+    // Check if user has access to this team
+    const team = await Team.findById(teamId);
+    if (!team) {
+      return errorResponse('Team not found', 404);
+    }
+
+    // Admin or team member can rotate keys
+    if (
+      session.user.role !== 'admin' &&
+      !team.members.includes(session.user.id as any)
+    ) {
+      return errorResponse('Forbidden: Not a member of this team', 403);
+    }
+
+    const oldKey = await ApiKey.findById(keyId);
+    if (!oldKey) {
+      return errorResponse('API key not found', 404);
+    }
+
+    if (oldKey.teamId.toString() !== teamId) {
+      return errorResponse('API key does not belong to this team', 403);
+    }
+
+    if (!oldKey.isActive || new Date() > new Date(oldKey.expiresAt)) {
+      return errorResponse('Only active API keys can be rotated', 400);
+    }
+
+    const expiresInDays =
+      validation.data.expiresInDays ??
+      Math.max(1, Math.round((oldKey.expiresAt.getTime() - oldKey.createdAt.getTime()) / DAY_MS));
+
+    // Claim the old key first so concurrent rotations cannot both issue a replacement
+    const now = new Date();
+    const newKeyId = new mongoose.Types.ObjectId();
+    const graceEndsAt = new Date(now.getTime() + gracePeriodHours * 60 * 60 * 1000);
+
+    const claimed = await ApiKey.findOneAndUpdate(
+      { _id: oldKey._id, isActive: true, rotatedToId: { $exists: false } },
+      {
+        $set: {
+          rotatedToId: newKeyId,
+          rotatedAt: now,
+          graceEndsAt,
+          ...(gracePeriodHours === 0 ? { isActive: false } : {}),
+        },
+      },
+      { new: true }
+    );
+    if (!claimed) {
+      return errorResponse('API key has already been rotated', 409);
+    }
+
+    const { fullKey, prefix } = generateApiKey();
+    const expiresAt = new Date(now.getTime() + expiresInDays * DAY_MS);
+
+    let newKey;
+    try {
+      // Key is hashed by the pre-save hook
+      newKey = await ApiKey.create({
+        _id: newKeyId,
+        key: fullKey,
+        keyPrefix: prefix,
+        name: oldKey.name,
+        teamId,
+        createdBy: session.user.id,
+        expiresAt,
+        isActive: true,
+        permissions: oldKey.permissions,
+        databaseIds: oldKey.databaseIds,
+        allowedCidrs: oldKey.allowedCidrs,
+        limits: oldKey.limits,
+        rotatedFromId: oldKey._id,
+      });
+
+      // Chats belong to the key that created them; the replacement takes them over
+      await Chat.updateMany({ apiKeyId: oldKey._id }, { $set: { apiKeyId: newKeyId } });
+    } catch (error) {
+      // Undo the rotation so it can be retried: chats go back, the replacement goes, the claim is released
+      await Chat.updateMany({ apiKeyId: newKeyId }, { $set: { apiKeyId: oldKey._id } });
+      await ApiKey.deleteOne({ _id: newKeyId });
+      await ApiKey.updateOne(
+        { _id: oldKey._id, rotatedToId: newKeyId },
+        { $unset: { rotatedToId: 1, rotatedAt: 1, graceEndsAt: 1 }, $set: { isActive: true } }
+      );
+      throw error;
+    }
+
+    await newKey.populate('createdBy', 'name email');
+    await newKey.populate('teamId', 'name');
+    await newKey.populate('databaseIds', 'databaseName displayName');
+
+    return successResponse(
+      {
+        apiKey: {
+          ...newKey.toJSON(),
+          fullKey, // Show full key ONLY on creation
+        },
+        previousKey: claimed,
+        warning: 'Save this API key securely. It will not be shown again!',
+      },
+      gracePeriodHours === 0
+        ? 'API key rotated; the old key was revoked'
+        : `API key rotated; the old key stays valid until ${graceEndsAt.toISOString()}`,
+      201
+    );
+  } catch (error: any) {
+    console.error('Error rotating API key:', error);
+    return errorResponse(error.message || 'Failed to rotate API key', 500);
+  }
+}
+
+/**
+ * GET /api/teams/[id]/api-keys/[keyId]/rotation
+ * Rotation status of a key (either the rotated key or its replacement):
+ * calls made with each key since the rotation, per client IP
+ */
+export async function GET(
+  _request: NextRequest,
+  { params }: { params: { id: string; keyId: string } }
+) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session?.user) {
+      return errorResponse('Unauthorized', 401);
+    }
+
+    const { id: teamId, keyId } = params;
+
+    await connectDB();
+
+    // Check if user has access to this team
+    const team = await Team.findById(teamId);
+    if (!team) {
+      return errorResponse('Team not found', 404);
+    }
+
+    if (
+      session.user.role !== 'admin' &&
+      !team.members.includes(session.user.id as any)
+    ) {
+      return errorResponse('Forbidden: Not a member of this team', 403);
+    }
+
+    const apiKey = await ApiKey.findById(keyId);
+    if (!apiKey) {
+      return errorResponse('API key not found', 404);
+    }
+
+    if (apiKey.teamId.toString() !== teamId) {
+      return errorResponse('API key does not belong to this team', 403);
+    }
+
+    const oldKey = apiKey.rotatedToId
+      ? apiKey
+      : apiKey.rotatedFromId
+        ? await ApiKey.findById(apiKey.rotatedFromId)
+        : null;
+
+    const rotation = oldKey && (await getRotationStatus(oldKey));
+    if (!rotation) {
+      return errorResponse('API key has not been rotated', 404);
+    }
+
+    return successResponse(
+      { rotation },
+      'API key rotation status retrieved successfully'
+    );
+  } catch (error: any) {
+    console.error('Error fetching API key rotation status:', error);
+    return errorResponse(error.message || 'Failed to fetch API key rotation status', 500);
+  }
+}
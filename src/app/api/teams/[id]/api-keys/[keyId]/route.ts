@@ -95,7 +95,8 @@ export async function GET(
 
     const apiKey = await ApiKey.findById(keyId)
       .populate('createdBy', 'name email')
-      .populate('teamId', 'name');
+      .populate('teamId', 'name')
+      .populate('databaseIds', 'databaseName displayName');
 
     if (!apiKey) {
       return errorResponse('API key not found', 404);
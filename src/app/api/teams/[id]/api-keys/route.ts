@@ -5,22 +5,15 @@ import { connectDB } from '@/lib/mongodb';
 import ApiKey from '@/models/ApiKey';
 import Team from '@/models/Team';
 import { successResponse, errorResponse } from '@/lib/api-helpers';
-import crypto from 'crypto';
-
-/**
- * Generate a secure API key
- */
-function generateApiKey(): { fullKey: string; prefix: string } {
-  const randomPart = crypto.randomBytes(24).toString('hex');
-  const timestamp = Date.now().toString(36);
-  const fullKey = `flash_${randomPart}_${timestamp}`;
-  const prefix = fullKey.substring(0, 13); // flash_xxxxx
-  return { fullKey, prefix };
-}
+import { createApiKeySchema } from '@/lib/validation';
+import { getTeamDatabaseIds } from '@/lib/authz';
+import { generateApiKey } from '@/lib/api-key-auth';
+import { getRotationStatus } from '@/lib/api-key-usage-stats';
 
 /**
  * GET /api/teams/[id]/api-keys
  * List API keys for a team
+ * Rotated keys still in their grace period include `rotation` (which key clients are using)
  */
 export async function GET(
   request: NextRequest,
@@ -53,10 +46,20 @@ export async function GET(
     const apiKeys = await ApiKey.find({ teamId })
       .populate('createdBy', 'name email')
       .populate('teamId', 'name')
+      .populate('databaseIds', 'databaseName displayName')
       .sort({ createdAt: -1 });
 
+    const now = new Date();
+    const apiKeysWithRotation = await Promise.all(
+      apiKeys.map(async (apiKey) =>
+        apiKey.isActive && apiKey.graceEndsAt && apiKey.graceEndsAt > now
+          ? { ...apiKey.toJSON(), rotation: await getRotationStatus(apiKey) }
+          : apiKey.toJSON()
+      )
+    );
+
     return successResponse(
-      { apiKeys },
+      { apiKeys: apiKeysWithRotation },
       'API keys retrieved successfully'
     );
   } catch (error: any) {
@@ -68,6 +71,10 @@ export async function GET(
 /**
  * POST /api/teams/[id]/api-keys
  * Generate new API key for a team
+ *
+ * Body: { name, expiresInDays? (default 90), permissions? (scopes, default ['query:read']), databaseIds?, allowedCidrs?, limits? }
+ * databaseIds pins the key to a subset of the team's databases (empty: all of them),
+ * allowedCidrs to client IP ranges (empty: any address); limits sets the key's rate limit and quotas
  */
 export async function POST(
   request: NextRequest,
@@ -81,12 +88,16 @@ export async function POST(
 
     const teamId = params.id;
     const body = await request.json();
-    const { name, expiresInDays = 90 } = body;
 
-    if (!name) {
-      return errorResponse('API key name is required', 400);
+    // Validate request body
+    const validation = createApiKeySchema.safeParse(body);
+    if (!validation.success) {
+      return errorResponse(validation.error.errors[0].message, 400);
     }
 
+    const { name, expiresInDays, permissions, allowedCidrs, limits } = validation.data;
+    const databaseIds = Array.from(new Set(validation.data.databaseIds));
+
     await connectDB();
 
     // Check if user has access to this team
@@ -103,12 +114,20 @@ export async function POST(
       return errorResponse('Forbidden: Not a member of this team', 403);
     }
 
+    // The allow-list can only narrow what the team is granted
+    if (databaseIds.length > 0) {
+      const teamDatabaseIds = await getTeamDatabaseIds(teamId);
+      if (databaseIds.some((id) => !teamDatabaseIds.includes(id))) {
+        return errorResponse('API keys can only be restricted to databases the team has access to', 400);
+      }
+    }
+
     // Generate API key
     const { fullKey, prefix } = generateApiKey();
     const expiresAt = new Date();
     expiresAt.setDate(expiresAt.getDate() + expiresInDays);
 
-    // Create API key record (key will be hashed by pre-save hook)
+    // Create API key record (key is hashed by the pre-save hook)
     const apiKey = await ApiKey.create({
       key: fullKey,
       keyPrefix: prefix,
@@ -117,12 +136,16 @@ export async function POST(
       createdBy: session.user.id,
       expiresAt,
       isActive: true,
-      permissions: ['query:read'],
+      permissions: Array.from(new Set(permissions)),
+      databaseIds,
+      allowedCidrs: Array.from(new Set(allowedCidrs)),
+      limits,
     });
 
     // Populate for response
     await apiKey.populate('createdBy', 'name email');
     await apiKey.populate('teamId', 'name');
+    await apiKey.populate('databaseIds', 'databaseName displayName');
 
     return successResponse(
       {
@@ -0,0 +1,60 @@
+import { NextRequest } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import { connectDB } from '@/lib/mongodb';
+import Team from '@/models/Team';
+import { apiKeyUsageQuerySchema } from '@/lib/validation';
+import { successResponse, errorResponse } from '@/lib/api-helpers';
+import { getApiKeyUsageStats } from '@/lib/api-key-usage-stats';
+
+/**
+ * GET /api/teams/[id]/api-keys/usage
+ * Usage analytics of a team's API keys: calls per day, error rates, top databases per key, latest calls
+ * Admin or team member can access
+ *
+ * Query params: days (default 30, max 365), apiKeyId
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session?.user) {
+      return errorResponse('Unauthorized', 401);
+    }
+
+    const teamId = params.id;
+    const { searchParams } = new URL(request.url);
+    const validation = apiKeyUsageQuerySchema.safeParse({
+      days: searchParams.get('days') ?? undefined,
+      apiKeyId: searchParams.get('apiKeyId') ?? undefined,
+      teamId,
+    });
+    if (!validation.success) {
+      return errorResponse(validation.error.errors[0].message, 400);
+    }
+
+    await connectDB();
+
+    const team = await Team.findById(teamId);
+    if (!team) {
+      return errorResponse('Team not found', 404);
+    }
+
+    if (
+      session.user.role !== 'admin' &&
+      !team.members.includes(session.user.id as any)
+    ) {
+      return errorResponse('Forbidden: Not a member of this team', 403);
+    }
+
+    // Always scoped to the team, so another team's apiKeyId returns nothing
+    const usage = await getApiKeyUsageStats(validation.data);
+
+    return successResponse({ usage }, 'API key usage retrieved successfully');
+  } catch (error: any) {
+    console.error('Error fetching API key usage:', error);
+    return errorResponse(error.message || 'Failed to fetch API key usage', 500);
+  }
+}
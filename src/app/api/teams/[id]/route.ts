@@ -4,11 +4,14 @@ import { authOptions } from '@/lib/auth';
 import { connectDB } from '@/lib/mongodb';
 import Team from '@/models/Team';
 import Access from '@/models/Access';
+import Database from '@/models/Database';
+import { getTeamDatabaseIds } from '@/lib/authz';
+import { usageLimitsSchema, ssoGroupsSchema } from '@/lib/validation';
 import { successResponse, errorResponse } from '@/lib/api-helpers';
 
 /**
  * GET /api/teams/[id]
- * Get a single team
+ * Get a single team with the databases it is granted
  * Admin or team member can access
  */
 export async function GET(
@@ -41,6 +44,10 @@ export async function GET(
       return errorResponse('Forbidden: Not a member of this team', 403);
     }
 
+    const databases = await Database.find({ _id: { $in: await getTeamDatabaseIds(params.id) } })
+      .select('databaseName displayName')
+      .sort({ databaseName: 1 });
+
     return successResponse({
       team: {
         id: team._id,
@@ -48,6 +55,13 @@ export async function GET(
         description: team.description,
         members: team.members,
         memberCount: team.members.length,
+        limits: team.limits,
+        ssoGroups: team.ssoGroups,
+        databases: databases.map((db) => ({
+          id: db._id,
+          databaseName: db.databaseName,
+          displayName: db.displayName,
+        })),
         createdBy: team.createdBy,
         createdAt: team.createdAt,
         updatedAt: team.updatedAt,
@@ -63,6 +77,10 @@ export async function GET(
  * PUT /api/teams/[id]
  * Update a team
  * Admin only
+ *
+ * Body: { name?, description?, members?, limits?, ssoGroups? }
+ * limits replaces the team's query API rate limit and quotas ({} removes them);
+ * ssoGroups replaces the SSO groups mapped to the team ([] stops managing membership by SSO)
  */
 export async function PUT(
   request: NextRequest,
@@ -86,6 +104,16 @@ export async function PUT(
       return errorResponse('Team name must be at least 2 characters', 400);
     }
 
+    const limitsValidation = body.limits !== undefined ? usageLimitsSchema.safeParse(body.limits) : null;
+    if (limitsValidation && !limitsValidation.success) {
+      return errorResponse(limitsValidation.error.errors[0].message, 400);
+    }
+
+    const ssoGroupsValidation = body.ssoGroups !== undefined ? ssoGroupsSchema.safeParse(body.ssoGroups) : null;
+    if (ssoGroupsValidation && !ssoGroupsValidation.success) {
+      return errorResponse(ssoGroupsValidation.error.errors[0].message, 400);
+    }
+
     await connectDB();
 
     const team = await Team.findById(params.id);
@@ -97,6 +125,8 @@ export async function PUT(
     if (name) team.name = name.trim();
     if (description !== undefined) team.description = description.trim();
     if (members) team.members = members;
+    if (limitsValidation?.success) team.limits = limitsValidation.data;
+    if (ssoGroupsValidation?.success) team.ssoGroups = Array.from(new Set(ssoGroupsValidation.data));
 
     await team.save();
 
@@ -112,6 +142,8 @@ export async function PUT(
           description: team.description,
           members: team.members,
           memberCount: team.members.length,
+          limits: team.limits,
+          ssoGroups: team.ssoGroups,
           createdBy: team.createdBy,
           createdAt: team.createdAt,
           updatedAt: team.updatedAt,
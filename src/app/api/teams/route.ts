@@ -4,6 +4,7 @@ import { authOptions } from '@/lib/auth';
 import { connectDB } from '@/lib/mongodb';
 import Team from '@/models/Team';
 import { successResponse, errorResponse } from '@/lib/api-helpers';
+import { usageLimitsSchema, ssoGroupsSchema } from '@/lib/validation';
 
 /**
  * GET /api/teams
@@ -35,6 +36,8 @@ export async function GET(request: NextRequest) {
         description: team.description,
         members: team.members,
         memberCount: team.members.length,
+        limits: team.limits,
+        ssoGroups: team.ssoGroups,
         createdBy: team.createdBy,
         createdAt: team.createdAt,
         updatedAt: team.updatedAt,
@@ -50,6 +53,9 @@ export async function GET(request: NextRequest) {
  * POST /api/teams
  * Create a new team
  * Admin only
+ *
+ * Body: { name, description?, members?, limits?, ssoGroups? }
+ * ssoGroups: SSO group claim values whose users are added to the team when they sign in
  */
 export async function POST(request: NextRequest) {
   try {
@@ -72,6 +78,16 @@ export async function POST(request: NextRequest) {
       return errorResponse('Team name must be at least 2 characters', 400);
     }
 
+    const limitsValidation = usageLimitsSchema.safeParse(body.limits ?? {});
+    if (!limitsValidation.success) {
+      return errorResponse(limitsValidation.error.errors[0].message, 400);
+    }
+
+    const ssoGroupsValidation = ssoGroupsSchema.safeParse(body.ssoGroups ?? []);
+    if (!ssoGroupsValidation.success) {
+      return errorResponse(ssoGroupsValidation.error.errors[0].message, 400);
+    }
+
     await connectDB();
 
     console.log('[TEAMS] Creating team object...');
@@ -81,6 +97,8 @@ export async function POST(request: NextRequest) {
       description: description?.trim() || '',
       members: members || [],
       createdBy: session.user.id,
+      limits: limitsValidation.data,
+      ssoGroups: Array.from(new Set(ssoGroupsValidation.data)),
     });
 
     console.log('[TEAMS] Team created, populating members...');
@@ -97,6 +115,7 @@ export async function POST(request: NextRequest) {
           description: team.description,
           members: team.members,
           memberCount: team.members.length,
+          ssoGroups: team.ssoGroups,
           createdBy: team.createdBy,
           createdAt: team.createdAt,
           updatedAt: team.updatedAt,
@@ -42,6 +42,10 @@ export async function PUT(request: NextRequest) {
       return errorResponse('User not found', 404);
     }
 
+    if (!user.password) {
+      return errorResponse('Your account signs in with single sign-on and has no password', 400);
+    }
+
     // Verify current password
     const isPasswordValid = await bcrypt.compare(currentPassword, user.password);
     if (!isPasswordValid) {
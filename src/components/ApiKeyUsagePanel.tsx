@@ -0,0 +1,239 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { motion } from 'framer-motion';
+import { Activity, AlertCircle, Clock, Database } from 'lucide-react';
+import { toast } from 'sonner';
+import { formatDistanceToNow } from 'date-fns';
+import type { ApiKeyUsageStats } from '@/lib/api-key-usage-stats';
+
+interface ApiKeyUsagePanelProps {
+  /** Usage endpoint, e.g. /api/admin/api-keys/usage or /api/teams/{id}/api-keys/usage */
+  endpoint: string;
+}
+
+const PERIODS = [7, 30, 90];
+
+const formatPercent = (rate: number) => `${(rate * 100).toFixed(rate > 0 && rate < 0.01 ? 2 : 1)}%`;
+
+/**
+ * API key usage analytics: calls over time, error rates, top databases per key, latest calls
+ */
+export default function ApiKeyUsagePanel({ endpoint }: ApiKeyUsagePanelProps) {
+  const [days, setDays] = useState(30);
+  const [apiKeyId, setApiKeyId] = useState('');
+  const [usage, setUsage] = useState<ApiKeyUsageStats | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+
+  useEffect(() => {
+    fetchUsage();
+  }, [endpoint, days, apiKeyId]);
+
+  const fetchUsage = async () => {
+    setIsLoading(true);
+    try {
+      const params = new URLSearchParams({ days: String(days) });
+      if (apiKeyId) params.append('apiKeyId', apiKeyId);
+
+      const response = await fetch(`${endpoint}?${params}`);
+      if (response.ok) {
+        const data = await response.json();
+        setUsage(data.data.usage);
+      }
+    } catch (error) {
+      toast.error('Failed to fetch API key usage');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const maxCalls = Math.max(1, ...(usage?.timeline.map((day) => day.calls) || []));
+  const keyNames = new Map((usage?.keys || []).map((key) => [key.apiKeyId, key.name]));
+
+  return (
+    <div className="mb-8 p-6 bg-white dark:bg-slate-900 rounded-2xl border border-slate-200 dark:border-slate-800">
+      <div className="flex flex-wrap items-center justify-between gap-4 mb-6">
+        <h2 className="text-xl font-semibold text-slate-900 dark:text-white">Usage</h2>
+        <div className="flex items-center gap-2">
+          {apiKeyId && (
+            <button
+              onClick={() => setApiKeyId('')}
+              className="px-3 py-1.5 text-sm bg-blue-50 dark:bg-blue-900/20 text-blue-700 dark:text-blue-300 rounded-lg"
+            >
+              {keyNames.get(apiKeyId) || 'Selected key'} ✕
+            </button>
+          )}
+          {PERIODS.map((period) => (
+            <button
+              key={period}
+              onClick={() => setDays(period)}
+              className={`px-3 py-1.5 text-sm rounded-lg font-medium transition-colors ${
+                days === period
+                  ? 'bg-blue-600 text-white'
+                  : 'bg-slate-100 dark:bg-slate-800 text-slate-700 dark:text-slate-300 hover:bg-slate-200 dark:hover:bg-slate-700'
+              }`}
+            >
+              {period} days
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {isLoading && !usage ? (
+        <div className="flex items-center justify-center h-40">
+          <div className="w-8 h-8 border-4 border-blue-500 border-t-transparent rounded-full animate-spin" />
+        </div>
+      ) : usage && usage.totals.calls === 0 ? (
+        <p className="text-sm text-slate-500 dark:text-slate-400">No API key calls in the last {usage.days} days.</p>
+      ) : usage ? (
+        <>
+          {/* Totals */}
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4 mb-6">
+            <div className="flex items-center gap-3">
+              <Activity className="w-5 h-5 text-blue-600 dark:text-blue-400" />
+              <div>
+                <p className="text-xs text-slate-500 dark:text-slate-400">Calls</p>
+                <p className="text-lg font-bold text-slate-900 dark:text-white">{usage.totals.calls.toLocaleString()}</p>
+              </div>
+            </div>
+            <div className="flex items-center gap-3">
+              <AlertCircle className="w-5 h-5 text-red-600 dark:text-red-400" />
+              <div>
+                <p className="text-xs text-slate-500 dark:text-slate-400">Error rate</p>
+                <p className="text-lg font-bold text-slate-900 dark:text-white">
+                  {formatPercent(usage.totals.errorRate)}{' '}
+                  <span className="text-sm font-normal text-slate-500">({usage.totals.errors.toLocaleString()})</span>
+                </p>
+              </div>
+            </div>
+            <div className="flex items-center gap-3">
+              <Clock className="w-5 h-5 text-purple-600 dark:text-purple-400" />
+              <div>
+                <p className="text-xs text-slate-500 dark:text-slate-400">Avg latency</p>
+                <p className="text-lg font-bold text-slate-900 dark:text-white">{usage.totals.avgLatencyMs.toLocaleString()} ms</p>
+              </div>
+            </div>
+          </div>
+
+          {/* Calls over time (errors stacked in red) */}
+          <div className="flex items-end gap-0.5 h-32 mb-1">
+            {usage.timeline.map((day, index) => (
+              <motion.div
+                key={day.date}
+                initial={{ opacity: 0 }}
+                animate={{ opacity: 1 }}
+                transition={{ delay: Math.min(index * 0.01, 0.3) }}
+                className="flex-1 h-full flex flex-col justify-end"
+                title={`${day.date}: ${day.calls} calls, ${day.errors} errors`}
+              >
+                <div
+                  className="bg-red-400 dark:bg-red-500 rounded-t-sm"
+                  style={{ height: `${(day.errors / maxCalls) * 100}%` }}
+                />
+                <div
+                  className={`bg-blue-500 dark:bg-blue-400 ${day.errors ? '' : 'rounded-t-sm'}`}
+                  style={{ height: `${((day.calls - day.errors) / maxCalls) * 100}%` }}
+                />
+              </motion.div>
+            ))}
+          </div>
+          <div className="flex justify-between text-xs text-slate-500 dark:text-slate-400 mb-6">
+            <span>{usage.timeline[0]?.date}</span>
+            <span>{usage.timeline[usage.timeline.length - 1]?.date}</span>
+          </div>
+
+          {/* Per key */}
+          <div className="overflow-x-auto mb-6">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-left text-xs text-slate-500 dark:text-slate-400 border-b border-slate-200 dark:border-slate-800">
+                  <th className="py-2 pr-4 font-medium">Key</th>
+                  <th className="py-2 pr-4 font-medium">Calls</th>
+                  <th className="py-2 pr-4 font-medium">Error rate</th>
+                  <th className="py-2 pr-4 font-medium">Avg latency</th>
+                  <th className="py-2 font-medium">Top databases</th>
+                </tr>
+              </thead>
+              <tbody>
+                {usage.keys.map((key) => (
+                  <tr
+                    key={key.apiKeyId}
+                    onClick={() => setApiKeyId(key.apiKeyId)}
+                    className="border-b border-slate-100 dark:border-slate-800/50 hover:bg-slate-50 dark:hover:bg-slate-800/50 cursor-pointer"
+                  >
+                    <td className="py-2 pr-4">
+                      <p className="font-medium text-slate-900 dark:text-white">{key.name}</p>
+                      {key.keyPrefix && <code className="text-xs text-slate-500">{key.keyPrefix}***</code>}
+                    </td>
+                    <td className="py-2 pr-4 text-slate-900 dark:text-white">{key.calls.toLocaleString()}</td>
+                    <td className={`py-2 pr-4 ${key.errorRate > 0.1 ? 'text-red-600 dark:text-red-400 font-medium' : 'text-slate-900 dark:text-white'}`}>
+                      {formatPercent(key.errorRate)}
+                    </td>
+                    <td className="py-2 pr-4 text-slate-900 dark:text-white">{key.avgLatencyMs.toLocaleString()} ms</td>
+                    <td className="py-2">
+                      <div className="flex flex-wrap gap-1">
+                        {key.topDatabases.length === 0 && <span className="text-xs text-slate-400">—</span>}
+                        {key.topDatabases.map((db) => (
+                          <span
+                            key={db.databaseId}
+                            className="inline-flex items-center gap-1 px-2 py-0.5 bg-slate-100 dark:bg-slate-800 text-slate-700 dark:text-slate-300 text-xs rounded"
+                          >
+                            <Database className="w-3 h-3" />
+                            {db.name} · {db.calls.toLocaleString()}
+                          </span>
+                        ))}
+                      </div>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+
+          {/* Latest calls */}
+          <h3 className="text-sm font-semibold text-slate-900 dark:text-white mb-2">Latest calls</h3>
+          <div className="overflow-x-auto max-h-80 overflow-y-auto">
+            <table className="w-full text-xs">
+              <thead>
+                <tr className="text-left text-slate-500 dark:text-slate-400 border-b border-slate-200 dark:border-slate-800">
+                  <th className="py-2 pr-3 font-medium">When</th>
+                  <th className="py-2 pr-3 font-medium">Key</th>
+                  <th className="py-2 pr-3 font-medium">Request</th>
+                  <th className="py-2 pr-3 font-medium">Status</th>
+                  <th className="py-2 pr-3 font-medium">Latency</th>
+                  <th className="py-2 pr-3 font-medium">IP</th>
+                  <th className="py-2 font-medium">Query</th>
+                </tr>
+              </thead>
+              <tbody>
+                {usage.recent.map((call) => (
+                  <tr key={call.id} className="border-b border-slate-100 dark:border-slate-800/50">
+                    <td className="py-1.5 pr-3 whitespace-nowrap text-slate-600 dark:text-slate-400">
+                      {formatDistanceToNow(new Date(call.createdAt), { addSuffix: true })}
+                    </td>
+                    <td className="py-1.5 pr-3 text-slate-900 dark:text-white">{keyNames.get(call.apiKeyId) || '—'}</td>
+                    <td className="py-1.5 pr-3 font-mono text-slate-700 dark:text-slate-300 whitespace-nowrap">
+                      {call.method} {call.route}
+                    </td>
+                    <td
+                      className={`py-1.5 pr-3 font-mono ${
+                        call.status >= 400 ? 'text-red-600 dark:text-red-400' : 'text-green-600 dark:text-green-400'
+                      }`}
+                    >
+                      {call.status}
+                    </td>
+                    <td className="py-1.5 pr-3 text-slate-700 dark:text-slate-300">{call.latencyMs} ms</td>
+                    <td className="py-1.5 pr-3 font-mono text-slate-700 dark:text-slate-300">{call.ipAddress || '—'}</td>
+                    <td className="py-1.5 text-slate-700 dark:text-slate-300 truncate max-w-xs" title={call.query}>
+                      {call.query || '—'}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </>
+      ) : null}
+    </div>
+  );
+}
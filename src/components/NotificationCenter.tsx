@@ -0,0 +1,150 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import Link from 'next/link';
+import { motion, AnimatePresence } from 'framer-motion';
+import { Bell, KeyRound, AlertCircle } from 'lucide-react';
+import { formatDistanceToNow } from 'date-fns';
+
+interface Notification {
+  _id: string;
+  type: 'api_key_expiring' | 'api_key_expired';
+  title: string;
+  message: string;
+  link?: string;
+  readAt?: string;
+  createdAt: string;
+}
+
+const POLL_INTERVAL_MS = 60000;
+
+/**
+ * Sidebar bell with the current user's notifications (e.g. API keys about to expire)
+ */
+export default function NotificationCenter() {
+  const [notifications, setNotifications] = useState<Notification[]>([]);
+  const [unreadCount, setUnreadCount] = useState(0);
+  const [isOpen, setIsOpen] = useState(false);
+
+  useEffect(() => {
+    fetchNotifications();
+    const interval = setInterval(fetchNotifications, POLL_INTERVAL_MS);
+    return () => clearInterval(interval);
+  }, []);
+
+  const fetchNotifications = async () => {
+    try {
+      const response = await fetch('/api/notifications');
+      if (response.ok) {
+        const data = await response.json();
+        setNotifications(data.data.notifications || []);
+        setUnreadCount(data.data.unreadCount || 0);
+      }
+    } catch (error) {
+      console.error('Error fetching notifications:', error);
+    }
+  };
+
+  const markAsRead = async (ids?: string[]) => {
+    try {
+      await fetch('/api/notifications', {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(ids ? { ids } : {}),
+      });
+      fetchNotifications();
+    } catch (error) {
+      console.error('Error marking notifications as read:', error);
+    }
+  };
+
+  return (
+    <div className="relative mb-2">
+      <motion.button
+        whileHover={{ x: 4 }}
+        whileTap={{ scale: 0.98 }}
+        onClick={() => setIsOpen(!isOpen)}
+        className="w-full flex items-center gap-3 px-4 py-3 rounded-xl text-slate-600 dark:text-slate-400 hover:bg-slate-100 dark:hover:bg-slate-800/50 transition-all duration-200 font-medium"
+      >
+        <Bell className="w-5 h-5" />
+        <span>Notifications</span>
+        {unreadCount > 0 && (
+          <span className="ml-auto min-w-[1.25rem] px-1.5 py-0.5 bg-red-500 text-white text-xs font-semibold rounded-full text-center">
+            {unreadCount > 99 ? '99+' : unreadCount}
+          </span>
+        )}
+      </motion.button>
+
+      <AnimatePresence>
+        {isOpen && (
+          <motion.div
+            initial={{ opacity: 0, y: 10 }}
+            animate={{ opacity: 1, y: 0 }}
+            exit={{ opacity: 0, y: 10 }}
+            className="absolute bottom-full left-0 mb-2 w-96 max-h-[28rem] flex flex-col bg-white dark:bg-slate-900 rounded-2xl border border-slate-200 dark:border-slate-800 shadow-xl z-50"
+          >
+            <div className="flex items-center justify-between px-4 py-3 border-b border-slate-200 dark:border-slate-800">
+              <h3 className="text-sm font-semibold text-slate-900 dark:text-white">Notifications</h3>
+              {unreadCount > 0 && (
+                <button
+                  onClick={() => markAsRead()}
+                  className="text-xs text-blue-600 dark:text-blue-400 hover:underline"
+                >
+                  Mark all as read
+                </button>
+              )}
+            </div>
+
+            <div className="overflow-y-auto">
+              {notifications.length === 0 ? (
+                <p className="px-4 py-8 text-sm text-center text-slate-500 dark:text-slate-400">
+                  You have no notifications
+                </p>
+              ) : (
+                notifications.map((notification) => {
+                  const Icon = notification.type === 'api_key_expired' ? AlertCircle : KeyRound;
+                  const content = (
+                    <div
+                      className={`flex gap-3 px-4 py-3 border-b border-slate-100 dark:border-slate-800/50 hover:bg-slate-50 dark:hover:bg-slate-800/50 ${
+                        notification.readAt ? 'opacity-60' : ''
+                      }`}
+                    >
+                      <Icon
+                        className={`w-4 h-4 mt-0.5 flex-shrink-0 ${
+                          notification.type === 'api_key_expired' ? 'text-red-500' : 'text-orange-500'
+                        }`}
+                      />
+                      <div className="flex-1 min-w-0">
+                        <p className="text-sm font-medium text-slate-900 dark:text-white">{notification.title}</p>
+                        <p className="text-xs text-slate-600 dark:text-slate-400 mt-0.5">{notification.message}</p>
+                        <p className="text-xs text-slate-400 mt-1">
+                          {formatDistanceToNow(new Date(notification.createdAt), { addSuffix: true })}
+                        </p>
+                      </div>
+                      {!notification.readAt && <span className="w-2 h-2 mt-1.5 rounded-full bg-blue-500 flex-shrink-0" />}
+                    </div>
+                  );
+
+                  const open = () => {
+                    if (!notification.readAt) markAsRead([notification._id]);
+                    setIsOpen(false);
+                  };
+
+                  return notification.link ? (
+                    <Link key={notification._id} href={notification.link} onClick={open}>
+                      {content}
+                    </Link>
+                  ) : (
+                    <button key={notification._id} onClick={open} className="w-full text-left">
+                      {content}
+                    </button>
+                  );
+                })
+              )}
+            </div>
+          </motion.div>
+        )}
+      </AnimatePresence>
+    </div>
+  );
+}
@@ -0,0 +1,88 @@
+'use client';
+
+import type { UsageLimitsInput } from '@/lib/validation';
+
+/**
+ * Form state of the limit inputs (empty string = unlimited)
+ */
+export type UsageLimitsForm = Record<keyof UsageLimitsInput, string>;
+
+export const EMPTY_USAGE_LIMITS: UsageLimitsForm = {
+  requestsPerMinute: '',
+  burst: '',
+  dailyQuota: '',
+  monthlyQuota: '',
+};
+
+const FIELDS: { name: keyof UsageLimitsInput; label: string; placeholder: string }[] = [
+  { name: 'requestsPerMinute', label: 'Requests / minute', placeholder: 'Unlimited' },
+  { name: 'burst', label: 'Burst', placeholder: 'Same as per minute' },
+  { name: 'dailyQuota', label: 'Queries / day', placeholder: 'Unlimited' },
+  { name: 'monthlyQuota', label: 'Queries / month', placeholder: 'Unlimited' },
+];
+
+/**
+ * Convert stored limits to form state
+ */
+export function usageLimitsToForm(limits?: UsageLimitsInput | null): UsageLimitsForm {
+  return {
+    requestsPerMinute: limits?.requestsPerMinute?.toString() ?? '',
+    burst: limits?.burst?.toString() ?? '',
+    dailyQuota: limits?.dailyQuota?.toString() ?? '',
+    monthlyQuota: limits?.monthlyQuota?.toString() ?? '',
+  };
+}
+
+/**
+ * Convert form state to the API payload (empty fields are left out)
+ */
+export function formToUsageLimits(form: UsageLimitsForm): UsageLimitsInput {
+  const limits: UsageLimitsInput = {};
+  (Object.keys(form) as (keyof UsageLimitsInput)[]).forEach((name) => {
+    if (form[name].trim() !== '') limits[name] = Number(form[name]);
+  });
+  return limits;
+}
+
+/**
+ * Short summary of configured limits, e.g. "60/min · 1,000/day"
+ */
+export function describeUsageLimits(limits?: UsageLimitsInput | null): string | null {
+  const parts = [
+    limits?.requestsPerMinute && `${limits.requestsPerMinute.toLocaleString()}/min`,
+    limits?.dailyQuota && `${limits.dailyQuota.toLocaleString()}/day`,
+    limits?.monthlyQuota && `${limits.monthlyQuota.toLocaleString()}/month`,
+  ].filter(Boolean);
+  return parts.length > 0 ? parts.join(' · ') : null;
+}
+
+interface UsageLimitsFieldsProps {
+  value: UsageLimitsForm;
+  onChange: (value: UsageLimitsForm) => void;
+  inputClassName: string;
+  labelClassName: string;
+}
+
+/**
+ * Rate limit and quota inputs for the query API, shared by API keys and teams
+ */
+export default function UsageLimitsFields({ value, onChange, inputClassName, labelClassName }: UsageLimitsFieldsProps) {
+  return (
+    <div className="grid grid-cols-2 gap-3">
+      {FIELDS.map((field) => (
+        <div key={field.name}>
+          <label className={labelClassName}>{field.label}</label>
+          <input
+            type="number"
+            min={1}
+            step={1}
+            value={value[field.name]}
+            onChange={(e) => onChange({ ...value, [field.name]: e.target.value })}
+            placeholder={field.placeholder}
+            className={inputClassName}
+          />
+        </div>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,15 @@
+/**
+ * Next.js server startup hook
+ * Starts the background sync worker, which first recovers jobs left running by a previous process,
+ * the scheduler that queues automatic re-syncs, and the one that retires rotated and expired API keys
+ */
+export async function register() {
+  if (process.env.NEXT_RUNTIME === 'nodejs') {
+    const { startSyncWorker } = await import('@/lib/sync-worker');
+    const { startSyncScheduler } = await import('@/lib/sync-scheduler');
+    const { startApiKeyScheduler } = await import('@/lib/api-key-scheduler');
+    startSyncWorker();
+    startSyncScheduler();
+    startApiKeyScheduler();
+  }
+}
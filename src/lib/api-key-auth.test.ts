@@ -0,0 +1,115 @@
+import { describe, it, expect, afterEach, beforeEach, vi } from 'vitest';
+import type { NextRequest } from 'next/server';
+import { getClientIp, validateApiKey } from './api-key-auth';
+
+const ApiKey = vi.hoisted(() => ({
+  candidates: [] as Record<string, any>[],
+  find: vi.fn(() => ({ select: async () => ApiKey.candidates })),
+  updateOne: vi.fn(async () => ({})),
+  findByIdAndUpdate: vi.fn(async () => ({})),
+}));
+
+vi.mock('@/lib/mongodb', () => ({ connectDB: async () => undefined }));
+vi.mock('@/models/ApiKey', () => ({ default: ApiKey, MAX_REJECTED_ATTEMPTS: 20 }));
+vi.mock('@/models/ApiKeyUsage', () => ({ default: {} }));
+
+function request(headers: Record<string, string>, ip?: string): NextRequest {
+  return { ip, headers: new Headers(headers) } as unknown as NextRequest;
+}
+
+beforeEach(() => {
+  ApiKey.candidates = [];
+  ApiKey.findByIdAndUpdate.mockClear();
+});
+
+afterEach(() => {
+  vi.unstubAllEnvs();
+});
+
+describe('getClientIp', () => {
+  describe('without TRUSTED_PROXIES', () => {
+    it('uses the peer address and ignores forwarding headers', () => {
+      expect(getClientIp(request({ 'x-forwarded-for': '203.0.113.7' }, '10.0.0.5'))).toBe('10.0.0.5');
+    });
+
+    it('ignores forwarding headers when the peer address is unknown', () => {
+      expect(getClientIp(request({ 'x-forwarded-for': '203.0.113.7', 'x-real-ip': '203.0.113.8' }))).toBe(
+        'unknown'
+      );
+    });
+  });
+
+  describe('with TRUSTED_PROXIES', () => {
+    beforeEach(() => {
+      vi.stubEnv('TRUSTED_PROXIES', '10.0.0.0/8, 192.0.2.1');
+    });
+
+    it('skips trusted hops from the right', () => {
+      const headers = { 'x-forwarded-for': '198.51.100.1, 203.0.113.7, 192.0.2.1' };
+
+      expect(getClientIp(request(headers, '10.0.0.5'))).toBe('203.0.113.7');
+      expect(getClientIp(request(headers))).toBe('203.0.113.7');
+    });
+
+    it('never trusts the leftmost entry, even when every hop is a proxy', () => {
+      expect(getClientIp(request({ 'x-forwarded-for': '10.0.0.9, 10.0.0.8' }, '10.0.0.5'))).toBe('10.0.0.9');
+    });
+
+    it('stops at a peer that is not a trusted proxy', () => {
+      expect(getClientIp(request({ 'x-forwarded-for': '203.0.113.7' }, '198.51.100.1'))).toBe('198.51.100.1');
+    });
+
+    it('falls back to X-Real-IP, then to unknown', () => {
+      expect(getClientIp(request({ 'x-real-ip': '203.0.113.8' }))).toBe('203.0.113.8');
+      expect(getClientIp(request({}))).toBe('unknown');
+    });
+  });
+});
+
+describe('validateApiKey IP allow-list', () => {
+  const key = 'flash_0123456789abcdef';
+
+  beforeEach(() => {
+    ApiKey.candidates = [
+      {
+        _id: { toString: () => 'key-1' },
+        teamId: { toString: () => 'team-1' },
+        name: 'partner',
+        key: 'hmac-sha256:salt:digest',
+        expiresAt: new Date(Date.now() + 60_000),
+        allowedCidrs: ['203.0.113.0/24'],
+        compareKey: async () => true,
+      },
+    ];
+  });
+
+  it('accepts an allowed client behind a trusted proxy', async () => {
+    vi.stubEnv('TRUSTED_PROXIES', '10.0.0.0/8');
+
+    const result = await validateApiKey(request({ 'x-api-key': key, 'x-forwarded-for': '203.0.113.7' }));
+
+    expect(result.isValid).toBe(true);
+  });
+
+  it('refuses a forged X-Forwarded-For when no proxy is trusted', async () => {
+    const result = await validateApiKey(request({ 'x-api-key': key, 'x-forwarded-for': '203.0.113.7' }));
+
+    expect(result).toMatchObject({ isValid: false, status: 403 });
+    expect(ApiKey.findByIdAndUpdate).toHaveBeenCalledWith('key-1', {
+      $inc: { rejectedCount: 1 },
+      $push: {
+        rejectedAttempts: expect.objectContaining({
+          $each: [
+            expect.objectContaining({ ipAddress: 'unknown', reason: 'Client IP address unknown (set TRUSTED_PROXIES)' }),
+          ],
+        }),
+      },
+    });
+  });
+
+  it('refuses addresses outside the allow-list', async () => {
+    const result = await validateApiKey(request({ 'x-api-key': key }, '198.51.100.1'));
+
+    expect(result).toMatchObject({ isValid: false, status: 403 });
+  });
+});
@@ -1,23 +1,45 @@
 import { NextRequest } from 'next/server';
+import crypto from 'crypto';
 import { connectDB } from '@/lib/mongodb';
-import ApiKey from '@/models/ApiKey';
-import { decrypt, secureCompare } from '@/lib/encryption';
+import ApiKey, { MAX_REJECTED_ATTEMPTS, type IApiKey } from '@/models/ApiKey';
+import ApiKeyUsage from '@/models/ApiKeyUsage';
+import { hashToken, isTokenHash } from '@/lib/encryption';
+import { isIpInRanges } from '@/lib/ip-allowlist';
+import type { ApiKeyScope } from '@/lib/validation';
+import type { IUsageLimits } from '@/models/RateLimitCounter';
 
 export interface ApiKeyContext {
   apiKeyId: string;
   teamId: string;
   keyName: string;
   permissions: string[];
+  databaseIds: string[]; // Allow-list; empty means every database the team can access
+  limits?: IUsageLimits;
+  graceEndsAt?: Date; // Set when the key was rotated and is being phased out
+  rotatedToId?: string; // Replacement of a rotated key
+}
+
+/**
+ * Generate a secure API key
+ */
+export function generateApiKey(): { fullKey: string; prefix: string } {
+  const randomPart = crypto.randomBytes(24).toString('hex');
+  const timestamp = Date.now().toString(36);
+  const fullKey = `flash_${randomPart}_${timestamp}`;
+  const prefix = fullKey.substring(0, 13); // flash_xxxxx
+  return { fullKey, prefix };
 }
 
 /**
  * Validate API key from request headers
  * Supports both X-API-Key and Authorization: Bearer formats
+ * Keys with an IP allow-list are refused (status 403) from other addresses
  */
 export async function validateApiKey(request: NextRequest): Promise<{
   isValid: boolean;
   context?: ApiKeyContext;
   error?: string;
+  status?: number;
 }> {
   try {
     // Extract API key from headers
@@ -44,45 +66,67 @@ export async function validateApiKey(request: NextRequest): Promise<{
 
     await connectDB();
 
-    // Find API key by prefix (much faster than checking all keys)
-    const apiKey = await ApiKey.findOne({ keyPrefix: prefix, isActive: true });
+    // Find API keys by prefix (much faster than checking all keys); prefixes are not unique
+    const candidates = await ApiKey.find({ keyPrefix: prefix, isActive: true }).select('+key');
 
-    if (!apiKey) {
-      return {
-        isValid: false,
-        error: 'Invalid API key',
-      };
+    let apiKey: IApiKey | undefined;
+    for (const candidate of candidates) {
+      if (await candidate.compareKey(providedKey)) {
+        apiKey = candidate;
+        break;
+      }
     }
 
-    // Decrypt the stored key and verify it matches the provided key
-    let decryptedKey: string;
-    try {
-      decryptedKey = decrypt(apiKey.key);
-    } catch (error) {
-      console.error('Failed to decrypt API key:', error);
+    if (!apiKey) {
       return {
         isValid: false,
         error: 'Invalid API key',
       };
     }
 
-    const isMatch = secureCompare(providedKey, decryptedKey);
+    // Records from before hashing are still encrypted; replace them with a hash now
+    // that the plaintext is known (only if nobody changed the record meanwhile)
+    if (!isTokenHash(apiKey.key)) {
+      await ApiKey.updateOne(
+        { _id: apiKey._id, key: apiKey.key },
+        { $set: { key: hashToken(providedKey) } }
+      ).catch((error) => console.error('Failed to migrate API key to a hash:', error));
+    }
 
-    if (!isMatch) {
+    // Check if key has expired
+    if (new Date() > new Date(apiKey.expiresAt)) {
       return {
         isValid: false,
-        error: 'Invalid API key',
+        error: 'API key has expired',
       };
     }
 
-    // Check if key has expired
-    if (new Date() > new Date(apiKey.expiresAt)) {
+    // Rotated key past its grace period (the scheduler deactivates these; this covers the gap)
+    if (apiKey.graceEndsAt && new Date() >= new Date(apiKey.graceEndsAt)) {
       return {
         isValid: false,
-        error: 'API key has expired',
+        error: 'API key was rotated and its grace period has ended',
       };
     }
 
+    if (apiKey.allowedCidrs?.length > 0) {
+      const ipAddress = getClientIp(request);
+      if (!isIpInRanges(ipAddress, apiKey.allowedCidrs)) {
+        await recordRejectedAttempt(
+          apiKey._id.toString(),
+          ipAddress,
+          ipAddress === UNKNOWN_CLIENT_IP
+            ? 'Client IP address unknown (set TRUSTED_PROXIES)'
+            : 'IP address not in allow-list'
+        );
+        return {
+          isValid: false,
+          error: 'API key is not allowed from this IP address',
+          status: 403,
+        };
+      }
+    }
+
     // Return valid context
     return {
       isValid: true,
@@ -91,6 +135,10 @@ export async function validateApiKey(request: NextRequest): Promise<{
         teamId: apiKey.teamId.toString(),
         keyName: apiKey.name,
         permissions: apiKey.permissions || [],
+        databaseIds: (apiKey.databaseIds || []).map((id) => id.toString()),
+        limits: apiKey.limits,
+        graceEndsAt: apiKey.graceEndsAt,
+        rotatedToId: apiKey.rotatedToId?.toString(),
       },
     };
   } catch (error: any) {
@@ -146,27 +194,112 @@ export async function trackApiKeyUsage(
   }
 }
 
+/**
+ * Append a request to the API key usage log (ApiKeyUsage)
+ * Logging failures are swallowed so they never break the request
+ */
+export async function recordApiKeyUsage(entry: {
+  apiKeyId: string;
+  teamId: string;
+  method: string;
+  route: string;
+  status: number;
+  latencyMs: number;
+  databaseId?: string;
+  ipAddress?: string;
+  query?: string;
+}): Promise<void> {
+  try {
+    await connectDB();
+    await ApiKeyUsage.create({ ...entry, query: entry.query?.substring(0, 200) });
+  } catch (error) {
+    console.error('Error recording API key usage:', error);
+  }
+}
+
+/**
+ * Record a refused request in the key's usage history
+ * Keeps the most recent MAX_REJECTED_ATTEMPTS entries
+ */
+async function recordRejectedAttempt(apiKeyId: string, ipAddress: string, reason: string): Promise<void> {
+  try {
+    await ApiKey.findByIdAndUpdate(apiKeyId, {
+      $inc: { rejectedCount: 1 },
+      $push: {
+        rejectedAttempts: {
+          $each: [{ at: new Date(), ipAddress, reason }],
+          $position: 0,
+          $slice: MAX_REJECTED_ATTEMPTS,
+        },
+      },
+    });
+  } catch (error) {
+    console.error('Error recording rejected API key attempt:', error);
+  }
+}
+
+/**
+ * Proxies allowed to add X-Forwarded-For entries (TRUSTED_PROXIES, IPs or CIDR ranges)
+ */
+function getTrustedProxies(): string[] {
+  return (process.env.TRUSTED_PROXIES || '')
+    .split(',')
+    .map((entry) => entry.trim())
+    .filter(Boolean);
+}
+
+/**
+ * Address returned when no trustworthy client address is available
+ * It matches no allow-list range, so keys with an allow-list are refused
+ */
+const UNKNOWN_CLIENT_IP = 'unknown';
+
 /**
  * Get client IP address from request
+ * X-Forwarded-For is walked from the nearest hop back, skipping trusted proxies:
+ * the first address not added by one of them is the client. Entries further left
+ * are supplied by the caller and could be forged, so they are never used.
+ * Forwarding headers are only read when TRUSTED_PROXIES is set or the runtime
+ * exposes the peer address; otherwise any caller could choose their own address.
  */
 export function getClientIp(request: NextRequest): string {
-  const forwarded = request.headers.get('x-forwarded-for');
-  const realIp = request.headers.get('x-real-ip');
+  const trustedProxies = getTrustedProxies();
+  if (!request.ip && trustedProxies.length === 0) {
+    return UNKNOWN_CLIENT_IP;
+  }
+
+  const forwarded = (request.headers.get('x-forwarded-for') || '')
+    .split(',')
+    .map((entry) => entry.trim())
+    .filter(Boolean);
+
+  // Peer address, where the runtime exposes it
+  const hops = request.ip ? [...forwarded, request.ip] : forwarded;
 
-  if (forwarded) {
-    return forwarded.split(',')[0].trim();
+  if (hops.length === 0) {
+    return request.headers.get('x-real-ip') || UNKNOWN_CLIENT_IP;
   }
 
-  if (realIp) {
-    return realIp;
+  let index = hops.length - 1;
+  while (index > 0 && isIpInRanges(hops[index], trustedProxies)) {
+    index -= 1;
   }
 
-  return 'unknown';
+  return hops[index];
 }
 
 /**
- * Check if API key has specific permission
+ * Scopes also granted by another scope
+ * Query responses point at result files, so keys that can query can also fetch them
+ */
+const IMPLIED_BY: Partial<Record<ApiKeyScope, ApiKeyScope[]>> = {
+  'results:read': ['query:read'],
+};
+
+/**
+ * Check if API key has a scope
  */
-export function hasPermission(context: ApiKeyContext, permission: string): boolean {
-  return context.permissions.includes(permission) || context.permissions.includes('*');
+export function hasPermission(context: ApiKeyContext, scope: ApiKeyScope): boolean {
+  const granting = [scope, ...(IMPLIED_BY[scope] || []), '*'];
+  return context.permissions.some((permission) => granting.includes(permission));
 }
@@ -0,0 +1,133 @@
+import { describe, it, expect, beforeAll, afterAll, vi } from 'vitest';
+import { startApiKeyScheduler } from './api-key-scheduler';
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+
+/**
+ * In-memory ApiKey collection; filters support equality, $exists, $lte and $gt
+ */
+const store = vi.hoisted(() => {
+  const keys: Record<string, any>[] = [];
+
+  const matches = (document: Record<string, any>, filter: Record<string, any>) =>
+    Object.entries(filter).every(([field, condition]) => {
+      const value = document[field];
+      if (condition && typeof condition === 'object' && !(condition instanceof Date)) {
+        return Object.entries(condition).every(([operator, operand]: [string, any]) => {
+          if (operator === '$exists') return (value !== undefined) === operand;
+          if (operator === '$lte') return value !== undefined && value <= operand;
+          if (operator === '$gt') return value !== undefined && value > operand;
+          throw new Error(`Unsupported operator ${operator}`);
+        });
+      }
+      return value === condition;
+    });
+
+  const ApiKey = {
+    find: (filter: Record<string, any>) => {
+      const found = keys.filter((key) => matches(key, filter)).map((key) => ({ ...key }));
+      return { sort: () => ({ limit: async () => found }) };
+    },
+    updateMany: async (filter: Record<string, any>, update: { $set: Record<string, any> }) => {
+      const found = keys.filter((key) => matches(key, filter));
+      found.forEach((key) => Object.assign(key, update.$set));
+      return { modifiedCount: found.length };
+    },
+    findOneAndUpdate: async (filter: Record<string, any>, update: { $set: Record<string, any> }) => {
+      const key = keys.find((candidate) => matches(candidate, filter));
+      if (!key) return null;
+      const before = { ...key };
+      Object.assign(key, update.$set);
+      return before;
+    },
+  };
+
+  return { keys, ApiKey };
+});
+
+const notifications = vi.hoisted(() => ({
+  notifyUsers: vi.fn(async () => undefined),
+  sendWebhook: vi.fn(async () => undefined),
+}));
+
+vi.mock('@/lib/mongodb', () => ({ connectDB: async () => undefined }));
+vi.mock('@/lib/notifications', () => notifications);
+vi.mock('@/models/ApiKey', () => ({ default: store.ApiKey, API_KEY_EXPIRY_WARNING_DAYS: 7 }));
+vi.mock('@/models/Team', () => ({
+  default: { findById: () => ({ select: () => ({ lean: async () => ({ name: 'Analytics', members: ['user-1'] }) }) }) },
+}));
+
+function apiKey(_id: string, fields: Record<string, any>) {
+  return { _id, name: _id, keyPrefix: `flash_${_id}`, teamId: 'team-1', isActive: true, ...fields };
+}
+
+const keyById = (id: string) => store.keys.find((key) => key._id === id)!;
+const webhookEvents = () =>
+  (notifications.sendWebhook.mock.calls as unknown as [string, { apiKeyId: string }][]).map(
+    ([event, data]) => `${event}:${data.apiKeyId}`
+  );
+
+describe('API key scheduler tick', () => {
+  beforeAll(async () => {
+    vi.spyOn(console, 'log').mockImplementation(() => undefined);
+    const now = Date.now();
+
+    store.keys.push(
+      apiKey('expired', { expiresAt: new Date(now - HOUR_MS) }),
+      apiKey('expired-in-grace', {
+        expiresAt: new Date(now - HOUR_MS),
+        rotatedToId: 'replacement',
+        graceEndsAt: new Date(now + DAY_MS),
+      }),
+      apiKey('grace-ended', {
+        expiresAt: new Date(now - HOUR_MS),
+        rotatedToId: 'replacement-2',
+        graceEndsAt: new Date(now - 1000),
+      }),
+      apiKey('expiring', { expiresAt: new Date(now + 3 * DAY_MS) }),
+      apiKey('expiring-rotated', {
+        expiresAt: new Date(now + 3 * DAY_MS),
+        rotatedToId: 'replacement-3',
+        graceEndsAt: new Date(now + DAY_MS),
+      })
+    );
+
+    startApiKeyScheduler();
+    await vi.waitFor(() => expect(global.apiKeyScheduler?.ticking).toBe(false));
+  });
+
+  afterAll(() => {
+    clearInterval(global.apiKeyScheduler?.timer ?? undefined);
+    vi.restoreAllMocks();
+  });
+
+  it('deactivates expired keys and announces them', () => {
+    expect(keyById('expired').isActive).toBe(false);
+    expect(webhookEvents()).toContain('api_key.expired:expired');
+  });
+
+  it('leaves expired keys in a rotation grace period alone', () => {
+    expect(keyById('expired-in-grace').isActive).toBe(true);
+    expect(webhookEvents()).not.toContain('api_key.expired:expired-in-grace');
+  });
+
+  it('deactivates rotated keys at the end of their grace period without an expiry notice', () => {
+    expect(keyById('grace-ended').isActive).toBe(false);
+    expect(webhookEvents()).not.toContain('api_key.expired:grace-ended');
+  });
+
+  it('warns about keys expiring soon unless they were rotated', () => {
+    expect(webhookEvents()).toContain('api_key.expiring:expiring');
+    expect(webhookEvents()).not.toContain('api_key.expiring:expiring-rotated');
+    expect(keyById('expiring').expiryNotifiedAt).toBeInstanceOf(Date);
+  });
+
+  it('announces each event once', () => {
+    expect(webhookEvents()).toHaveLength(2);
+    expect(notifications.notifyUsers).toHaveBeenCalledWith(
+      ['user-1'],
+      expect.objectContaining({ type: 'api_key_expired', dedupeKey: 'api_key_expired:expired' })
+    );
+  });
+});
@@ -0,0 +1,164 @@
+import { connectDB } from '@/lib/mongodb';
+import { notifyUsers, sendWebhook } from '@/lib/notifications';
+import ApiKey, { API_KEY_EXPIRY_WARNING_DAYS, type IApiKey } from '@/models/ApiKey';
+import Team from '@/models/Team';
+
+const TICK_INTERVAL_MS = 60000;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Keys handled per sweep; the rest are picked up on the next tick
+const SWEEP_BATCH_SIZE = 100;
+
+interface SchedulerState {
+  timer: NodeJS.Timeout | null;
+  ticking: boolean;
+}
+
+/**
+ * Global is used here so the scheduler survives hot reloads in development
+ */
+declare global {
+  var apiKeyScheduler: SchedulerState | undefined;
+}
+
+const scheduler: SchedulerState = global.apiKeyScheduler || {
+  timer: null,
+  ticking: false,
+};
+
+if (!global.apiKeyScheduler) {
+  global.apiKeyScheduler = scheduler;
+}
+
+/**
+ * Deactivate rotated keys whose grace period has ended
+ * validateApiKey already refuses them; this makes listings reflect it
+ */
+async function deactivateRotatedKeys(now: Date): Promise<void> {
+  const result = await ApiKey.updateMany(
+    { isActive: true, graceEndsAt: { $lte: now } },
+    { $set: { isActive: false } }
+  );
+
+  if (result.modifiedCount > 0) {
+    console.log(`🔑 Deactivated ${result.modifiedCount} rotated API key(s) at the end of their grace period`);
+  }
+}
+
+/**
+ * Tell a key's team members (notification center) and the outbound webhook about a key event
+ */
+async function announce(
+  apiKey: IApiKey,
+  event: { type: 'api_key_expiring' | 'api_key_expired'; title: string; message: string }
+): Promise<void> {
+  const team = await Team.findById(apiKey.teamId).select('name members').lean();
+  const teamId = apiKey.teamId.toString();
+
+  await notifyUsers((team?.members || []).map((member) => member.toString()), {
+    ...event,
+    link: `/teams/${teamId}/api-keys`,
+    dedupeKey: `${event.type}:${apiKey._id}`,
+  });
+
+  await sendWebhook(event.type === 'api_key_expiring' ? 'api_key.expiring' : 'api_key.expired', {
+    apiKeyId: apiKey._id.toString(),
+    name: apiKey.name,
+    keyPrefix: apiKey.keyPrefix,
+    teamId,
+    teamName: team?.name,
+    expiresAt: apiKey.expiresAt.toISOString(),
+  });
+}
+
+/**
+ * Deactivate keys past their expiry date and tell their teams, so keys do not just start failing
+ * Keys in a rotation grace period are skipped: their replacement is in place, and
+ * deactivateRotatedKeys retires them without an expiry notice when the grace period ends
+ */
+async function deactivateExpiredKeys(now: Date): Promise<void> {
+  const expiredKeys = await ApiKey.find({ isActive: true, expiresAt: { $lte: now }, graceEndsAt: { $exists: false } })
+    .sort({ expiresAt: 1 })
+    .limit(SWEEP_BATCH_SIZE);
+
+  let deactivated = 0;
+  for (const apiKey of expiredKeys) {
+    // Claim the key; another instance may have deactivated it already, or it may have been rotated since
+    const claimed = await ApiKey.findOneAndUpdate(
+      { _id: apiKey._id, isActive: true, graceEndsAt: { $exists: false } },
+      { $set: { isActive: false } }
+    );
+    if (!claimed) continue;
+
+    deactivated++;
+    await announce(apiKey, {
+      type: 'api_key_expired',
+      title: `API key "${apiKey.name}" expired`,
+      message: `The API key ${apiKey.keyPrefix}*** expired and was deactivated. Generate a new key for clients still using it.`,
+    });
+  }
+
+  if (deactivated > 0) {
+    console.log(`🔑 Deactivated ${deactivated} expired API key(s)`);
+  }
+}
+
+/**
+ * Warn team members once when a key enters the API_KEY_EXPIRY_WARNING_DAYS window
+ * Keys already rotated are skipped: their replacement is in place
+ */
+async function notifyExpiringKeys(now: Date): Promise<void> {
+  const expiringKeys = await ApiKey.find({
+    isActive: true,
+    expiresAt: { $gt: now, $lte: new Date(now.getTime() + API_KEY_EXPIRY_WARNING_DAYS * DAY_MS) },
+    expiryNotifiedAt: { $exists: false },
+    rotatedToId: { $exists: false },
+  })
+    .sort({ expiresAt: 1 })
+    .limit(SWEEP_BATCH_SIZE);
+
+  for (const apiKey of expiringKeys) {
+    const claimed = await ApiKey.findOneAndUpdate(
+      { _id: apiKey._id, expiryNotifiedAt: { $exists: false } },
+      { $set: { expiryNotifiedAt: now } }
+    );
+    if (!claimed) continue;
+
+    const days = Math.max(1, Math.ceil((apiKey.expiresAt.getTime() - now.getTime()) / DAY_MS));
+    await announce(apiKey, {
+      type: 'api_key_expiring',
+      title: `API key "${apiKey.name}" expires in ${days} ${days === 1 ? 'day' : 'days'}`,
+      message: `The API key ${apiKey.keyPrefix}*** expires on ${apiKey.expiresAt.toUTCString()}. Rotate it to keep clients working.`,
+    });
+  }
+}
+
+async function tick() {
+  if (scheduler.ticking) return;
+  scheduler.ticking = true;
+
+  try {
+    await connectDB();
+    const now = new Date();
+    await deactivateRotatedKeys(now);
+    await deactivateExpiredKeys(now);
+    await notifyExpiringKeys(now);
+  } catch (error) {
+    console.error('API key scheduler tick failed:', error);
+  } finally {
+    scheduler.ticking = false;
+  }
+}
+
+/**
+ * Start the API key lifecycle loop: rotation grace periods, expiry sweep and expiry warnings (idempotent)
+ */
+export function startApiKeyScheduler(): void {
+  if (scheduler.timer) return;
+
+  scheduler.timer = setInterval(tick, TICK_INTERVAL_MS);
+  scheduler.timer.unref?.();
+  tick();
+
+  console.log(`🔑 API key scheduler started (expiry warnings ${API_KEY_EXPIRY_WARNING_DAYS} days ahead)`);
+}
@@ -0,0 +1,259 @@
+import mongoose from 'mongoose';
+import { connectDB } from '@/lib/mongodb';
+import ApiKeyUsage from '@/models/ApiKeyUsage';
+import ApiKey from '@/models/ApiKey';
+import Database from '@/models/Database';
+
+/**
+ * Calls and errors (status >= 400) on one UTC day
+ */
+export interface UsageDay {
+  date: string; // YYYY-MM-DD
+  calls: number;
+  errors: number;
+}
+
+/**
+ * Usage of one API key over the period
+ */
+export interface KeyUsageSummary {
+  apiKeyId: string;
+  name: string;
+  keyPrefix: string;
+  teamId: string;
+  calls: number;
+  errors: number;
+  errorRate: number; // 0-1
+  avgLatencyMs: number;
+  topDatabases: { databaseId: string; name: string; calls: number }[];
+}
+
+export interface ApiKeyUsageStats {
+  days: number;
+  totals: { calls: number; errors: number; errorRate: number; avgLatencyMs: number };
+  timeline: UsageDay[];
+  keys: KeyUsageSummary[];
+  recent: {
+    id: string;
+    createdAt: Date;
+    apiKeyId: string;
+    method: string;
+    route: string;
+    databaseId?: string;
+    status: number;
+    latencyMs: number;
+    ipAddress?: string;
+    query?: string;
+  }[];
+}
+
+const TOP_DATABASES_PER_KEY = 5;
+const RECENT_CALLS = 50;
+
+/**
+ * Aggregate the API key usage log
+ *
+ * @param options.teamId - Only keys of this team
+ * @param options.apiKeyId - Only this key
+ * @param options.days - Period ending now (whole UTC days, today included)
+ * @returns Totals, calls/errors per day, per-key summaries with top databases, and the latest calls
+ */
+export async function getApiKeyUsageStats(options: {
+  teamId?: string;
+  apiKeyId?: string;
+  days: number;
+}): Promise<ApiKeyUsageStats> {
+  await connectDB();
+
+  const now = new Date();
+  const since = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate() - (options.days - 1)));
+
+  const match: Record<string, any> = { createdAt: { $gte: since } };
+  if (options.teamId) match.teamId = new mongoose.Types.ObjectId(options.teamId);
+  if (options.apiKeyId) match.apiKeyId = new mongoose.Types.ObjectId(options.apiKeyId);
+
+  const isError = { $cond: [{ $gte: ['$status', 400] }, 1, 0] };
+
+  const [facets] = await ApiKeyUsage.aggregate([
+    { $match: match },
+    {
+      $facet: {
+        totals: [
+          { $group: { _id: null, calls: { $sum: 1 }, errors: { $sum: isError }, latency: { $avg: '$latencyMs' } } },
+        ],
+        timeline: [
+          {
+            $group: {
+              _id: { $dateToString: { format: '%Y-%m-%d', date: '$createdAt', timezone: 'UTC' } },
+              calls: { $sum: 1 },
+              errors: { $sum: isError },
+            },
+          },
+        ],
+        keys: [
+          {
+            $group: {
+              _id: '$apiKeyId',
+              calls: { $sum: 1 },
+              errors: { $sum: isError },
+              latency: { $avg: '$latencyMs' },
+            },
+          },
+          { $sort: { calls: -1 } },
+        ],
+        databases: [
+          { $match: { databaseId: { $exists: true } } },
+          { $group: { _id: { apiKeyId: '$apiKeyId', databaseId: '$databaseId' }, calls: { $sum: 1 } } },
+          { $sort: { calls: -1 } },
+        ],
+        recent: [{ $sort: { createdAt: -1 } }, { $limit: RECENT_CALLS }],
+      },
+    },
+  ]);
+
+  // Fill days without calls so charts have a continuous axis
+  const callsByDay = new Map<string, { calls: number; errors: number }>(
+    facets.timeline.map((day: any) => [day._id, { calls: day.calls, errors: day.errors }])
+  );
+  const timeline: UsageDay[] = [];
+  for (let offset = 0; offset < options.days; offset++) {
+    const date = new Date(since.getTime() + offset * 24 * 60 * 60 * 1000).toISOString().slice(0, 10);
+    timeline.push({ date, ...(callsByDay.get(date) || { calls: 0, errors: 0 }) });
+  }
+
+  const keyIds = facets.keys.map((key: any) => key._id);
+  const databaseIds = [...new Set<string>(facets.databases.map((row: any) => row._id.databaseId.toString()))];
+  const [apiKeys, databases] = await Promise.all([
+    ApiKey.find({ _id: { $in: keyIds } }).select('name keyPrefix teamId').lean(),
+    Database.find({ _id: { $in: databaseIds } }).select('databaseName displayName').lean(),
+  ]);
+  const keysById = new Map(apiKeys.map((key) => [key._id.toString(), key]));
+  const databaseNames = new Map(databases.map((db) => [db._id.toString(), db.displayName || db.databaseName]));
+
+  const keys: KeyUsageSummary[] = facets.keys.map((row: any) => {
+    const apiKeyId = row._id.toString();
+    const apiKey = keysById.get(apiKeyId);
+    return {
+      apiKeyId,
+      name: apiKey?.name || 'Deleted key',
+      keyPrefix: apiKey?.keyPrefix || '',
+      teamId: apiKey?.teamId?.toString() || '',
+      calls: row.calls,
+      errors: row.errors,
+      errorRate: row.calls ? row.errors / row.calls : 0,
+      avgLatencyMs: Math.round(row.latency || 0),
+      topDatabases: facets.databases
+        .filter((db: any) => db._id.apiKeyId.toString() === apiKeyId)
+        .slice(0, TOP_DATABASES_PER_KEY)
+        .map((db: any) => ({
+          databaseId: db._id.databaseId.toString(),
+          name: databaseNames.get(db._id.databaseId.toString()) || 'Deleted database',
+          calls: db.calls,
+        })),
+    };
+  });
+
+  const totals = facets.totals[0] || { calls: 0, errors: 0, latency: 0 };
+
+  return {
+    days: options.days,
+    totals: {
+      calls: totals.calls,
+      errors: totals.errors,
+      errorRate: totals.calls ? totals.errors / totals.calls : 0,
+      avgLatencyMs: Math.round(totals.latency || 0),
+    },
+    timeline,
+    keys,
+    recent: facets.recent.map((call: any) => ({
+      id: call._id.toString(),
+      createdAt: call.createdAt,
+      apiKeyId: call.apiKeyId.toString(),
+      method: call.method,
+      route: call.route,
+      databaseId: call.databaseId?.toString(),
+      status: call.status,
+      latencyMs: call.latencyMs,
+      ipAddress: call.ipAddress,
+      query: call.query,
+    })),
+  };
+}
+
+/**
+ * Calls made with one side of a rotation since it happened, per client IP
+ */
+export interface RotationKeyUsage {
+  apiKeyId: string;
+  calls: number;
+  lastUsedAt?: Date;
+  clients: { ipAddress: string; calls: number; lastSeenAt: Date }[]; // Busiest first
+}
+
+/**
+ * Which key clients have used since a rotation: the old key while it is in its grace period,
+ * or the replacement
+ */
+export interface RotationStatus {
+  rotatedAt: Date;
+  graceEndsAt?: Date;
+  oldKey: RotationKeyUsage;
+  newKey: RotationKeyUsage;
+}
+
+/**
+ * Usage of a rotated key and its replacement since the rotation
+ *
+ * @param oldKey - The rotated key (rotatedToId and rotatedAt set)
+ */
+export async function getRotationStatus(oldKey: {
+  _id: unknown;
+  rotatedToId?: unknown;
+  rotatedAt?: Date;
+  graceEndsAt?: Date;
+}): Promise<RotationStatus | null> {
+  if (!oldKey.rotatedToId || !oldKey.rotatedAt) return null;
+
+  await connectDB();
+
+  const oldKeyId = String(oldKey._id);
+  const newKeyId = String(oldKey.rotatedToId);
+
+  const rows = await ApiKeyUsage.aggregate([
+    {
+      $match: {
+        apiKeyId: { $in: [oldKeyId, newKeyId].map((id) => new mongoose.Types.ObjectId(id)) },
+        createdAt: { $gte: oldKey.rotatedAt },
+      },
+    },
+    {
+      $group: {
+        _id: { apiKeyId: '$apiKeyId', ipAddress: '$ipAddress' },
+        calls: { $sum: 1 },
+        lastSeenAt: { $max: '$createdAt' },
+      },
+    },
+    { $sort: { calls: -1 } },
+  ]);
+
+  const summarize = (apiKeyId: string): RotationKeyUsage => {
+    const clients = rows
+      .filter((row: any) => row._id.apiKeyId.toString() === apiKeyId)
+      .map((row: any) => ({ ipAddress: row._id.ipAddress || 'unknown', calls: row.calls, lastSeenAt: row.lastSeenAt }));
+    const lastSeen = clients.map((client) => client.lastSeenAt.getTime());
+
+    return {
+      apiKeyId,
+      calls: clients.reduce((sum, client) => sum + client.calls, 0),
+      lastUsedAt: lastSeen.length > 0 ? new Date(Math.max(...lastSeen)) : undefined,
+      clients,
+    };
+  };
+
+  return {
+    rotatedAt: oldKey.rotatedAt,
+    graceEndsAt: oldKey.graceEndsAt,
+    oldKey: summarize(oldKeyId),
+    newKey: summarize(newKeyId),
+  };
+}
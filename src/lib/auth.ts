@@ -2,6 +2,9 @@ import { NextAuthOptions } from 'next-auth';
 import CredentialsProvider from 'next-auth/providers/credentials';
 import { connectDB } from './mongodb';
 import User from '@/models/User';
+import { createOidcProvider, getOidcProviderConfigs, provisionOidcUser, type OidcClaims } from '@/lib/oidc';
+
+const oidcProviders = getOidcProviderConfigs();
 
 /**
  * NextAuth configuration options
@@ -57,6 +60,8 @@ export const authOptions: NextAuthOptions = {
         }
       },
     }),
+    // Single sign-on (OIDC_PROVIDERS)
+    ...oidcProviders.map(createOidcProvider),
   ],
 
   // Custom pages
@@ -78,6 +83,31 @@ export const authOptions: NextAuthOptions = {
 
   // Callbacks to customize behavior
   callbacks: {
+    /**
+     * Sign-in callback - provisions single sign-on users
+     * NextAuth hands the same user object to the jwt callback, so it is updated
+     * in place with the stored user's id and role
+     */
+    async signIn({ user, account, profile }) {
+      const oidcProvider = oidcProviders.find((provider) => provider.id === account?.provider);
+      if (!oidcProvider) {
+        return true;
+      }
+
+      try {
+        const result = await provisionOidcUser(oidcProvider, profile as OidcClaims);
+        if (result.error) {
+          return `/login?error=${encodeURIComponent(result.error)}`;
+        }
+
+        Object.assign(user, result.user);
+        return true;
+      } catch (error) {
+        console.error('Single sign-on provisioning error:', error);
+        return `/login?error=${encodeURIComponent('Single sign-on failed')}`;
+      }
+    },
+
     /**
      * JWT callback - called when JWT is created or updated
      * Add custom fields to the token
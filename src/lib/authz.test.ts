@@ -0,0 +1,128 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import {
+  canAccessDatabase,
+  canAccessAllDatabases,
+  getAccessibleDatabaseIds,
+  type Principal,
+} from '@/lib/authz';
+
+/**
+ * In-memory Access and Team collections; the filters built by authz are
+ * evaluated with a small matcher covering the operators it uses
+ */
+const db = vi.hoisted(() => {
+  const matches = (doc: Record<string, any>, filter: Record<string, any>): boolean =>
+    Object.entries(filter).every(([key, condition]) => {
+      if (key === '$and') return condition.every((part: any) => matches(doc, part));
+      if (key === '$or') return condition.some((part: any) => matches(doc, part));
+
+      const value = doc[key];
+      const values = (Array.isArray(value) ? value : [value]).map(String);
+      if (condition && typeof condition === 'object' && '$in' in condition) {
+        return condition.$in.some((candidate: any) => values.includes(String(candidate)));
+      }
+      return values.includes(String(condition));
+    });
+
+  const collection = (records: Record<string, any>[]) => ({
+    find: (filter: Record<string, any>) => ({
+      select: async () => records.filter((record) => matches(record, filter)),
+    }),
+    exists: async (filter: Record<string, any>) =>
+      records.some((record) => matches(record, filter)) ? { _id: 'found' } : null,
+  });
+
+  return { access: [] as Record<string, any>[], teams: [] as Record<string, any>[], collection };
+});
+
+vi.mock('@/lib/mongodb', () => ({ connectDB: async () => undefined }));
+vi.mock('@/models/Access', () => ({ default: db.collection(db.access) }));
+vi.mock('@/models/Team', () => ({ default: db.collection(db.teams) }));
+vi.mock('@/models/Chat', () => ({ default: {} }));
+vi.mock('@/models/Message', () => ({ default: {} }));
+vi.mock('@/models/QueryLog', () => ({ default: {} }));
+
+const alice: Principal = { kind: 'user', userId: 'alice', role: 'user' };
+const bob: Principal = { kind: 'user', userId: 'bob', role: 'user' };
+const admin: Principal = { kind: 'user', userId: 'root', role: 'admin' };
+const apiKey = (databaseIds: string[] = []): Principal => ({
+  kind: 'api-key',
+  apiKeyId: 'key-1',
+  teamId: 'team-data',
+  databaseIds,
+});
+
+const grant = (record: Record<string, any>) => db.access.push(record);
+const revoke = (databaseId: string) => {
+  const index = db.access.findIndex((record) => record.databaseId === databaseId);
+  db.access.splice(index, 1);
+};
+
+beforeEach(() => {
+  db.access.length = 0;
+  db.teams.length = 0;
+  db.teams.push({ _id: 'team-data', members: ['alice'] });
+});
+
+describe('canAccessDatabase', () => {
+  it('allows members of a team holding a team grant', async () => {
+    grant({ accessType: 'team', teamId: 'team-data', databaseId: 'db-sales' });
+
+    expect(await canAccessDatabase(alice, 'db-sales')).toBe(true);
+    expect(await canAccessDatabase(bob, 'db-sales')).toBe(false);
+  });
+
+  it('allows users holding an individual grant', async () => {
+    grant({ accessType: 'individual', userId: 'bob', databaseId: 'db-hr' });
+
+    expect(await canAccessDatabase(bob, 'db-hr')).toBe(true);
+    expect(await canAccessDatabase(alice, 'db-hr')).toBe(false);
+  });
+
+  it('denies access once the grant is revoked', async () => {
+    grant({ accessType: 'individual', userId: 'bob', databaseId: 'db-hr' });
+    grant({ accessType: 'team', teamId: 'team-data', databaseId: 'db-sales' });
+
+    revoke('db-hr');
+    revoke('db-sales');
+
+    expect(await canAccessDatabase(bob, 'db-hr')).toBe(false);
+    expect(await canAccessDatabase(alice, 'db-sales')).toBe(false);
+  });
+
+  it('lets admins bypass grants', async () => {
+    expect(await canAccessDatabase(admin, 'db-anything')).toBe(true);
+  });
+
+  it('limits API keys to their own team grants and allow-list', async () => {
+    grant({ accessType: 'team', teamId: 'team-data', databaseId: 'db-sales' });
+    grant({ accessType: 'team', teamId: 'team-data', databaseId: 'db-logs' });
+    grant({ accessType: 'team', teamId: 'team-other', databaseId: 'db-hr' });
+    grant({ accessType: 'individual', userId: 'alice', databaseId: 'db-private' });
+
+    expect(await canAccessDatabase(apiKey(), 'db-sales')).toBe(true);
+    expect(await canAccessDatabase(apiKey(), 'db-hr')).toBe(false);
+    expect(await canAccessDatabase(apiKey(), 'db-private')).toBe(false);
+    expect(await canAccessDatabase(apiKey(['db-logs']), 'db-sales')).toBe(false);
+    expect(await canAccessDatabase(apiKey(['db-logs']), 'db-logs')).toBe(true);
+  });
+});
+
+describe('getAccessibleDatabaseIds', () => {
+  it('combines team and individual grants without duplicates', async () => {
+    grant({ accessType: 'team', teamId: 'team-data', databaseId: 'db-sales' });
+    grant({ accessType: 'individual', userId: 'alice', databaseId: 'db-sales' });
+    grant({ accessType: 'individual', userId: 'alice', databaseId: 'db-hr' });
+
+    expect((await getAccessibleDatabaseIds(alice)).sort()).toEqual(['db-hr', 'db-sales']);
+  });
+});
+
+describe('canAccessAllDatabases', () => {
+  it('requires a grant for every database', async () => {
+    grant({ accessType: 'team', teamId: 'team-data', databaseId: 'db-sales' });
+
+    expect(await canAccessAllDatabases(alice, ['db-sales'])).toBe(true);
+    expect(await canAccessAllDatabases(alice, ['db-sales', 'db-hr'])).toBe(false);
+  });
+});
@@ -0,0 +1,216 @@
+import { Session } from 'next-auth';
+import { connectDB } from '@/lib/mongodb';
+import Access from '@/models/Access';
+import Team from '@/models/Team';
+import Chat from '@/models/Chat';
+import Message from '@/models/Message';
+import QueryLog from '@/models/QueryLog';
+import type { ApiKeyContext } from '@/lib/api-key-auth';
+
+/**
+ * Who is making a request
+ * - user: dashboard session (admins bypass database grants)
+ * - api-key: team API key (limited to the team's grants, narrowed by the key's
+ *   database allow-list when it has one)
+ */
+export type Principal =
+  | { kind: 'user'; userId: string; role: 'admin' | 'user' }
+  | { kind: 'api-key'; apiKeyId: string; teamId: string; databaseIds: string[]; rotatedToId?: string };
+
+/**
+ * Build a principal from a NextAuth session
+ */
+export function sessionPrincipal(session: Session): Principal {
+  return {
+    kind: 'user',
+    userId: session.user.id,
+    role: session.user.role,
+  };
+}
+
+/**
+ * Build a principal from a validated API key context
+ */
+export function apiKeyPrincipal(context: ApiKeyContext): Principal {
+  return {
+    kind: 'api-key',
+    apiKeyId: context.apiKeyId,
+    teamId: context.teamId,
+    databaseIds: context.databaseIds,
+    rotatedToId: context.rotatedToId,
+  };
+}
+
+/**
+ * Check whether a principal bypasses database grants
+ */
+export function isAdminPrincipal(principal: Principal): boolean {
+  return principal.kind === 'user' && principal.role === 'admin';
+}
+
+/**
+ * Build the Access query matching every grant held by a principal
+ * Users get their individual grants plus grants of every team they belong to,
+ * API keys get the grants of their own team only, limited to their allow-list
+ */
+async function grantFilter(principal: Principal): Promise<Record<string, any>> {
+  if (principal.kind === 'api-key') {
+    return principal.databaseIds.length > 0
+      ? { accessType: 'team', teamId: principal.teamId, databaseId: { $in: principal.databaseIds } }
+      : { accessType: 'team', teamId: principal.teamId };
+  }
+
+  const userTeams = await Team.find({ members: principal.userId }).select('_id');
+  const teamIds = userTeams.map((team) => team._id);
+
+  return {
+    $or: [
+      { accessType: 'individual', userId: principal.userId },
+      { accessType: 'team', teamId: { $in: teamIds } },
+    ],
+  };
+}
+
+/**
+ * Check if a principal can use a database
+ * Revoking a grant deletes its Access record, so access ends immediately
+ *
+ * @param principal - Session user or API key
+ * @param databaseId - Database to check
+ * @returns True if the principal is an admin or holds a grant
+ */
+export async function canAccessDatabase(
+  principal: Principal,
+  databaseId: string
+): Promise<boolean> {
+  if (isAdminPrincipal(principal)) {
+    return true;
+  }
+
+  await connectDB();
+
+  const filter = await grantFilter(principal);
+  const grant = await Access.exists({ $and: [filter, { databaseId }] });
+
+  return !!grant;
+}
+
+/**
+ * Check if a principal can use every database in a list
+ */
+export async function canAccessAllDatabases(
+  principal: Principal,
+  databaseIds: string[]
+): Promise<boolean> {
+  if (isAdminPrincipal(principal)) {
+    return true;
+  }
+
+  const accessible = await getAccessibleDatabaseIds(principal);
+  return databaseIds.every((id) => accessible.includes(id.toString()));
+}
+
+/**
+ * List the IDs of all databases a principal holds a grant for
+ * Admins are not special-cased here: callers list all databases for them
+ *
+ * @param principal - Session user or API key
+ * @returns Unique database IDs as strings
+ */
+export async function getAccessibleDatabaseIds(principal: Principal): Promise<string[]> {
+  await connectDB();
+
+  const filter = await grantFilter(principal);
+  const accessRecords = await Access.find(filter).select('databaseId');
+
+  return [...new Set(accessRecords.map((record) => record.databaseId.toString()))];
+}
+
+/**
+ * List the IDs of all databases a team holds a grant for
+ * Upper bound for the database allow-list of the team's API keys
+ */
+export async function getTeamDatabaseIds(teamId: string): Promise<string[]> {
+  await connectDB();
+
+  const accessRecords = await Access.find({ accessType: 'team', teamId }).select('databaseId');
+
+  return [...new Set(accessRecords.map((record) => record.databaseId.toString()))];
+}
+
+/**
+ * Key whose chats an API key works with
+ * Rotation hands the old key's chats to its replacement, so during the grace period the
+ * old key keeps reaching them (and files new ones) under the replacement
+ */
+function chatOwnerKeyId(principal: Extract<Principal, { kind: 'api-key' }>): string {
+  return principal.rotatedToId ?? principal.apiKeyId;
+}
+
+/**
+ * Mongo filter for the chats a principal owns
+ * API keys own the chats they created; users (admins too) only their own
+ */
+export function chatOwnerFilter(principal: Principal): Record<string, any> {
+  return principal.kind === 'api-key'
+    ? { apiKeyId: chatOwnerKeyId(principal) }
+    : { userId: principal.userId };
+}
+
+/**
+ * Check if a principal owns a chat
+ */
+export function ownsChat(
+  principal: Principal,
+  chat: { userId?: { toString(): string }; apiKeyId?: { toString(): string } }
+): boolean {
+  return principal.kind === 'api-key'
+    ? chat.apiKeyId?.toString() === chatOwnerKeyId(principal)
+    : chat.userId?.toString() === principal.userId;
+}
+
+/**
+ * Check if a principal can read a query result file stored in MinIO
+ * The file must belong to a chat message or query log the principal can see
+ *
+ * @param principal - Session user or API key
+ * @param s3Path - Result file path as returned by FastAPI
+ * @returns True if the result was produced for an accessible database
+ */
+export async function canAccessResultFile(
+  principal: Principal,
+  s3Path: string
+): Promise<boolean> {
+  if (isAdminPrincipal(principal)) {
+    return true;
+  }
+
+  await connectDB();
+
+  // Results produced through the public query API
+  const queryLogs = await QueryLog.find({
+    $or: [{ filePath: s3Path }, { 'results.file_path': s3Path }],
+  }).select('databaseId');
+
+  for (const log of queryLogs) {
+    if (await canAccessDatabase(principal, log.databaseId.toString())) {
+      return true;
+    }
+  }
+
+  // Results produced in a chat: only the chat owner, while still granted
+  const messages = await Message.find({ 'queryResults.file_path': s3Path }).select('chatId');
+  const chats = await Chat.find({
+    _id: { $in: messages.map((message) => message.chatId) },
+    ...chatOwnerFilter(principal),
+  });
+
+  for (const chat of chats) {
+    const databaseIds = chat.databaseIds.map((id) => id.toString());
+    if (await canAccessAllDatabases(principal, databaseIds)) {
+      return true;
+    }
+  }
+
+  return false;
+}
@@ -0,0 +1,322 @@
+import { connectDB } from '@/lib/mongodb';
+import type { DatabaseConnector, PoolStats } from '@/lib/connectors/types';
+import Connection, { IConnection } from '@/models/Connection';
+import { IDatabase } from '@/models/Database';
+import { acquireTunnel, optionsThroughTunnel } from '@/lib/ssh-tunnel';
+
+/**
+ * Pool limits, overridable per deployment
+ * - DB_POOL_MAX_SIZE: max clients per pool (one pool per connection + database)
+ * - DB_POOL_IDLE_TIMEOUT_MS: unused pools are closed after this long
+ */
+const POOL_MAX_SIZE = parseInt(process.env.DB_POOL_MAX_SIZE || '5');
+const POOL_IDLE_TIMEOUT_MS = parseInt(process.env.DB_POOL_IDLE_TIMEOUT_MS || '600000');
+const POOL_SWEEP_INTERVAL_MS = 60000;
+
+interface PoolEntry {
+  key: string;
+  connectionId: string;
+  connectionType: IConnection['connectionType'];
+  databaseName: string;
+  fingerprint: number; // Connection.updatedAt, changes whenever credentials are saved
+  connector: DatabaseConnector;
+  driver: Promise<any>; // Driver pool opened by the connector
+  opened?: any;
+  releaseTunnel?: () => void; // Set while the pool holds a lease on the connection's SSH tunnel
+  createdAt: Date;
+  lastUsedAt: Date;
+  active: number;
+  acquisitions: number;
+  errors: number;
+}
+
+/**
+ * Health snapshot of a single pool, as shown to admins
+ */
+export interface PoolMetrics extends PoolStats {
+  key: string;
+  connectionId: string;
+  connectionType: IConnection['connectionType'];
+  databaseName: string;
+  createdAt: Date;
+  lastUsedAt: Date;
+  active: number;
+  acquisitions: number;
+  errors: number;
+}
+
+interface PoolRegistry {
+  entries: Map<string, PoolEntry>;
+  sweeper: NodeJS.Timeout | null;
+}
+
+/**
+ * Global is used here so pools survive hot reloads in development,
+ * same as the MongoDB connection cache
+ */
+declare global {
+  var connectionPools: PoolRegistry | undefined;
+}
+
+const registry: PoolRegistry = global.connectionPools || {
+  entries: new Map(),
+  sweeper: null,
+};
+
+if (!global.connectionPools) {
+  global.connectionPools = registry;
+}
+
+/**
+ * Close a driver pool, ignoring errors from already-broken pools
+ */
+async function closeDriverPool(connector: DatabaseConnector, pool: any): Promise<void> {
+  try {
+    await connector.close(pool);
+  } catch (error) {
+    console.error('Error closing connection pool:', error);
+  }
+}
+
+/**
+ * Drop an entry from the registry and close its pool once it has opened
+ */
+function evictEntry(entry: PoolEntry): void {
+  if (registry.entries.get(entry.key) === entry) {
+    registry.entries.delete(entry.key);
+  }
+
+  entry.driver
+    .then((pool) => closeDriverPool(entry.connector, pool))
+    .catch(() => undefined)
+    .finally(() => entry.releaseTunnel?.());
+}
+
+/**
+ * Point a connection at the local end of its SSH tunnel
+ * verify-full TLS keeps checking the certificate against the real host
+ */
+function throughTunnel(connection: IConnection, localPort: number): IConnection {
+  const plain = typeof connection.toObject === 'function' ? connection.toObject() : connection;
+  const ssl = plain.ssl && { ...plain.ssl, servername: plain.ssl.servername || connection.host };
+
+  return {
+    ...plain,
+    host: '127.0.0.1',
+    port: localPort,
+    ssl,
+    options: optionsThroughTunnel(plain.options),
+  } as IConnection;
+}
+
+/**
+ * Open a driver pool, through the connection's SSH tunnel when it has one
+ *
+ * @param onLease - Receives the tunnel release function, to call once the pool is closed
+ */
+async function openDriver(
+  connector: DatabaseConnector,
+  connection: IConnection,
+  databaseName: string,
+  onLease: (release: () => void) => void
+): Promise<any> {
+  if (!connection.sshTunnel?.enabled) {
+    return connector.openPool(connection, databaseName);
+  }
+
+  // A dropped tunnel leaves every pool behind it broken, so they are all closed
+  const connectionId = connection._id.toString();
+  const lease = await acquireTunnel(connection, () => invalidateConnectionPools(connectionId));
+
+  try {
+    const pool = await connector.openPool(throughTunnel(connection, lease.localPort), databaseName);
+    onLease(lease.release);
+    return pool;
+  } catch (error) {
+    lease.release();
+    throw error;
+  }
+}
+
+/**
+ * Close pools that have had no active borrowers for longer than the idle timeout
+ */
+function sweepIdlePools(): void {
+  const cutoff = Date.now() - POOL_IDLE_TIMEOUT_MS;
+
+  registry.entries.forEach((entry) => {
+    if (entry.active === 0 && entry.lastUsedAt.getTime() < cutoff) {
+      console.log(`🧹 Closing idle connection pool ${entry.key}`);
+      evictEntry(entry);
+    }
+  });
+}
+
+function ensureSweeper(): void {
+  if (registry.sweeper) return;
+
+  registry.sweeper = setInterval(sweepIdlePools, POOL_SWEEP_INTERVAL_MS);
+  registry.sweeper.unref?.();
+}
+
+/**
+ * Get (or open) the pool entry for a connection + database
+ * A changed Connection.updatedAt means credentials were edited, so the stale pool is replaced
+ */
+function getEntry(
+  connector: DatabaseConnector,
+  connection: IConnection,
+  databaseName: string
+): PoolEntry {
+  const connectionId = connection._id.toString();
+  const key = `${connectionId}:${databaseName}`;
+  const fingerprint = connection.updatedAt ? new Date(connection.updatedAt).getTime() : 0;
+
+  const existing = registry.entries.get(key);
+  if (existing && existing.fingerprint === fingerprint) {
+    return existing;
+  }
+
+  if (existing) {
+    evictEntry(existing);
+  }
+
+  const entry: PoolEntry = {
+    key,
+    connectionId,
+    connectionType: connection.connectionType,
+    databaseName,
+    fingerprint,
+    connector,
+    driver: openDriver(connector, connection, databaseName, (release) => {
+      entry.releaseTunnel = release;
+    }),
+    createdAt: new Date(),
+    lastUsedAt: new Date(),
+    active: 0,
+    acquisitions: 0,
+    errors: 0,
+  };
+
+  // A pool that fails to open is dropped so the next call retries
+  entry.driver.then(
+    (driver) => {
+      entry.opened = driver;
+    },
+    () => {
+      if (registry.entries.get(key) === entry) {
+        registry.entries.delete(key);
+      }
+    }
+  );
+
+  registry.entries.set(key, entry);
+  ensureSweeper();
+
+  return entry;
+}
+
+/**
+ * Borrow the pool for a connection + database for the duration of a callback,
+ * opening it through the connector on first use and tracking usage for metrics
+ *
+ * @param connector - Engine that opens and closes the pool
+ * @param connection - Saved connection (password still encrypted)
+ * @param databaseName - Database to connect to; empty for a server-level pool
+ * @param callback - Receives the driver pool
+ */
+export async function withPool<TPool, T>(
+  connector: DatabaseConnector<TPool>,
+  connection: IConnection,
+  databaseName: string,
+  callback: (pool: TPool) => Promise<T>
+): Promise<T> {
+  const entry = getEntry(connector, connection, databaseName);
+  entry.active += 1;
+  entry.acquisitions += 1;
+  entry.lastUsedAt = new Date();
+
+  try {
+    return await callback(await entry.driver);
+  } catch (error) {
+    entry.errors += 1;
+    throw error;
+  } finally {
+    entry.active -= 1;
+    entry.lastUsedAt = new Date();
+  }
+}
+
+/**
+ * Load the Connection behind a registered database
+ *
+ * @param database - Database record (connectionId may be populated or an ID)
+ * @returns The Connection document
+ */
+export async function resolveConnection(database: IDatabase): Promise<IConnection> {
+  await connectDB();
+
+  const connectionRef = database.connectionId as any;
+  const connection: IConnection | null = connectionRef?.connectionType
+    ? connectionRef
+    : await Connection.findById(connectionRef);
+
+  if (!connection) {
+    throw new Error('Connection not found for this database');
+  }
+
+  return connection;
+}
+
+/**
+ * Close every pool opened for a connection
+ * Call whenever a Connection's credentials change or it is deleted
+ *
+ * @param connectionId - Connection whose pools to close
+ * @returns Number of pools closed
+ */
+export function invalidateConnectionPools(connectionId: string): number {
+  let closed = 0;
+
+  registry.entries.forEach((entry) => {
+    if (entry.connectionId === connectionId) {
+      evictEntry(entry);
+      closed += 1;
+    }
+  });
+
+  if (closed > 0) {
+    console.log(`🔌 Closed ${closed} connection pool(s) for connection ${connectionId}`);
+  }
+
+  return closed;
+}
+
+/**
+ * Health metrics for every open pool
+ * Pools that are still connecting report usage counters only
+ */
+export function getConnectionPoolMetrics(): PoolMetrics[] {
+  return [...registry.entries.values()].map((entry) => ({
+    key: entry.key,
+    connectionId: entry.connectionId,
+    connectionType: entry.connectionType,
+    databaseName: entry.databaseName,
+    createdAt: entry.createdAt,
+    lastUsedAt: entry.lastUsedAt,
+    active: entry.active,
+    acquisitions: entry.acquisitions,
+    errors: entry.errors,
+    ...(entry.opened ? entry.connector.poolStats?.(entry.opened) : {}),
+  }));
+}
+
+/**
+ * Pool configuration, reported alongside metrics
+ */
+export function getConnectionPoolConfig() {
+  return {
+    maxSize: POOL_MAX_SIZE,
+    idleTimeoutMs: POOL_IDLE_TIMEOUT_MS,
+  };
+}
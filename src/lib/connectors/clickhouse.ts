@@ -0,0 +1,286 @@
+import http from 'http';
+import https from 'https';
+import type { ConnectionOptions } from 'tls';
+import { withPool } from '@/lib/connection-pool';
+import { decrypt } from '@/lib/encryption';
+import type { IConnection } from '@/models/Connection';
+import type { TableSchema } from '@/lib/schema-introspection';
+import type { ConnectionCredentials, DatabaseConnector } from './types';
+import { CONNECT_TIMEOUT_MS, createTables, limitRows, toEstimate } from './shared';
+import { connectionTls, nodeTlsOptions } from './tls';
+
+const SYSTEM_DATABASES = `('system', 'information_schema', 'INFORMATION_SCHEMA')`;
+
+/**
+ * Table engines that hold no data of their own
+ */
+const VIEW_ENGINES = ['View', 'MaterializedView', 'LiveView', 'WindowView'];
+
+/**
+ * Endpoint and credentials for the HTTP interface
+ * HTTP is stateless, so the "pool" is just this; keep-alive sockets are reused by the global agents
+ */
+interface ClickHouseClient {
+  url: string;
+  headers: Record<string, string>;
+  database: string;
+  tls?: ConnectionOptions; // HTTPS when set
+}
+
+/**
+ * Body of a FORMAT JSON response
+ */
+interface ClickHouseResult {
+  meta: { name: string; type: string }[];
+  data: Record<string, any>[];
+}
+
+function createClient(
+  { host, port, username, password, ssl }: ConnectionCredentials,
+  databaseName = ''
+): ClickHouseClient {
+  const tls = nodeTlsOptions(ssl);
+  return {
+    url: `${tls ? 'https' : 'http'}://${host}:${port}/`,
+    headers: {
+      'X-ClickHouse-User': username || 'default',
+      'X-ClickHouse-Key': password || '',
+    },
+    database: databaseName,
+    tls,
+  };
+}
+
+/**
+ * POST a statement and collect the response body
+ * A timeout destroys the request with ETIMEDOUT, classified like a socket timeout
+ */
+function post(
+  client: ClickHouseClient,
+  url: string,
+  body: string,
+  timeoutMs: number
+): Promise<{ status: number; exceptionCode?: string; text: string }> {
+  return new Promise((resolve, reject) => {
+    const transport = client.tls ? https : http;
+    const request = transport.request(
+      url,
+      { method: 'POST', headers: client.headers, ...client.tls },
+      (response) => {
+        const chunks: Buffer[] = [];
+        response.on('data', (chunk: Buffer) => chunks.push(chunk));
+        response.on('error', reject);
+        response.on('end', () =>
+          resolve({
+            status: response.statusCode || 0,
+            exceptionCode: response.headers['x-clickhouse-exception-code'] as string | undefined,
+            text: Buffer.concat(chunks).toString('utf8'),
+          })
+        );
+      }
+    );
+
+    const timer = setTimeout(() => {
+      request.destroy(Object.assign(new Error('ClickHouse request timed out'), { code: 'ETIMEDOUT' }));
+    }, timeoutMs);
+
+    request.on('error', reject);
+    request.on('close', () => clearTimeout(timer));
+    request.end(body);
+  });
+}
+
+/**
+ * Run one statement over HTTP and parse the JSON result
+ * Query parameters ({name:Type} placeholders) are passed as param_<name>
+ *
+ * @throws Error with the ClickHouse exception code as `code`
+ */
+async function runQuery(
+  client: ClickHouseClient,
+  sql: string,
+  options: { params?: Record<string, string>; settings?: Record<string, string | number>; timeoutMs?: number } = {}
+): Promise<ClickHouseResult> {
+  const search = new URLSearchParams({ default_format: 'JSON' });
+  if (client.database) search.set('database', client.database);
+  Object.entries(options.settings || {}).forEach(([name, value]) => search.set(name, String(value)));
+  Object.entries(options.params || {}).forEach(([name, value]) => search.set(`param_${name}`, value));
+
+  const { status, exceptionCode, text } = await post(
+    client,
+    `${client.url}?${search}`,
+    sql,
+    options.timeoutMs ?? CONNECT_TIMEOUT_MS
+  );
+
+  if (status < 200 || status >= 300) {
+    const error: any = new Error(text.trim() || `ClickHouse returned ${status}`);
+    error.code = Number(exceptionCode) || undefined;
+    throw error;
+  }
+
+  try {
+    return JSON.parse(text);
+  } catch {
+    throw new Error('ClickHouse returned a non-JSON result; remove any FORMAT clause from the query');
+  }
+}
+
+function clientFor(connection: IConnection, databaseName: string): ClickHouseClient {
+  return createClient(
+    {
+      host: connection.host,
+      port: connection.port,
+      username: connection.username,
+      password: decrypt(connection.password!),
+      ssl: connectionTls(connection),
+    },
+    databaseName
+  );
+}
+
+/**
+ * Introspect through system.tables / system.columns (the registered database only)
+ * ClickHouse has no foreign keys; the primary key is the table's sorting prefix
+ */
+async function introspect(connection: IConnection, databaseName: string): Promise<TableSchema[]> {
+  return withPool(clickhouseConnector, connection, databaseName, async (client) => {
+    const params = { database: databaseName };
+
+    const tablesResult = await runQuery(
+      client,
+      `SELECT name, engine, total_rows, primary_key FROM system.tables
+       WHERE database = {database:String} AND NOT is_temporary ORDER BY name`,
+      { params }
+    );
+
+    const tables = createTables(
+      tablesResult.data.map((row) => ({
+        name: row.name,
+        type: VIEW_ENGINES.includes(row.engine) ? 'view' : 'table',
+        rowEstimate: VIEW_ENGINES.includes(row.engine) ? null : toEstimate(row.total_rows),
+      }))
+    );
+
+    tablesResult.data.forEach((row) => {
+      const table = tables.get(row.name);
+      if (!table || !row.primary_key) return;
+
+      table.primaryKey = String(row.primary_key).split(',').map((column) => column.trim());
+      table.indexes.push({ name: 'PRIMARY', columns: table.primaryKey, unique: false, primary: true });
+    });
+
+    const columnsResult = await runQuery(
+      client,
+      `SELECT table, name, type, default_expression FROM system.columns
+       WHERE database = {database:String} ORDER BY table, position`,
+      { params }
+    );
+
+    columnsResult.data.forEach((row) => {
+      tables.get(row.table)?.columns.push({
+        name: row.name,
+        dataType: row.type,
+        nullable: String(row.type).startsWith('Nullable('),
+        defaultValue: row.default_expression || null,
+      });
+    });
+
+    const indexesResult = await runQuery(
+      client,
+      `SELECT table, name, expr FROM system.data_skipping_indices
+       WHERE database = {database:String} ORDER BY table, name`,
+      { params }
+    );
+
+    indexesResult.data.forEach((row) => {
+      tables.get(row.table)?.indexes.push({
+        name: row.name,
+        columns: [row.expr],
+        unique: false,
+        primary: false,
+      });
+    });
+
+    return [...tables.values()];
+  });
+}
+
+/**
+ * ClickHouse connector (HTTP interface)
+ * Queries run with readonly=2 and a server-side execution limit; the SQL guard blocks
+ * SETTINGS clauses, so a query cannot lift either
+ */
+export const clickhouseConnector: DatabaseConnector<ClickHouseClient> = {
+  type: 'clickhouse',
+  displayName: 'ClickHouse',
+  sqlDialect: 'clickhouse',
+
+  async openPool(connection, databaseName) {
+    return clientFor(connection, databaseName);
+  },
+
+  async close() {
+    // Nothing held open between requests
+  },
+
+  async test(credentials) {
+    await runQuery(createClient(credentials), 'SELECT 1');
+  },
+
+  async ping(connection, databaseName) {
+    await withPool(clickhouseConnector, connection, databaseName, (client) => runQuery(client, 'SELECT 1'));
+  },
+
+  async listDatabases(connection) {
+    return withPool(clickhouseConnector, connection, '', async (client) => {
+      const result = await runQuery(
+        client,
+        `SELECT name FROM system.databases WHERE name NOT IN ${SYSTEM_DATABASES} ORDER BY name`
+      );
+      return result.data.map((row) => row.name);
+    });
+  },
+
+  async serverVersion(connection, databaseName) {
+    return withPool(clickhouseConnector, connection, databaseName, async (client) => {
+      const result = await runQuery(client, 'SELECT version() AS version');
+      return String(result.data[0].version);
+    });
+  },
+
+  introspect,
+
+  async execute(connection, databaseName, query, { timeoutMs, maxRows }) {
+    return withPool(clickhouseConnector, connection, databaseName, async (client) => {
+      // The server stops at one row past the limit; the client waits a little longer than the server
+      const result = await runQuery(client, query, {
+        settings: {
+          readonly: 2,
+          max_execution_time: Math.max(1, Math.ceil(timeoutMs / 1000)),
+          max_result_rows: maxRows + 1,
+          result_overflow_mode: 'break',
+        },
+        timeoutMs: timeoutMs + CONNECT_TIMEOUT_MS,
+      });
+
+      return {
+        columns: result.meta.map((column) => ({ name: column.name, type: column.type })),
+        ...limitRows(result.data, maxRows),
+      };
+    });
+  },
+
+  classifyError(error) {
+    switch (error.code) {
+      case 192: // UNKNOWN_USER
+      case 194: // REQUIRED_PASSWORD
+      case 516: // AUTHENTICATION_FAILED
+        return 'auth_failed';
+      case 81: // UNKNOWN_DATABASE
+        return 'database_not_found';
+      default:
+        return undefined;
+    }
+  },
+};
@@ -0,0 +1,237 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import { DuckDBInstance } from '@duckdb/node-api';
+import { withPool } from '@/lib/connection-pool';
+import type { IConnection } from '@/models/Connection';
+import type { TableSchema } from '@/lib/schema-introspection';
+import type { DatabaseConnector } from './types';
+import { listDatabaseFiles, resolveConnectionPath, resolveDatabaseFile } from './files';
+import { createTables, limitRows, tableKey, toEstimate } from './shared';
+
+/**
+ * File extensions listed as databases when the connection path is a directory
+ * Parquet files are exposed as a single view named after the file
+ */
+const DUCKDB_EXTENSIONS = ['.duckdb', '.ddb', '.parquet'];
+
+function quoteString(value: string): string {
+  return `'${value.replace(/'/g, "''")}'`;
+}
+
+function quoteIdentifier(value: string): string {
+  return `"${value.replace(/"/g, '""')}"`;
+}
+
+/**
+ * Open a database file read-only
+ * File access is then locked to the file's own directory, so queries cannot read
+ * arbitrary paths (read_csv('/etc/passwd')) or change the setting back
+ */
+async function openFile(filePath: string): Promise<DuckDBInstance> {
+  // DuckDB reports a missing file as a generic IO error; stat gives a proper ENOENT
+  await fs.access(filePath);
+
+  const isParquet = path.extname(filePath).toLowerCase() === '.parquet';
+  const instance = isParquet
+    ? await DuckDBInstance.create(':memory:')
+    : await DuckDBInstance.create(filePath, { access_mode: 'READ_ONLY' });
+
+  const connection = await instance.connect();
+  try {
+    if (isParquet) {
+      const viewName = path.basename(filePath, path.extname(filePath));
+      await connection.run(
+        `CREATE VIEW ${quoteIdentifier(viewName)} AS SELECT * FROM read_parquet(${quoteString(filePath)})`
+      );
+    }
+
+    await connection.run(`SET allowed_directories = [${quoteString(path.dirname(filePath))}]`);
+    await connection.run('SET enable_external_access = false');
+    await connection.run('SET lock_configuration = true');
+  } catch (error) {
+    instance.closeSync();
+    throw error;
+  } finally {
+    connection.closeSync();
+  }
+
+  return instance;
+}
+
+/**
+ * Run a query on a fresh connection and return its rows as JSON-safe objects
+ */
+async function readRows(instance: DuckDBInstance, sql: string): Promise<Record<string, any>[]> {
+  const connection = await instance.connect();
+  try {
+    const reader = await connection.runAndReadAll(sql);
+    return reader.getRowObjectsJson() as Record<string, any>[];
+  } finally {
+    connection.closeSync();
+  }
+}
+
+/**
+ * Introspect through the duckdb_* catalog functions (all non-internal schemas)
+ */
+async function introspect(connection: IConnection, databaseName: string): Promise<TableSchema[]> {
+  return withPool(duckdbConnector, connection, databaseName, async (instance) => {
+    const tableRows = await readRows(
+      instance,
+      `SELECT schema_name, table_name AS name, 'table' AS type, estimated_size FROM duckdb_tables() WHERE NOT internal
+       UNION ALL
+       SELECT schema_name, view_name AS name, 'view' AS type, NULL FROM duckdb_views() WHERE NOT internal
+       ORDER BY schema_name, name`
+    );
+
+    const tables = createTables(
+      tableRows.map((row) => ({
+        schema: row.schema_name,
+        name: row.name,
+        type: row.type,
+        rowEstimate: row.type === 'view' ? null : toEstimate(row.estimated_size),
+      }))
+    );
+
+    const columnRows = await readRows(
+      instance,
+      `SELECT schema_name, table_name, column_name, data_type, is_nullable, column_default
+       FROM duckdb_columns() WHERE NOT internal
+       ORDER BY schema_name, table_name, column_index`
+    );
+
+    columnRows.forEach((row) => {
+      tables.get(tableKey(row.schema_name, row.table_name))?.columns.push({
+        name: row.column_name,
+        dataType: row.data_type,
+        nullable: row.is_nullable,
+        defaultValue: row.column_default,
+      });
+    });
+
+    const constraintRows = await readRows(
+      instance,
+      `SELECT schema_name, table_name, constraint_name, constraint_type, constraint_column_names,
+         referenced_table, referenced_column_names
+       FROM duckdb_constraints()
+       WHERE constraint_type IN ('PRIMARY KEY', 'FOREIGN KEY')`
+    );
+
+    constraintRows.forEach((row) => {
+      const table = tables.get(tableKey(row.schema_name, row.table_name));
+      if (!table) return;
+
+      if (row.constraint_type === 'PRIMARY KEY') {
+        table.primaryKey = row.constraint_column_names;
+      } else {
+        table.foreignKeys.push({
+          name: row.constraint_name,
+          columns: row.constraint_column_names,
+          referencedTable: row.referenced_table,
+          referencedColumns: row.referenced_column_names,
+        });
+      }
+    });
+
+    // Explicit indexes only; expressions come back as "[col1, col2]"
+    const indexRows = await readRows(
+      instance,
+      `SELECT schema_name, table_name, index_name AS name, is_unique, is_primary, expressions
+       FROM duckdb_indexes()
+       ORDER BY schema_name, table_name, index_name`
+    );
+
+    indexRows.forEach((row) => {
+      tables.get(tableKey(row.schema_name, row.table_name))?.indexes.push({
+        name: row.name,
+        columns: String(row.expressions || '')
+          .replace(/^\[|\]$/g, '')
+          .split(',')
+          .map((column) => column.trim())
+          .filter(Boolean),
+        unique: row.is_unique,
+        primary: row.is_primary,
+      });
+    });
+
+    return [...tables.values()];
+  });
+}
+
+/**
+ * DuckDB connector (@duckdb/node-api)
+ * Database files are opened read-only with file access locked to their directory;
+ * each query gets its own connection, interrupted when the timeout expires
+ */
+export const duckdbConnector: DatabaseConnector<DuckDBInstance> = {
+  type: 'duckdb',
+  displayName: 'DuckDB',
+  sqlDialect: 'duckdb',
+  fileBased: true,
+
+  async openPool(connection, databaseName) {
+    return openFile(await resolveDatabaseFile(connection.filePath, databaseName));
+  },
+
+  async close(instance) {
+    instance.closeSync();
+  },
+
+  async test({ filePath }) {
+    const resolved = resolveConnectionPath(filePath);
+    const stats = await fs.stat(resolved);
+
+    if (!stats.isFile()) {
+      await listDatabaseFiles(resolved, DUCKDB_EXTENSIONS);
+      return;
+    }
+
+    const instance = await openFile(resolved);
+    try {
+      await readRows(instance, 'SELECT 1');
+    } finally {
+      instance.closeSync();
+    }
+  },
+
+  async ping(connection, databaseName) {
+    await withPool(duckdbConnector, connection, databaseName, (instance) => readRows(instance, 'SELECT 1'));
+  },
+
+  async listDatabases(connection) {
+    return listDatabaseFiles(connection.filePath, DUCKDB_EXTENSIONS);
+  },
+
+  introspect,
+
+  async execute(connection, databaseName, query, { timeoutMs, maxRows }) {
+    return withPool(duckdbConnector, connection, databaseName, async (instance) => {
+      const client = await instance.connect();
+      let timedOut = false;
+      const timer = setTimeout(() => {
+        timedOut = true;
+        client.interrupt();
+      }, timeoutMs);
+
+      try {
+        // Read one row past the limit to detect truncation
+        const reader = await client.runAndReadUntil(query, maxRows + 1);
+        const names = reader.columnNames();
+        const types = reader.columnTypes().map(String);
+
+        return {
+          columns: names.map((name, index) => ({ name, type: types[index] })),
+          ...limitRows(reader.getRowObjectsJson() as Record<string, any>[], maxRows),
+        };
+      } catch (error) {
+        if (timedOut) {
+          throw new Error(`Query exceeded the ${timeoutMs}ms timeout`);
+        }
+        throw error;
+      } finally {
+        clearTimeout(timer);
+        client.closeSync();
+      }
+    });
+  },
+};
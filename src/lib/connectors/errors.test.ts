@@ -0,0 +1,109 @@
+import { describe, it, expect, vi } from 'vitest';
+import { classifyConnectorError, describeConnectorError } from './errors';
+import { getConnector, isSupportedConnectionType } from './index';
+import type { ConnectorErrorKind, DatabaseConnector } from './types';
+
+vi.mock('@/lib/connection-pool', () => ({
+  withPool: vi.fn(),
+  getConnectionPoolConfig: () => ({ maxSize: 1, idleTimeoutMs: 1000 }),
+}));
+
+const target = { host: 'db.internal', port: 5432, databaseName: 'sales', filePath: '/data' };
+const failure = (fields: Record<string, any>) => Object.assign(new Error('driver error'), fields);
+
+describe('classifyConnectorError', () => {
+  it.each<[string, ConnectorErrorKind]>([
+    ['ECONNREFUSED', 'unreachable'],
+    ['EHOSTUNREACH', 'unreachable'],
+    ['ECONNRESET', 'unreachable'],
+    ['ENOTFOUND', 'host_not_found'],
+    ['EAI_AGAIN', 'host_not_found'],
+    ['ETIMEDOUT', 'timeout'],
+    ['ENOENT', 'file_not_found'],
+    ['DEPTH_ZERO_SELF_SIGNED_CERT', 'tls_failed'],
+    ['ERR_TLS_CERT_ALTNAME_INVALID', 'tls_failed'],
+    ['ESSHTUNNEL', 'tunnel_failed'],
+  ])('maps socket error %s to %s for every engine', (code, kind) => {
+    for (const type of ['postgresql', 'mysql', 'mssql', 'mongodb', 'clickhouse']) {
+      expect(classifyConnectorError(getConnector(type), failure({ code }))).toBe(kind);
+    }
+  });
+
+  it.each<[string, Record<string, any>, ConnectorErrorKind | undefined]>([
+    ['postgresql', { code: '28P01' }, 'auth_failed'],
+    ['postgresql', { code: '3D000' }, 'database_not_found'],
+    ['postgresql', { code: '42P01' }, undefined],
+    ['mysql', { code: 'ER_ACCESS_DENIED_ERROR' }, 'auth_failed'],
+    ['mysql', { code: 'ER_BAD_DB_ERROR' }, 'database_not_found'],
+    ['mariadb', { code: 'ER_DBACCESS_DENIED_ERROR' }, 'auth_failed'],
+    ['mssql', { code: 'ELOGIN', number: 18456 }, 'auth_failed'],
+    ['mssql', { code: 'ELOGIN', number: 4060 }, 'database_not_found'],
+    ['mssql', { code: 'ETIMEOUT' }, 'timeout'],
+    ['oracle', { code: 'ORA-01017', errorNum: 1017 }, 'auth_failed'],
+    ['oracle', { code: 'NJS-518' }, 'database_not_found'],
+    ['oracle', { code: 'ORA-00942', errorNum: 942 }, undefined],
+    ['mongodb', { code: 18 }, 'auth_failed'],
+    ['mongodb', { name: 'MongoServerSelectionError' }, 'timeout'],
+    ['clickhouse', { code: 516 }, 'auth_failed'],
+    ['clickhouse', { code: 81 }, 'database_not_found'],
+    ['sqlite', { code: 'SQLITE_CANTOPEN' }, 'file_not_found'],
+  ])('maps %s error %j', (type, fields, kind) => {
+    expect(classifyConnectorError(getConnector(type), failure(fields))).toBe(kind);
+  });
+
+  it('prefers a socket error in the cause chain over the engine classification', () => {
+    const error = failure({ name: 'MongoServerSelectionError', cause: failure({ code: 'ECONNREFUSED' }) });
+
+    expect(classifyConnectorError(getConnector('mongodb'), error)).toBe('unreachable');
+  });
+
+  it('falls back to the engine classification of a wrapped error', () => {
+    const connector = { classifyError: (error: any) => (error.code === 'AUTH' ? 'auth_failed' : undefined) };
+
+    expect(
+      classifyConnectorError(connector as DatabaseConnector, failure({ cause: failure({ code: 'AUTH' }) }))
+    ).toBe('auth_failed');
+  });
+});
+
+describe('describeConnectorError', () => {
+  const postgres = () => getConnector('postgresql');
+
+  it.each<[Record<string, any>, string]>([
+    [{ code: 'ECONNREFUSED' }, 'Cannot connect to db.internal:5432. Server is not reachable.'],
+    [{ code: 'ENOTFOUND' }, 'Host "db.internal" not found. Please check the hostname.'],
+    [{ code: '28P01' }, 'Authentication failed. Please check username and password.'],
+    [{ code: '3D000' }, 'Database "sales" does not exist.'],
+    [{ code: 'ENOENT' }, 'Database file "sales" not found in /data.'],
+    [{ code: 'CERT_HAS_EXPIRED' }, 'TLS handshake failed. Please check the SSL mode, CA certificate and server name.'],
+    [{ code: 'ETIMEDOUT' }, 'Connection timeout. Server took too long to respond.'],
+    [{ code: '42P01' }, 'driver error'],
+  ])('describes %j', (fields, message) => {
+    expect(describeConnectorError(postgres(), failure(fields), target)).toBe(message);
+  });
+
+  it('passes tunnel errors through, since they name the bastion', () => {
+    const tunnelError = Object.assign(new Error('SSH tunnel to bastion:22 failed: authentication'), {
+      code: 'ESSHTUNNEL',
+    });
+
+    expect(describeConnectorError(postgres(), failure({ cause: tunnelError }), target)).toBe(
+      'SSH tunnel to bastion:22 failed: authentication'
+    );
+  });
+});
+
+describe('connector registry', () => {
+  it('has a connector for every connection type', () => {
+    for (const type of ['postgresql', 'mysql', 'mariadb', 'mssql', 'oracle', 'mongodb', 'sqlite', 'duckdb', 'clickhouse']) {
+      expect(isSupportedConnectionType(type)).toBe(true);
+      expect(getConnector(type).type).toBe(type);
+    }
+  });
+
+  it('rejects unknown and inherited types', () => {
+    expect(isSupportedConnectionType('db2')).toBe(false);
+    expect(isSupportedConnectionType('toString')).toBe(false);
+    expect(() => getConnector('db2')).toThrow('Unsupported database type');
+  });
+});
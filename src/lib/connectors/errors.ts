@@ -0,0 +1,104 @@
+import type { ConnectorErrorKind, DatabaseConnector } from './types';
+
+/**
+ * What the failing call was connecting to, used in messages
+ */
+interface ErrorTarget {
+  host?: string;
+  port?: number;
+  filePath?: string;
+  databaseName?: string;
+}
+
+/**
+ * Node socket and TLS error codes shared by every driver
+ */
+const NETWORK_ERROR_KINDS: Record<string, ConnectorErrorKind> = {
+  ECONNREFUSED: 'unreachable',
+  EHOSTUNREACH: 'unreachable',
+  ECONNRESET: 'unreachable',
+  ENOTFOUND: 'host_not_found',
+  EAI_AGAIN: 'host_not_found',
+  ETIMEDOUT: 'timeout',
+  ENOENT: 'file_not_found',
+  DEPTH_ZERO_SELF_SIGNED_CERT: 'tls_failed',
+  SELF_SIGNED_CERT_IN_CHAIN: 'tls_failed',
+  UNABLE_TO_VERIFY_LEAF_SIGNATURE: 'tls_failed',
+  UNABLE_TO_GET_ISSUER_CERT_LOCALLY: 'tls_failed',
+  CERT_HAS_EXPIRED: 'tls_failed',
+  ERR_TLS_CERT_ALTNAME_INVALID: 'tls_failed',
+  EPROTO: 'tls_failed',
+  ESSHTUNNEL: 'tunnel_failed', // Raised by lib/ssh-tunnel
+};
+
+/**
+ * The error and the errors it wraps (some drivers wrap the socket error in a cause)
+ */
+function errorChain(error: any): any[] {
+  const chain = [];
+  for (let current = error; current && chain.length < 3; current = current.cause) {
+    chain.push(current);
+  }
+  return chain;
+}
+
+/**
+ * Classify a driver error
+ * Socket errors anywhere in the chain win over the engine's own classification,
+ * since drivers often report them as a generic timeout
+ */
+export function classifyConnectorError(
+  connector: DatabaseConnector,
+  error: any
+): ConnectorErrorKind | undefined {
+  const chain = errorChain(error);
+
+  for (const current of chain) {
+    if (NETWORK_ERROR_KINDS[current.code]) return NETWORK_ERROR_KINDS[current.code];
+  }
+  for (const current of chain) {
+    const kind = connector.classifyError?.(current);
+    if (kind) return kind;
+  }
+  return undefined;
+}
+
+/**
+ * Human-readable message for a failed connection, consistent across routes
+ *
+ * @param connector - Engine the call went through
+ * @param error - Error thrown by the driver
+ * @param target - Host, port and (optionally) database being connected to
+ * @returns Message safe to return to the client
+ */
+export function describeConnectorError(
+  connector: DatabaseConnector,
+  error: any,
+  target: ErrorTarget
+): string {
+  switch (classifyConnectorError(connector, error)) {
+    case 'unreachable':
+      return `Cannot connect to ${target.host}:${target.port}. Server is not reachable.`;
+    case 'host_not_found':
+      return `Host "${target.host}" not found. Please check the hostname.`;
+    case 'auth_failed':
+      return 'Authentication failed. Please check username and password.';
+    case 'database_not_found':
+      return target.databaseName
+        ? `Database "${target.databaseName}" does not exist.`
+        : 'Database does not exist.';
+    case 'file_not_found':
+      return target.databaseName
+        ? `Database file "${target.databaseName}" not found in ${target.filePath}.`
+        : `Path "${target.filePath}" not found. Please check the file path.`;
+    case 'tunnel_failed':
+      // The tunnel error already names the bastion and the failing step
+      return errorChain(error).find((current) => current.code === 'ESSHTUNNEL').message;
+    case 'tls_failed':
+      return 'TLS handshake failed. Please check the SSL mode, CA certificate and server name.';
+    case 'timeout':
+      return 'Connection timeout. Server took too long to respond.';
+    default:
+      return error?.message || 'Connection failed';
+  }
+}
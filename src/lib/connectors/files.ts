@@ -0,0 +1,80 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+
+/**
+ * File-based connections point at a single database file or a directory of them
+ * - FILE_DATABASE_ROOT: when set, connection paths must live under this directory
+ */
+const FILE_DATABASE_ROOT = process.env.FILE_DATABASE_ROOT;
+
+/**
+ * Resolve a connection's path, enforcing FILE_DATABASE_ROOT when configured
+ *
+ * @throws Error if the path is relative or outside the allowed root
+ */
+export function resolveConnectionPath(filePath?: string): string {
+  if (!filePath || !path.isAbsolute(filePath)) {
+    throw new Error('File path must be absolute');
+  }
+
+  const resolved = path.resolve(filePath);
+
+  if (FILE_DATABASE_ROOT) {
+    const root = path.resolve(FILE_DATABASE_ROOT);
+    if (resolved !== root && !resolved.startsWith(root + path.sep)) {
+      throw new Error(`File path must be inside ${root}`);
+    }
+  }
+
+  return resolved;
+}
+
+/**
+ * Database files available on a connection
+ * A file connection exposes just that file; a directory exposes its files
+ * with one of the given extensions (not recursive)
+ *
+ * @param filePath - Connection.filePath
+ * @param extensions - Lower-case extensions including the dot
+ * @returns File names, used as database names
+ */
+export async function listDatabaseFiles(filePath: string | undefined, extensions: string[]): Promise<string[]> {
+  const resolved = resolveConnectionPath(filePath);
+  const stats = await fs.stat(resolved);
+
+  if (stats.isFile()) {
+    return [path.basename(resolved)];
+  }
+
+  const entries = await fs.readdir(resolved, { withFileTypes: true });
+  return entries
+    .filter((entry) => entry.isFile() && extensions.includes(path.extname(entry.name).toLowerCase()))
+    .map((entry) => entry.name)
+    .sort();
+}
+
+/**
+ * Absolute path of a registered database on a file connection
+ *
+ * @param filePath - Connection.filePath (a file, or a directory of files)
+ * @param databaseName - Database.databaseName (a file name)
+ * @throws Error if the database does not belong to the connection
+ */
+export async function resolveDatabaseFile(filePath: string | undefined, databaseName: string): Promise<string> {
+  const resolved = resolveConnectionPath(filePath);
+  const stats = await fs.stat(resolved);
+
+  if (stats.isFile()) {
+    if (databaseName && databaseName !== path.basename(resolved)) {
+      throw new Error(`Database "${databaseName}" is not part of this connection`);
+    }
+    return resolved;
+  }
+
+  // Database names are plain file names inside the connection's directory
+  if (!databaseName || databaseName !== path.basename(databaseName)) {
+    throw new Error(`Invalid database file name "${databaseName}"`);
+  }
+
+  return path.join(resolved, databaseName);
+}
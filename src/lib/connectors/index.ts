@@ -0,0 +1,59 @@
+import { postgresConnector } from './postgresql';
+import { mysqlConnector } from './mysql';
+import { mariadbConnector } from './mariadb';
+import { mssqlConnector } from './mssql';
+import { oracleConnector } from './oracle';
+import { mongoConnector } from './mongodb';
+import { sqliteConnector } from './sqlite';
+import { duckdbConnector } from './duckdb';
+import { clickhouseConnector } from './clickhouse';
+import type { ConnectionType, DatabaseConnector } from './types';
+
+export type {
+  ColumnMeta,
+  ConnectionCredentials,
+  ConnectionType,
+  ConnectorErrorKind,
+  DatabaseConnector,
+  PoolStats,
+  QueryLimits,
+  QueryRows,
+} from './types';
+export { classifyConnectorError, describeConnectorError } from './errors';
+
+/**
+ * Registered engines, one connector per connection type
+ * Adding an engine means adding its connector file and an entry here
+ */
+const CONNECTORS: Record<ConnectionType, DatabaseConnector> = {
+  postgresql: postgresConnector,
+  mysql: mysqlConnector,
+  mariadb: mariadbConnector,
+  mssql: mssqlConnector,
+  oracle: oracleConnector,
+  mongodb: mongoConnector,
+  sqlite: sqliteConnector,
+  duckdb: duckdbConnector,
+  clickhouse: clickhouseConnector,
+};
+
+/**
+ * Look up the connector for a connection type
+ *
+ * @param connectionType - Connection.connectionType
+ * @returns The engine's connector
+ * @throws Error if the type has no connector
+ */
+export function getConnector(connectionType: string): DatabaseConnector {
+  if (!isSupportedConnectionType(connectionType)) {
+    throw new Error('Unsupported database type');
+  }
+  return CONNECTORS[connectionType];
+}
+
+/**
+ * Whether a connection type has a registered connector
+ */
+export function isSupportedConnectionType(connectionType: string): connectionType is ConnectionType {
+  return Object.prototype.hasOwnProperty.call(CONNECTORS, connectionType);
+}
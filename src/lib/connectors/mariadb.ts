@@ -0,0 +1,38 @@
+import { createMySqlConnector } from './mysql';
+
+/**
+ * MariaDB connector (mysql2, MySQL protocol)
+ * Differs from MySQL in its system schemas (ColumnStore adds its own), in quoting
+ * column defaults as SQL literals (10.2.7+) and in the server-side timeout setting
+ * Queries are guarded with the 'mysql' dialect, which also refuses MariaDB's executable "/*M!" comments
+ */
+export const mariadbConnector = createMySqlConnector({
+  type: 'mariadb',
+  displayName: 'MariaDB',
+  systemDatabases: [
+    'information_schema', 'mysql', 'performance_schema', 'sys',
+    'calpontsys', 'columnstore_info', 'infinidb_querystats', 'infinidb_vtable',
+  ],
+
+  parseVersion(version) {
+    // Old servers prefix the handshake version with "5.5.5-" for MySQL client compatibility
+    const match = /^(?:5\.5\.5-)?(\d+\.\d+\.\d+)-MariaDB/i.exec(version);
+    if (!match) {
+      throw new Error(`Server is not MariaDB (version ${version}); use the MySQL connection type instead`);
+    }
+    return match[1];
+  },
+
+  parseDefault(value) {
+    if (value === null || value === 'NULL') return null;
+
+    // String literals come back quoted: 'abc' (embedded quotes doubled)
+    const literal = /^'(.*)'$/s.exec(value);
+    return literal ? literal[1].replace(/''/g, "'") : value;
+  },
+
+  withStatementTimeout(query, timeoutMs) {
+    // max_statement_time is in seconds (fractions allowed); MySQL's max_execution_time does not exist here
+    return `SET STATEMENT max_statement_time = ${Math.max(timeoutMs / 1000, 0.001)} FOR ${query}`;
+  },
+});
@@ -0,0 +1,97 @@
+import { describe, it, expect, vi } from 'vitest';
+import type { IConnection } from '@/models/Connection';
+import { mongoConnector } from './mongodb';
+
+/**
+ * Fake driver: pools hand out a client whose collections record the calls they receive
+ */
+const driver = vi.hoisted(() => {
+  const calls: { method: string; args: any[] }[] = [];
+  const cursor = (documents: Record<string, any>[]) => ({
+    limit: () => cursor(documents),
+    maxTimeMS: () => cursor(documents),
+    toArray: async () => documents,
+  });
+  const client = {
+    db: () => ({
+      collection: () => ({
+        find: (...args: any[]) => {
+          calls.push({ method: 'find', args });
+          return cursor([{ _id: 1, status: 'open' }]);
+        },
+        aggregate: (...args: any[]) => {
+          calls.push({ method: 'aggregate', args });
+          return cursor([{ _id: 'open', count: 2 }]);
+        },
+      }),
+    }),
+  };
+  return { calls, client };
+});
+
+vi.mock('@/lib/connection-pool', () => ({
+  withPool: (_connector: unknown, _connection: unknown, _database: string, fn: (client: any) => any) =>
+    fn(driver.client),
+  getConnectionPoolConfig: () => ({ maxSize: 1, idleTimeoutMs: 1000 }),
+}));
+
+const connection = {} as IConnection;
+const limits = { timeoutMs: 1000, maxRows: 10 };
+const run = (query: Record<string, any>) =>
+  mongoConnector.execute(connection, 'app', JSON.stringify(query), limits);
+
+describe('mongoConnector.execute', () => {
+  it('runs read-only finds and aggregations', async () => {
+    const found = await run({ collection: 'tickets', find: { status: 'open' } });
+    expect(found.rows).toEqual([{ _id: 1, status: 'open' }]);
+
+    const grouped = await run({
+      collection: 'tickets',
+      aggregate: [{ $match: { status: 'open' } }, { $group: { _id: '$status', count: { $sum: 1 } } }],
+    });
+    expect(grouped.rows).toEqual([{ _id: 'open', count: 2 }]);
+    expect(driver.calls.at(-1)?.args[0].at(-1)).toEqual({ $limit: 11 });
+  });
+
+  it.each([
+    ['$out', { collection: 'tickets', aggregate: [{ $match: {} }, { $out: 'copy' }] }],
+    ['$merge', { collection: 'tickets', aggregate: [{ $merge: { into: 'copy' } }] }],
+  ])('rejects the %s write stage', async (_stage, query) => {
+    await expect(run(query)).rejects.toThrow('may not use $out or $merge');
+  });
+
+  it.each([
+    ['$where in a find filter', { collection: 'tickets', find: { $where: 'sleep(100) || true' } }],
+    [
+      '$where nested in a logical operator',
+      { collection: 'tickets', find: { $or: [{ status: 'open' }, { $where: 'true' }] } },
+    ],
+    [
+      '$function in $expr',
+      {
+        collection: 'tickets',
+        find: { $expr: { $function: { body: 'function () { return true }', args: [], lang: 'js' } } },
+      },
+    ],
+    [
+      '$function in a projection',
+      { collection: 'tickets', find: {}, projection: { x: { $function: { body: 'f', args: [], lang: 'js' } } } },
+    ],
+    [
+      '$accumulator in $group',
+      {
+        collection: 'tickets',
+        aggregate: [{ $group: { _id: null, total: { $accumulator: { init: 'f', lang: 'js' } } } }],
+      },
+    ],
+    [
+      '$where inside a $lookup pipeline',
+      {
+        collection: 'tickets',
+        aggregate: [{ $lookup: { from: 'users', as: 'u', pipeline: [{ $match: { $where: 'true' } }] } }],
+      },
+    ],
+  ])('rejects server-side JavaScript: %s', async (_case, query) => {
+    await expect(run(query)).rejects.toThrow('server-side JavaScript');
+  });
+});
@@ -0,0 +1,311 @@
+import { MongoClient, type MongoClientOptions } from 'mongodb';
+import { withPool, getConnectionPoolConfig } from '@/lib/connection-pool';
+import { decrypt } from '@/lib/encryption';
+import type { IConnection } from '@/models/Connection';
+import type { TableSchema } from '@/lib/schema-introspection';
+import type { ColumnMeta, ConnectionCredentials, DatabaseConnector } from './types';
+import { CONNECT_TIMEOUT_MS, limitRows } from './shared';
+import { connectionTls, type TlsSettings } from './tls';
+
+/**
+ * Documents sampled per collection to infer fields
+ */
+const SAMPLE_SIZE = 100;
+
+/**
+ * Aggregation stages that write data and are never allowed
+ */
+const WRITE_STAGES = ['$out', '$merge'];
+
+/**
+ * Operators that run server-side JavaScript, rejected at any depth of a query
+ */
+const JAVASCRIPT_OPERATORS = ['$where', '$function', '$accumulator'];
+
+/**
+ * First server-side JavaScript operator used anywhere in a query value
+ */
+function findJavaScriptOperator(value: unknown): string | undefined {
+  if (Array.isArray(value)) {
+    for (const item of value) {
+      const operator = findJavaScriptOperator(item);
+      if (operator) return operator;
+    }
+    return undefined;
+  }
+
+  if (!value || typeof value !== 'object') return undefined;
+
+  for (const [key, nested] of Object.entries(value)) {
+    if (JAVASCRIPT_OPERATORS.includes(key)) return key;
+    const operator = findJavaScriptOperator(nested);
+    if (operator) return operator;
+  }
+  return undefined;
+}
+
+/**
+ * Query form accepted instead of SQL
+ * Either a find (filter/projection/sort) or an aggregation pipeline
+ */
+interface MongoQuerySpec {
+  collection: string;
+  find?: Record<string, any>;
+  projection?: Record<string, any>;
+  sort?: Record<string, any>;
+  aggregate?: Record<string, any>[];
+}
+
+/**
+ * Build the client URI, including seed hosts, SRV and query parameters kept from an imported URI
+ */
+function buildUri(
+  { host, port, username, password, options }: ConnectionCredentials,
+  databaseName = ''
+): string {
+  const primary = host!.includes(':') ? `[${host}]` : host;
+  const hosts = options?.srv ? [primary] : [`${primary}:${port}`, ...(options?.hosts || [])];
+  const query = new URLSearchParams(options?.params).toString();
+
+  return (
+    `mongodb${options?.srv ? '+srv' : ''}://` +
+    `${encodeURIComponent(username!)}:${encodeURIComponent(password!)}@${hosts.join(',')}` +
+    `/${databaseName}${query ? `?${query}` : ''}`
+  );
+}
+
+/**
+ * MongoClient TLS options
+ */
+function mongoTlsOptions(settings?: TlsSettings): MongoClientOptions {
+  if (!settings || settings.mode === 'disable') return {};
+
+  return {
+    tls: true,
+    ca: settings.ca,
+    cert: settings.cert,
+    key: settings.key,
+    servername: settings.servername,
+    tlsAllowInvalidCertificates: settings.mode === 'require',
+    tlsAllowInvalidHostnames: settings.mode !== 'verify-full',
+  };
+}
+
+/**
+ * Parse the JSON query form
+ */
+function parseQuery(query: string): MongoQuerySpec {
+  let spec: MongoQuerySpec;
+
+  try {
+    spec = JSON.parse(query);
+  } catch {
+    throw new Error('MongoDB queries must be JSON: { "collection", "find" | "aggregate", ... }');
+  }
+
+  if (!spec || typeof spec.collection !== 'string' || !spec.collection) {
+    throw new Error('MongoDB query must name a collection');
+  }
+
+  if (spec.aggregate) {
+    if (!Array.isArray(spec.aggregate)) {
+      throw new Error('MongoDB aggregate must be an array of pipeline stages');
+    }
+
+    const writeStage = spec.aggregate.find((stage) =>
+      Object.keys(stage).some((key) => WRITE_STAGES.includes(key))
+    );
+    if (writeStage) {
+      throw new Error('MongoDB pipelines may not use $out or $merge');
+    }
+  }
+
+  const operator = findJavaScriptOperator([spec.find, spec.projection, spec.sort, spec.aggregate]);
+  if (operator) {
+    throw new Error(`MongoDB queries may not use ${operator} (server-side JavaScript)`);
+  }
+
+  return spec;
+}
+
+/**
+ * Infer column metadata from document values
+ */
+function inferColumns(rows: Record<string, any>[]): ColumnMeta[] {
+  const columns = new Map<string, string>();
+
+  rows.forEach((row) => {
+    Object.entries(row).forEach(([name, value]) => {
+      if (columns.has(name) && value === null) return;
+
+      let type: string = typeof value;
+      if (value === null) type = 'null';
+      else if (Array.isArray(value)) type = 'array';
+      else if (value instanceof Date) type = 'date';
+
+      columns.set(name, type);
+    });
+  });
+
+  return [...columns.entries()].map(([name, type]) => ({ name, type }));
+}
+
+/**
+ * Describe a BSON value's type for the inferred field list
+ */
+function bsonType(value: any): string {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  if (value instanceof Date) return 'date';
+  if (value?._bsontype) return String(value._bsontype).toLowerCase();
+  return typeof value;
+}
+
+/**
+ * Introspect collections, sampled top-level fields and indexes
+ * Fields missing from some sampled documents are reported as nullable
+ */
+async function introspect(connection: IConnection, databaseName: string): Promise<TableSchema[]> {
+  return withPool(mongoConnector, connection, databaseName, async (client) => {
+    const db = client.db(databaseName);
+    const collections = await db.listCollections({}, { nameOnly: false }).toArray();
+    const tables: TableSchema[] = [];
+
+    for (const info of collections.sort((a, b) => a.name.localeCompare(b.name))) {
+      if (info.name.startsWith('system.')) continue;
+
+      const collection = db.collection(info.name);
+      const isView = info.type === 'view';
+
+      const sample = await collection.aggregate([{ $sample: { size: SAMPLE_SIZE } }]).toArray();
+      const fields = new Map<string, { types: Set<string>; seen: number }>();
+
+      sample.forEach((document) => {
+        Object.entries(document).forEach(([name, value]) => {
+          const field = fields.get(name) || { types: new Set<string>(), seen: 0 };
+          field.types.add(bsonType(value));
+          field.seen += 1;
+          fields.set(name, field);
+        });
+      });
+
+      const indexes = isView ? [] : await collection.indexes();
+
+      tables.push({
+        name: info.name,
+        type: isView ? 'view' : 'collection',
+        rowEstimate: isView ? null : await collection.estimatedDocumentCount(),
+        columns: [...fields.entries()].map(([name, field]) => ({
+          name,
+          dataType: [...field.types].filter((type) => type !== 'null').join(' | ') || 'null',
+          nullable: field.types.has('null') || field.seen < sample.length,
+        })),
+        primaryKey: isView ? [] : ['_id'],
+        foreignKeys: [],
+        indexes: indexes.map((index) => ({
+          name: index.name || '',
+          columns: Object.keys(index.key),
+          unique: !!index.unique || index.name === '_id_',
+          primary: index.name === '_id_',
+        })),
+      });
+    }
+
+    return tables;
+  });
+}
+
+/**
+ * MongoDB connector
+ * Queries use a JSON find/aggregate form instead of SQL; write stages and server-side JavaScript are rejected
+ */
+export const mongoConnector: DatabaseConnector<MongoClient> = {
+  type: 'mongodb',
+  displayName: 'MongoDB',
+
+  async openPool(connection, databaseName) {
+    const { maxSize, idleTimeoutMs } = getConnectionPoolConfig();
+    const credentials = {
+      host: connection.host,
+      port: connection.port,
+      username: connection.username,
+      password: decrypt(connection.password!),
+      options: connection.options,
+    };
+    const client = new MongoClient(buildUri(credentials, databaseName), {
+      ...mongoTlsOptions(connectionTls(connection)),
+      maxPoolSize: maxSize,
+      maxIdleTimeMS: idleTimeoutMs,
+      serverSelectionTimeoutMS: CONNECT_TIMEOUT_MS,
+    });
+    await client.connect();
+    return client;
+  },
+
+  async close(client) {
+    await client.close();
+  },
+
+  async test(credentials) {
+    const client = new MongoClient(buildUri(credentials), {
+      ...mongoTlsOptions(credentials.ssl),
+      serverSelectionTimeoutMS: CONNECT_TIMEOUT_MS,
+    });
+
+    try {
+      await client.connect();
+      await client.db('admin').command({ ping: 1 });
+    } finally {
+      await client.close();
+    }
+  },
+
+  async ping(connection, databaseName) {
+    await withPool(mongoConnector, connection, databaseName, (client) =>
+      client.db(databaseName).command({ ping: 1 })
+    );
+  },
+
+  async listDatabases(connection) {
+    return withPool(mongoConnector, connection, '', async (client) => {
+      const result = await client.db('admin').admin().listDatabases();
+      return result.databases.map((db) => db.name);
+    });
+  },
+
+  introspect,
+
+  async execute(connection, databaseName, query, { timeoutMs, maxRows }) {
+    const spec = parseQuery(query);
+
+    return withPool(mongoConnector, connection, databaseName, async (client) => {
+      const collection = client.db(databaseName).collection(spec.collection);
+
+      // Fetch one extra document to detect truncation
+      const documents = spec.aggregate
+        ? await collection
+            .aggregate([...spec.aggregate, { $limit: maxRows + 1 }], { maxTimeMS: timeoutMs })
+            .toArray()
+        : await collection
+            .find(spec.find || {}, { projection: spec.projection, sort: spec.sort })
+            .limit(maxRows + 1)
+            .maxTimeMS(timeoutMs)
+            .toArray();
+
+      // Round-trip through JSON so ObjectIds and Dates serialize predictably
+      const rows: Record<string, any>[] = JSON.parse(JSON.stringify(documents));
+      const limited = limitRows(rows, maxRows);
+
+      return {
+        columns: inferColumns(limited.rows),
+        ...limited,
+      };
+    });
+  },
+
+  classifyError(error) {
+    if (error.code === 18 || error.codeName === 'AuthenticationFailed') return 'auth_failed';
+    if (error.name === 'MongoServerSelectionError') return 'timeout';
+    return undefined;
+  },
+};
@@ -0,0 +1,108 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import type { IConnection } from '@/models/Connection';
+import { encrypt } from '@/lib/encryption';
+import { mssqlConnector } from './mssql';
+
+/**
+ * Fake mssql driver: requests (inside a transaction or not) send their queries to `respond`
+ */
+const mssql = vi.hoisted(() => {
+  const state = {
+    queries: [] as string[],
+    configs: [] as Record<string, any>[],
+    transactions: [] as string[],
+    respond: (_sql: string): any => ({ recordset: [] }),
+  };
+
+  const query = async (sql: string) => {
+    state.queries.push(sql.trim());
+    return state.respond(sql);
+  };
+
+  class ConnectionPool {
+    constructor(config: Record<string, any>) {
+      state.configs.push(config);
+    }
+    async connect() {}
+    request() {
+      return { query };
+    }
+    async close() {}
+  }
+
+  class Transaction {
+    async begin() {
+      state.transactions.push('begin');
+    }
+    async rollback() {
+      state.transactions.push('rollback');
+    }
+  }
+
+  class Request {
+    query = query;
+    cancel() {}
+  }
+
+  return { state, driver: { ConnectionPool, Transaction, Request } };
+});
+
+vi.mock('mssql', () => ({ default: mssql.driver }));
+vi.mock('@/lib/connection-pool', () => ({
+  withPool: async (connector: any, connection: any, databaseName: string, fn: (pool: any) => any) =>
+    fn(await connector.openPool(connection, databaseName)),
+  getConnectionPoolConfig: () => ({ maxSize: 2, idleTimeoutMs: 1000 }),
+}));
+
+const connection = {
+  host: 'db.internal',
+  port: 1433,
+  username: 'reader',
+  password: encrypt('s3cret'),
+} as IConnection;
+
+const permissions = (...granted: string[]) => (sql: string) =>
+  sql.includes('fn_my_permissions')
+    ? { recordset: granted.map((permission_name) => ({ login: 'reader', database_name: 'sales', permission_name })) }
+    : { recordset: Object.assign([{ id: 1 }, { id: 2 }], { columns: { id: { name: 'id', type: { declaration: 'INT' } } } }) };
+
+beforeEach(() => {
+  mssql.state.queries = [];
+  mssql.state.configs = [];
+  mssql.state.transactions = [];
+  mssql.state.respond = permissions();
+});
+
+describe('mssqlConnector', () => {
+  it('connects pools with read-only application intent', async () => {
+    await mssqlConnector.ping(connection, 'sales');
+
+    expect(mssql.state.configs[0]).toMatchObject({
+      password: 's3cret',
+      database: 'sales',
+      options: { readOnlyIntent: true },
+    });
+  });
+
+  it('executes with a read-only login in a rolled back transaction', async () => {
+    const result = await mssqlConnector.execute(connection, 'sales', 'SELECT TOP 2 id FROM t', {
+      timeoutMs: 1000,
+      maxRows: 1,
+    });
+
+    expect(mssql.state.queries[0]).toContain('fn_my_permissions');
+    expect(mssql.state.queries[1]).toBe('SELECT TOP 2 id FROM t');
+    expect(mssql.state.transactions).toEqual(['begin', 'rollback']);
+    expect(result).toEqual({ columns: [{ name: 'id', type: 'int' }], rows: [{ id: 1 }], truncated: true });
+  });
+
+  it('refuses logins that can modify the database', async () => {
+    mssql.state.respond = permissions('CONTROL', 'INSERT');
+
+    await expect(
+      mssqlConnector.execute(connection, 'sales', 'SELECT 1', { timeoutMs: 1000, maxRows: 10 })
+    ).rejects.toThrow('SQL Server login "reader" can modify database "sales" (CONTROL, INSERT)');
+    expect(mssql.state.queries).toHaveLength(1);
+    expect(mssql.state.transactions).toEqual([]);
+  });
+});
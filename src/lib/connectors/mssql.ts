@@ -0,0 +1,312 @@
+import sql from 'mssql';
+import { withPool, getConnectionPoolConfig } from '@/lib/connection-pool';
+import { decrypt } from '@/lib/encryption';
+import type { IConnection } from '@/models/Connection';
+import type { ForeignKeySchema, IndexSchema, TableSchema } from '@/lib/schema-introspection';
+import type { DatabaseConnector } from './types';
+import { CONNECT_TIMEOUT_MS, createTables, groupKeyColumns, limitRows, tableKey, toEstimate } from './shared';
+import { connectionTls, type TlsSettings } from './tls';
+
+const REQUEST_TIMEOUT_MS = 120000; // Upper bound, callers cancel sooner
+
+/**
+ * tedious encryption options
+ * tedious always checks the certificate name when it validates the chain,
+ * so verify-ca behaves like verify-full here
+ */
+function tlsConnectionOptions(settings?: TlsSettings) {
+  if (!settings || settings.mode === 'disable') {
+    return { encrypt: false, trustServerCertificate: true };
+  }
+
+  return {
+    encrypt: true,
+    trustServerCertificate: settings.mode === 'require',
+    serverName: settings.servername,
+    cryptoCredentialsDetails: {
+      ca: settings.ca,
+      cert: settings.cert,
+      key: settings.key,
+    },
+  };
+}
+
+/**
+ * Database permissions that let a login change data or schema
+ * SQL Server has no read-only transaction, so the login itself must be read-only
+ */
+const WRITE_PERMISSIONS = [
+  'CONTROL',
+  'ALTER',
+  'INSERT',
+  'UPDATE',
+  'DELETE',
+  'CREATE TABLE',
+  'CREATE VIEW',
+  'CREATE PROCEDURE',
+  'CREATE FUNCTION',
+];
+
+// Pools whose login was found read-only; permissions are checked again on the next pool
+const readOnlyPools = new WeakMap<object, Promise<void>>();
+
+/**
+ * Refuse to query with a login that can write to the database
+ * fn_my_permissions reports effective permissions, including those from roles (db_owner,
+ * db_datawriter) and server roles (sysadmin); grants on single tables are not seen
+ */
+function assertReadOnlyLogin(pool: any): Promise<void> {
+  let check = readOnlyPools.get(pool);
+  if (!check) {
+    check = (async () => {
+      const result = await pool.request().query(`
+        SELECT SUSER_SNAME() AS login, DB_NAME() AS database_name, permission_name
+        FROM fn_my_permissions(NULL, 'DATABASE')
+        WHERE permission_name IN (${WRITE_PERMISSIONS.map((permission) => `'${permission}'`).join(', ')})
+      `);
+      const granted = result.recordset.map((row: any) => row.permission_name);
+      if (granted.length > 0) {
+        const { login, database_name: databaseName } = result.recordset[0];
+        throw new Error(
+          `SQL Server login "${login}" can modify database "${databaseName}" (${granted.join(', ')}); ` +
+            'queries need a read-only login, e.g. a member of db_datareader only'
+        );
+      }
+    })();
+    readOnlyPools.set(pool, check);
+    check.catch(() => readOnlyPools.delete(pool));
+  }
+  return check;
+}
+
+/**
+ * Introspect through the sys catalog views
+ */
+async function introspect(connection: IConnection, databaseName: string): Promise<TableSchema[]> {
+  return withPool(mssqlConnector, connection, databaseName, async (pool) => {
+    const tablesResult = await pool.request().query(`
+      SELECT s.name AS [schema], o.name AS name, o.type AS type,
+        (SELECT SUM(p.rows) FROM sys.partitions p
+         WHERE p.object_id = o.object_id AND p.index_id IN (0, 1)) AS row_estimate
+      FROM sys.objects o
+      JOIN sys.schemas s ON s.schema_id = o.schema_id
+      WHERE o.type IN ('U', 'V') AND o.is_ms_shipped = 0
+      ORDER BY s.name, o.name
+    `);
+
+    const tables = createTables(
+      tablesResult.recordset.map((row: any) => ({
+        schema: row.schema,
+        name: row.name,
+        type: row.type.trim() === 'V' ? 'view' : 'table',
+        rowEstimate: row.type.trim() === 'V' ? null : toEstimate(row.row_estimate),
+      }))
+    );
+
+    const columnsResult = await pool.request().query(`
+      SELECT TABLE_SCHEMA AS [schema], TABLE_NAME AS table_name, COLUMN_NAME AS name,
+        DATA_TYPE AS data_type, IS_NULLABLE AS is_nullable, COLUMN_DEFAULT AS default_value
+      FROM INFORMATION_SCHEMA.COLUMNS
+      ORDER BY TABLE_SCHEMA, TABLE_NAME, ORDINAL_POSITION
+    `);
+
+    columnsResult.recordset.forEach((row: any) => {
+      tables.get(tableKey(row.schema, row.table_name))?.columns.push({
+        name: row.name,
+        dataType: row.data_type,
+        nullable: row.is_nullable === 'YES',
+        defaultValue: row.default_value,
+      });
+    });
+
+    const indexesResult = await pool.request().query(`
+      SELECT s.name AS [schema], t.name AS table_name, i.name AS name,
+        i.is_unique, i.is_primary_key, c.name AS column_name
+      FROM sys.indexes i
+      JOIN sys.objects t ON t.object_id = i.object_id
+      JOIN sys.schemas s ON s.schema_id = t.schema_id
+      JOIN sys.index_columns ic ON ic.object_id = i.object_id AND ic.index_id = i.index_id
+      JOIN sys.columns c ON c.object_id = ic.object_id AND c.column_id = ic.column_id
+      WHERE i.type > 0 AND ic.is_included_column = 0 AND t.is_ms_shipped = 0
+      ORDER BY s.name, t.name, i.name, ic.key_ordinal
+    `);
+
+    const indexes = groupKeyColumns(
+      indexesResult.recordset.map((row: any) => ({ ...row, table: tableKey(row.schema, row.table_name) })),
+      (first: any) => ({
+        name: first.name,
+        unique: first.is_unique,
+        primary: first.is_primary_key,
+        columns: [],
+      }),
+      (entry, row: any) => entry.columns.push(row.column_name)
+    );
+
+    indexes.forEach(({ table: key, ...index }) => {
+      const table = tables.get(key);
+      if (!table) return;
+
+      table.indexes.push(index as IndexSchema);
+      if (index.primary) table.primaryKey = index.columns;
+    });
+
+    const foreignKeysResult = await pool.request().query(`
+      SELECT fk.name AS name, s.name AS [schema], t.name AS table_name, c.name AS column_name,
+        rs.name AS ref_schema, rt.name AS ref_table, rc.name AS ref_column
+      FROM sys.foreign_keys fk
+      JOIN sys.foreign_key_columns fkc ON fkc.constraint_object_id = fk.object_id
+      JOIN sys.tables t ON t.object_id = fkc.parent_object_id
+      JOIN sys.schemas s ON s.schema_id = t.schema_id
+      JOIN sys.columns c ON c.object_id = fkc.parent_object_id AND c.column_id = fkc.parent_column_id
+      JOIN sys.tables rt ON rt.object_id = fkc.referenced_object_id
+      JOIN sys.schemas rs ON rs.schema_id = rt.schema_id
+      JOIN sys.columns rc ON rc.object_id = fkc.referenced_object_id AND rc.column_id = fkc.referenced_column_id
+      ORDER BY s.name, t.name, fk.name, fkc.constraint_column_id
+    `);
+
+    const foreignKeys = groupKeyColumns(
+      foreignKeysResult.recordset.map((row: any) => ({ ...row, table: tableKey(row.schema, row.table_name) })),
+      (first: any) => ({
+        name: first.name,
+        referencedSchema: first.ref_schema,
+        referencedTable: first.ref_table,
+        columns: [],
+        referencedColumns: [],
+      }),
+      (entry, row: any) => {
+        entry.columns.push(row.column_name);
+        entry.referencedColumns.push(row.ref_column);
+      }
+    );
+
+    foreignKeys.forEach(({ table: key, ...foreignKey }) => {
+      tables.get(key)?.foreignKeys.push(foreignKey as ForeignKeySchema);
+    });
+
+    return [...tables.values()];
+  });
+}
+
+/**
+ * SQL Server connector
+ * Every pool is a dedicated ConnectionPool, never the module-global sql.connect,
+ * which is shared across concurrent requests
+ * Pools connect with read-only application intent, so availability groups route them
+ * to a readable secondary
+ */
+export const mssqlConnector: DatabaseConnector<any> = {
+  type: 'mssql',
+  displayName: 'SQL Server',
+  sqlDialect: 'mssql',
+
+  async openPool(connection, databaseName) {
+    const { maxSize, idleTimeoutMs } = getConnectionPoolConfig();
+    const pool = new sql.ConnectionPool({
+      server: connection.host,
+      port: connection.port,
+      user: connection.username,
+      password: decrypt(connection.password!),
+      database: databaseName || undefined,
+      options: { ...tlsConnectionOptions(connectionTls(connection)), readOnlyIntent: true },
+      connectionTimeout: CONNECT_TIMEOUT_MS,
+      requestTimeout: REQUEST_TIMEOUT_MS,
+      pool: {
+        max: maxSize,
+        min: 0,
+        idleTimeoutMillis: idleTimeoutMs,
+      },
+    });
+    await pool.connect();
+    return pool;
+  },
+
+  async close(pool) {
+    await pool.close();
+  },
+
+  poolStats(pool) {
+    return {
+      size: pool.size,
+      idle: pool.available,
+      waiting: pool.pending,
+    };
+  },
+
+  async test({ host, port, username, password, ssl }) {
+    const pool = new sql.ConnectionPool({
+      server: host,
+      port,
+      user: username,
+      password,
+      options: tlsConnectionOptions(ssl),
+      connectionTimeout: CONNECT_TIMEOUT_MS,
+    });
+
+    try {
+      await pool.connect();
+      await pool.request().query('SELECT 1');
+    } finally {
+      await pool.close();
+    }
+  },
+
+  async ping(connection, databaseName) {
+    await withPool(mssqlConnector, connection, databaseName, (pool) => pool.request().query('SELECT 1'));
+  },
+
+  async listDatabases(connection) {
+    return withPool(mssqlConnector, connection, '', async (pool) => {
+      const result = await pool.request().query(
+        "SELECT name FROM sys.databases WHERE name NOT IN ('master', 'model', 'msdb', 'tempdb') ORDER BY name"
+      );
+      return result.recordset.map((row: any) => row.name);
+    });
+  },
+
+  introspect,
+
+  /**
+   * Runs in a rolled back transaction, cancelling the request once the timeout passes
+   * (the pool's requestTimeout is shared, so it cannot be set per call)
+   * SQL Server cannot make a transaction read-only, so the login must be: logins that
+   * can write to the database are refused before anything runs
+   */
+  async execute(connection, databaseName, query, { timeoutMs, maxRows }) {
+    return withPool(mssqlConnector, connection, databaseName, async (pool) => {
+      await assertReadOnlyLogin(pool);
+
+      const transaction = new sql.Transaction(pool);
+      let timer: NodeJS.Timeout | undefined;
+
+      try {
+        await transaction.begin();
+        const request = new sql.Request(transaction);
+
+        timer = setTimeout(() => request.cancel(), timeoutMs);
+        const result = await request.query(query);
+        const recordset = result.recordset || [];
+        const columns = recordset.columns || {};
+
+        return {
+          columns: Object.values(columns).map((column: any) => ({
+            name: column.name,
+            type: (column.type?.declaration || 'unknown').toLowerCase(),
+          })),
+          ...limitRows(recordset, maxRows),
+        };
+      } finally {
+        clearTimeout(timer);
+        await transaction.rollback().catch(() => undefined);
+      }
+    });
+  },
+
+  classifyError(error) {
+    // tedious reports login failures as ELOGIN with SQL Server error 18456,
+    // and a missing database as error 4060 ("Cannot open database")
+    if (error.number === 4060) return 'database_not_found';
+    if (error.code === 'ELOGIN' || error.number === 18456) return 'auth_failed';
+    if (error.code === 'ETIMEOUT') return 'timeout';
+    return undefined;
+  },
+};
@@ -0,0 +1,195 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import type { IConnection } from '@/models/Connection';
+import { encrypt } from '@/lib/encryption';
+import { mysqlConnector } from './mysql';
+import { mariadbConnector } from './mariadb';
+import { describeConnectorError } from './errors';
+
+/**
+ * Fake mysql2 driver: connections send their queries to `respond` and record them
+ */
+const mysql = vi.hoisted(() => {
+  const state = {
+    queries: [] as any[],
+    configs: [] as Record<string, any>[],
+    released: 0,
+    ended: 0,
+    connectError: null as any,
+    respond: (_sql: string): any => [[], []],
+  };
+
+  const conn = () => ({
+    query: async (query: any) => {
+      state.queries.push(query);
+      return state.respond(typeof query === 'string' ? query : query.sql);
+    },
+    release: () => {
+      state.released += 1;
+    },
+    end: async () => {
+      state.ended += 1;
+    },
+  });
+
+  const driver = {
+    createConnection: async (config: Record<string, any>) => {
+      state.configs.push(config);
+      if (state.connectError) throw state.connectError;
+      return conn();
+    },
+    createPool: (config: Record<string, any>) => {
+      state.configs.push(config);
+      return {
+        getConnection: async () => {
+          if (state.connectError) throw state.connectError;
+          return conn();
+        },
+        end: async () => undefined,
+      };
+    },
+  };
+
+  return { state, driver };
+});
+
+vi.mock('mysql2/promise', () => ({ default: mysql.driver }));
+vi.mock('@/lib/connection-pool', () => ({
+  withPool: async (connector: any, connection: any, databaseName: string, fn: (pool: any) => any) =>
+    fn(await connector.openPool(connection, databaseName)),
+  getConnectionPoolConfig: () => ({ maxSize: 2, idleTimeoutMs: 1000 }),
+}));
+
+const connection = {
+  host: 'db.internal',
+  port: 3306,
+  username: 'reader',
+  password: encrypt('s3cret'),
+} as IConnection;
+const credentials = { host: 'db.internal', port: 3306, username: 'reader', password: 's3cret' };
+const version = (value: string) => () => [[{ version: value }], []];
+
+beforeEach(() => {
+  mysql.state.queries = [];
+  mysql.state.configs = [];
+  mysql.state.released = 0;
+  mysql.state.ended = 0;
+  mysql.state.connectError = null;
+  mysql.state.respond = () => [[], []];
+});
+
+describe('mysqlConnector', () => {
+  it('tests unsaved credentials and closes the connection', async () => {
+    mysql.state.respond = version('8.0.36');
+
+    await mysqlConnector.test(credentials);
+
+    expect(mysql.state.configs[0]).toMatchObject({ host: 'db.internal', user: 'reader', password: 's3cret' });
+    expect(mysql.state.ended).toBe(1);
+  });
+
+  it('lists databases without the system schemas', async () => {
+    mysql.state.respond = () => [[{ SCHEMA_NAME: 'shop' }], []];
+
+    expect(await mysqlConnector.listDatabases(connection)).toEqual(['shop']);
+    expect(mysql.state.configs[0]).toMatchObject({ password: 's3cret', database: undefined });
+    expect(mysql.state.queries[0]).toContain(
+      "NOT IN ('information_schema', 'mysql', 'performance_schema', 'sys')"
+    );
+    expect(mysql.state.released).toBe(1);
+  });
+
+  it('executes in a read-only transaction that is always rolled back', async () => {
+    mysql.state.respond = (sql) =>
+      sql.startsWith('SELECT')
+        ? [[{ id: 1 }, { id: 2 }], [{ name: 'id', typeName: 'LONG' }]]
+        : [[], []];
+
+    const result = await mysqlConnector.execute(connection, 'shop', 'SELECT id FROM t', {
+      timeoutMs: 2000,
+      maxRows: 1,
+    });
+
+    expect(mysql.state.queries).toEqual([
+      'START TRANSACTION READ ONLY',
+      { sql: 'SELECT id FROM t', timeout: 2000 },
+      'ROLLBACK',
+    ]);
+    expect(result).toEqual({ columns: [{ name: 'id', type: 'long' }], rows: [{ id: 1 }], truncated: true });
+    expect(mysql.state.released).toBe(1);
+  });
+
+  it('rolls back when the query fails', async () => {
+    mysql.state.respond = (sql) => {
+      if (sql.startsWith('SELECT')) throw new Error("Table 'shop.t' doesn't exist");
+      return [[], []];
+    };
+
+    await expect(
+      mysqlConnector.execute(connection, 'shop', 'SELECT id FROM t', { timeoutMs: 1000, maxRows: 10 })
+    ).rejects.toThrow("doesn't exist");
+    expect(mysql.state.queries.at(-1)).toBe('ROLLBACK');
+    expect(mysql.state.released).toBe(1);
+  });
+
+  it.each([
+    ['ER_ACCESS_DENIED_ERROR', 'Authentication failed. Please check username and password.'],
+    ['ER_DBACCESS_DENIED_ERROR', 'Authentication failed. Please check username and password.'],
+    ['ER_BAD_DB_ERROR', 'Database "shop" does not exist.'],
+  ])('maps error %s', async (code, message) => {
+    mysql.state.connectError = Object.assign(new Error('server error'), { code });
+
+    const error = await mysqlConnector.test(credentials).catch((caught) => caught);
+
+    expect(describeConnectorError(mysqlConnector, error, { ...credentials, databaseName: 'shop' })).toBe(message);
+  });
+});
+
+describe('mariadbConnector', () => {
+  it('accepts MariaDB servers and reports their version', async () => {
+    mysql.state.respond = version('5.5.5-10.11.6-MariaDB-log');
+
+    await mariadbConnector.test(credentials);
+    expect(await mariadbConnector.serverVersion!(connection, 'shop')).toBe('10.11.6');
+  });
+
+  it('refuses MySQL servers', async () => {
+    mysql.state.respond = version('8.0.36');
+
+    await expect(mariadbConnector.test(credentials)).rejects.toThrow('Server is not MariaDB');
+  });
+
+  it('hides ColumnStore system schemas', async () => {
+    await mariadbConnector.listDatabases(connection);
+
+    expect(mysql.state.queries[0]).toContain("'calpontsys', 'columnstore_info'");
+  });
+
+  it('sets a server-side statement timeout', async () => {
+    await mariadbConnector.execute(connection, 'shop', 'SELECT 1', { timeoutMs: 1500, maxRows: 10 });
+
+    expect(mysql.state.queries[1]).toEqual({
+      sql: 'SET STATEMENT max_statement_time = 1.5 FOR SELECT 1',
+      timeout: 1500,
+    });
+  });
+
+  it('unquotes column defaults', async () => {
+    mysql.state.respond = (sql) => {
+      if (sql.includes('information_schema.TABLES')) return [[{ name: 't', type: 'BASE TABLE', row_estimate: 3 }], []];
+      if (sql.includes('information_schema.COLUMNS')) {
+        return [
+          [
+            { table_name: 't', name: 'label', data_type: 'varchar(10)', is_nullable: 'YES', default_value: "'it''s'" },
+            { table_name: 't', name: 'note', data_type: 'text', is_nullable: 'YES', default_value: 'NULL' },
+          ],
+          [],
+        ];
+      }
+      return [[], []];
+    };
+
+    const [table] = await mariadbConnector.introspect(connection, 'shop');
+
+    expect(table.columns.map((column) => column.defaultValue)).toEqual(["it's", null]);
+  });
+});
@@ -0,0 +1,297 @@
+import mysql from 'mysql2/promise';
+import { withPool, getConnectionPoolConfig } from '@/lib/connection-pool';
+import { decrypt } from '@/lib/encryption';
+import type { IConnection } from '@/models/Connection';
+import type { ForeignKeySchema, IndexSchema, TableSchema } from '@/lib/schema-introspection';
+import type { DatabaseConnector } from './types';
+import { CONNECT_TIMEOUT_MS, createTables, groupKeyColumns, limitRows, toEstimate } from './shared';
+import { connectionTls, type TlsSettings } from './tls';
+
+/**
+ * Differences between servers speaking the MySQL protocol
+ */
+export interface MySqlFlavor {
+  type: 'mysql' | 'mariadb';
+  displayName: string;
+  /** Schemas hidden from the database list */
+  systemDatabases: string[];
+  /** Normalize the VERSION() string; throws if the server is not this flavor */
+  parseVersion?(version: string): string;
+  /** Normalize information_schema.COLUMNS.COLUMN_DEFAULT */
+  parseDefault?(value: any): any;
+  /** Wrap a query with a server-side statement timeout */
+  withStatementTimeout?(query: string, timeoutMs: number): string;
+}
+
+type MySqlConnector = DatabaseConnector<mysql.Pool>;
+
+/**
+ * mysql2 TLS options
+ * mysql2 always verifies against the connection host, so servername is not supported
+ */
+function mysqlSslOptions(settings?: TlsSettings): mysql.SslOptions | undefined {
+  if (!settings || settings.mode === 'disable') return undefined;
+
+  return {
+    ca: settings.ca,
+    cert: settings.cert,
+    key: settings.key,
+    rejectUnauthorized: settings.mode !== 'require',
+    verifyIdentity: settings.mode === 'verify-full',
+  };
+}
+
+/**
+ * Run a callback with a pooled MySQL connection, released afterwards
+ */
+async function withConnection<T>(
+  connector: MySqlConnector,
+  connection: IConnection,
+  databaseName: string,
+  callback: (conn: mysql.PoolConnection) => Promise<T>
+): Promise<T> {
+  return withPool(connector, connection, databaseName, async (pool) => {
+    const conn = await pool.getConnection();
+
+    try {
+      return await callback(conn);
+    } finally {
+      conn.release();
+    }
+  });
+}
+
+/**
+ * Introspect through information_schema (the registered database only)
+ */
+async function introspect(
+  connector: MySqlConnector,
+  flavor: MySqlFlavor,
+  connection: IConnection,
+  databaseName: string
+): Promise<TableSchema[]> {
+  return withConnection(connector, connection, databaseName, async (conn) => {
+    const [tableRows] = await conn.query(
+      `SELECT TABLE_NAME AS name, TABLE_TYPE AS type, TABLE_ROWS AS row_estimate
+       FROM information_schema.TABLES WHERE TABLE_SCHEMA = ? ORDER BY TABLE_NAME`,
+      [databaseName]
+    );
+
+    const tables = createTables(
+      (tableRows as any[]).map((row) => ({
+        name: row.name,
+        type: row.type === 'VIEW' ? 'view' : 'table',
+        rowEstimate: row.type === 'VIEW' ? null : toEstimate(row.row_estimate),
+      }))
+    );
+
+    const [columnRows] = await conn.query(
+      `SELECT TABLE_NAME AS table_name, COLUMN_NAME AS name, COLUMN_TYPE AS data_type,
+         IS_NULLABLE AS is_nullable, COLUMN_DEFAULT AS default_value
+       FROM information_schema.COLUMNS WHERE TABLE_SCHEMA = ?
+       ORDER BY TABLE_NAME, ORDINAL_POSITION`,
+      [databaseName]
+    );
+
+    (columnRows as any[]).forEach((row) => {
+      tables.get(row.table_name)?.columns.push({
+        name: row.name,
+        dataType: row.data_type,
+        nullable: row.is_nullable === 'YES',
+        defaultValue: flavor.parseDefault ? flavor.parseDefault(row.default_value) : row.default_value,
+      });
+    });
+
+    const [keyRows] = await conn.query(
+      `SELECT TABLE_NAME AS \`table\`, CONSTRAINT_NAME AS name, COLUMN_NAME AS column_name,
+         REFERENCED_TABLE_SCHEMA AS ref_schema, REFERENCED_TABLE_NAME AS ref_table,
+         REFERENCED_COLUMN_NAME AS ref_column
+       FROM information_schema.KEY_COLUMN_USAGE
+       WHERE TABLE_SCHEMA = ? AND (CONSTRAINT_NAME = 'PRIMARY' OR REFERENCED_TABLE_NAME IS NOT NULL)
+       ORDER BY TABLE_NAME, CONSTRAINT_NAME, ORDINAL_POSITION`,
+      [databaseName]
+    );
+
+    const keys = groupKeyColumns(
+      keyRows as any[],
+      (first) => ({
+        name: first.name,
+        referencedSchema: first.ref_schema,
+        referencedTable: first.ref_table,
+        columns: [],
+        referencedColumns: [],
+      }),
+      (entry, row) => {
+        entry.columns.push(row.column_name);
+        if (row.ref_column) entry.referencedColumns.push(row.ref_column);
+      }
+    );
+
+    keys.forEach(({ table: tableName, ...key }) => {
+      const table = tables.get(tableName);
+      if (!table) return;
+
+      if (key.name === 'PRIMARY') {
+        table.primaryKey = key.columns;
+      } else {
+        table.foreignKeys.push(key as ForeignKeySchema);
+      }
+    });
+
+    const [indexRows] = await conn.query(
+      `SELECT TABLE_NAME AS \`table\`, INDEX_NAME AS name, NON_UNIQUE AS non_unique, COLUMN_NAME AS column_name
+       FROM information_schema.STATISTICS WHERE TABLE_SCHEMA = ?
+       ORDER BY TABLE_NAME, INDEX_NAME, SEQ_IN_INDEX`,
+      [databaseName]
+    );
+
+    const indexes = groupKeyColumns(
+      indexRows as any[],
+      (first) => ({
+        name: first.name,
+        unique: Number(first.non_unique) === 0,
+        primary: first.name === 'PRIMARY',
+        columns: [],
+      }),
+      (entry, row) => entry.columns.push(row.column_name)
+    );
+
+    indexes.forEach(({ table: tableName, ...index }) => {
+      tables.get(tableName)?.indexes.push(index as IndexSchema);
+    });
+
+    return [...tables.values()];
+  });
+}
+
+/**
+ * Build a connector for a MySQL-protocol server
+ * Queries run in a READ ONLY transaction with a driver-side timeout, always rolled back
+ *
+ * @param flavor - Server-specific behaviour (MySQL or MariaDB)
+ */
+export function createMySqlConnector(flavor: MySqlFlavor): MySqlConnector {
+  const systemDatabases = flavor.systemDatabases.map((name) => `'${name}'`).join(', ');
+
+  const connector: MySqlConnector = {
+    type: flavor.type,
+    displayName: flavor.displayName,
+    sqlDialect: 'mysql',
+
+    async openPool(connection, databaseName) {
+      const { maxSize, idleTimeoutMs } = getConnectionPoolConfig();
+      return mysql.createPool({
+        host: connection.host,
+        port: connection.port,
+        user: connection.username,
+        password: decrypt(connection.password!),
+        database: databaseName || undefined,
+        ssl: mysqlSslOptions(connectionTls(connection)),
+        connectionLimit: maxSize,
+        maxIdle: maxSize,
+        idleTimeout: idleTimeoutMs,
+        connectTimeout: CONNECT_TIMEOUT_MS,
+      });
+    },
+
+    async close(pool) {
+      await pool.end();
+    },
+
+    poolStats(pool) {
+      // mysql2 keeps its counters on the wrapped callback pool
+      const inner = (pool as any).pool;
+      return {
+        size: inner?._allConnections?.length,
+        idle: inner?._freeConnections?.length,
+        waiting: inner?._connectionQueue?.length,
+      };
+    },
+
+    async test({ host, port, username, password, ssl }) {
+      const conn = await mysql.createConnection({
+        host,
+        port,
+        user: username,
+        password,
+        ssl: mysqlSslOptions(ssl),
+        connectTimeout: CONNECT_TIMEOUT_MS,
+      });
+
+      try {
+        const [rows] = await conn.query('SELECT VERSION() AS version');
+        flavor.parseVersion?.((rows as any[])[0].version);
+      } finally {
+        await conn.end();
+      }
+    },
+
+    async ping(connection, databaseName) {
+      await withConnection(connector, connection, databaseName, (conn) => conn.query('SELECT 1'));
+    },
+
+    async listDatabases(connection) {
+      return withConnection(connector, connection, '', async (conn) => {
+        const [rows] = await conn.query(
+          `SELECT SCHEMA_NAME FROM information_schema.schemata WHERE SCHEMA_NAME NOT IN (${systemDatabases}) ORDER BY SCHEMA_NAME`
+        );
+        return (rows as any[]).map((row) => row.SCHEMA_NAME);
+      });
+    },
+
+    async serverVersion(connection, databaseName) {
+      return withConnection(connector, connection, databaseName, async (conn) => {
+        const [rows] = await conn.query('SELECT VERSION() AS version');
+        const version = String((rows as any[])[0].version);
+        return flavor.parseVersion ? flavor.parseVersion(version) : version;
+      });
+    },
+
+    introspect: (connection, databaseName) => introspect(connector, flavor, connection, databaseName),
+
+    async execute(connection, databaseName, query, { timeoutMs, maxRows }) {
+      return withConnection(connector, connection, databaseName, async (conn) => {
+        try {
+          await conn.query('START TRANSACTION READ ONLY');
+
+          const sql = flavor.withStatementTimeout ? flavor.withStatementTimeout(query, timeoutMs) : query;
+          const [rows, fields] = await conn.query({ sql, timeout: timeoutMs });
+          const resultRows = Array.isArray(rows) ? (rows as Record<string, any>[]) : [];
+
+          return {
+            columns: (fields || []).map((field) => ({
+              name: field.name,
+              type: (field.typeName || String(field.columnType ?? field.type)).toLowerCase(),
+            })),
+            ...limitRows(resultRows, maxRows),
+          };
+        } finally {
+          await conn.query('ROLLBACK').catch(() => undefined);
+        }
+      });
+    },
+
+    classifyError(error) {
+      switch (error.code) {
+        case 'ER_ACCESS_DENIED_ERROR':
+        case 'ER_DBACCESS_DENIED_ERROR':
+          return 'auth_failed';
+        case 'ER_BAD_DB_ERROR':
+          return 'database_not_found';
+        default:
+          return undefined;
+      }
+    },
+  };
+
+  return connector;
+}
+
+/**
+ * MySQL connector
+ */
+export const mysqlConnector = createMySqlConnector({
+  type: 'mysql',
+  displayName: 'MySQL',
+  systemDatabases: ['information_schema', 'mysql', 'performance_schema', 'sys'],
+});
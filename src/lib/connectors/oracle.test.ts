@@ -0,0 +1,230 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import type { IConnection } from '@/models/Connection';
+import { encrypt } from '@/lib/encryption';
+import { oracleConnector } from './oracle';
+
+/**
+ * Fake oracledb driver: every connection sends its statements to `respond` and records them,
+ * with the call timeout in effect when each ran
+ */
+const oracle = vi.hoisted(() => {
+  const state = {
+    statements: [] as { sql: string; binds: any; options: any; callTimeout: number }[],
+    configs: [] as Record<string, any>[],
+    closed: [] as { drop?: boolean }[],
+    rollbacks: 0,
+    connection: null as any,
+    respond: (_sql: string): any => ({ rows: [], metaData: [] }),
+  };
+
+  const createConnection = () => {
+    const conn = {
+      callTimeout: 0,
+      oracleServerVersionString: '23.4.0.24.5',
+      async execute(sql: string, binds?: any, options?: any) {
+        state.statements.push({ sql: sql.trim(), binds, options, callTimeout: conn.callTimeout });
+        return state.respond(sql);
+      },
+      async ping() {},
+      async rollback() {
+        state.rollbacks += 1;
+      },
+      async close(options: { drop?: boolean } = {}) {
+        state.closed.push(options);
+      },
+    };
+    state.connection = conn;
+    return conn;
+  };
+
+  const driver = {
+    OUT_FORMAT_OBJECT: 4002,
+    DB_TYPE_CLOB: 'CLOB',
+    DB_TYPE_NCLOB: 'NCLOB',
+    DB_TYPE_BLOB: 'BLOB',
+    STRING: 'STRING',
+    BUFFER: 'BUFFER',
+    async createPool(config: Record<string, any>) {
+      state.configs.push(config);
+      return { getConnection: async () => createConnection(), close: async () => undefined };
+    },
+    async getConnection(config: Record<string, any>) {
+      state.configs.push(config);
+      return createConnection();
+    },
+  };
+
+  return { state, driver };
+});
+
+vi.mock('oracledb', () => ({ default: oracle.driver }));
+vi.mock('@/lib/connection-pool', () => ({
+  withPool: async (connector: any, connection: any, databaseName: string, fn: (pool: any) => any) =>
+    fn(await connector.openPool(connection, databaseName)),
+  getConnectionPoolConfig: () => ({ maxSize: 2, idleTimeoutMs: 30000 }),
+}));
+
+const connection = {
+  host: 'db.internal',
+  port: 1521,
+  username: 'reader',
+  password: encrypt('s3cret'),
+  options: { params: { serviceName: 'FREEPDB1' } },
+} as unknown as IConnection;
+
+const rows = (...values: Record<string, any>[]) => ({ rows: values });
+
+beforeEach(() => {
+  oracle.state.statements = [];
+  oracle.state.configs = [];
+  oracle.state.closed = [];
+  oracle.state.rollbacks = 0;
+  oracle.state.respond = () => ({ rows: [], metaData: [] });
+});
+
+describe('oracleConnector', () => {
+  it("logs pools in to the connection's service", async () => {
+    await oracleConnector.ping(connection, 'HR');
+
+    expect(oracle.state.configs[0]).toMatchObject({
+      user: 'reader',
+      password: 's3cret',
+      connectString: 'tcp://db.internal:1521/FREEPDB1',
+      poolMax: 2,
+      poolTimeout: 30,
+      connectTimeout: 5,
+    });
+  });
+
+  it('connects over TLS, matching the host name with verify-full', async () => {
+    await oracleConnector.test({
+      host: 'db.internal',
+      port: 2484,
+      username: 'reader',
+      password: 's3cret',
+      ssl: { mode: 'verify-full' },
+      options: { params: { serviceName: 'FREEPDB1' } },
+    });
+
+    expect(oracle.state.configs[0]).toMatchObject({
+      connectString: 'tcps://db.internal:2484/FREEPDB1',
+      sslServerDNMatch: true,
+    });
+    expect(oracle.state.statements.map((statement) => statement.sql)).toEqual(['SELECT 1 FROM dual']);
+  });
+
+  it('refuses connections without a service name and CA certificates without a client key', async () => {
+    const credentials = { host: 'db.internal', port: 1521, username: 'reader', password: 's3cret' };
+
+    await expect(oracleConnector.test(credentials)).rejects.toThrow('Oracle connections need a service name');
+    await expect(
+      oracleConnector.test({
+        ...credentials,
+        ssl: { mode: 'verify-ca', ca: '-----BEGIN CERTIFICATE-----' },
+        options: { params: { serviceName: 'FREEPDB1' } },
+      })
+    ).rejects.toThrow('Oracle needs a client certificate and key alongside a CA certificate');
+  });
+
+  it('executes in the schema inside a rolled back read-only transaction with a call timeout', async () => {
+    oracle.state.respond = (sql) =>
+      sql.startsWith('SELECT')
+        ? {
+            metaData: [{ name: 'ID', dbTypeName: 'NUMBER' }],
+            rows: [{ ID: 1 }, { ID: 2 }],
+          }
+        : {};
+
+    const result = await oracleConnector.execute(connection, 'HR', 'SELECT id FROM employees', {
+      timeoutMs: 1500,
+      maxRows: 1,
+    });
+
+    expect(oracle.state.statements.map(({ sql, callTimeout }) => [sql, callTimeout])).toEqual([
+      ['ALTER SESSION SET CURRENT_SCHEMA = "HR"', 0],
+      ['SET TRANSACTION READ ONLY', 0],
+      ['SELECT id FROM employees', 1500],
+    ]);
+    expect(oracle.state.statements[2].options).toMatchObject({ outFormat: 4002, maxRows: 2 });
+    expect(oracle.state.connection.callTimeout).toBe(0);
+    expect(oracle.state.rollbacks).toBe(1);
+    expect(oracle.state.closed).toEqual([{ drop: false }]);
+    expect(result).toEqual({ columns: [{ name: 'ID', type: 'number' }], rows: [{ ID: 1 }], truncated: true });
+  });
+
+  it('reads LOBs as strings and buffers', async () => {
+    await oracleConnector.execute(connection, 'HR', 'SELECT notes FROM employees', { timeoutMs: 1000, maxRows: 10 });
+    const { fetchTypeHandler } = oracle.state.statements[2].options;
+
+    expect(fetchTypeHandler({ dbType: 'CLOB' })).toEqual({ type: 'STRING' });
+    expect(fetchTypeHandler({ dbType: 'BLOB' })).toEqual({ type: 'BUFFER' });
+    expect(fetchTypeHandler({ dbType: 'NUMBER' })).toBeUndefined();
+  });
+
+  it('drops connections whose query failed', async () => {
+    oracle.state.respond = (sql) => {
+      if (sql.startsWith('SELECT')) throw Object.assign(new Error('NJS-123: call timeout'), { code: 'NJS-123' });
+      return {};
+    };
+
+    await expect(
+      oracleConnector.execute(connection, 'HR', 'SELECT 1 FROM dual', { timeoutMs: 10, maxRows: 10 })
+    ).rejects.toThrow('call timeout');
+    expect(oracle.state.rollbacks).toBe(1);
+    expect(oracle.state.closed).toEqual([{ drop: true }]);
+  });
+
+  it('introspects the schema through the dictionary views', async () => {
+    oracle.state.respond = (sql) => {
+      if (sql.includes('FROM all_tables')) {
+        return rows(
+          { NAME: 'DEPARTMENTS', TYPE: 'TABLE', ROW_ESTIMATE: 27 },
+          { NAME: 'EMPLOYEES', TYPE: 'TABLE', ROW_ESTIMATE: null },
+          { NAME: 'EMP_DETAILS', TYPE: 'VIEW', ROW_ESTIMATE: null }
+        );
+      }
+      if (sql.includes('FROM all_tab_columns')) {
+        return rows(
+          { TABLE_NAME: 'EMPLOYEES', COLUMN_NAME: 'ID', DATA_TYPE: 'NUMBER', NULLABLE: 'N', DATA_DEFAULT: null },
+          { TABLE_NAME: 'EMPLOYEES', COLUMN_NAME: 'DEPT_ID', DATA_TYPE: 'NUMBER', NULLABLE: 'Y', DATA_DEFAULT: '10 ' }
+        );
+      }
+      if (sql.includes('FROM all_constraints c')) {
+        return rows(
+          { table: 'EMPLOYEES', NAME: 'EMP_PK', TYPE: 'P', COLUMN_NAME: 'ID' },
+          {
+            table: 'EMPLOYEES',
+            NAME: 'EMP_DEPT_FK',
+            TYPE: 'R',
+            COLUMN_NAME: 'DEPT_ID',
+            REF_SCHEMA: 'HR',
+            REF_TABLE: 'DEPARTMENTS',
+            REF_COLUMN: 'ID',
+          }
+        );
+      }
+      return rows({ table: 'EMPLOYEES', NAME: 'EMP_PK', UNIQUENESS: 'UNIQUE', COLUMN_NAME: 'ID', IS_PRIMARY: 1 });
+    };
+
+    const tables = await oracleConnector.introspect(connection, 'HR');
+
+    expect(oracle.state.statements.every((statement) => statement.binds.owner === 'HR')).toBe(true);
+    expect(tables.map((table) => [table.name, table.type, table.rowEstimate])).toEqual([
+      ['DEPARTMENTS', 'table', 27],
+      ['EMPLOYEES', 'table', null],
+      ['EMP_DETAILS', 'view', null],
+    ]);
+    expect(tables[1]).toMatchObject({
+      columns: [
+        { name: 'ID', dataType: 'NUMBER', nullable: false, defaultValue: null },
+        { name: 'DEPT_ID', dataType: 'NUMBER', nullable: true, defaultValue: '10' },
+      ],
+      primaryKey: ['ID'],
+      foreignKeys: [
+        { name: 'EMP_DEPT_FK', columns: ['DEPT_ID'], referencedTable: 'DEPARTMENTS', referencedColumns: ['ID'] },
+      ],
+      indexes: [{ name: 'EMP_PK', columns: ['ID'], unique: true, primary: true }],
+    });
+    expect(tables[1].foreignKeys[0].referencedSchema).toBeUndefined();
+  });
+});
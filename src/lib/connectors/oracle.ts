@@ -0,0 +1,341 @@
+import oracledb from 'oracledb';
+import { withPool, getConnectionPoolConfig } from '@/lib/connection-pool';
+import { decrypt } from '@/lib/encryption';
+import type { IConnection, IConnectionOptions } from '@/models/Connection';
+import type { ForeignKeySchema, IndexSchema, TableSchema } from '@/lib/schema-introspection';
+import type { DatabaseConnector } from './types';
+import { CONNECT_TIMEOUT_MS, createTables, groupKeyColumns, limitRows, toEstimate } from './shared';
+import { connectionTls, type TlsSettings } from './tls';
+
+/**
+ * Rows as objects keyed by (upper-case) column name
+ */
+const QUERY_OPTIONS = { outFormat: oracledb.OUT_FORMAT_OBJECT };
+
+/**
+ * Service the connection logs in to, from the form or the path of an imported oracle:// URI
+ * Each registered database is a schema of that service
+ *
+ * @throws Error if the connection has none
+ */
+function serviceName(options?: IConnectionOptions): string {
+  const name = options?.params?.serviceName?.trim();
+  if (!name) {
+    throw new Error('Oracle connections need a service name');
+  }
+  return name;
+}
+
+/**
+ * Easy Connect string for a host, port and service
+ */
+function connectString(host: string, port: number, service: string, settings?: TlsSettings): string {
+  const protocol = settings && settings.mode !== 'disable' ? 'tcps' : 'tcp';
+  return `${protocol}://${host.includes(':') ? `[${host}]` : host}:${port}/${service}`;
+}
+
+/**
+ * Thin-mode TLS attributes
+ * The driver always verifies the certificate chain, against the PEMs in walletContent or the
+ * system CAs, so require behaves like verify-ca; verify-full matches the host name (servername
+ * is not supported). walletContent is loaded as the client certificate and key as well, so a
+ * CA certificate can only be given together with them.
+ */
+function tlsAttributes(settings?: TlsSettings) {
+  if (!settings || settings.mode === 'disable') return {};
+
+  if (settings.ca && !(settings.cert && settings.key)) {
+    throw new Error('Oracle needs a client certificate and key alongside a CA certificate');
+  }
+
+  return {
+    walletContent: [settings.ca, settings.cert, settings.key].filter(Boolean).join('\n') || undefined,
+    sslServerDNMatch: settings.mode === 'verify-full',
+  };
+}
+
+/**
+ * Quote a schema name; Oracle identifiers cannot contain double quotes
+ */
+function quoteIdentifier(name: string): string {
+  if (name.includes('"')) {
+    throw new Error(`Invalid Oracle schema name "${name}"`);
+  }
+  return `"${name}"`;
+}
+
+/**
+ * Run a callback with a pooled connection, released afterwards
+ * Connections that errored (including call timeouts) are dropped instead of returned to the pool
+ */
+async function withConnection<T>(
+  connection: IConnection,
+  databaseName: string,
+  callback: (conn: oracledb.Connection) => Promise<T>
+): Promise<T> {
+  return withPool(oracleConnector, connection, databaseName, async (pool: oracledb.Pool) => {
+    const conn = await pool.getConnection();
+    let failed = false;
+
+    try {
+      return await callback(conn);
+    } catch (error) {
+      failed = true;
+      throw error;
+    } finally {
+      await conn.close({ drop: failed }).catch(() => undefined);
+    }
+  });
+}
+
+/**
+ * Introspect through the ALL_* dictionary views (the registered schema only)
+ */
+async function introspect(connection: IConnection, databaseName: string): Promise<TableSchema[]> {
+  return withConnection(connection, databaseName, async (conn) => {
+    const owner = { owner: databaseName };
+
+    const tablesResult = await conn.execute<any>(
+      `SELECT table_name AS name, 'TABLE' AS type, num_rows AS row_estimate
+       FROM all_tables WHERE owner = :owner AND nested = 'NO' AND secondary = 'N' AND dropped = 'NO'
+       UNION ALL
+       SELECT view_name, 'VIEW', NULL FROM all_views WHERE owner = :owner
+       ORDER BY 1`,
+      owner,
+      QUERY_OPTIONS
+    );
+
+    const tables = createTables(
+      tablesResult.rows!.map((row) => ({
+        name: row.NAME,
+        type: row.TYPE === 'VIEW' ? 'view' : 'table',
+        rowEstimate: row.TYPE === 'VIEW' ? null : toEstimate(row.ROW_ESTIMATE ?? undefined),
+      }))
+    );
+
+    const columnsResult = await conn.execute<any>(
+      `SELECT table_name, column_name, data_type, nullable, data_default
+       FROM all_tab_columns WHERE owner = :owner
+       ORDER BY table_name, column_id`,
+      owner,
+      QUERY_OPTIONS
+    );
+
+    columnsResult.rows!.forEach((row) => {
+      tables.get(row.TABLE_NAME)?.columns.push({
+        name: row.COLUMN_NAME,
+        dataType: row.DATA_TYPE,
+        nullable: row.NULLABLE === 'Y',
+        defaultValue: typeof row.DATA_DEFAULT === 'string' ? row.DATA_DEFAULT.trim() : null,
+      });
+    });
+
+    const keysResult = await conn.execute<any>(
+      `SELECT c.table_name AS "table", c.constraint_name AS name, c.constraint_type AS type,
+         cc.column_name, r.owner AS ref_schema, r.table_name AS ref_table, rcc.column_name AS ref_column
+       FROM all_constraints c
+       JOIN all_cons_columns cc ON cc.owner = c.owner AND cc.constraint_name = c.constraint_name
+       LEFT JOIN all_constraints r ON r.owner = c.r_owner AND r.constraint_name = c.r_constraint_name
+       LEFT JOIN all_cons_columns rcc
+         ON rcc.owner = r.owner AND rcc.constraint_name = r.constraint_name AND rcc.position = cc.position
+       WHERE c.owner = :owner AND c.constraint_type IN ('P', 'R')
+       ORDER BY c.table_name, c.constraint_name, cc.position`,
+      owner,
+      QUERY_OPTIONS
+    );
+
+    const keys = groupKeyColumns(
+      keysResult.rows!.map((row) => ({ ...row, table: row.table, name: row.NAME })),
+      (first) => ({
+        name: first.NAME,
+        primary: first.TYPE === 'P',
+        referencedSchema: first.REF_SCHEMA === databaseName ? undefined : first.REF_SCHEMA ?? undefined,
+        referencedTable: first.REF_TABLE,
+        columns: [],
+        referencedColumns: [],
+      }),
+      (entry, row) => {
+        entry.columns.push(row.COLUMN_NAME);
+        if (row.REF_COLUMN) entry.referencedColumns.push(row.REF_COLUMN);
+      }
+    );
+
+    keys.forEach(({ table: tableName, primary, ...key }) => {
+      const table = tables.get(tableName);
+      if (!table) return;
+
+      if (primary) {
+        table.primaryKey = key.columns;
+      } else {
+        table.foreignKeys.push(key as ForeignKeySchema);
+      }
+    });
+
+    const indexesResult = await conn.execute<any>(
+      `SELECT i.table_name AS "table", i.index_name AS name, i.uniqueness, ic.column_name,
+         CASE WHEN EXISTS (
+           SELECT 1 FROM all_constraints p
+           WHERE p.owner = i.table_owner AND p.index_name = i.index_name AND p.constraint_type = 'P'
+         ) THEN 1 ELSE 0 END AS is_primary
+       FROM all_indexes i
+       JOIN all_ind_columns ic ON ic.index_owner = i.owner AND ic.index_name = i.index_name
+       WHERE i.table_owner = :owner
+       ORDER BY i.table_name, i.index_name, ic.column_position`,
+      owner,
+      QUERY_OPTIONS
+    );
+
+    const indexes = groupKeyColumns(
+      indexesResult.rows!.map((row) => ({ ...row, table: row.table, name: row.NAME })),
+      (first) => ({
+        name: first.NAME,
+        unique: first.UNIQUENESS === 'UNIQUE',
+        primary: Number(first.IS_PRIMARY) === 1,
+        columns: [],
+      }),
+      (entry, row) => entry.columns.push(row.COLUMN_NAME)
+    );
+
+    indexes.forEach(({ table: tableName, ...index }) => {
+      tables.get(tableName)?.indexes.push(index as IndexSchema);
+    });
+
+    return [...tables.values()];
+  });
+}
+
+/**
+ * Oracle connector (node-oracledb in thin mode, Oracle Database 12.1 or later)
+ * A connection logs in to one service; its registered databases are the schemas in it.
+ * Queries run in a READ ONLY transaction with the schema as CURRENT_SCHEMA and a call
+ * timeout, always rolled back
+ */
+export const oracleConnector: DatabaseConnector<oracledb.Pool> = {
+  type: 'oracle',
+  displayName: 'Oracle',
+  sqlDialect: 'oracle',
+
+  async openPool(connection) {
+    const { maxSize, idleTimeoutMs } = getConnectionPoolConfig();
+    const tls = connectionTls(connection);
+
+    // Schemas are chosen per query, so every pool logs in to the connection's service
+    return oracledb.createPool({
+      user: connection.username,
+      password: decrypt(connection.password!),
+      connectString: connectString(connection.host!, connection.port!, serviceName(connection.options), tls),
+      ...tlsAttributes(tls),
+      poolMin: 0,
+      poolMax: maxSize,
+      poolIncrement: 1,
+      poolTimeout: Math.max(1, Math.round(idleTimeoutMs / 1000)),
+      connectTimeout: CONNECT_TIMEOUT_MS / 1000,
+    });
+  },
+
+  async close(pool) {
+    await pool.close(0);
+  },
+
+  poolStats(pool) {
+    return {
+      size: pool.connectionsOpen,
+      idle: pool.connectionsOpen - pool.connectionsInUse,
+    };
+  },
+
+  async test({ host, port, username, password, ssl, options }) {
+    const conn = await oracledb.getConnection({
+      user: username,
+      password,
+      connectString: connectString(host!, port!, serviceName(options), ssl),
+      ...tlsAttributes(ssl),
+      connectTimeout: CONNECT_TIMEOUT_MS / 1000,
+    });
+
+    try {
+      await conn.execute('SELECT 1 FROM dual');
+    } finally {
+      await conn.close();
+    }
+  },
+
+  async ping(connection, databaseName) {
+    await withConnection(connection, databaseName, (conn) => conn.ping());
+  },
+
+  /** Schemas with tables or views, those owned by Oracle itself excluded */
+  async listDatabases(connection) {
+    return withConnection(connection, '', async (conn) => {
+      const result = await conn.execute<any>(
+        `SELECT username FROM all_users
+         WHERE oracle_maintained = 'N'
+           AND username IN (SELECT owner FROM all_tables UNION SELECT owner FROM all_views)
+         ORDER BY username`,
+        [],
+        QUERY_OPTIONS
+      );
+      return result.rows!.map((row) => row.USERNAME);
+    });
+  },
+
+  async serverVersion(connection, databaseName) {
+    return withConnection(connection, databaseName, async (conn) => conn.oracleServerVersionString);
+  },
+
+  introspect,
+
+  async execute(connection, databaseName, query, { timeoutMs, maxRows }) {
+    return withConnection(connection, databaseName, async (conn) => {
+      try {
+        await conn.execute(`ALTER SESSION SET CURRENT_SCHEMA = ${quoteIdentifier(databaseName)}`);
+        await conn.execute('SET TRANSACTION READ ONLY');
+
+        conn.callTimeout = Math.floor(timeoutMs);
+        const result = await conn.execute<Record<string, any>>(query, [], {
+          ...QUERY_OPTIONS,
+          // One row past the limit shows truncation without fetching the rest
+          maxRows: maxRows + 1,
+          // LOBs are read into strings and Buffers instead of returned as streams
+          fetchTypeHandler: (metadata) => {
+            if (metadata.dbType === oracledb.DB_TYPE_CLOB || metadata.dbType === oracledb.DB_TYPE_NCLOB) {
+              return { type: oracledb.STRING };
+            }
+            if (metadata.dbType === oracledb.DB_TYPE_BLOB) {
+              return { type: oracledb.BUFFER };
+            }
+            return undefined;
+          },
+        });
+
+        return {
+          columns: (result.metaData || []).map((column) => ({
+            name: column.name,
+            type: (column.dbTypeName || 'unknown').toLowerCase(),
+          })),
+          ...limitRows(result.rows || [], maxRows),
+        };
+      } finally {
+        conn.callTimeout = 0;
+        await conn.rollback().catch(() => undefined);
+      }
+    });
+  },
+
+  classifyError(error) {
+    // node-oracledb raises ORA- codes from the server and NJS- codes from the thin driver
+    switch (error.code) {
+      case 'ORA-01017': // invalid username/password
+      case 'ORA-28000': // account locked
+        return 'auth_failed';
+      case 'ORA-01435': // user (schema) does not exist
+      case 'ORA-12514': // listener does not know the service
+      case 'NJS-518': // service not registered with the listener
+        return 'database_not_found';
+      case 'NJS-510': // connect timeout
+        return 'timeout';
+      default:
+        return undefined;
+    }
+  },
+};
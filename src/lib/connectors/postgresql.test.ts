@@ -0,0 +1,150 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import type { IConnection } from '@/models/Connection';
+import { encrypt } from '@/lib/encryption';
+import { postgresConnector } from './postgresql';
+import { describeConnectorError } from './errors';
+
+/**
+ * Fake pg driver: every client sends its queries to `respond` and records them
+ */
+const pg = vi.hoisted(() => {
+  const state = {
+    queries: [] as string[],
+    configs: [] as Record<string, any>[],
+    released: [] as (Error | undefined)[],
+    ended: 0,
+    connectError: null as any,
+    respond: (_sql: string): any => ({ rows: [], fields: [] }),
+  };
+
+  const query = async (sql: string) => {
+    state.queries.push(sql);
+    return state.respond(sql);
+  };
+
+  class Client {
+    constructor(config: Record<string, any>) {
+      state.configs.push(config);
+    }
+    async connect() {
+      if (state.connectError) throw state.connectError;
+    }
+    query = query;
+    async end() {
+      state.ended += 1;
+    }
+  }
+
+  class Pool {
+    constructor(config: Record<string, any>) {
+      state.configs.push(config);
+    }
+    on() {}
+    async connect() {
+      if (state.connectError) throw state.connectError;
+      return { query, release: (error?: Error) => state.released.push(error) };
+    }
+    async end() {}
+  }
+
+  return { state, Client, Pool, types: { builtins: { INT4: 23, TEXT: 25 } } };
+});
+
+vi.mock('pg', () => ({ Client: pg.Client, Pool: pg.Pool, types: pg.types }));
+vi.mock('@/lib/connection-pool', () => ({
+  withPool: async (connector: any, connection: any, databaseName: string, fn: (pool: any) => any) =>
+    fn(await connector.openPool(connection, databaseName)),
+  getConnectionPoolConfig: () => ({ maxSize: 2, idleTimeoutMs: 1000 }),
+}));
+
+const connection = {
+  host: 'db.internal',
+  port: 5432,
+  username: 'reader',
+  password: encrypt('s3cret'),
+} as IConnection;
+const credentials = { host: 'db.internal', port: 5432, username: 'reader', password: 's3cret' };
+
+beforeEach(() => {
+  pg.state.queries = [];
+  pg.state.configs = [];
+  pg.state.released = [];
+  pg.state.ended = 0;
+  pg.state.connectError = null;
+  pg.state.respond = () => ({ rows: [], fields: [] });
+});
+
+describe('postgresConnector', () => {
+  it('tests unsaved credentials with a dedicated client and closes it', async () => {
+    await postgresConnector.test(credentials);
+
+    expect(pg.state.configs[0]).toMatchObject({ host: 'db.internal', user: 'reader', password: 's3cret' });
+    expect(pg.state.queries).toEqual(['SELECT 1']);
+    expect(pg.state.ended).toBe(1);
+  });
+
+  it('closes the test client when the query fails', async () => {
+    pg.state.respond = () => {
+      throw Object.assign(new Error('password authentication failed'), { code: '28P01' });
+    };
+
+    await expect(postgresConnector.test(credentials)).rejects.toThrow('password authentication failed');
+    expect(pg.state.ended).toBe(1);
+  });
+
+  it('opens pools with the decrypted password', async () => {
+    await postgresConnector.ping(connection, 'sales');
+
+    expect(pg.state.configs[0]).toMatchObject({ password: 's3cret', database: 'sales', max: 2 });
+  });
+
+  it('executes in a read-only transaction that is always rolled back', async () => {
+    pg.state.respond = (sql) =>
+      sql.startsWith('SELECT')
+        ? {
+            rows: [{ id: 1 }, { id: 2 }, { id: 3 }],
+            fields: [{ name: 'id', dataTypeID: 23 }],
+          }
+        : {};
+
+    const result = await postgresConnector.execute(connection, 'sales', 'SELECT id FROM t', {
+      timeoutMs: 1500,
+      maxRows: 2,
+    });
+
+    expect(pg.state.queries).toEqual([
+      'BEGIN READ ONLY',
+      'SET LOCAL statement_timeout = 1500',
+      'SELECT id FROM t',
+      'ROLLBACK',
+    ]);
+    expect(result).toEqual({ columns: [{ name: 'id', type: 'int4' }], rows: [{ id: 1 }, { id: 2 }], truncated: true });
+    expect(pg.state.released).toEqual([undefined]);
+  });
+
+  it('rolls back and destroys the client when the query fails', async () => {
+    const failure = new Error('relation "t" does not exist');
+    pg.state.respond = (sql) => {
+      if (sql.startsWith('SELECT')) throw failure;
+      return {};
+    };
+
+    await expect(
+      postgresConnector.execute(connection, 'sales', 'SELECT id FROM t', { timeoutMs: 1000, maxRows: 10 })
+    ).rejects.toThrow('does not exist');
+    expect(pg.state.queries.at(-1)).toBe('ROLLBACK');
+    expect(pg.state.released).toEqual([failure]);
+  });
+
+  it.each([
+    ['28P01', 'Authentication failed. Please check username and password.'],
+    ['28000', 'Authentication failed. Please check username and password.'],
+    ['3D000', 'Database "sales" does not exist.'],
+  ])('maps error %s', async (code, message) => {
+    pg.state.connectError = Object.assign(new Error('server error'), { code });
+
+    const error = await postgresConnector.test(credentials).catch((caught) => caught);
+
+    expect(describeConnectorError(postgresConnector, error, { ...credentials, databaseName: 'sales' })).toBe(message);
+  });
+});
@@ -0,0 +1,256 @@
+import { Client as PgClient, Pool as PgPool, types as pgTypes } from 'pg';
+import { withPool, getConnectionPoolConfig } from '@/lib/connection-pool';
+import { decrypt } from '@/lib/encryption';
+import type { IConnection } from '@/models/Connection';
+import type { TableSchema } from '@/lib/schema-introspection';
+import type { DatabaseConnector } from './types';
+import { CONNECT_TIMEOUT_MS, createTables, limitRows, tableKey, toEstimate } from './shared';
+import { connectionTls, nodeTlsOptions } from './tls';
+
+/**
+ * Reverse lookup of Postgres type OIDs to type names
+ */
+const PG_TYPE_NAMES: Record<number, string> = Object.entries(pgTypes.builtins).reduce(
+  (names, [name, oid]) => ({ ...names, [oid as number]: name.toLowerCase() }),
+  {} as Record<number, string>
+);
+
+const SYSTEM_SCHEMAS = `('pg_catalog', 'information_schema')`;
+
+/**
+ * Run a callback with a pooled PostgreSQL client, released afterwards
+ * Clients that errored are destroyed instead of returned to the pool
+ */
+async function withClient<T>(
+  connection: IConnection,
+  databaseName: string,
+  callback: (client: any) => Promise<T>
+): Promise<T> {
+  return withPool(postgresConnector, connection, databaseName, async (pool) => {
+    const client = await pool.connect();
+    let failed: Error | undefined;
+
+    try {
+      return await callback(client);
+    } catch (error: any) {
+      failed = error;
+      throw error;
+    } finally {
+      client.release(failed);
+    }
+  });
+}
+
+/**
+ * Introspect through pg_catalog (all non-system schemas)
+ */
+async function introspect(connection: IConnection, databaseName: string): Promise<TableSchema[]> {
+  return withClient(connection, databaseName, async (client) => {
+    const tablesResult = await client.query(`
+      SELECT n.nspname AS schema, c.relname AS name, c.relkind AS kind, c.reltuples AS row_estimate
+      FROM pg_class c
+      JOIN pg_namespace n ON n.oid = c.relnamespace
+      WHERE c.relkind IN ('r', 'p', 'v', 'm')
+        AND n.nspname NOT IN ${SYSTEM_SCHEMAS}
+        AND n.nspname NOT LIKE 'pg_toast%'
+      ORDER BY n.nspname, c.relname
+    `);
+
+    const tables = createTables(
+      tablesResult.rows.map((row: any) => ({
+        schema: row.schema,
+        name: row.name,
+        type: row.kind === 'v' || row.kind === 'm' ? 'view' : 'table',
+        rowEstimate: row.kind === 'v' ? null : toEstimate(row.row_estimate),
+      }))
+    );
+
+    const columnsResult = await client.query(`
+      SELECT table_schema, table_name, column_name, data_type, udt_name, is_nullable, column_default
+      FROM information_schema.columns
+      WHERE table_schema NOT IN ${SYSTEM_SCHEMAS}
+      ORDER BY table_schema, table_name, ordinal_position
+    `);
+
+    columnsResult.rows.forEach((row: any) => {
+      tables.get(tableKey(row.table_schema, row.table_name))?.columns.push({
+        name: row.column_name,
+        dataType: row.data_type === 'USER-DEFINED' || row.data_type === 'ARRAY' ? row.udt_name : row.data_type,
+        nullable: row.is_nullable === 'YES',
+        defaultValue: row.column_default,
+      });
+    });
+
+    const constraintsResult = await client.query(`
+      SELECT n.nspname AS schema, cl.relname AS table_name, con.conname AS name, con.contype AS type,
+        ARRAY(
+          SELECT a.attname FROM unnest(con.conkey) WITH ORDINALITY AS k(attnum, ord)
+          JOIN pg_attribute a ON a.attrelid = con.conrelid AND a.attnum = k.attnum
+          ORDER BY k.ord
+        )::text[] AS columns,
+        fn.nspname AS ref_schema, fcl.relname AS ref_table,
+        ARRAY(
+          SELECT a.attname FROM unnest(con.confkey) WITH ORDINALITY AS k(attnum, ord)
+          JOIN pg_attribute a ON a.attrelid = con.confrelid AND a.attnum = k.attnum
+          ORDER BY k.ord
+        )::text[] AS ref_columns
+      FROM pg_constraint con
+      JOIN pg_class cl ON cl.oid = con.conrelid
+      JOIN pg_namespace n ON n.oid = cl.relnamespace
+      LEFT JOIN pg_class fcl ON fcl.oid = con.confrelid
+      LEFT JOIN pg_namespace fn ON fn.oid = fcl.relnamespace
+      WHERE con.contype IN ('p', 'f') AND n.nspname NOT IN ${SYSTEM_SCHEMAS}
+    `);
+
+    constraintsResult.rows.forEach((row: any) => {
+      const table = tables.get(tableKey(row.schema, row.table_name));
+      if (!table) return;
+
+      if (row.type === 'p') {
+        table.primaryKey = row.columns;
+      } else {
+        table.foreignKeys.push({
+          name: row.name,
+          columns: row.columns,
+          referencedSchema: row.ref_schema,
+          referencedTable: row.ref_table,
+          referencedColumns: row.ref_columns,
+        });
+      }
+    });
+
+    const indexesResult = await client.query(`
+      SELECT n.nspname AS schema, t.relname AS table_name, i.relname AS name,
+        ix.indisunique AS is_unique, ix.indisprimary AS is_primary,
+        ARRAY(
+          SELECT a.attname FROM unnest(ix.indkey::int2[]) WITH ORDINALITY AS k(attnum, ord)
+          JOIN pg_attribute a ON a.attrelid = t.oid AND a.attnum = k.attnum
+          ORDER BY k.ord
+        )::text[] AS columns
+      FROM pg_index ix
+      JOIN pg_class t ON t.oid = ix.indrelid
+      JOIN pg_class i ON i.oid = ix.indexrelid
+      JOIN pg_namespace n ON n.oid = t.relnamespace
+      WHERE n.nspname NOT IN ${SYSTEM_SCHEMAS} AND n.nspname NOT LIKE 'pg_toast%'
+      ORDER BY n.nspname, t.relname, i.relname
+    `);
+
+    indexesResult.rows.forEach((row: any) => {
+      tables.get(tableKey(row.schema, row.table_name))?.indexes.push({
+        name: row.name,
+        columns: row.columns,
+        unique: row.is_unique,
+        primary: row.is_primary,
+      });
+    });
+
+    return [...tables.values()];
+  });
+}
+
+/**
+ * PostgreSQL connector
+ * Queries run in a READ ONLY transaction with a statement timeout, always rolled back
+ */
+export const postgresConnector: DatabaseConnector<any> = {
+  type: 'postgresql',
+  displayName: 'PostgreSQL',
+  sqlDialect: 'postgresql',
+
+  async openPool(connection, databaseName) {
+    const { maxSize, idleTimeoutMs } = getConnectionPoolConfig();
+    const pool = new PgPool({
+      host: connection.host,
+      port: connection.port,
+      user: connection.username,
+      password: decrypt(connection.password!),
+      database: databaseName || 'postgres',
+      ssl: nodeTlsOptions(connectionTls(connection)),
+      max: maxSize,
+      idleTimeoutMillis: idleTimeoutMs,
+      connectionTimeoutMillis: CONNECT_TIMEOUT_MS,
+    });
+    // Idle clients dropped by the server emit here; unhandled it would crash the process
+    pool.on('error', (error: Error) => console.error('PostgreSQL pool error:', error.message));
+    return pool;
+  },
+
+  async close(pool) {
+    await pool.end();
+  },
+
+  poolStats(pool) {
+    return {
+      size: pool.totalCount,
+      idle: pool.idleCount,
+      waiting: pool.waitingCount,
+    };
+  },
+
+  async test({ host, port, username, password, ssl }) {
+    const client = new PgClient({
+      host,
+      port,
+      user: username,
+      password,
+      database: 'postgres',
+      ssl: nodeTlsOptions(ssl),
+      connectionTimeoutMillis: CONNECT_TIMEOUT_MS,
+    });
+
+    try {
+      await client.connect();
+      await client.query('SELECT 1');
+    } finally {
+      await client.end();
+    }
+  },
+
+  async ping(connection, databaseName) {
+    await withClient(connection, databaseName, (client) => client.query('SELECT 1'));
+  },
+
+  async listDatabases(connection) {
+    return withClient(connection, '', async (client) => {
+      const result = await client.query(
+        "SELECT datname FROM pg_database WHERE datistemplate = false AND datname NOT IN ('postgres', 'template0', 'template1') ORDER BY datname"
+      );
+      return result.rows.map((row: any) => row.datname);
+    });
+  },
+
+  introspect,
+
+  async execute(connection, databaseName, query, { timeoutMs, maxRows }) {
+    return withClient(connection, databaseName, async (client) => {
+      try {
+        await client.query('BEGIN READ ONLY');
+        await client.query(`SET LOCAL statement_timeout = ${Math.floor(timeoutMs)}`);
+
+        const result = await client.query(query);
+
+        return {
+          columns: (result.fields || []).map((field: any) => ({
+            name: field.name,
+            type: PG_TYPE_NAMES[field.dataTypeID] || String(field.dataTypeID),
+          })),
+          ...limitRows(result.rows || [], maxRows),
+        };
+      } finally {
+        await client.query('ROLLBACK').catch(() => undefined);
+      }
+    });
+  },
+
+  classifyError(error) {
+    switch (error.code) {
+      case '28P01': // invalid_password
+      case '28000': // invalid_authorization_specification
+        return 'auth_failed';
+      case '3D000': // invalid_catalog_name
+        return 'database_not_found';
+      default:
+        return undefined;
+    }
+  },
+};
@@ -0,0 +1,61 @@
+import type { TableSchema } from '@/lib/schema-introspection';
+
+/**
+ * Timeout for opening a connection, shared by every engine
+ */
+export const CONNECT_TIMEOUT_MS = 5000;
+
+/**
+ * Cut rows down to the limit and report whether anything was dropped
+ */
+export function limitRows(rows: Record<string, any>[], maxRows: number) {
+  return {
+    rows: rows.slice(0, maxRows),
+    truncated: rows.length > maxRows,
+  };
+}
+
+export function tableKey(schema: string | undefined, name: string): string {
+  return schema ? `${schema}.${name}` : name;
+}
+
+export function toEstimate(value: any): number | null {
+  const estimate = Number(value);
+  return Number.isFinite(estimate) && estimate >= 0 ? Math.round(estimate) : null;
+}
+
+/**
+ * Create empty table entries keyed by schema-qualified name
+ */
+export function createTables(
+  rows: { schema?: string; name: string; type: TableSchema['type']; rowEstimate: number | null }[]
+): Map<string, TableSchema> {
+  return new Map(
+    rows.map((row) => [
+      tableKey(row.schema, row.name),
+      { ...row, columns: [], primaryKey: [], foreignKeys: [], indexes: [] },
+    ])
+  );
+}
+
+/**
+ * Group key-column rows (one row per column) into named keys
+ * Rows must already be ordered by key position
+ */
+export function groupKeyColumns<T extends { table: string; name: string }>(
+  rows: T[],
+  build: (first: T) => Record<string, any>,
+  addColumn: (entry: Record<string, any>, row: T) => void
+): Map<string, Record<string, any>> {
+  const grouped = new Map<string, Record<string, any>>();
+
+  rows.forEach((row) => {
+    const key = `${row.table}\u0000${row.name}`;
+    if (!grouped.has(key)) {
+      grouped.set(key, { table: row.table, ...build(row) });
+    }
+    addColumn(grouped.get(key)!, row);
+  });
+
+  return grouped;
+}
@@ -0,0 +1,85 @@
+import { mkdtempSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import path from 'path';
+import Sqlite from 'better-sqlite3';
+import { describe, it, expect, beforeAll, afterAll, vi } from 'vitest';
+import type { IConnection } from '@/models/Connection';
+import { sqliteConnector } from './sqlite';
+import { classifyConnectorError } from './errors';
+
+vi.mock('@/lib/connection-pool', () => ({
+  withPool: async (connector: any, connection: any, databaseName: string, fn: (pool: any) => any) =>
+    fn(await connector.openPool(connection, databaseName)),
+  getConnectionPoolConfig: () => ({ maxSize: 2, idleTimeoutMs: 1000 }),
+}));
+
+let directory: string;
+let connection: IConnection;
+
+beforeAll(() => {
+  directory = mkdtempSync(path.join(tmpdir(), 'sqlite-connector-'));
+  const db = new Sqlite(path.join(directory, 'shop.db'));
+  db.exec(`
+    CREATE TABLE items (id INTEGER PRIMARY KEY, name TEXT, photo BLOB);
+    INSERT INTO items (name, photo) VALUES ('a', x'0102'), ('b', NULL), ('c', NULL);
+  `);
+  db.close();
+
+  connection = { connectionType: 'sqlite', filePath: directory } as IConnection;
+});
+
+afterAll(() => {
+  rmSync(directory, { recursive: true, force: true });
+});
+
+describe('sqliteConnector.execute', () => {
+  it('returns rows and column types, truncated at maxRows', async () => {
+    const result = await sqliteConnector.execute(connection, 'shop.db', 'SELECT id, name, photo FROM items ORDER BY id', {
+      timeoutMs: 5000,
+      maxRows: 2,
+    });
+
+    expect(result.columns).toEqual([
+      { name: 'id', type: 'INTEGER' },
+      { name: 'name', type: 'TEXT' },
+      { name: 'photo', type: 'BLOB' },
+    ]);
+    expect(result.rows).toEqual([
+      { id: 1, name: 'a', photo: Buffer.from([1, 2]) },
+      { id: 2, name: 'b', photo: null },
+    ]);
+    expect(Buffer.isBuffer(result.rows[0].photo)).toBe(true);
+    expect(result.truncated).toBe(true);
+  });
+
+  it('stops a statement that runs past the timeout without blocking the event loop', async () => {
+    let ticks = 0;
+    const ticker = setInterval(() => (ticks += 1), 20);
+    const startedAt = Date.now();
+
+    // Never produces a row: the recursion is unbounded and max() waits for all of it
+    const query = 'WITH RECURSIVE n(x) AS (SELECT 1 UNION ALL SELECT x + 1 FROM n) SELECT max(x) FROM n';
+    await expect(sqliteConnector.execute(connection, 'shop.db', query, { timeoutMs: 300, maxRows: 10 })).rejects.toThrow(
+      'Query exceeded the 300ms timeout'
+    );
+    clearInterval(ticker);
+
+    expect(Date.now() - startedAt).toBeLessThan(3000);
+    expect(ticks).toBeGreaterThan(3);
+  });
+
+  it('refuses statements that return no rows', async () => {
+    await expect(
+      sqliteConnector.execute(connection, 'shop.db', 'PRAGMA user_version = 1', { timeoutMs: 5000, maxRows: 10 })
+    ).rejects.toThrow('Only queries that return rows are allowed');
+  });
+
+  it('keeps the driver error code for classification', async () => {
+    const error = await sqliteConnector
+      .execute(connection, 'missing.db', 'SELECT 1', { timeoutMs: 5000, maxRows: 10 })
+      .catch((caught) => caught);
+
+    expect(error.code).toBe('SQLITE_CANTOPEN');
+    expect(classifyConnectorError(sqliteConnector, error)).toBe('file_not_found');
+  });
+});
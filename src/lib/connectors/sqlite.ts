@@ -0,0 +1,253 @@
+import { promises as fs } from 'fs';
+import { Worker } from 'worker_threads';
+import Sqlite from 'better-sqlite3';
+import { withPool } from '@/lib/connection-pool';
+import type { IConnection } from '@/models/Connection';
+import type { TableSchema } from '@/lib/schema-introspection';
+import type { DatabaseConnector, QueryRows } from './types';
+import { listDatabaseFiles, resolveConnectionPath, resolveDatabaseFile } from './files';
+import { CONNECT_TIMEOUT_MS, createTables } from './shared';
+
+/**
+ * File extensions listed as databases when the connection path is a directory
+ */
+const SQLITE_EXTENSIONS = ['.sqlite', '.sqlite3', '.db', '.db3'];
+
+/**
+ * Open a database file read-only; a missing file is an error, never created
+ */
+function openFile(filePath: string): Sqlite.Database {
+  return new Sqlite(filePath, {
+    readonly: true,
+    fileMustExist: true,
+    timeout: CONNECT_TIMEOUT_MS,
+  });
+}
+
+/**
+ * Query runner for a worker thread: better-sqlite3 is synchronous and cannot interrupt a
+ * statement, so queries run off the event loop in a worker that is terminated on timeout.
+ * Opens the file read-only, reads one row past the limit to detect truncation and posts
+ * the result (or the error's message and code) back.
+ */
+const EXECUTE_WORKER_SOURCE = `
+const { parentPort, workerData } = require('worker_threads');
+const Sqlite = require('better-sqlite3');
+const { filePath, query, maxRows, busyTimeoutMs } = workerData;
+
+let db;
+try {
+  db = new Sqlite(filePath, { readonly: true, fileMustExist: true, timeout: busyTimeoutMs });
+  const statement = db.prepare(query);
+  if (!statement.reader) {
+    throw new Error('Only queries that return rows are allowed');
+  }
+
+  const rows = [];
+  let truncated = false;
+  for (const row of statement.iterate()) {
+    if (rows.length === maxRows) {
+      truncated = true;
+      break;
+    }
+    rows.push(row);
+  }
+
+  const columns = statement.columns().map((column) => ({ name: column.name, type: column.type || 'any' }));
+  parentPort.postMessage({ result: { columns, rows, truncated } });
+} catch (error) {
+  parentPort.postMessage({ error: { message: error.message, code: error.code } });
+} finally {
+  if (db) db.close();
+}
+`;
+
+/**
+ * Run a query in a worker thread, terminating it once the timeout passes
+ * BLOBs arrive as Uint8Array after crossing the thread boundary and are turned back into Buffers
+ */
+function executeInWorker(
+  filePath: string,
+  query: string,
+  { timeoutMs, maxRows }: { timeoutMs: number; maxRows: number }
+): Promise<QueryRows> {
+  return new Promise((resolve, reject) => {
+    const worker = new Worker(EXECUTE_WORKER_SOURCE, {
+      eval: true,
+      workerData: { filePath, query, maxRows, busyTimeoutMs: CONNECT_TIMEOUT_MS },
+    });
+
+    let settled = false;
+    const settle = (finish: () => void) => {
+      if (settled) return;
+      settled = true;
+      clearTimeout(timer);
+      finish();
+    };
+
+    const timer = setTimeout(() => {
+      settle(() => reject(new Error(`Query exceeded the ${timeoutMs}ms timeout`)));
+      worker.terminate().catch(() => undefined);
+    }, timeoutMs);
+
+    worker.once('message', (message: { result?: QueryRows; error?: { message: string; code?: string } }) =>
+      settle(() => {
+        if (message.error) {
+          reject(Object.assign(new Error(message.error.message), { code: message.error.code }));
+          return;
+        }
+
+        const { columns, rows, truncated } = message.result!;
+        resolve({
+          columns,
+          rows: rows.map((row) =>
+            Object.fromEntries(
+              Object.entries(row).map(([key, value]) => [key, value instanceof Uint8Array ? Buffer.from(value) : value])
+            )
+          ),
+          truncated,
+        });
+      })
+    );
+    worker.once('error', (error) => settle(() => reject(error)));
+    worker.once('exit', (code) => settle(() => reject(new Error(`SQLite query worker exited with code ${code}`))));
+  });
+}
+
+/**
+ * Introspect through sqlite_master and the table-valued pragma functions
+ */
+async function introspect(connection: IConnection, databaseName: string): Promise<TableSchema[]> {
+  return withPool(sqliteConnector, connection, databaseName, async (db) => {
+    const tableRows = db
+      .prepare(
+        `SELECT name, type FROM sqlite_master
+         WHERE type IN ('table', 'view') AND name NOT LIKE 'sqlite_%'
+         ORDER BY name`
+      )
+      .all() as { name: string; type: string }[];
+
+    // SQLite keeps no cheap row statistics, so estimates are left empty
+    const tables = createTables(
+      tableRows.map((row) => ({
+        name: row.name,
+        type: row.type === 'view' ? 'view' : 'table',
+        rowEstimate: null,
+      }))
+    );
+
+    for (const table of tables.values()) {
+      const columns = db
+        .prepare('SELECT name, type, "notnull" AS not_null, dflt_value, pk FROM pragma_table_info(?) ORDER BY cid')
+        .all(table.name) as any[];
+
+      table.columns = columns.map((column) => ({
+        name: column.name,
+        dataType: column.type || 'any',
+        nullable: !column.not_null && !column.pk,
+        defaultValue: column.dflt_value,
+      }));
+      table.primaryKey = columns
+        .filter((column) => column.pk > 0)
+        .sort((a, b) => a.pk - b.pk)
+        .map((column) => column.name);
+
+      if (table.type === 'view') continue;
+
+      const foreignKeys = db
+        .prepare('SELECT id, "table" AS ref_table, "from" AS from_column, "to" AS to_column FROM pragma_foreign_key_list(?) ORDER BY id, seq')
+        .all(table.name) as any[];
+
+      const grouped = new Map<number, TableSchema['foreignKeys'][number]>();
+      foreignKeys.forEach((row) => {
+        if (!grouped.has(row.id)) {
+          grouped.set(row.id, {
+            name: `fk_${table.name}_${row.id}`,
+            columns: [],
+            referencedTable: row.ref_table,
+            referencedColumns: [],
+          });
+        }
+        const foreignKey = grouped.get(row.id)!;
+        foreignKey.columns.push(row.from_column);
+        // A missing target column means the referenced table's primary key
+        if (row.to_column) foreignKey.referencedColumns.push(row.to_column);
+      });
+      table.foreignKeys = [...grouped.values()];
+
+      const indexes = db
+        .prepare('SELECT name, "unique" AS is_unique, origin FROM pragma_index_list(?) ORDER BY name')
+        .all(table.name) as any[];
+
+      table.indexes = indexes.map((index) => ({
+        name: index.name,
+        columns: (
+          db.prepare('SELECT name FROM pragma_index_info(?) ORDER BY seqno').all(index.name) as any[]
+        ).map((column) => column.name),
+        unique: !!index.is_unique,
+        primary: index.origin === 'pk',
+      }));
+    }
+
+    return [...tables.values()];
+  });
+}
+
+/**
+ * SQLite connector (better-sqlite3)
+ * Databases are files opened read-only. Queries run in a worker thread that is stopped
+ * when the timeout passes; introspection and pings use the pooled handle directly.
+ */
+export const sqliteConnector: DatabaseConnector<Sqlite.Database> = {
+  type: 'sqlite',
+  displayName: 'SQLite',
+  sqlDialect: 'sqlite',
+  fileBased: true,
+
+  async openPool(connection, databaseName) {
+    return openFile(await resolveDatabaseFile(connection.filePath, databaseName));
+  },
+
+  async close(db) {
+    db.close();
+  },
+
+  async test({ filePath }) {
+    const resolved = resolveConnectionPath(filePath);
+    const stats = await fs.stat(resolved);
+
+    if (!stats.isFile()) {
+      await listDatabaseFiles(resolved, SQLITE_EXTENSIONS);
+      return;
+    }
+
+    const db = openFile(resolved);
+    try {
+      // Reading the schema fails fast when the file is not a SQLite database
+      db.prepare('SELECT count(*) FROM sqlite_master').get();
+    } finally {
+      db.close();
+    }
+  },
+
+  async ping(connection, databaseName) {
+    await withPool(sqliteConnector, connection, databaseName, async (db) => {
+      db.prepare('SELECT 1').get();
+    });
+  },
+
+  async listDatabases(connection) {
+    return listDatabaseFiles(connection.filePath, SQLITE_EXTENSIONS);
+  },
+
+  introspect,
+
+  async execute(connection, databaseName, query, options) {
+    return executeInWorker(await resolveDatabaseFile(connection.filePath, databaseName), query, options);
+  },
+
+  classifyError(error) {
+    if (error.code === 'SQLITE_CANTOPEN') return 'file_not_found';
+    return undefined;
+  },
+};
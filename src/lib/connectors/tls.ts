@@ -0,0 +1,74 @@
+import type { ConnectionOptions } from 'tls';
+import { encrypt, decrypt } from '@/lib/encryption';
+import type { IConnection, IConnectionSsl } from '@/models/Connection';
+
+/**
+ * Plaintext TLS settings, as entered in the form or decrypted from a saved connection
+ * - require: encrypt, accept any server certificate
+ * - verify-ca: the certificate must chain to `ca` (or the system CAs), any hostname
+ * - verify-full: additionally the certificate must match the host (or `servername`)
+ */
+export interface TlsSettings {
+  mode: IConnectionSsl['mode'];
+  ca?: string;
+  cert?: string;
+  key?: string;
+  servername?: string;
+}
+
+/**
+ * Decrypt a saved connection's TLS settings
+ *
+ * @returns Settings, or undefined when TLS is disabled
+ */
+export function connectionTls(connection: IConnection): TlsSettings | undefined {
+  const ssl = connection.ssl;
+  if (!ssl || ssl.mode === 'disable') return undefined;
+
+  return {
+    mode: ssl.mode,
+    ca: ssl.ca ? decrypt(ssl.ca) : undefined,
+    cert: ssl.cert ? decrypt(ssl.cert) : undefined,
+    key: ssl.key ? decrypt(ssl.key) : undefined,
+    servername: ssl.servername || undefined,
+  };
+}
+
+/**
+ * Encrypt TLS settings for storage
+ * Blank certificate fields keep the saved value, like a blank password on edit
+ *
+ * @param settings - Settings from the request
+ * @param existing - Currently saved settings (on update)
+ */
+export function encryptTlsSettings(settings: TlsSettings, existing?: IConnectionSsl): IConnectionSsl {
+  const pem = (value: string | undefined, saved: string | undefined) =>
+    value && value.trim() ? encrypt(value.trim()) : saved;
+
+  return {
+    mode: settings.mode,
+    ca: pem(settings.ca, existing?.ca),
+    cert: pem(settings.cert, existing?.cert),
+    key: pem(settings.key, existing?.key),
+    servername: settings.servername?.trim() || undefined,
+  };
+}
+
+/**
+ * Node TLS socket options (pg, ClickHouse over HTTPS)
+ *
+ * @returns Options, or undefined when TLS is disabled
+ */
+export function nodeTlsOptions(settings?: TlsSettings): ConnectionOptions | undefined {
+  if (!settings || settings.mode === 'disable') return undefined;
+
+  return {
+    ca: settings.ca,
+    cert: settings.cert,
+    key: settings.key,
+    servername: settings.servername,
+    rejectUnauthorized: settings.mode !== 'require',
+    // verify-ca trusts the chain but not the name
+    ...(settings.mode === 'verify-ca' ? { checkServerIdentity: () => undefined } : {}),
+  };
+}
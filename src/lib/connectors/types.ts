@@ -0,0 +1,106 @@
+import type { IConnection, IConnectionOptions } from '@/models/Connection';
+import type { TableSchema } from '@/lib/schema-introspection';
+import type { SqlDialect } from '@/lib/sql-guard';
+import type { TlsSettings } from './tls';
+
+export type ConnectionType = IConnection['connectionType'];
+
+/**
+ * Plaintext credentials for a connection that has not been saved yet
+ * Server engines use host/port/username/password, file engines use filePath
+ */
+export interface ConnectionCredentials {
+  host?: string;
+  port?: number;
+  username?: string;
+  password?: string;
+  filePath?: string;
+  ssl?: TlsSettings;
+  options?: IConnectionOptions;
+}
+
+/**
+ * Column metadata returned with every result set
+ */
+export interface ColumnMeta {
+  name: string;
+  type: string;
+}
+
+/**
+ * Rows returned by a connector, before timing is added
+ */
+export interface QueryRows {
+  columns: ColumnMeta[];
+  rows: Record<string, any>[];
+  truncated: boolean;
+}
+
+/**
+ * Limits a connector must enforce when executing
+ */
+export interface QueryLimits {
+  timeoutMs: number;
+  maxRows: number;
+}
+
+/**
+ * Driver-level pool counters, where the driver exposes them
+ */
+export interface PoolStats {
+  size?: number;
+  idle?: number;
+  waiting?: number;
+}
+
+/**
+ * Normalized connection failure kinds, mapped to the same message on every route
+ */
+export type ConnectorErrorKind =
+  | 'unreachable'
+  | 'host_not_found'
+  | 'auth_failed'
+  | 'database_not_found'
+  | 'file_not_found'
+  | 'tls_failed'
+  | 'tunnel_failed'
+  | 'timeout';
+
+/**
+ * One database engine
+ * Saved connections go through the shared pool registry (openPool/close);
+ * unsaved credentials are only ever tested with a dedicated client.
+ * File engines list the database files at the connection's path instead of asking a server.
+ */
+export interface DatabaseConnector<TPool = any> {
+  type: ConnectionType;
+  displayName: string;
+  sqlDialect?: SqlDialect; // Set for SQL engines; queries are run through the read-only guard
+  fileBased?: boolean; // Connects to files at Connection.filePath instead of a server
+
+  /** Open a driver pool; an empty database name means a server-level pool */
+  openPool(connection: IConnection, databaseName: string): Promise<TPool>;
+  /** Close a pool opened by openPool */
+  close(pool: TPool): Promise<void>;
+  poolStats?(pool: TPool): PoolStats;
+
+  /** Connect with unsaved credentials and run a trivial query */
+  test(credentials: ConnectionCredentials): Promise<void>;
+  /** Check a registered database is reachable through its pool */
+  ping(connection: IConnection, databaseName: string): Promise<void>;
+  /** User databases on the server, system databases excluded */
+  listDatabases(connection: IConnection): Promise<string[]>;
+  /** Server version, recorded for the dialect hints sent to the NL-to-SQL backend */
+  serverVersion?(connection: IConnection, databaseName: string): Promise<string>;
+  introspect(connection: IConnection, databaseName: string): Promise<TableSchema[]>;
+  /** Run an already guarded read-only query */
+  execute(
+    connection: IConnection,
+    databaseName: string,
+    query: string,
+    limits: QueryLimits
+  ): Promise<QueryRows>;
+
+  /** Classify engine-specific error codes (network errors are handled generically) */
+  classifyError?(error: any): ConnectorErrorKind | undefined;
+}
@@ -0,0 +1,147 @@
+/**
+ * Minimal 5-field cron support: minute hour day-of-month month day-of-week
+ * Fields accept *, numbers, ranges (1-5), lists (1,15) and steps (0-30/10).
+ * Expressions are evaluated in UTC.
+ */
+
+interface CronField {
+  values: Set<number>;
+  wildcard: boolean;
+}
+
+interface ParsedCron {
+  minute: CronField;
+  hour: CronField;
+  dayOfMonth: CronField;
+  month: CronField;
+  dayOfWeek: CronField;
+}
+
+const FIELD_RANGES: Array<[number, number]> = [
+  [0, 59], // minute
+  [0, 23], // hour
+  [1, 31], // day of month
+  [1, 12], // month
+  [0, 7], // day of week (0 and 7 are Sunday)
+];
+
+// Searching further than this means the expression can never match (e.g. Feb 30)
+const MAX_SEARCH_YEARS = 5;
+
+function parseField(field: string, [min, max]: [number, number]): CronField {
+  const values = new Set<number>();
+
+  for (const part of field.split(',')) {
+    const [range, stepText] = part.split('/');
+    const step = stepText === undefined ? 1 : Number(stepText);
+    if (!Number.isInteger(step) || step < 1) {
+      throw new Error(`Invalid step "${part}"`);
+    }
+
+    let start: number;
+    let end: number;
+    if (range === '*') {
+      start = min;
+      end = max;
+    } else if (range.includes('-')) {
+      [start, end] = range.split('-').map(Number);
+    } else {
+      start = Number(range);
+      end = stepText === undefined ? start : max;
+    }
+
+    if (!Number.isInteger(start) || !Number.isInteger(end) || start < min || end > max || start > end) {
+      throw new Error(`Value "${part}" is out of range ${min}-${max}`);
+    }
+
+    for (let value = start; value <= end; value += step) {
+      values.add(value);
+    }
+  }
+
+  return { values, wildcard: field === '*' };
+}
+
+function parseCron(expression: string): ParsedCron {
+  const fields = expression.trim().split(/\s+/);
+  if (fields.length !== 5) {
+    throw new Error('Cron expression must have 5 fields (minute hour day month weekday)');
+  }
+
+  const [minute, hour, dayOfMonth, month, dayOfWeek] = fields.map((field, index) =>
+    parseField(field, FIELD_RANGES[index])
+  );
+
+  // Sunday may be written as 0 or 7
+  if (dayOfWeek.values.has(7)) dayOfWeek.values.add(0);
+
+  return { minute, hour, dayOfMonth, month, dayOfWeek };
+}
+
+/**
+ * Standard cron semantics: when both day fields are restricted, either may match
+ */
+function matchesDay(cron: ParsedCron, date: Date): boolean {
+  const dom = cron.dayOfMonth.values.has(date.getUTCDate());
+  const dow = cron.dayOfWeek.values.has(date.getUTCDay());
+
+  if (cron.dayOfMonth.wildcard) return dow;
+  if (cron.dayOfWeek.wildcard) return dom;
+  return dom || dow;
+}
+
+/**
+ * Check whether a cron expression is valid
+ *
+ * @returns Error message, or null if valid
+ */
+export function validateCron(expression: string): string | null {
+  try {
+    parseCron(expression);
+    return null;
+  } catch (error: any) {
+    return error.message;
+  }
+}
+
+/**
+ * Next time a cron expression fires, strictly after `from`
+ *
+ * @param expression - 5-field cron expression
+ * @param from - Start of the search (defaults to now)
+ * @returns Next run time, or null if the expression never matches
+ */
+export function nextCronRun(expression: string, from: Date = new Date()): Date | null {
+  const cron = parseCron(expression);
+
+  const date = new Date(from);
+  date.setUTCSeconds(0, 0);
+  date.setUTCMinutes(date.getUTCMinutes() + 1);
+
+  const limit = from.getTime() + MAX_SEARCH_YEARS * 366 * 24 * 60 * 60 * 1000;
+
+  // Skip whole months, days and hours that cannot match before stepping minutes
+  while (date.getTime() <= limit) {
+    if (!cron.month.values.has(date.getUTCMonth() + 1)) {
+      date.setUTCMonth(date.getUTCMonth() + 1, 1);
+      date.setUTCHours(0, 0);
+      continue;
+    }
+    if (!matchesDay(cron, date)) {
+      date.setUTCDate(date.getUTCDate() + 1);
+      date.setUTCHours(0, 0);
+      continue;
+    }
+    if (!cron.hour.values.has(date.getUTCHours())) {
+      date.setUTCHours(date.getUTCHours() + 1, 0);
+      continue;
+    }
+    if (!cron.minute.values.has(date.getUTCMinutes())) {
+      date.setUTCMinutes(date.getUTCMinutes() + 1);
+      continue;
+    }
+    return date;
+  }
+
+  return null;
+}
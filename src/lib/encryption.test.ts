@@ -0,0 +1,116 @@
+import crypto from 'crypto';
+import { describe, it, expect, afterEach, beforeEach, vi } from 'vitest';
+
+const OLD_KEY = '1'.repeat(64);
+const NEW_KEY = '2'.repeat(64);
+const OTHER_KEY = '3'.repeat(64);
+
+/**
+ * The keyring is read when the module loads, so each configuration gets a fresh copy
+ */
+async function loadKeyring(active: string, previous: string[] = []) {
+  vi.resetModules();
+  vi.stubEnv('ENCRYPTION_KEY', active);
+  vi.stubEnv('ENCRYPTION_PREVIOUS_KEYS', previous.join(','));
+  return import('./encryption');
+}
+
+/**
+ * A value as written before GCM and key ids: AES-256-CBC "iv:ciphertext"
+ */
+function legacyEncrypt(plaintext: string, hexKey: string): string {
+  const iv = crypto.randomBytes(16);
+  const cipher = crypto.createCipheriv('aes-256-cbc', Buffer.from(hexKey, 'hex'), iv);
+  return `${iv.toString('hex')}:${cipher.update(plaintext, 'utf8', 'hex')}${cipher.final('hex')}`;
+}
+
+beforeEach(() => {
+  vi.spyOn(console, 'error').mockImplementation(() => undefined);
+});
+
+afterEach(() => {
+  vi.unstubAllEnvs();
+  vi.restoreAllMocks();
+});
+
+describe('encrypt / decrypt', () => {
+  it('round-trips under the active key with its key id in the header', async () => {
+    const { encrypt, decrypt, getEncryptionKeyIds } = await loadKeyring(NEW_KEY);
+
+    const ciphertext = encrypt('s3cret');
+
+    expect(ciphertext.startsWith(`v2:${getEncryptionKeyIds().active}:`)).toBe(true);
+    expect(decrypt(ciphertext)).toBe('s3cret');
+  });
+
+  it('decrypts values written under a previous key', async () => {
+    const old = await loadKeyring(OLD_KEY);
+    const ciphertext = old.encrypt('s3cret');
+
+    const rotated = await loadKeyring(NEW_KEY, [OLD_KEY]);
+
+    expect(rotated.decrypt(ciphertext)).toBe('s3cret');
+    expect(rotated.needsReencryption(ciphertext)).toBe(true);
+    expect(rotated.getEncryptionKeyIds().previous).toEqual([old.getEncryptionKeyIds().active]);
+  });
+
+  it('fails on a key id that is not configured', async () => {
+    const old = await loadKeyring(OLD_KEY);
+    const ciphertext = old.encrypt('s3cret');
+    const keyId = old.getEncryptionKeyIds().active;
+
+    const rotated = await loadKeyring(NEW_KEY, [OTHER_KEY]);
+
+    expect(() => rotated.decrypt(ciphertext)).toThrow(
+      `Failed to decrypt data: key ${keyId} is not configured (add it to ENCRYPTION_PREVIOUS_KEYS)`
+    );
+  });
+
+  it('fails on tampered ciphertext and on a rewritten key id', async () => {
+    const { encrypt, decrypt } = await loadKeyring(NEW_KEY, [OLD_KEY]);
+    const parts = encrypt('s3cret').split(':');
+    const old = (await loadKeyring(OLD_KEY)).getEncryptionKeyIds().active;
+
+    const flipped = parts[4].slice(0, -1) + (parts[4].endsWith('0') ? '1' : '0');
+
+    expect(() => decrypt([...parts.slice(0, 4), flipped].join(':'))).toThrow('Failed to decrypt data');
+    expect(() => decrypt(['v2', old, ...parts.slice(2)].join(':'))).toThrow('Failed to decrypt data');
+  });
+
+  it('rejects unknown formats', async () => {
+    const { decrypt } = await loadKeyring(NEW_KEY);
+
+    expect(() => decrypt('v3:abc:def:ghi:jkl')).toThrow('Invalid encrypted text format');
+    expect(() => decrypt('not-encrypted')).toThrow('Invalid encrypted text format');
+  });
+
+  it('decrypts legacy values with the oldest configured key', async () => {
+    const legacy = legacyEncrypt('s3cret', OLD_KEY);
+
+    expect((await loadKeyring(OLD_KEY)).decrypt(legacy)).toBe('s3cret');
+
+    const rotated = await loadKeyring(NEW_KEY, [OTHER_KEY, OLD_KEY]);
+    expect(rotated.decrypt(legacy)).toBe('s3cret');
+    expect(rotated.needsReencryption(legacy)).toBe(true);
+  });
+
+  it('refuses keys that are not 32 bytes', async () => {
+    await expect(loadKeyring('abcd')).rejects.toThrow('ENCRYPTION_KEY must be 32 bytes');
+    await expect(loadKeyring(NEW_KEY, [OLD_KEY, 'abcd'])).rejects.toThrow(
+      'ENCRYPTION_PREVIOUS_KEYS entry 2 must be 32 bytes'
+    );
+  });
+});
+
+describe('token hashes', () => {
+  it('verifies the token it was made from and nothing else', async () => {
+    const { hashToken, isTokenHash, verifyTokenHash } = await loadKeyring(NEW_KEY);
+
+    const hash = hashToken('dbk_token');
+
+    expect(isTokenHash(hash)).toBe(true);
+    expect(verifyTokenHash('dbk_token', hash)).toBe(true);
+    expect(verifyTokenHash('dbk_other', hash)).toBe(false);
+    expect(hashToken('dbk_token')).not.toBe(hash);
+  });
+});
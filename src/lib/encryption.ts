@@ -4,34 +4,68 @@ if (!process.env.ENCRYPTION_KEY) {
   throw new Error('Please add ENCRYPTION_KEY to .env.local (generate with: openssl rand -hex 32)');
 }
 
-const ALGORITHM = 'aes-256-cbc';
-const ENCRYPTION_KEY = Buffer.from(process.env.ENCRYPTION_KEY, 'hex');
+/**
+ * Ciphertext formats
+ * - current: "v2:keyId:iv:authTag:ciphertext" (AES-256-GCM, all hex)
+ * - legacy: "iv:ciphertext" (AES-256-CBC, no integrity check), still readable
+ */
+const CURRENT_VERSION = 'v2';
+const ALGORITHM = 'aes-256-gcm';
+const LEGACY_ALGORITHM = 'aes-256-cbc';
+
+interface EncryptionKey {
+  id: string;
+  key: Buffer;
+}
+
+/**
+ * Key ids are derived from the key itself, so rotating needs no extra configuration
+ */
+function parseKey(hex: string, name: string): EncryptionKey {
+  const key = Buffer.from(hex.trim(), 'hex');
+
+  if (key.length !== 32) {
+    throw new Error(`${name} must be 32 bytes (64 hex characters). Generate with: openssl rand -hex 32`);
+  }
 
-if (ENCRYPTION_KEY.length !== 32) {
-  throw new Error('ENCRYPTION_KEY must be 32 bytes (64 hex characters). Generate with: openssl rand -hex 32');
+  return { id: crypto.createHash('sha256').update(key).digest('hex').slice(0, 8), key };
 }
 
 /**
- * Encrypt text using AES-256-CBC
- * Returns format: "iv:encryptedText" (both in hex)
+ * Keyring
+ * - ENCRYPTION_KEY: encrypts all new values
+ * - ENCRYPTION_PREVIOUS_KEYS: comma-separated older keys, newest first, still accepted
+ *   for decryption until `npm run secrets:reencrypt` has moved everything to the new key
+ */
+const ACTIVE_KEY = parseKey(process.env.ENCRYPTION_KEY, 'ENCRYPTION_KEY');
+const PREVIOUS_KEYS = (process.env.ENCRYPTION_PREVIOUS_KEYS || '')
+  .split(',')
+  .filter((hex) => hex.trim())
+  .map((hex, index) => parseKey(hex, `ENCRYPTION_PREVIOUS_KEYS entry ${index + 1}`));
+const KEYS = new Map([ACTIVE_KEY, ...PREVIOUS_KEYS].map((entry) => [entry.id, entry]));
+
+// Legacy values carry no key id; they were written before any rotation, with the oldest key
+const LEGACY_KEY = PREVIOUS_KEYS[PREVIOUS_KEYS.length - 1] || ACTIVE_KEY;
+
+/**
+ * Encrypt text using AES-256-GCM under the active key
+ * The version and key id are authenticated along with the ciphertext
  *
  * @param plaintext - The text to encrypt
- * @returns Encrypted string in format "iv:ciphertext"
+ * @returns Encrypted string in format "v2:keyId:iv:authTag:ciphertext"
  */
 export function encrypt(plaintext: string): string {
   try {
-    // Generate random IV (Initialization Vector)
-    const iv = crypto.randomBytes(16);
+    const header = `${CURRENT_VERSION}:${ACTIVE_KEY.id}`;
+    const iv = crypto.randomBytes(12);
 
-    // Create cipher
-    const cipher = crypto.createCipheriv(ALGORITHM, ENCRYPTION_KEY, iv);
+    const cipher = crypto.createCipheriv(ALGORITHM, ACTIVE_KEY.key, iv);
+    cipher.setAAD(Buffer.from(header));
 
-    // Encrypt the text
     let encrypted = cipher.update(plaintext, 'utf8', 'hex');
     encrypted += cipher.final('hex');
 
-    // Return IV:encrypted format
-    return `${iv.toString('hex')}:${encrypted}`;
+    return `${header}:${iv.toString('hex')}:${cipher.getAuthTag().toString('hex')}:${encrypted}`;
   } catch (error) {
     console.error('Encryption error:', error);
     throw new Error('Failed to encrypt data');
@@ -39,38 +73,57 @@ export function encrypt(plaintext: string): string {
 }
 
 /**
- * Decrypt text encrypted with AES-256-CBC
- * Expects format: "iv:encryptedText" (both in hex)
+ * Decrypt a value written by encrypt(), under any key in the keyring,
+ * or a legacy AES-256-CBC "iv:ciphertext" value
  *
- * @param ciphertext - The encrypted string in format "iv:ciphertext"
+ * @param ciphertext - The encrypted string
  * @returns Decrypted plaintext string
+ * @throws Error when the format is unknown, the key is not configured or the value was tampered with
  */
 export function decrypt(ciphertext: string): string {
   try {
-    // Split IV and encrypted text
     const parts = ciphertext.split(':');
 
-    if (parts.length !== 2) {
-      throw new Error('Invalid encrypted text format');
+    if (parts.length === 2) {
+      const decipher = crypto.createDecipheriv(LEGACY_ALGORITHM, LEGACY_KEY.key, Buffer.from(parts[0], 'hex'));
+      return decipher.update(parts[1], 'hex', 'utf8') + decipher.final('utf8');
     }
 
-    const iv = Buffer.from(parts[0], 'hex');
-    const encrypted = parts[1];
+    if (parts.length !== 5 || parts[0] !== CURRENT_VERSION) {
+      throw new Error('Invalid encrypted text format');
+    }
 
-    // Create decipher
-    const decipher = crypto.createDecipheriv(ALGORITHM, ENCRYPTION_KEY, iv);
+    const [version, keyId, iv, authTag, encrypted] = parts;
+    const entry = KEYS.get(keyId);
+    if (!entry) {
+      throw new Error(`key ${keyId} is not configured (add it to ENCRYPTION_PREVIOUS_KEYS)`);
+    }
 
-    // Decrypt the text
-    let decrypted = decipher.update(encrypted, 'hex', 'utf8');
-    decrypted += decipher.final('utf8');
+    const decipher = crypto.createDecipheriv(ALGORITHM, entry.key, Buffer.from(iv, 'hex'));
+    decipher.setAAD(Buffer.from(`${version}:${keyId}`));
+    decipher.setAuthTag(Buffer.from(authTag, 'hex'));
 
-    return decrypted;
-  } catch (error) {
+    return decipher.update(encrypted, 'hex', 'utf8') + decipher.final('utf8');
+  } catch (error: any) {
     console.error('Decryption error:', error);
-    throw new Error('Failed to decrypt data');
+    throw new Error(`Failed to decrypt data: ${error.message}`);
   }
 }
 
+/**
+ * Whether a value is legacy or encrypted under a key other than the active one
+ */
+export function needsReencryption(ciphertext: string): boolean {
+  return !ciphertext.startsWith(`${CURRENT_VERSION}:${ACTIVE_KEY.id}:`);
+}
+
+/**
+ * Ids of the configured keys, for the rotation report (never the keys themselves)
+ */
+export function getEncryptionKeyIds(): { active: string; previous: string[] } {
+  return { active: ACTIVE_KEY.id, previous: PREVIOUS_KEYS.map((entry) => entry.id) };
+}
+
 /**
  * Hash a password using crypto (for additional security layer)
  * Note: Primary password hashing should use bcrypt in the User model
@@ -97,6 +150,50 @@ export function generateSecureToken(length: number = 32): string {
   return crypto.randomBytes(length).toString('hex');
 }
 
+/**
+ * Prefix of hashes made by hashToken()
+ */
+const TOKEN_HASH_PREFIX = 'hmac-sha256';
+
+/**
+ * One-way hash for high-entropy tokens such as API keys
+ * Each token gets a random salt; tokens are long random strings, so a fast hash is enough
+ *
+ * @param token - Plaintext token
+ * @returns Hash in format "hmac-sha256:salt:digest" (hex)
+ */
+export function hashToken(token: string): string {
+  const salt = crypto.randomBytes(16).toString('hex');
+  const digest = crypto.createHmac('sha256', salt).update(token).digest('hex');
+  return `${TOKEN_HASH_PREFIX}:${salt}:${digest}`;
+}
+
+/**
+ * Whether a stored value is a hashToken() hash (rather than an encrypted value)
+ */
+export function isTokenHash(value: string): boolean {
+  return value.startsWith(`${TOKEN_HASH_PREFIX}:`);
+}
+
+/**
+ * Check a token against a hashToken() hash in constant time
+ *
+ * @param token - Plaintext token
+ * @param hash - Stored hash
+ * @returns True if the token matches
+ */
+export function verifyTokenHash(token: string, hash: string): boolean {
+  const [prefix, salt, digest] = hash.split(':');
+  if (prefix !== TOKEN_HASH_PREFIX || !salt || !digest) {
+    return false;
+  }
+
+  const expected = Buffer.from(digest, 'hex');
+  const actual = crypto.createHmac('sha256', salt).update(token).digest();
+
+  return expected.length === actual.length && crypto.timingSafeEqual(expected, actual);
+}
+
 /**
  * Compare two strings in constant time to prevent timing attacks
  * Useful for comparing tokens, secrets, etc.
@@ -0,0 +1,195 @@
+import { FASTAPI_ENDPOINTS, getApiUrl } from '@/lib/constants/api';
+import { getConnector, isSupportedConnectionType } from '@/lib/connectors';
+import Database from '@/models/Database';
+
+/**
+ * Timeout for chat completion calls (FastAPI generates and runs SQL)
+ */
+export const CHAT_COMPLETION_TIMEOUT_MS = 100000; // 100 seconds
+
+/**
+ * Single tier result returned by the FastAPI query pipeline
+ * Small datasets come back inline in `result`, large ones as a parquet `file_path` in MinIO
+ */
+export interface FastApiQueryResult {
+  status: string;
+  query: string;
+  tables_used?: string[];
+  tier?: number;
+  row_count?: number;
+  result?: any[] | null;
+  csv_path?: string | null;
+  sql_generated?: string;
+  joins?: any[];
+  execution_time_ms?: number;
+  confidence?: number;
+  error_message?: string | null;
+  suggestions?: string | null;
+  formatted_result?: string;
+  file_path?: string | null;
+}
+
+/**
+ * Engine details for one database, sent with NL-to-SQL requests so the backend
+ * generates SQL the target accepts (e.g. ClickHouse functions, MariaDB vs MySQL syntax)
+ */
+export interface DialectHint {
+  database_id: string;
+  engine: string;
+  sql_dialect: string | null;
+  server_version: string | null;
+}
+
+/**
+ * Normalized chat completion output
+ */
+export interface ChatCompletion {
+  assistantMessage: string;
+  sqlQuery: string;
+  queryResults: FastApiQueryResult[];
+}
+
+/**
+ * Normalize a non-streaming FastAPI chat completion body
+ * FastAPI returns either an array of tier results or a single object
+ */
+export function normalizeChatCompletion(fastApiData: any): ChatCompletion {
+  // FastAPI returns array of query results directly
+  if (Array.isArray(fastApiData)) {
+    const first = fastApiData[0];
+    return {
+      assistantMessage: first?.formatted_result || '',
+      sqlQuery: first?.sql_generated || '',
+      queryResults: fastApiData,
+    };
+  }
+
+  // Handle object response
+  return {
+    assistantMessage:
+      fastApiData.response || fastApiData.message || fastApiData.formatted_result || '',
+    sqlQuery: fastApiData.sqlQuery || fastApiData.sql_query || '',
+    queryResults: fastApiData.queryResults || fastApiData.results || [],
+  };
+}
+
+/**
+ * Collect a streamed (SSE) FastAPI chat completion into a single result
+ * Chunks are joined with spaces, SQL and results come from the completion event
+ */
+async function collectChatCompletionStream(
+  body: ReadableStream<Uint8Array>
+): Promise<ChatCompletion> {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+  let assistantMessage = '';
+  let sqlQuery = '';
+  let queryResults: FastApiQueryResult[] = [];
+
+  const handleLine = (line: string) => {
+    if (!line.startsWith('data: ')) return;
+
+    try {
+      const data = JSON.parse(line.slice(6));
+
+      if (data.chunk && data.chunk.trim()) {
+        assistantMessage += (assistantMessage ? ' ' : '') + data.chunk;
+      }
+
+      if (data.is_complete) {
+        sqlQuery = data.sql_query || data.sqlQuery || '';
+        queryResults = data.queryResults || data.results || data.query_results || [];
+      }
+    } catch (e) {
+      console.error('Failed to parse SSE line:', e, line);
+    }
+  };
+
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+
+    buffer += decoder.decode(value, { stream: true });
+    const lines = buffer.split('\n');
+    buffer = lines.pop() || '';
+    lines.forEach(handleLine);
+  }
+
+  handleLine(buffer);
+
+  return { assistantMessage, sqlQuery, queryResults };
+}
+
+/**
+ * Build dialect hints for the databases in a request
+ * Server versions are recorded when a database connection is tested
+ *
+ * @param databaseIds - Databases the question may be answered from
+ */
+export async function loadDialectHints(databaseIds: string[]): Promise<DialectHint[]> {
+  const databases = await Database.find({ _id: { $in: databaseIds } }).populate(
+    'connectionId',
+    'connectionType'
+  );
+
+  return databases.map((database) => {
+    const engine = (database.connectionId as any)?.connectionType || 'unknown';
+    return {
+      database_id: database._id.toString(),
+      engine,
+      sql_dialect: isSupportedConnectionType(engine) ? getConnector(engine).sqlDialect || null : null,
+      server_version: database.metadata?.serverVersion || null,
+    };
+  });
+}
+
+/**
+ * Run a natural language query through the FastAPI chat completion pipeline
+ * Waits for the full answer (streamed responses are collected)
+ *
+ * @param databaseIds - Databases the question may be answered from
+ * @param query - Natural language question
+ * @returns Normalized assistant message, generated SQL and tier results
+ */
+export async function requestChatCompletion(
+  databaseIds: string[],
+  query: string
+): Promise<ChatCompletion> {
+  const abortController = new AbortController();
+  const timeoutId = setTimeout(() => abortController.abort(), CHAT_COMPLETION_TIMEOUT_MS);
+
+  try {
+    const fastApiResponse = await fetch(getApiUrl(FASTAPI_ENDPOINTS.CHAT_COMPLETION), {
+      method: 'POST',
+      headers: {
+        'Accept': 'application/json',
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({
+        database_ids: databaseIds,
+        query,
+        dialects: await loadDialectHints(databaseIds),
+      }),
+      signal: abortController.signal,
+    });
+
+    if (!fastApiResponse.ok) {
+      const errorText = await fastApiResponse.text();
+      console.error('FastAPI Error:', errorText);
+      throw new Error(`FastAPI returned ${fastApiResponse.status}: ${errorText}`);
+    }
+
+    const contentType = fastApiResponse.headers.get('content-type');
+    const isStreaming =
+      contentType?.includes('text/event-stream') || contentType?.includes('application/x-ndjson');
+
+    if (isStreaming && fastApiResponse.body) {
+      return await collectChatCompletionStream(fastApiResponse.body);
+    }
+
+    return normalizeChatCompletion(await fastApiResponse.json());
+  } finally {
+    clearTimeout(timeoutId);
+  }
+}
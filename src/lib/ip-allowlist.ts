@@ -0,0 +1,134 @@
+/**
+ * IP address and CIDR matching for API key allow-lists
+ * IPv4 and IPv6; IPv4-mapped IPv6 addresses (::ffff:10.0.0.1) match IPv4 ranges.
+ * No Node-only APIs, so the validation schemas shared with the dashboard can use it.
+ */
+
+interface ParsedIp {
+  version: 4 | 6;
+  bytes: number[];
+}
+
+interface ParsedCidr extends ParsedIp {
+  prefix: number;
+}
+
+function parseIPv4(value: string): number[] | null {
+  const parts = value.split('.');
+  if (parts.length !== 4) return null;
+
+  const bytes = parts.map((part) => (/^\d{1,3}$/.test(part) ? Number(part) : NaN));
+  return bytes.every((byte) => byte >= 0 && byte <= 255) ? bytes : null;
+}
+
+function parseIPv6(value: string): number[] | null {
+  let address = value.replace(/%.*$/, ''); // Zone index (fe80::1%eth0)
+
+  // Trailing dotted quad (::ffff:10.0.0.1) becomes two hex groups
+  const lastColon = address.lastIndexOf(':');
+  const tail = address.slice(lastColon + 1);
+  if (tail.includes('.')) {
+    const v4 = parseIPv4(tail);
+    if (!v4) return null;
+    address = `${address.slice(0, lastColon + 1)}${((v4[0] << 8) | v4[1]).toString(16)}:${((v4[2] << 8) | v4[3]).toString(16)}`;
+  }
+
+  const halves = address.split('::');
+  if (halves.length > 2) return null;
+
+  const head = halves[0] ? halves[0].split(':') : [];
+  const rest = halves.length === 2 && halves[1] ? halves[1].split(':') : [];
+  const missing = 8 - head.length - rest.length;
+  if (halves.length === 2 ? missing < 1 : missing !== 0) return null;
+
+  const groups = [...head, ...Array<string>(halves.length === 2 ? missing : 0).fill('0'), ...rest];
+  if (!groups.every((group) => /^[0-9a-f]{1,4}$/i.test(group))) return null;
+
+  return groups.flatMap((group) => {
+    const word = parseInt(group, 16);
+    return [word >> 8, word & 0xff];
+  });
+}
+
+function isIPv4Mapped(bytes: number[]): boolean {
+  return bytes.slice(0, 10).every((byte) => byte === 0) && bytes[10] === 0xff && bytes[11] === 0xff;
+}
+
+/**
+ * Parse an IPv4 or IPv6 address ([v6] brackets allowed)
+ * IPv4-mapped IPv6 addresses are returned as IPv4
+ */
+function parseIp(value: string): ParsedIp | null {
+  const address = value.trim().replace(/^\[(.*)\]$/, '$1');
+
+  if (!address.includes(':')) {
+    const bytes = parseIPv4(address);
+    return bytes ? { version: 4, bytes } : null;
+  }
+
+  const bytes = parseIPv6(address);
+  if (!bytes) return null;
+  return isIPv4Mapped(bytes) ? { version: 4, bytes: bytes.slice(12) } : { version: 6, bytes };
+}
+
+/**
+ * Parse "address/prefix"; a bare address is a single-host range
+ */
+function parseCidr(value: string): ParsedCidr | null {
+  const [address, prefixText, ...extra] = value.trim().split('/');
+  if (extra.length > 0) return null;
+
+  const ip = parseIp(address);
+  if (!ip) return null;
+
+  const maxPrefix = ip.bytes.length * 8;
+  if (prefixText === undefined) return { ...ip, prefix: maxPrefix };
+  if (!/^\d{1,3}$/.test(prefixText)) return null;
+
+  let prefix = Number(prefixText);
+  // ::ffff:a.b.c.d/120 was parsed as IPv4; shift the prefix with it
+  if (ip.version === 4 && address.includes(':')) prefix -= 96;
+
+  return prefix >= 0 && prefix <= maxPrefix ? { ...ip, prefix } : null;
+}
+
+function matchesPrefix(address: number[], network: number[], prefix: number): boolean {
+  for (let bit = 0; bit < prefix; bit += 8) {
+    const bits = Math.min(8, prefix - bit);
+    const mask = (0xff << (8 - bits)) & 0xff;
+    const index = bit / 8;
+    if ((address[index] & mask) !== (network[index] & mask)) return false;
+  }
+  return true;
+}
+
+/**
+ * Check if a string is a valid IP address
+ */
+export function isValidIp(value: string): boolean {
+  return parseIp(value) !== null;
+}
+
+/**
+ * Check if a string is a valid CIDR range (or a single IP address)
+ */
+export function isValidCidr(value: string): boolean {
+  return parseCidr(value) !== null;
+}
+
+/**
+ * Check if an address falls inside any of the given CIDR ranges
+ * Unparseable addresses and ranges never match
+ *
+ * @param address - Client IP address
+ * @param cidrs - Ranges such as 203.0.113.0/24, 2001:db8::/32 or 198.51.100.7
+ */
+export function isIpInRanges(address: string, cidrs: string[]): boolean {
+  const ip = parseIp(address);
+  if (!ip) return false;
+
+  return cidrs.some((cidr) => {
+    const range = parseCidr(cidr);
+    return !!range && range.version === ip.version && matchesPrefix(ip.bytes, range.bytes, range.prefix);
+  });
+}
@@ -0,0 +1,47 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { updateVectorDescription } from './milvus';
+
+/**
+ * Fake Milvus client recording the filters it is queried with
+ */
+const milvus = vi.hoisted(() => {
+  const state = { exprs: [] as string[] };
+
+  class MilvusClient {
+    async query({ expr }: { expr: string }) {
+      state.exprs.push(expr);
+      return { status: { error_code: 'Success' }, data: [{ id: 1, table_name: 'orders', database_id: 'db', text: '' }] };
+    }
+    async upsert() {
+      return {};
+    }
+    async flush() {
+      return {};
+    }
+  }
+
+  return { state, MilvusClient };
+});
+
+vi.mock('@zilliz/milvus2-sdk-node', () => ({ MilvusClient: milvus.MilvusClient }));
+
+beforeEach(() => {
+  milvus.state.exprs = [];
+  vi.spyOn(console, 'log').mockImplementation(() => undefined);
+});
+
+describe('updateVectorDescription', () => {
+  it('filters on the database and table', async () => {
+    await updateVectorDescription('vector-1', 'Orders', undefined, 'a'.repeat(24), 'orders');
+
+    expect(milvus.state.exprs).toEqual([`database_id == "${'a'.repeat(24)}" && table_name == "orders"`]);
+  });
+
+  it('escapes quotes and backslashes in the table name', async () => {
+    await updateVectorDescription('vector-1', 'Orders', undefined, 'a'.repeat(24), 'x" || table_name != "\\');
+
+    expect(milvus.state.exprs).toEqual([
+      `database_id == "${'a'.repeat(24)}" && table_name == "x\\" || table_name != \\"\\\\"`,
+    ]);
+  });
+});
@@ -4,6 +4,17 @@ const MILVUS_HOST = process.env.MILVUS_HOST || 'localhost';
 const MILVUS_PORT = process.env.MILVUS_PORT || '19530';
 const MILVUS_COLLECTION = process.env.MILVUS_COLLECTION_NAME || 'table_embeddings';
 
+/**
+ * Milvus filter matching one database's vectors, or one table's
+ * Values are quoted as string literals with backslashes and double quotes escaped, so a
+ * table name cannot change the filter
+ */
+function vectorFilter(databaseId: string, tableName?: string): string {
+  const literal = (value: string) => `"${value.replace(/\\/g, '\\\\').replace(/"/g, '\\"')}"`;
+  const expr = `database_id == ${literal(databaseId)}`;
+  return tableName === undefined ? expr : `${expr} && table_name == ${literal(tableName)}`;
+}
+
 /**
  * Get Milvus client instance
  */
@@ -47,7 +58,7 @@ export async function queryVectorsByDatabaseId(
     console.log(`[Milvus] Querying collection: ${MILVUS_COLLECTION} for database_id: ${databaseId}`);
 
     // Build filter expression
-    const expr = `database_id == "${databaseId}"`;
+    const expr = vectorFilter(databaseId);
     console.log(`[Milvus] Query expression: ${expr}`);
 
     // If NO search query, use efficient Milvus pagination
@@ -260,7 +271,7 @@ export async function updateVectorDescription(
     }
 
     // Query by database_id and table_name
-    const expr = `database_id == "${databaseId}" && table_name == "${tableName}"`;
+    const expr = vectorFilter(databaseId, tableName);
     console.log(`[Milvus] Query expression: ${expr}`);
 
     const queryResult = await client.query({
@@ -337,7 +348,7 @@ export async function updateFieldDescriptions(
     console.log(`[Milvus] Updating field_descriptions for table: ${tableName}`);
 
     // Get all vectors for this table
-    const expr = `database_id == "${databaseId}" && table_name == "${tableName}"`;
+    const expr = vectorFilter(databaseId, tableName);
     console.log(`[Milvus] Query expression: ${expr}`);
 
     const queryResult = await client.query({
@@ -397,7 +408,7 @@ export async function getFieldDescriptions(
   const client = getMilvusClient();
 
   try {
-    const expr = `database_id == "${databaseId}" && table_name == "${tableName}"`;
+    const expr = vectorFilter(databaseId, tableName);
 
     const queryResult = await client.query({
       collection_name: collectionName,
@@ -459,7 +470,7 @@ export async function toggleTableSkipStatus(
     console.log(`[Milvus] Toggling skip status for table: ${tableName} to ${skipped}`);
 
     // Get all vectors for this table
-    const expr = `database_id == "${databaseId}" && table_name == "${tableName}"`;
+    const expr = vectorFilter(databaseId, tableName);
     console.log(`[Milvus] Query expression: ${expr}`);
 
     const queryResult = await client.query({
@@ -512,3 +523,70 @@ export async function toggleTableSkipStatus(
     throw new Error(`Failed to toggle skip status: ${error.message}`);
   }
 }
+
+/**
+ * Column as stored in a table vector's schema JSON
+ */
+export interface StoredColumn {
+  name: string;
+  type?: string;
+}
+
+/**
+ * Get the stored table list for a database, with the columns each table had when embedded
+ * schema is stored as a JSON string: [{name, type, ...}] or {columns: [...]};
+ * falls back to field_descriptions names when schema is missing
+ */
+export async function getStoredTableSchemas(
+  databaseId: string,
+  collectionName: string = MILVUS_COLLECTION
+) {
+  const client = getMilvusClient();
+
+  try {
+    const queryResult = await client.query({
+      collection_name: collectionName,
+      expr: vectorFilter(databaseId),
+      output_fields: ['table_name', 'schema', 'field_descriptions', 'skipped'],
+      limit: 16384,
+    });
+
+    return (queryResult.data || []).map((vector: any) => {
+      let columns: StoredColumn[] = [];
+
+      try {
+        const parsed = typeof vector.schema === 'string' ? JSON.parse(vector.schema) : vector.schema;
+        const list = Array.isArray(parsed) ? parsed : parsed?.columns;
+        if (Array.isArray(list)) {
+          columns = list.map((column: any) => ({
+            name: column.name ?? column.column_name,
+            type: column.type ?? column.data_type,
+          }));
+        }
+      } catch {
+        columns = [];
+      }
+
+      if (columns.length === 0 && vector.field_descriptions) {
+        try {
+          const descriptions: FieldDescription[] =
+            typeof vector.field_descriptions === 'string'
+              ? JSON.parse(vector.field_descriptions)
+              : vector.field_descriptions;
+          columns = descriptions.map((description) => ({ name: description.field_name }));
+        } catch {
+          columns = [];
+        }
+      }
+
+      return {
+        table_name: vector.table_name as string,
+        skipped: !!vector.skipped,
+        columns: columns.filter((column) => !!column.name),
+      };
+    });
+  } catch (error: any) {
+    console.error('Error getting stored table schemas:', error);
+    throw new Error(`Failed to get stored table schemas: ${error.message}`);
+  }
+}
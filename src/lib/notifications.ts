@@ -0,0 +1,76 @@
+import crypto from 'crypto';
+import { connectDB } from '@/lib/mongodb';
+import Notification, { type INotification } from '@/models/Notification';
+
+const WEBHOOK_TIMEOUT_MS = 10000;
+
+/**
+ * Add a notification to the notification center of each user
+ * Users who already have a notification with the same dedupeKey are skipped,
+ * so sweeps running on several instances never notify twice
+ *
+ * @param userIds - Recipients
+ * @param notification - Content; dedupeKey identifies the event
+ * @returns Number of notifications created
+ */
+export async function notifyUsers(
+  userIds: string[],
+  notification: Pick<INotification, 'type' | 'title' | 'message' | 'link' | 'dedupeKey'>
+): Promise<number> {
+  if (userIds.length === 0) return 0;
+
+  await connectDB();
+
+  try {
+    const created = await Notification.insertMany(
+      userIds.map((userId) => ({ ...notification, userId })),
+      { ordered: false }
+    );
+    return created.length;
+  } catch (error: any) {
+    // Duplicates are expected; anything else is a real failure
+    const writeErrors: any[] = [].concat(error.writeErrors || []); // One error or a list, depending on the driver
+    if (writeErrors.length === 0 || writeErrors.some((writeError) => writeError.code !== 11000)) {
+      throw error;
+    }
+    return userIds.length - writeErrors.length;
+  }
+}
+
+/**
+ * POST an event to the outbound webhook (API_KEY_WEBHOOK_URL), if one is configured
+ * With API_KEY_WEBHOOK_SECRET set, the body is signed: X-Webhook-Signature: sha256=<hex HMAC of the body>
+ * Delivery is best effort: failures are logged, not retried
+ *
+ * @param event - Event name, e.g. "api_key.expiring"
+ * @param data - Event payload
+ */
+export async function sendWebhook(event: string, data: Record<string, unknown>): Promise<void> {
+  const url = process.env.API_KEY_WEBHOOK_URL;
+  if (!url) return;
+
+  const body = JSON.stringify({ event, sentAt: new Date().toISOString(), data });
+  const headers: Record<string, string> = {
+    'Content-Type': 'application/json',
+    'X-Webhook-Event': event,
+  };
+
+  const secret = process.env.API_KEY_WEBHOOK_SECRET;
+  if (secret) {
+    headers['X-Webhook-Signature'] = `sha256=${crypto.createHmac('sha256', secret).update(body).digest('hex')}`;
+  }
+
+  const abortController = new AbortController();
+  const timeoutId = setTimeout(() => abortController.abort(), WEBHOOK_TIMEOUT_MS);
+
+  try {
+    const response = await fetch(url, { method: 'POST', headers, body, signal: abortController.signal });
+    if (!response.ok) {
+      console.error(`Webhook ${event} returned ${response.status}`);
+    }
+  } catch (error) {
+    console.error(`Webhook ${event} failed:`, error);
+  } finally {
+    clearTimeout(timeoutId);
+  }
+}
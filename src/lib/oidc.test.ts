@@ -0,0 +1,317 @@
+import { describe, it, expect, afterEach, beforeEach, vi } from 'vitest';
+import type { OidcClaims } from './oidc';
+
+/**
+ * In-memory User and Team collections
+ * Like the real schema, passwords are only returned when selected with "+password"
+ */
+const db = vi.hoisted(() => {
+  const users: Record<string, any>[] = [];
+  const teams: { _id: string; ssoGroups: string[]; members: string[] }[] = [];
+  let nextId = 0;
+
+  class User {
+    [field: string]: any;
+
+    constructor(fields: Record<string, any>) {
+      Object.assign(this, fields);
+    }
+
+    static findOne(filter: Record<string, any>) {
+      const find = (withPassword: boolean) => {
+        const stored = users.find((user) => Object.entries(filter).every(([field, value]) => user[field] === value));
+        if (!stored) return null;
+        const { password, ...fields } = stored;
+        return new User(withPassword ? { ...fields, password } : fields);
+      };
+
+      return {
+        select: async (projection: string) => find(projection === '+password'),
+        then: (resolve: (user: User | null) => unknown, reject: (error: unknown) => unknown) =>
+          Promise.resolve(find(false)).then(resolve, reject),
+      };
+    }
+
+    async save() {
+      this._id ??= `user-${++nextId}`;
+      const index = users.findIndex((user) => user._id === this._id);
+      const { password, ...fields } = this;
+      if (index === -1) {
+        users.push({ ...fields, password });
+      } else {
+        users[index] = { ...users[index], ...fields };
+      }
+    }
+  }
+
+  const Team = {
+    updateMany: async (filter: Record<string, any>, update: Record<string, any>) => {
+      for (const team of teams) {
+        const { $in, $nin } = filter.ssoGroups;
+        const matches = $in
+          ? team.ssoGroups.some((group) => $in.includes(group))
+          : team.ssoGroups.length > 0 &&
+            !team.ssoGroups.some((group) => $nin.includes(group)) &&
+            team.members.includes(filter.members);
+        if (!matches) continue;
+
+        if (update.$addToSet && !team.members.includes(update.$addToSet.members)) {
+          team.members.push(update.$addToSet.members);
+        }
+        if (update.$pull) {
+          team.members = team.members.filter((member) => member !== update.$pull.members);
+        }
+      }
+    },
+  };
+
+  const reset = () => {
+    users.length = 0;
+    teams.length = 0;
+    nextId = 0;
+  };
+
+  return { users, teams, User, Team, reset };
+});
+
+vi.mock('@/lib/mongodb', () => ({ connectDB: async () => undefined }));
+vi.mock('@/models/User', () => ({ default: db.User }));
+vi.mock('@/models/Team', () => ({ default: db.Team }));
+
+/**
+ * Mock identity provider: configures OIDC_MOCK_* variables, loads the NextAuth options
+ * and signs in with the given ID token claims through the real signIn callback
+ *
+ * @returns The redirect NextAuth would send (or true) and the user put into the session
+ */
+async function mockProvider(env: Record<string, string> = {}) {
+  vi.resetModules();
+  vi.stubEnv('OIDC_PROVIDERS', 'mock');
+  vi.stubEnv('OIDC_MOCK_ISSUER', 'https://sso.example.com/realms/test/');
+  vi.stubEnv('OIDC_MOCK_CLIENT_ID', 'flash-ops');
+  vi.stubEnv('OIDC_MOCK_CLIENT_SECRET', 'secret');
+  Object.entries(env).forEach(([name, value]) => vi.stubEnv(`OIDC_MOCK_${name}`, value));
+
+  const { authOptions } = await import('./auth');
+  const provider = authOptions.providers.find((candidate) => candidate.id === 'mock') as any;
+
+  return {
+    provider,
+    async signIn(claims: OidcClaims) {
+      const user = provider.profile(claims);
+      const result = await authOptions.callbacks!.signIn!({
+        user,
+        account: { provider: 'mock', type: 'oauth', providerAccountId: claims.sub },
+        profile: claims,
+      } as any);
+      return { result, user };
+    },
+  };
+}
+
+const claims = (fields: Partial<OidcClaims> = {}): OidcClaims => ({
+  sub: 'sub-1',
+  email: 'Jane@Example.com',
+  email_verified: true,
+  name: 'Jane',
+  ...fields,
+});
+
+const refusal = (message: string) => `/login?error=${encodeURIComponent(message)}`;
+
+beforeEach(() => {
+  db.reset();
+});
+
+afterEach(() => {
+  vi.unstubAllEnvs();
+});
+
+describe('OIDC provider configuration', () => {
+  it('reads OIDC_<ID>_* variables with their defaults', async () => {
+    const { getOidcProviderConfigs } = await import('./oidc');
+    vi.stubEnv('OIDC_PROVIDERS', 'my-idp, broken');
+    vi.stubEnv('OIDC_MY_IDP_ISSUER', 'https://idp.example.com/');
+    vi.stubEnv('OIDC_MY_IDP_CLIENT_ID', 'client');
+    vi.stubEnv('OIDC_MY_IDP_CLIENT_SECRET', 'secret');
+    vi.stubEnv('OIDC_MY_IDP_ADMIN_ROLES', 'ops-admin, dba');
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => undefined);
+
+    expect(getOidcProviderConfigs()).toEqual([
+      {
+        id: 'my-idp',
+        name: 'my-idp',
+        issuer: 'https://idp.example.com',
+        clientId: 'client',
+        clientSecret: 'secret',
+        scope: 'openid email profile',
+        rolesClaim: 'roles',
+        adminRoles: ['ops-admin', 'dba'],
+        groupsClaim: 'groups',
+        linkExistingAccounts: false,
+      },
+    ]);
+    expect(warn).toHaveBeenCalledWith(expect.stringContaining('"broken"'));
+    warn.mockRestore();
+  });
+
+  it('registers a PKCE authorization code provider', async () => {
+    const { provider } = await mockProvider();
+
+    expect(provider).toMatchObject({
+      wellKnown: 'https://sso.example.com/realms/test/.well-known/openid-configuration',
+      checks: ['pkce', 'state'],
+      idToken: true,
+    });
+  });
+});
+
+describe('getClaimValues', () => {
+  it('follows dot paths and wraps single values', async () => {
+    const { getClaimValues } = await import('./oidc');
+    const token = { realm_access: { roles: ['a', 'b'] }, group: 'team' };
+
+    expect(getClaimValues(token, 'realm_access.roles')).toEqual(['a', 'b']);
+    expect(getClaimValues(token, 'group')).toEqual(['team']);
+    expect(getClaimValues(token, 'missing.path')).toBeUndefined();
+  });
+});
+
+describe('OIDC sign-in', () => {
+  it('provisions a new user just in time', async () => {
+    const { signIn } = await mockProvider();
+
+    const { result, user } = await signIn(claims());
+
+    expect(result).toBe(true);
+    expect(user).toMatchObject({ id: 'user-1', email: 'jane@example.com', name: 'Jane', role: 'user' });
+    expect(db.users[0]).toMatchObject({ authProvider: 'mock', externalId: 'sub-1', password: undefined });
+  });
+
+  it('finds returning users by subject, even after an email change', async () => {
+    const { signIn } = await mockProvider();
+    await signIn(claims());
+
+    const { user } = await signIn(claims({ email: 'jane.doe@example.com' }));
+
+    expect(user.id).toBe('user-1');
+    expect(db.users).toHaveLength(1);
+  });
+
+  it('refuses tokens without an email and deactivated users', async () => {
+    const { signIn } = await mockProvider();
+    expect((await signIn(claims({ email: undefined }))).result).toBe(
+      refusal('The identity provider did not return an email address')
+    );
+
+    await signIn(claims());
+    db.users[0].isActive = false;
+    expect((await signIn(claims())).result).toBe(
+      refusal('Your account has been deactivated. Please contact an administrator.')
+    );
+  });
+
+  describe('linking an existing account by email', () => {
+    const existing = (fields: Record<string, any>) =>
+      db.users.push({ _id: 'existing', email: 'jane@example.com', name: 'Jane', isActive: true, ...fields });
+
+    it('requires a verified email', async () => {
+      existing({ role: 'user' });
+      const { signIn } = await mockProvider({ LINK_EXISTING_ACCOUNTS: 'true' });
+      const unverified = refusal('The identity provider has not verified this email address');
+
+      expect((await signIn(claims({ email_verified: false }))).result).toBe(unverified);
+      expect((await signIn(claims({ email_verified: undefined }))).result).toBe(unverified);
+      expect((await signIn(claims({ email_verified: 'true' as any }))).result).toBe(unverified);
+      expect(db.users[0].authProvider).toBeUndefined();
+    });
+
+    it.each([
+      ['a password', { role: 'user', password: '$2a$12$hash' }],
+      ['the admin role', { role: 'admin' }],
+    ])('refuses accounts with %s by default', async (_label, fields) => {
+      existing(fields);
+      const { signIn } = await mockProvider();
+
+      expect((await signIn(claims())).result).toBe(
+        refusal('An account with this email already exists and cannot be linked to single sign-on')
+      );
+      expect(db.users[0].externalId).toBeUndefined();
+    });
+
+    it('links accounts with a password when the provider is allowed to', async () => {
+      existing({ role: 'admin', password: '$2a$12$hash' });
+      const { signIn } = await mockProvider({ LINK_EXISTING_ACCOUNTS: 'true' });
+
+      const { result, user } = await signIn(claims());
+
+      expect(result).toBe(true);
+      expect(user).toMatchObject({ id: 'existing', role: 'admin' });
+      expect(db.users[0]).toMatchObject({ authProvider: 'mock', externalId: 'sub-1', password: '$2a$12$hash' });
+    });
+
+    it('links accounts without a password or admin role', async () => {
+      existing({ role: 'user' });
+      const { signIn } = await mockProvider();
+
+      expect((await signIn(claims())).user.id).toBe('existing');
+    });
+
+    it('refuses accounts linked to another provider', async () => {
+      existing({ role: 'user', authProvider: 'okta', externalId: 'okta-1' });
+      const { signIn } = await mockProvider({ LINK_EXISTING_ACCOUNTS: 'true' });
+
+      expect((await signIn(claims())).result).toBe(refusal('This email is linked to another sign-in provider'));
+    });
+  });
+
+  describe('role mapping', () => {
+    it('follows the roles claim on every sign-in when admin roles are set', async () => {
+      const { signIn } = await mockProvider({ ROLES_CLAIM: 'realm_access.roles', ADMIN_ROLES: 'ops-admin' });
+
+      expect((await signIn(claims({ realm_access: { roles: ['ops-admin'] } }))).user.role).toBe('admin');
+      expect((await signIn(claims({ realm_access: { roles: ['viewer'] } }))).user.role).toBe('user');
+      expect((await signIn(claims())).user.role).toBe('user');
+    });
+
+    it('leaves roles alone without admin roles', async () => {
+      const { signIn } = await mockProvider();
+      await signIn(claims());
+      db.users[0].role = 'admin';
+
+      expect((await signIn(claims({ roles: [] }))).user.role).toBe('admin');
+    });
+  });
+
+  describe('team mapping', () => {
+    beforeEach(() => {
+      db.teams.push(
+        { _id: 'data', ssoGroups: ['data-team'], members: [] },
+        { _id: 'ops', ssoGroups: ['ops'], members: [] },
+        { _id: 'manual', ssoGroups: [], members: [] }
+      );
+    });
+
+    const members = () => Object.fromEntries(db.teams.map((team) => [team._id, team.members]));
+
+    it('adds and removes SSO-managed memberships from the groups claim', async () => {
+      const { signIn } = await mockProvider();
+      db.teams[2].members.push('user-1');
+
+      await signIn(claims({ groups: ['data-team', 'ops'] }));
+      expect(members()).toEqual({ data: ['user-1'], ops: ['user-1'], manual: ['user-1'] });
+
+      await signIn(claims({ groups: 'ops' }));
+      expect(members()).toEqual({ data: [], ops: ['user-1'], manual: ['user-1'] });
+    });
+
+    it('keeps memberships when the token has no groups claim', async () => {
+      const { signIn } = await mockProvider({ GROUPS_CLAIM: 'memberOf' });
+      await signIn(claims({ memberOf: ['data-team'] }));
+
+      await signIn(claims());
+
+      expect(members().data).toEqual(['user-1']);
+    });
+  });
+});
@@ -0,0 +1,192 @@
+import type { OAuthConfig } from 'next-auth/providers/oauth';
+import { connectDB } from '@/lib/mongodb';
+import User from '@/models/User';
+import Team from '@/models/Team';
+
+/**
+ * One OpenID Connect provider, read from OIDC_<ID>_* environment variables
+ * (OIDC_PROVIDERS lists the ids, e.g. "keycloak,okta")
+ */
+export interface OidcProviderConfig {
+  id: string; // NextAuth provider id, e.g. "keycloak"
+  name: string; // Button label on the login page
+  issuer: string; // Discovery at {issuer}/.well-known/openid-configuration
+  clientId: string;
+  clientSecret: string;
+  scope: string;
+  rolesClaim: string; // Dot path into the ID token, e.g. "realm_access.roles"
+  adminRoles: string[]; // Claim values that make the user an admin; empty = roles are not managed by the provider
+  groupsClaim: string; // Dot path to the group list matched against Team.ssoGroups
+  linkExistingAccounts: boolean; // Also link accounts with a password or the admin role by email
+}
+
+/**
+ * ID token claims used for provisioning
+ */
+export type OidcClaims = Record<string, any> & {
+  sub: string;
+  email?: string;
+  email_verified?: boolean;
+  name?: string;
+  preferred_username?: string;
+};
+
+const list = (value?: string) =>
+  (value || '')
+    .split(',')
+    .map((entry) => entry.trim())
+    .filter(Boolean);
+
+/**
+ * Configured OIDC providers; providers missing an issuer, client id or secret are skipped with a warning
+ */
+export function getOidcProviderConfigs(): OidcProviderConfig[] {
+  return list(process.env.OIDC_PROVIDERS).flatMap((id) => {
+    const env = (name: string) => process.env[`OIDC_${id.toUpperCase().replace(/[^A-Z0-9]/g, '_')}_${name}`];
+
+    const issuer = env('ISSUER');
+    const clientId = env('CLIENT_ID');
+    const clientSecret = env('CLIENT_SECRET');
+    if (!issuer || !clientId || !clientSecret) {
+      console.warn(`OIDC provider "${id}" needs ISSUER, CLIENT_ID and CLIENT_SECRET; skipped`);
+      return [];
+    }
+
+    return [
+      {
+        id,
+        name: env('NAME') || id,
+        issuer: issuer.replace(/\/+$/, ''),
+        clientId,
+        clientSecret,
+        scope: env('SCOPE') || 'openid email profile',
+        rolesClaim: env('ROLES_CLAIM') || 'roles',
+        adminRoles: list(env('ADMIN_ROLES')),
+        groupsClaim: env('GROUPS_CLAIM') || 'groups',
+        linkExistingAccounts: env('LINK_EXISTING_ACCOUNTS') === 'true',
+      },
+    ];
+  });
+}
+
+/**
+ * NextAuth provider for an OIDC configuration
+ * The profile only carries the claims through; the user is provisioned in the signIn callback
+ */
+export function createOidcProvider(config: OidcProviderConfig): OAuthConfig<OidcClaims> {
+  return {
+    id: config.id,
+    name: config.name,
+    type: 'oauth',
+    wellKnown: `${config.issuer}/.well-known/openid-configuration`,
+    authorization: { params: { scope: config.scope } },
+    clientId: config.clientId,
+    clientSecret: config.clientSecret,
+    idToken: true,
+    checks: ['pkce', 'state'],
+    profile(claims) {
+      return {
+        id: claims.sub,
+        email: claims.email || '',
+        name: claims.name || claims.preferred_username || claims.email || claims.sub,
+        role: 'user',
+      };
+    },
+  };
+}
+
+/**
+ * Values of a claim as strings; `path` may point into nested objects ("realm_access.roles")
+ * A single string value counts as a one-element list
+ *
+ * @returns Values, or undefined when the token does not carry the claim
+ */
+export function getClaimValues(claims: Record<string, any>, path: string): string[] | undefined {
+  const value = path.split('.').reduce<any>((current, key) => current?.[key], claims);
+  if (value === undefined || value === null) return undefined;
+  return (Array.isArray(value) ? value : [value]).map(String);
+}
+
+/**
+ * Find or create (just in time) the user behind an OIDC sign-in, then apply the provider's
+ * role mapping and sync their SSO-managed team memberships
+ *
+ * - Users are matched by provider and subject, else by email: an existing account is linked
+ *   only when the provider marks the email verified and the account uses no other provider.
+ *   Accounts with a password or the admin role could be taken over by anyone able to claim
+ *   their email at the provider, so they are only linked when linkExistingAccounts is set
+ * - With adminRoles set, the role follows the roles claim on every sign-in
+ * - Teams with ssoGroups gain the user when a group matches and lose them when none does;
+ *   memberships are left alone when the token has no groups claim
+ *
+ * @returns The user as NextAuth expects it, or the reason sign-in is refused
+ */
+export async function provisionOidcUser(
+  config: OidcProviderConfig,
+  claims: OidcClaims
+): Promise<{ user: { id: string; email: string; name: string; role: 'admin' | 'user' }; error?: undefined } | { error: string; user?: undefined }> {
+  const email = claims.email?.toLowerCase();
+  if (!email) {
+    return { error: 'The identity provider did not return an email address' };
+  }
+
+  await connectDB();
+
+  let user = await User.findOne({ authProvider: config.id, externalId: claims.sub });
+
+  if (!user) {
+    const existing = await User.findOne({ email }).select('+password');
+    if (existing) {
+      if (existing.authProvider && existing.authProvider !== config.id) {
+        return { error: 'This email is linked to another sign-in provider' };
+      }
+      if (claims.email_verified !== true) {
+        return { error: 'The identity provider has not verified this email address' };
+      }
+      if ((existing.password || existing.role === 'admin') && !config.linkExistingAccounts) {
+        return { error: 'An account with this email already exists and cannot be linked to single sign-on' };
+      }
+      existing.authProvider = config.id;
+      existing.externalId = claims.sub;
+      user = existing;
+    } else {
+      user = new User({
+        email,
+        name: claims.name || claims.preferred_username || email,
+        role: 'user',
+        isActive: true,
+        authProvider: config.id,
+        externalId: claims.sub,
+      });
+    }
+  }
+
+  if (!user.isActive) {
+    return { error: 'Your account has been deactivated. Please contact an administrator.' };
+  }
+
+  if (config.adminRoles.length > 0) {
+    const roles = getClaimValues(claims, config.rolesClaim) || [];
+    user.role = roles.some((role) => config.adminRoles.includes(role)) ? 'admin' : 'user';
+  }
+
+  await user.save();
+
+  const groups = getClaimValues(claims, config.groupsClaim);
+  if (groups) {
+    await Team.updateMany({ ssoGroups: { $in: groups } }, { $addToSet: { members: user._id } });
+    await Team.updateMany(
+      { ssoGroups: { $exists: true, $ne: [], $nin: groups }, members: user._id },
+      { $pull: { members: user._id } }
+    );
+  }
+
+  return {
+    user: {
+      id: user._id.toString(),
+      email: user.email,
+      name: user.name,
+      role: user.role,
+    },
+  };
+}
@@ -0,0 +1,74 @@
+import { resolveConnection } from '@/lib/connection-pool';
+import { getConnector, ColumnMeta, QueryRows } from '@/lib/connectors';
+import { guardSql } from '@/lib/sql-guard';
+import { IDatabase } from '@/models/Database';
+
+export type { ColumnMeta };
+
+/**
+ * Default limits for server-side execution
+ */
+export const DEFAULT_QUERY_TIMEOUT_MS = 30000;
+export const DEFAULT_MAX_ROWS = 1000;
+
+/**
+ * Result of a read-only execution
+ */
+export interface ExecutionResult {
+  columns: ColumnMeta[];
+  rows: Record<string, any>[];
+  rowCount: number;
+  truncated: boolean;
+  executionTimeMs: number;
+}
+
+/**
+ * Execution limits
+ */
+export interface ExecuteOptions {
+  timeoutMs?: number;
+  maxRows?: number;
+}
+
+/**
+ * Execute a read-only query against a registered database
+ * Loads the database's Connection and runs the query through its engine's connector
+ * SQL is checked by the read-only guard first; blocked statements throw
+ *
+ * @param database - Database record (connectionId may be populated or an ID)
+ * @param query - SQL, or the JSON find/aggregate form for MongoDB
+ * @param options - Timeout and row limit
+ * @returns Rows with typed column metadata
+ */
+export async function executeReadOnlyQuery(
+  database: IDatabase,
+  query: string,
+  options: ExecuteOptions = {}
+): Promise<ExecutionResult> {
+  const timeoutMs = options.timeoutMs ?? DEFAULT_QUERY_TIMEOUT_MS;
+  const maxRows = options.maxRows ?? DEFAULT_MAX_ROWS;
+
+  const connection = await resolveConnection(database);
+  const connector = getConnector(connection.connectionType);
+
+  // SQL engines only run statements the guard allows, with a LIMIT injected
+  if (connector.sqlDialect) {
+    const guard = guardSql(query, connector.sqlDialect, { maxRows });
+    if (!guard.allowed) {
+      throw new Error(`Query blocked: ${guard.reason}`);
+    }
+    query = guard.sql;
+  }
+
+  const startedAt = Date.now();
+  const result: QueryRows = await connector.execute(connection, database.databaseName, query, {
+    timeoutMs,
+    maxRows,
+  });
+
+  return {
+    ...result,
+    rowCount: result.rows.length,
+    executionTimeMs: Date.now() - startedAt,
+  };
+}
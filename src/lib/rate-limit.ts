@@ -0,0 +1,255 @@
+import { NextResponse } from 'next/server';
+import { connectDB } from '@/lib/mongodb';
+import { errorResponse } from '@/lib/api-helpers';
+import Team from '@/models/Team';
+import RateLimitCounter, { type IUsageLimits } from '@/models/RateLimitCounter';
+import type { ApiKeyContext } from '@/lib/api-key-auth';
+
+/**
+ * Whose limits are checked: the API key's own, then its team's (shared by all team keys)
+ */
+export interface LimitSubject {
+  scope: 'apikey' | 'team';
+  id: string;
+  limits?: IUsageLimits;
+}
+
+/**
+ * Outcome of a limit check
+ * headers carry X-RateLimit-* (and Retry-After when refused) for the tightest limit
+ */
+export interface LimitCheck {
+  allowed: boolean;
+  message?: string;
+  headers: Record<string, string>;
+}
+
+interface LimitState {
+  limit: number;
+  remaining: number;
+  resetSeconds: number;
+}
+
+/**
+ * Idle buckets are full again after (burst / rate); keep them a little longer, then let the TTL index drop them
+ */
+const BUCKET_IDLE_TTL_MS = 60 * 60 * 1000;
+
+function limitHeaders(state: LimitState, retryAfterSeconds?: number): Record<string, string> {
+  const headers: Record<string, string> = {
+    'X-RateLimit-Limit': String(state.limit),
+    'X-RateLimit-Remaining': String(Math.max(0, state.remaining)),
+    'X-RateLimit-Reset': String(Math.max(0, state.resetSeconds)),
+  };
+  if (retryAfterSeconds !== undefined) {
+    headers['Retry-After'] = String(Math.max(1, retryAfterSeconds));
+  }
+  return headers;
+}
+
+function tightest(states: LimitState[]): Record<string, string> {
+  if (states.length === 0) return {};
+  return limitHeaders(states.reduce((min, state) => (state.remaining < min.remaining ? state : min)));
+}
+
+/**
+ * Take one token from a subject's bucket, refilled continuously at requestsPerMinute
+ * Refill and take run in one pipeline update, so concurrent instances never over-spend
+ */
+async function takeToken(
+  subject: LimitSubject,
+  requestsPerMinute: number,
+  burst: number
+): Promise<{ allowed: boolean; state: LimitState; retryAfterSeconds: number }> {
+  const ratePerMs = requestsPerMinute / 60_000;
+  const elapsedMs = { $subtract: ['$$NOW', { $ifNull: ['$refilledAt', '$$NOW'] }] };
+
+  const bucket = await RateLimitCounter.collection.findOneAndUpdate(
+    { _id: `bucket:${subject.scope}:${subject.id}` as any },
+    [
+      {
+        $set: {
+          tokens: {
+            $min: [burst, { $add: [{ $ifNull: ['$tokens', burst] }, { $multiply: [elapsedMs, ratePerMs] }] }],
+          },
+          refilledAt: '$$NOW',
+        },
+      },
+      { $set: { allowed: { $gte: ['$tokens', 1] } } },
+      {
+        $set: {
+          tokens: { $cond: ['$allowed', { $subtract: ['$tokens', 1] }, '$tokens'] },
+          expiresAt: { $add: ['$$NOW', BUCKET_IDLE_TTL_MS] },
+        },
+      },
+    ],
+    { upsert: true, returnDocument: 'after' }
+  );
+
+  const tokens: number = bucket?.tokens ?? 0;
+  return {
+    allowed: !!bucket?.allowed,
+    state: {
+      limit: requestsPerMinute,
+      remaining: Math.floor(tokens),
+      resetSeconds: Math.ceil((burst - tokens) / ratePerMs / 1000),
+    },
+    retryAfterSeconds: Math.ceil((1 - tokens) / ratePerMs / 1000),
+  };
+}
+
+/**
+ * Start of the next UTC day or month
+ */
+function windowEnd(period: 'day' | 'month', now: Date): Date {
+  return period === 'day'
+    ? new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate() + 1))
+    : new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth() + 1, 1));
+}
+
+/**
+ * Count one query against a quota window; refused once the window holds `limit` queries
+ * The conditional upsert fails with a duplicate key error when the counter is already full
+ * (or was just created by a concurrent request, hence the second, non-upserting attempt)
+ */
+async function takeQuotaUnit(
+  key: string,
+  limit: number,
+  expiresAt: Date
+): Promise<{ allowed: boolean; count: number }> {
+  const filter = { _id: key as any, count: { $lt: limit } };
+  const update = { $inc: { count: 1 }, $setOnInsert: { expiresAt } };
+
+  try {
+    const counter = await RateLimitCounter.collection.findOneAndUpdate(filter, update, {
+      upsert: true,
+      returnDocument: 'after',
+    });
+    return { allowed: true, count: counter?.count ?? 1 };
+  } catch (error: any) {
+    if (error.code !== 11000) {
+      throw error;
+    }
+  }
+
+  const counter = await RateLimitCounter.collection.findOneAndUpdate(filter, update, { returnDocument: 'after' });
+  return counter ? { allowed: true, count: counter.count } : { allowed: false, count: limit };
+}
+
+/**
+ * Limits that apply to an API key: its own and its team's
+ */
+export async function getApiKeyLimitSubjects(apiKey: ApiKeyContext): Promise<LimitSubject[]> {
+  await connectDB();
+
+  const team = await Team.findById(apiKey.teamId).select('limits').lean();
+
+  return [
+    { scope: 'apikey', id: apiKey.apiKeyId, limits: apiKey.limits },
+    { scope: 'team', id: apiKey.teamId, limits: team?.limits },
+  ];
+}
+
+/**
+ * Take a token from every configured rate limit (key first, then team)
+ * A token taken from the key is given back when the team refuses, so only served requests count
+ *
+ * @param subjects - From getApiKeyLimitSubjects
+ * @returns Allowed, or refused with Retry-After and the message for the 429
+ */
+export async function checkRateLimits(subjects: LimitSubject[]): Promise<LimitCheck> {
+  await connectDB();
+
+  const states: LimitState[] = [];
+  const taken: LimitSubject[] = [];
+
+  for (const subject of subjects) {
+    const requestsPerMinute = subject.limits?.requestsPerMinute;
+    if (!requestsPerMinute) continue;
+
+    const burst = subject.limits?.burst || requestsPerMinute;
+    const result = await takeToken(subject, requestsPerMinute, burst);
+
+    if (!result.allowed) {
+      await Promise.all(
+        taken.map((previous) =>
+          RateLimitCounter.collection.updateOne(
+            { _id: `bucket:${previous.scope}:${previous.id}` as any },
+            { $inc: { tokens: 1 } }
+          )
+        )
+      );
+      return {
+        allowed: false,
+        message: `Rate limit exceeded for this ${subject.scope === 'team' ? 'team' : 'API key'} (${requestsPerMinute} requests per minute)`,
+        headers: limitHeaders(result.state, result.retryAfterSeconds),
+      };
+    }
+
+    taken.push(subject);
+    states.push(result.state);
+  }
+
+  return { allowed: true, headers: tightest(states) };
+}
+
+/**
+ * Count a query against every configured daily and monthly quota (UTC windows)
+ * Units taken before a refusal are given back
+ *
+ * @param subjects - From getApiKeyLimitSubjects
+ * @returns Allowed, or refused until the window resets
+ */
+export async function checkQuotas(subjects: LimitSubject[]): Promise<LimitCheck> {
+  await connectDB();
+
+  const now = new Date();
+  const states: LimitState[] = [];
+  const taken: string[] = [];
+
+  for (const subject of subjects) {
+    const quotas: { period: 'day' | 'month'; limit?: number }[] = [
+      { period: 'day', limit: subject.limits?.dailyQuota },
+      { period: 'month', limit: subject.limits?.monthlyQuota },
+    ];
+
+    for (const { period, limit } of quotas) {
+      if (!limit) continue;
+
+      const window = now.toISOString().slice(0, period === 'day' ? 10 : 7);
+      const key = `quota:${subject.scope}:${subject.id}:${period}:${window}`;
+      const resetAt = windowEnd(period, now);
+      const resetSeconds = Math.ceil((resetAt.getTime() - now.getTime()) / 1000);
+      const result = await takeQuotaUnit(key, limit, resetAt);
+
+      if (!result.allowed) {
+        await RateLimitCounter.updateMany({ _id: { $in: taken } }, { $inc: { count: -1 } });
+        return {
+          allowed: false,
+          message: `${period === 'day' ? 'Daily' : 'Monthly'} query quota of ${limit} reached for this ${subject.scope === 'team' ? 'team' : 'API key'}`,
+          headers: limitHeaders({ limit, remaining: 0, resetSeconds }, resetSeconds),
+        };
+      }
+
+      taken.push(key);
+      states.push({ limit, remaining: limit - result.count, resetSeconds });
+    }
+  }
+
+  return { allowed: true, headers: tightest(states) };
+}
+
+/**
+ * 429 response for a refused limit check
+ */
+export function limitExceededResponse(check: LimitCheck): NextResponse {
+  return withLimitHeaders(errorResponse(check.message || 'Rate limit exceeded', 429), check);
+}
+
+/**
+ * Copy the X-RateLimit-* headers of a limit check onto a response
+ */
+export function withLimitHeaders<T extends NextResponse>(response: T, check?: LimitCheck): T {
+  Object.entries(check?.headers || {}).forEach(([name, value]) => response.headers.set(name, value));
+  return response;
+}
@@ -0,0 +1,115 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession, type Session } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import { errorResponse } from '@/lib/api-helpers';
+import {
+  validateApiKey,
+  hasPermission,
+  recordApiKeyUsage,
+  getClientIp,
+  type ApiKeyContext,
+} from '@/lib/api-key-auth';
+import { apiKeyPrincipal, sessionPrincipal, type Principal } from '@/lib/authz';
+import type { ApiKeyScope } from '@/lib/validation';
+
+/**
+ * Outcome of authenticateRequest: the caller, or the response to return
+ */
+export type RequestAuth =
+  | { principal: Principal; session: Session; apiKey?: undefined; error?: undefined }
+  | { principal: Principal; apiKey: ApiKeyContext; session?: undefined; error?: undefined }
+  | { error: NextResponse; principal?: undefined; session?: undefined; apiKey?: undefined };
+
+/**
+ * API key requests in flight, filled by authenticateRequest and noteApiKeyUsage,
+ * read by withApiKeyUsage once the handler has responded
+ */
+const apiKeyRequests = new WeakMap<NextRequest, { apiKey: ApiKeyContext; databaseId?: string; query?: string }>();
+
+/**
+ * Authenticate a route that accepts both dashboard sessions and API keys
+ * The session is tried first; an API key must hold `scope` (sessions are not scoped)
+ *
+ * @param request - Incoming request (X-API-Key or Authorization: Bearer)
+ * @param scope - Scope an API key needs for this route
+ * @returns Principal plus session or key context, or an error response (401, or 403 for a
+ *   missing scope or an address outside the key's IP allow-list)
+ */
+export async function authenticateRequest(
+  request: NextRequest,
+  scope: ApiKeyScope
+): Promise<RequestAuth> {
+  const session = await getServerSession(authOptions);
+  if (session?.user) {
+    return { principal: sessionPrincipal(session), session };
+  }
+
+  const validation = await validateApiKey(request);
+  if (!validation.isValid) {
+    return { error: errorResponse(validation.error || 'Authentication required', validation.status || 401) };
+  }
+
+  const apiKey = validation.context!;
+  apiKeyRequests.set(request, { apiKey });
+
+  if (!hasPermission(apiKey, scope)) {
+    return { error: errorResponse(`API key does not have the "${scope}" scope`, 403) };
+  }
+
+  return { principal: apiKeyPrincipal(apiKey), apiKey };
+}
+
+/**
+ * Attach the database and question of an API key request to its usage record
+ * No-op for session requests
+ */
+export function noteApiKeyUsage(request: NextRequest, details: { databaseId?: string; query?: string }): void {
+  const entry = apiKeyRequests.get(request);
+  if (entry) {
+    Object.assign(entry, details);
+  }
+}
+
+/**
+ * Wrap a route handler so every API key request it serves is appended to the usage log
+ * (status, latency, IP, and whatever noteApiKeyUsage added). Session requests are not logged.
+ * Routes under /api/databases/[id] are attributed to that database.
+ * Responses to a rotated key still in its grace period carry a Sunset header (RFC 8594).
+ *
+ * @param route - Route pattern stored with each record, e.g. "/api/chats/[id]"
+ * @param handler - The route handler
+ */
+export function withApiKeyUsage<Context = { params: Record<string, string> }>(
+  route: string,
+  handler: (request: NextRequest, context: Context) => Promise<Response>
+): (request: NextRequest, context: Context) => Promise<Response> {
+  return async (request, context) => {
+    const startedAt = Date.now();
+    const response = await handler(request, context);
+
+    const entry = apiKeyRequests.get(request);
+    if (entry) {
+      const databaseId =
+        entry.databaseId ??
+        (route.startsWith('/api/databases/[id]') ? (context as { params?: { id?: string } })?.params?.id : undefined);
+
+      await recordApiKeyUsage({
+        apiKeyId: entry.apiKey.apiKeyId,
+        teamId: entry.apiKey.teamId,
+        method: request.method,
+        route,
+        status: response.status,
+        latencyMs: Date.now() - startedAt,
+        databaseId: databaseId && /^[a-f\d]{24}$/i.test(databaseId) ? databaseId : undefined,
+        ipAddress: getClientIp(request),
+        query: entry.query,
+      });
+
+      if (entry.apiKey.graceEndsAt) {
+        response.headers.set('Sunset', new Date(entry.apiKey.graceEndsAt).toUTCString());
+      }
+    }
+
+    return response;
+  };
+}
@@ -0,0 +1,146 @@
+import { getStoredTableSchemas, StoredColumn } from '@/lib/milvus';
+import { SchemaSnapshot, TableSchema } from '@/lib/schema-introspection';
+
+export interface ColumnTypeChange {
+  name: string;
+  storedType: string;
+  liveType: string;
+}
+
+export interface TableDrift {
+  table: string;
+  addedColumns: string[];
+  removedColumns: string[];
+  changedColumns: ColumnTypeChange[];
+}
+
+/**
+ * Differences between the live database and the tables embedded in Milvus
+ */
+export interface SchemaDriftReport {
+  checkedAt: Date;
+  hasDrift: boolean;
+  liveTableCount: number;
+  storedTableCount: number;
+  addedTables: string[]; // In the database, not embedded yet
+  removedTables: string[]; // Embedded, no longer in the database
+  changedTables: TableDrift[];
+}
+
+/**
+ * Normalize a column type for comparison
+ * Stored types come from the sync backend and may be spelled differently
+ * (e.g. "VARCHAR(255)" vs "varchar"), so only the base type name is compared
+ */
+function baseType(type?: string): string {
+  return (type || '').toLowerCase().replace(/\(.*$/, '').replace(/\s+/g, ' ').trim();
+}
+
+function typesDiffer(storedType?: string, liveType?: string): boolean {
+  const stored = baseType(storedType);
+  const live = baseType(liveType);
+
+  if (!stored || !live || stored === 'unknown') return false;
+  return !stored.includes(live) && !live.includes(stored);
+}
+
+/**
+ * Index live tables by the names Milvus may use for them:
+ * the schema-qualified name, plus the bare name when it is unambiguous
+ */
+function indexLiveTables(tables: TableSchema[]): Map<string, TableSchema> {
+  const byName = new Map<string, TableSchema>();
+  const bareCounts = new Map<string, number>();
+
+  tables.forEach((table) => {
+    bareCounts.set(table.name, (bareCounts.get(table.name) || 0) + 1);
+  });
+
+  tables.forEach((table) => {
+    if (table.schema) byName.set(`${table.schema}.${table.name}`, table);
+    if (bareCounts.get(table.name) === 1) byName.set(table.name, table);
+  });
+
+  return byName;
+}
+
+function diffColumns(tableName: string, stored: StoredColumn[], live: TableSchema): TableDrift | null {
+  const liveColumns = new Map(live.columns.map((column) => [column.name, column]));
+  const storedColumns = new Map(stored.map((column) => [column.name, column]));
+
+  const addedColumns = live.columns
+    .filter((column) => !storedColumns.has(column.name))
+    .map((column) => column.name);
+
+  const removedColumns = stored
+    .filter((column) => !liveColumns.has(column.name))
+    .map((column) => column.name);
+
+  const changedColumns = stored
+    .filter((column) => liveColumns.has(column.name))
+    .filter((column) => typesDiffer(column.type, liveColumns.get(column.name)!.dataType))
+    .map((column) => ({
+      name: column.name,
+      storedType: column.type || '',
+      liveType: liveColumns.get(column.name)!.dataType,
+    }));
+
+  if (addedColumns.length === 0 && removedColumns.length === 0 && changedColumns.length === 0) {
+    return null;
+  }
+
+  return { table: tableName, addedColumns, removedColumns, changedColumns };
+}
+
+/**
+ * Compare a live schema snapshot against the tables embedded for a database
+ * Skipped tables are still matched (so they are not reported as added) but their
+ * column changes are ignored, since they are excluded from querying anyway
+ *
+ * @param databaseId - Database whose Milvus rows to compare
+ * @param snapshot - Freshly introspected live schema
+ * @returns Drift report
+ */
+export async function detectSchemaDrift(
+  databaseId: string,
+  snapshot: SchemaSnapshot
+): Promise<SchemaDriftReport> {
+  // A table may span several vectors; compare each table once
+  const storedTables = (await getStoredTableSchemas(databaseId)).filter(
+    (stored, index, all) => all.findIndex((other) => other.table_name === stored.table_name) === index
+  );
+  const liveTables = indexLiveTables(snapshot.tables);
+  const matchedLive = new Set<TableSchema>();
+
+  const removedTables: string[] = [];
+  const changedTables: TableDrift[] = [];
+
+  storedTables.forEach((stored) => {
+    const live = liveTables.get(stored.table_name);
+    if (!live) {
+      removedTables.push(stored.table_name);
+      return;
+    }
+
+    matchedLive.add(live);
+    if (stored.skipped || stored.columns.length === 0) return;
+
+    const drift = diffColumns(stored.table_name, stored.columns, live);
+    if (drift) changedTables.push(drift);
+  });
+
+  // Views are compared when embedded but never reported as missing embeddings
+  const addedTables = snapshot.tables
+    .filter((table) => !matchedLive.has(table) && table.type !== 'view')
+    .map((table) => (table.schema ? `${table.schema}.${table.name}` : table.name));
+
+  return {
+    checkedAt: new Date(),
+    hasDrift: addedTables.length > 0 || removedTables.length > 0 || changedTables.length > 0,
+    liveTableCount: snapshot.tables.length,
+    storedTableCount: storedTables.length,
+    addedTables,
+    removedTables,
+    changedTables,
+  };
+}
@@ -0,0 +1,68 @@
+import { resolveConnection } from '@/lib/connection-pool';
+import { getConnector } from '@/lib/connectors';
+import { IConnection } from '@/models/Connection';
+import { IDatabase } from '@/models/Database';
+
+export interface ColumnSchema {
+  name: string;
+  dataType: string;
+  nullable: boolean;
+  defaultValue?: string | null;
+}
+
+export interface ForeignKeySchema {
+  name: string;
+  columns: string[];
+  referencedSchema?: string;
+  referencedTable: string;
+  referencedColumns: string[];
+}
+
+export interface IndexSchema {
+  name: string;
+  columns: string[];
+  unique: boolean;
+  primary: boolean;
+}
+
+export interface TableSchema {
+  schema?: string; // Namespace for postgresql/mssql/duckdb, absent for mysql/mariadb/oracle/clickhouse/sqlite/mongodb
+  name: string;
+  type: 'table' | 'view' | 'collection';
+  rowEstimate: number | null; // Planner/statistics estimate, not an exact count
+  columns: ColumnSchema[];
+  primaryKey: string[];
+  foreignKeys: ForeignKeySchema[];
+  indexes: IndexSchema[];
+}
+
+/**
+ * Snapshot of a database's structure, cached on the Database document
+ */
+export interface SchemaSnapshot {
+  connectionType: IConnection['connectionType'];
+  databaseName: string;
+  introspectedAt: Date;
+  tables: TableSchema[];
+}
+
+/**
+ * Introspect the structure of a registered database through its engine's connector
+ *
+ * @param database - Database record (connectionId may be populated or an ID)
+ * @returns Tables with columns, keys, indexes and row estimates
+ */
+export async function introspectSchema(database: IDatabase): Promise<SchemaSnapshot> {
+  const connection = await resolveConnection(database);
+  const tables = await getConnector(connection.connectionType).introspect(
+    connection,
+    database.databaseName
+  );
+
+  return {
+    connectionType: connection.connectionType,
+    databaseName: database.databaseName,
+    introspectedAt: new Date(),
+    tables,
+  };
+}
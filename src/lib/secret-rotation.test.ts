@@ -0,0 +1,171 @@
+import { describe, it, expect, afterEach, beforeEach, vi } from 'vitest';
+
+const OLD_KEY = '1'.repeat(64);
+const NEW_KEY = '2'.repeat(64);
+const OTHER_KEY = '3'.repeat(64);
+
+/**
+ * Fake raw collections: find() yields the stored documents, updateOne() applies
+ * $set only when every filter field still equals the stored value
+ */
+const db = vi.hoisted(() => {
+  const collections: Record<string, Record<string, any>[]> = {};
+
+  const getPath = (document: Record<string, any>, path: string) =>
+    path.split('.').reduce<any>((value, key) => value?.[key], document);
+
+  const setPath = (document: Record<string, any>, path: string, value: unknown) => {
+    const keys = path.split('.');
+    const parent = keys.slice(0, -1).reduce<any>((object, key) => (object[key] ??= {}), document);
+    parent[keys[keys.length - 1]] = value;
+  };
+
+  const collection = (name: string) => ({
+    find: () => (collections[name] ?? []).map((document) => structuredClone(document)),
+    updateOne: async (filter: Record<string, any>, update: { $set: Record<string, unknown> }) => {
+      const document = (collections[name] ?? []).find((candidate) =>
+        Object.entries(filter).every(([path, value]) => getPath(candidate, path) === value)
+      );
+      if (!document) return { matchedCount: 0 };
+
+      Object.entries(update.$set).forEach(([path, value]) => setPath(document, path, value));
+      return { matchedCount: 1 };
+    },
+  });
+
+  return { collections, getPath, connection: { db: { collection } } };
+});
+
+vi.mock('mongoose', () => ({ default: { connection: db.connection } }));
+
+async function loadKeyring(active: string, previous: string[] = []) {
+  vi.resetModules();
+  vi.stubEnv('ENCRYPTION_KEY', active);
+  vi.stubEnv('ENCRYPTION_PREVIOUS_KEYS', previous.join(','));
+  return {
+    encryption: await import('./encryption'),
+    rotation: await import('./secret-rotation'),
+  };
+}
+
+beforeEach(() => {
+  vi.spyOn(console, 'error').mockImplementation(() => undefined);
+  for (const name of Object.keys(db.collections)) delete db.collections[name];
+});
+
+afterEach(() => {
+  vi.unstubAllEnvs();
+  vi.restoreAllMocks();
+});
+
+describe('reencryptSecrets', () => {
+  async function seedUnderOldKey() {
+    const { encryption } = await loadKeyring(OLD_KEY);
+
+    db.collections.connections = [
+      {
+        _id: 'conn-1',
+        password: encryption.encrypt('db-password'),
+        sshTunnel: { privateKey: encryption.encrypt('private-key') },
+      },
+    ];
+    db.collections.apikeys = [
+      { _id: 'key-1', key: encryption.encrypt('dbk_legacy') },
+      { _id: 'key-2', key: encryption.hashToken('dbk_hashed') },
+    ];
+
+    return encryption.getEncryptionKeyIds().active;
+  }
+
+  it('re-encrypts secrets written under a previous key', async () => {
+    const oldKeyId = await seedUnderOldKey();
+    const { encryption, rotation } = await loadKeyring(NEW_KEY, [OLD_KEY]);
+
+    const report = await rotation.reencryptSecrets({ dryRun: false });
+
+    expect(report.keys.previous).toEqual([oldKeyId]);
+    expect(report.failures).toEqual([]);
+    expect(report.collections).toEqual({
+      connections: { documents: 1, secrets: 2, reencrypted: 2, skipped: 0 },
+      apikeys: { documents: 2, secrets: 1, reencrypted: 1, skipped: 0 },
+    });
+
+    const [connection] = db.collections.connections;
+    for (const field of ['password', 'sshTunnel.privateKey']) {
+      expect(encryption.needsReencryption(db.getPath(connection, field))).toBe(false);
+    }
+    expect(encryption.decrypt(connection.password)).toBe('db-password');
+    expect(encryption.decrypt(connection.sshTunnel.privateKey)).toBe('private-key');
+    expect(encryption.decrypt(db.collections.apikeys[0].key)).toBe('dbk_legacy');
+    expect(encryption.isTokenHash(db.collections.apikeys[1].key)).toBe(true);
+
+    // The old key can now be dropped from the keyring
+    const next = await loadKeyring(NEW_KEY);
+    expect(next.encryption.decrypt(connection.password)).toBe('db-password');
+  });
+
+  it('reports without writing on a dry run', async () => {
+    await seedUnderOldKey();
+    const before = structuredClone(db.collections);
+    const { rotation } = await loadKeyring(NEW_KEY, [OLD_KEY]);
+
+    const report = await rotation.reencryptSecrets({ dryRun: true });
+
+    expect(report.collections.connections.reencrypted).toBe(2);
+    expect(db.collections).toEqual(before);
+  });
+
+  it('leaves secrets already under the active key alone', async () => {
+    const { encryption, rotation } = await loadKeyring(NEW_KEY);
+    const password = encryption.encrypt('db-password');
+    db.collections.connections = [{ _id: 'conn-1', password }];
+
+    const report = await rotation.reencryptSecrets({ dryRun: false });
+
+    expect(report.collections.connections).toEqual({ documents: 1, secrets: 1, reencrypted: 0, skipped: 0 });
+    expect(db.collections.connections[0].password).toBe(password);
+  });
+
+  it('reports secrets under an unknown key id and keeps them as they are', async () => {
+    const oldKeyId = await seedUnderOldKey();
+    const stored = db.collections.connections[0].password;
+    const { rotation } = await loadKeyring(NEW_KEY, [OTHER_KEY]);
+
+    const report = await rotation.reencryptSecrets({ dryRun: false });
+
+    expect(report.failures).toContainEqual({
+      collection: 'connections',
+      documentId: 'conn-1',
+      field: 'password',
+      error: `Failed to decrypt data: key ${oldKeyId} is not configured (add it to ENCRYPTION_PREVIOUS_KEYS)`,
+    });
+    expect(report.failures).toHaveLength(3);
+    expect(report.collections.connections.reencrypted).toBe(0);
+    expect(db.collections.connections[0].password).toBe(stored);
+  });
+
+  it('skips documents whose secrets changed while it ran', async () => {
+    await seedUnderOldKey();
+    const { encryption, rotation } = await loadKeyring(NEW_KEY, [OLD_KEY]);
+    const edited = encryption.encrypt('new-password');
+
+    const collection = db.connection.db.collection;
+    vi.spyOn(db.connection.db, 'collection').mockImplementation((name: string) => {
+      const wrapped = collection(name);
+      return {
+        ...wrapped,
+        find: () => {
+          const documents = wrapped.find();
+          // An admin saves the connection between the read and the write
+          if (name === 'connections') db.collections.connections[0].password = edited;
+          return documents;
+        },
+      };
+    });
+
+    const report = await rotation.reencryptSecrets({ dryRun: false });
+
+    expect(report.collections.connections).toMatchObject({ reencrypted: 0, skipped: 2 });
+    expect(db.collections.connections[0].password).toBe(edited);
+  });
+});
@@ -0,0 +1,113 @@
+import mongoose from 'mongoose';
+import { decrypt, encrypt, getEncryptionKeyIds, isTokenHash, needsReencryption } from './encryption';
+
+/**
+ * Encrypted fields per collection (dot paths)
+ * API keys are hashed; only records not used since hashing was introduced are still encrypted.
+ * Raw collections are used so model save hooks (ApiKey hashes on save) never run.
+ */
+const SECRET_FIELDS: Record<string, string[]> = {
+  connections: [
+    'password',
+    'ssl.ca',
+    'ssl.cert',
+    'ssl.key',
+    'sshTunnel.privateKey',
+    'sshTunnel.passphrase',
+    'sshTunnel.password',
+  ],
+  apikeys: ['key'],
+};
+
+export interface ReencryptionFailure {
+  collection: string;
+  documentId: string;
+  field: string;
+  error: string;
+}
+
+export interface ReencryptionReport {
+  dryRun: boolean;
+  keys: { active: string; previous: string[] };
+  collections: Record<string, { documents: number; secrets: number; reencrypted: number; skipped: number }>;
+  failures: ReencryptionFailure[];
+}
+
+function getPath(document: Record<string, any>, path: string): unknown {
+  return path.split('.').reduce<any>((value, key) => value?.[key], document);
+}
+
+/**
+ * Re-encrypt every stored secret under the active ENCRYPTION_KEY
+ * Each document is updated only if its secrets are unchanged since they were read,
+ * so edits made while this runs are never overwritten (they are counted as skipped).
+ * A dry run decrypts everything and reports what would change without writing.
+ *
+ * @param options.dryRun - Report only
+ * @returns Counts per collection and every secret that failed to decrypt
+ */
+export async function reencryptSecrets({ dryRun }: { dryRun: boolean }): Promise<ReencryptionReport> {
+  const db = mongoose.connection.db;
+  if (!db) {
+    throw new Error('Database is not connected');
+  }
+
+  const report: ReencryptionReport = {
+    dryRun,
+    keys: getEncryptionKeyIds(),
+    collections: {},
+    failures: [],
+  };
+
+  for (const [collectionName, fields] of Object.entries(SECRET_FIELDS)) {
+    const collection = db.collection(collectionName);
+    const counts = { documents: 0, secrets: 0, reencrypted: 0, skipped: 0 };
+    report.collections[collectionName] = counts;
+
+    const projection = Object.fromEntries(fields.map((field) => [field, 1]));
+    const cursor = collection.find({ $or: fields.map((field) => ({ [field]: { $type: 'string' } })) }, { projection });
+
+    for await (const document of cursor) {
+      counts.documents += 1;
+      const current: Record<string, string> = {};
+      const updates: Record<string, string> = {};
+
+      for (const field of fields) {
+        const value = getPath(document, field);
+        if (typeof value !== 'string' || !value || isTokenHash(value)) continue;
+
+        counts.secrets += 1;
+        current[field] = value;
+
+        try {
+          const plaintext = decrypt(value);
+          if (needsReencryption(value)) updates[field] = encrypt(plaintext);
+        } catch (error: any) {
+          report.failures.push({
+            collection: collectionName,
+            documentId: String(document._id),
+            field,
+            error: error.message,
+          });
+        }
+      }
+
+      const changed = Object.keys(updates).length;
+      if (changed === 0) continue;
+
+      if (dryRun) {
+        counts.reencrypted += changed;
+        continue;
+      }
+
+      const result = await collection.updateOne({ _id: document._id, ...current }, { $set: updates });
+      if (result.matchedCount === 1) {
+        counts.reencrypted += changed;
+      } else {
+        counts.skipped += changed;
+      }
+    }
+  }
+
+  return report;
+}
@@ -0,0 +1,244 @@
+import { describe, it, expect } from 'vitest';
+import { guardSql, classifyStatement, type SqlDialect } from '@/lib/sql-guard';
+
+const DIALECTS: SqlDialect[] = ['postgresql', 'mysql', 'mssql', 'oracle', 'sqlite', 'clickhouse', 'duckdb'];
+
+/**
+ * Statements every dialect must refuse, with part of the expected reason
+ */
+const REJECTED_EVERYWHERE: [string, string][] = [
+  ['', 'empty'],
+  ['INSERT INTO users (name) VALUES (1)', 'DML statements are not allowed'],
+  ['UPDATE users SET name = 1', 'DML statements are not allowed'],
+  ['DELETE FROM users', 'DML statements are not allowed'],
+  ['DROP TABLE users', 'DDL statements are not allowed'],
+  ['CREATE TABLE t (id int)', 'DDL statements are not allowed'],
+  ['TRUNCATE TABLE users', 'DDL statements are not allowed'],
+  ['GRANT SELECT ON users TO bob', 'DCL statements are not allowed'],
+  ['BEGIN', 'TCL statements are not allowed'],
+  ['SELECT 1; SELECT 2', 'Multiple statements'],
+  ['SELECT 1; DROP TABLE users', 'Multiple statements'],
+  ['WITH d AS (DELETE FROM users RETURNING *) SELECT * FROM d', 'Keyword "DELETE"'],
+  ['SELECT * INTO copy FROM users', 'Keyword "INTO"'],
+  ["SELECT 'unterminated", 'Unterminated'],
+  ['SELECT (1', 'Unbalanced parentheses'],
+  ['SELECT 1 /* unterminated', 'Unterminated comment'],
+];
+
+/**
+ * Dialect-specific cases: [dialect, sql, expected reason fragment or null when allowed]
+ */
+const DIALECT_CASES: [SqlDialect, string, string | null][] = [
+  // PostgreSQL
+  ['postgresql', 'SELECT pg_sleep(10)', 'Function "pg_sleep"'],
+  ['postgresql', 'SELECT pg_catalog.pg_sleep(10)', 'Function "pg_sleep"'],
+  ['postgresql', 'SELECT "pg_read_file"(\'/etc/passwd\')', 'Function "pg_read_file"'],
+  ['postgresql', 'SELECT pg_advisory_lock(1)', 'Function "pg_advisory_lock"'],
+  ['postgresql', 'SELECT * FROM users FOR UPDATE', 'Keyword "UPDATE"'],
+  ['postgresql', "SELECT $$ ; DROP TABLE users $$ AS text", null],
+  ['postgresql', "SELECT $a1$ ; pg_sleep(1) $a1$ AS text", null],
+  ['postgresql', "SELECT $a1$ -- $a1$, pg_read_file('/etc/passwd')", 'Function "pg_read_file"'],
+  ['postgresql', "SELECT 1 /* /* */ ' */ , pg_read_file('/etc/passwd') --'", 'Function "pg_read_file"'],
+  ['postgresql', 'SELECT 1 /* outer /* inner */ still comment */ AS one', null],
+  ['postgresql', "SELECT E'it\\'s' AS text", null],
+  ['postgresql', 'SELECT replace(name, \'a\', \'b\') FROM users', null],
+  ['postgresql', 'DO $$ BEGIN END $$', 'PROCEDURAL statements are not allowed'],
+
+  // MySQL (MariaDB is guarded as MySQL)
+  ['mysql', 'SELECT SLEEP(10)', 'Function "sleep"'],
+  ['mysql', 'SELECT BENCHMARK(1000000, MD5(1))', 'Function "benchmark"'],
+  ['mysql', "SELECT LOAD_FILE('/etc/passwd')", 'Function "load_file"'],
+  ['mysql', "SELECT * FROM users INTO OUTFILE '/tmp/x'", 'Keyword "INTO"'],
+  ['mysql', 'SELECT /*! SLEEP(10) */ 1', 'executable comments'],
+  ['mysql', 'SELECT /*M! SLEEP(10) */ 1', 'executable comments'],
+  ['mysql', 'SELECT /*M!100100 SLEEP(10) */ 1', 'executable comments'],
+  ['mysql', "SELECT 1 /*M! , LOAD_FILE('/etc/passwd') */", 'executable comments'],
+  ['mysql', "SELECT a FROM t /*M! INTO OUTFILE '/tmp/x' */", 'executable comments'],
+  ['mysql', 'SELECT a FROM t /*m! FOR UPDATE */', 'executable comments'],
+  ['mysql', 'SELECT 1 /* M! is only special right after the opening */ AS one', null],
+  ['mysql', 'SELECT 1 --1, SLEEP(100)\nFROM t', 'Function "sleep"'],
+  ['mysql', "SELECT a --1 INTO OUTFILE '/tmp/x'\nFROM t", 'Keyword "INTO"'],
+  ['mysql', 'SELECT 1 -- SLEEP(100)\nFROM t', null],
+  ['mysql', 'SELECT 1 --\tSLEEP(100)\nFROM t', null],
+  ['mysql', 'SELECT 1 FROM t --', null],
+  ['mysql', 'SELECT 1 # SLEEP(100)\nFROM t', null],
+  ['mysql', 'SELECT 1 /* /* */ AS one', null],
+  ['mysql', "SELECT 'it\\'s; DROP TABLE users' AS text", null],
+  ['mysql', 'SELECT `select`, "text" FROM `users`', null],
+  ['mysql', 'HANDLER users OPEN', 'PROCEDURAL statements are not allowed'],
+
+  // SQL Server
+  ['mssql', "EXEC xp_cmdshell 'dir'", 'PROCEDURAL statements are not allowed'],
+  ['mssql', "SELECT * FROM OPENROWSET('SQLNCLI', 'x', 'SELECT 1')", 'Function "openrowset"'],
+  ['mssql', "WAITFOR DELAY '00:00:10'", 'Only SELECT queries are allowed'],
+  ['mssql', "SELECT 1 WAITFOR DELAY '00:00:10'", 'Keyword "WAITFOR"'],
+  ['mssql', "SELECT 1 /* /* */ , xp_cmdshell('dir') */ AS one", null],
+  ['mssql', "SELECT 1 /* /* */ */ , OPENQUERY(srv, 'x')", 'Function "openquery"'],
+  ['mssql', 'SELECT [order], name FROM [dbo].[users]', null],
+  ['mssql', ';WITH t AS (SELECT 1 AS x) SELECT x FROM t', null],
+
+  // Oracle
+  ['oracle', 'SELECT DBMS_LOCK.SLEEP(10) FROM dual', 'Function "dbms_lock"'],
+  ['oracle', "SELECT SYS.DBMS_PIPE.RECEIVE_MESSAGE('x', 10) FROM dual", 'Function "dbms_pipe"'],
+  ['oracle', 'SELECT "DBMS_XMLGEN".GETXML(\'SELECT 1 FROM dual\') FROM dual', 'Function "dbms_xmlgen"'],
+  ['oracle', "SELECT UTL_HTTP.REQUEST('http://evil') FROM dual", 'Function "utl_http"'],
+  ['oracle', "SELECT HTTPURITYPE('http://evil').GETCLOB() FROM dual", 'Function "httpuritype"'],
+  ['oracle', 'SELECT * FROM users@remote_db', 'Database links are not allowed'],
+  ['oracle', 'SELECT * FROM "USERS"@"REMOTE"', 'Database links are not allowed'],
+  ['oracle', 'WITH FUNCTION f RETURN NUMBER IS BEGIN RETURN 1; END; SELECT f FROM dual', 'Multiple statements'],
+  ['oracle', 'SELECT * FROM users FOR UPDATE', 'Keyword "UPDATE"'],
+  ['oracle', "SELECT q'[it's; DROP TABLE users]' AS text FROM dual", null],
+  ['oracle', "SELECT Q'{ ' }', UTL_FILE.FREMOVE('d', 'f') FROM dual", 'Function "utl_file"'],
+  ['oracle', "SELECT nq'!it's!' AS text FROM dual", null],
+  ['oracle', "SELECT q'[unterminated' FROM dual", 'Unterminated'],
+  ['oracle', "SELECT 1 /* /* */ , UTL_FILE.FREMOVE('d', 'f') FROM dual", 'Function "utl_file"'],
+  ['oracle', 'SELECT /*+ FULL(u) */ u.name, ROWNUM FROM users u CONNECT BY PRIOR id = manager_id', null],
+  ['oracle', 'BEGIN DBMS_LOCK.SLEEP(10); END;', 'Multiple statements'],
+
+  // SQLite
+  ['sqlite', "SELECT load_extension('evil.so')", 'Function "load_extension"'],
+  ['sqlite', "ATTACH DATABASE '/tmp/x.db' AS x", 'Only SELECT queries are allowed'],
+  ['sqlite', 'PRAGMA table_info(users)', 'Only SELECT queries are allowed'],
+  ['sqlite', 'SELECT 1 /* /* */ AS one', null],
+
+  // ClickHouse
+  ['clickhouse', "SELECT * FROM url('http://evil', CSV, 'a String')", 'Function "url"'],
+  ['clickhouse', "SELECT * FROM s3('https://bucket/file.csv')", 'Function "s3"'],
+  ['clickhouse', "SELECT * FROM remote('host', db.t)", 'Function "remote"'],
+  ['clickhouse', 'SELECT * FROM t SETTINGS max_result_rows = 0', 'Keyword "SETTINGS"'],
+  ['clickhouse', 'SYSTEM SHUTDOWN', 'Only SELECT queries are allowed'],
+  ['clickhouse', "SELECT 1 /* /* */ , file('/etc/passwd') */ AS one", null],
+  ['clickhouse', 'SELECT format(\'{} {}\', a, b) FROM t', null],
+
+  // DuckDB
+  ['duckdb', "SELECT * FROM read_csv('/etc/passwd')", 'Function "read_csv"'],
+  ['duckdb', "SELECT getenv('HOME')", 'Function "getenv"'],
+  ['duckdb', "INSTALL httpfs", 'Only SELECT queries are allowed'],
+  ['duckdb', "SELECT $$ -- $$, read_csv('/etc/passwd')", 'Function "read_csv"'],
+];
+
+describe('guardSql', () => {
+  describe.each(DIALECTS)('%s', (dialect) => {
+    it('allows a plain SELECT and injects a row limit', () => {
+      const result = guardSql('SELECT id, name FROM users WHERE id > 10', dialect, { maxRows: 50 });
+
+      expect(result.allowed).toBe(true);
+      expect(result.statementClass).toBe('select');
+      expect(result.limitInjected).toBe(true);
+      expect(result.sql).toContain('50');
+    });
+
+    it('allows CTEs, joins and subqueries', () => {
+      const result = guardSql(
+        'WITH recent AS (SELECT * FROM orders) SELECT u.name, (SELECT COUNT(*) FROM recent r WHERE r.user_id = u.id) AS n FROM users u JOIN recent ON recent.user_id = u.id',
+        dialect
+      );
+
+      expect(result.allowed).toBe(true);
+    });
+
+    it('ignores keywords inside strings and comments', () => {
+      const result = guardSql("SELECT 'DROP TABLE users; DELETE' AS text -- DELETE FROM users\n", dialect);
+
+      expect(result.allowed).toBe(true);
+    });
+
+    it('drops trailing semicolons', () => {
+      const result = guardSql('SELECT 1 AS one;;', dialect);
+
+      expect(result.allowed).toBe(true);
+      expect(result.sql).not.toContain(';');
+    });
+
+    it.each(REJECTED_EVERYWHERE)('rejects %j', (sql, reason) => {
+      const result = guardSql(sql, dialect);
+
+      expect(result.allowed).toBe(false);
+      expect(result.reason).toContain(reason);
+    });
+  });
+
+  it.each(DIALECT_CASES)('%s: %j', (dialect, sql, reason) => {
+    const result = guardSql(sql, dialect);
+
+    if (reason === null) {
+      expect(result.reason).toBeUndefined();
+      expect(result.allowed).toBe(true);
+    } else {
+      expect(result.allowed).toBe(false);
+      expect(result.reason).toContain(reason);
+    }
+  });
+
+  describe('row limit', () => {
+    it('keeps an existing LIMIT or FETCH', () => {
+      expect(guardSql('SELECT * FROM t LIMIT 5', 'postgresql').sql).toBe('SELECT * FROM t LIMIT 5');
+      expect(guardSql('SELECT * FROM t FETCH FIRST 5 ROWS ONLY', 'postgresql').limitInjected).toBe(false);
+    });
+
+    it('appends LIMIT for postgresql and mysql', () => {
+      expect(guardSql('SELECT * FROM t', 'postgresql', { maxRows: 10 }).sql).toBe('SELECT * FROM t LIMIT 10');
+      expect(guardSql('SELECT * FROM t', 'mysql', { maxRows: 10 }).sql).toBe('SELECT * FROM t LIMIT 10');
+    });
+
+    it('keeps the limit outside a trailing comment', () => {
+      expect(guardSql('SELECT * FROM t -- recent rows', 'postgresql', { maxRows: 10 }).sql).toBe(
+        'SELECT * FROM t LIMIT 10'
+      );
+    });
+
+    it('only limits the outer query', () => {
+      expect(guardSql('SELECT * FROM (SELECT * FROM t LIMIT 3) s', 'postgresql', { maxRows: 10 }).sql).toBe(
+        'SELECT * FROM (SELECT * FROM t LIMIT 3) s LIMIT 10'
+      );
+    });
+
+    it('adds TOP for mssql', () => {
+      expect(guardSql('SELECT DISTINCT name FROM t', 'mssql', { maxRows: 10 }).sql).toBe(
+        'SELECT DISTINCT TOP (10) name FROM t'
+      );
+      expect(guardSql('SELECT TOP 5 name FROM t', 'mssql').limitInjected).toBe(false);
+      expect(guardSql('SELECT a FROM t UNION SELECT b FROM u', 'mssql').limitInjected).toBe(false);
+    });
+
+    it('appends FETCH FIRST for oracle', () => {
+      expect(guardSql('SELECT * FROM t ORDER BY id', 'oracle', { maxRows: 10 }).sql).toBe(
+        'SELECT * FROM t ORDER BY id FETCH FIRST 10 ROWS ONLY'
+      );
+      expect(guardSql('SELECT * FROM t WHERE ROWNUM <= 5', 'oracle', { maxRows: 10 }).sql).toBe(
+        'SELECT * FROM t WHERE ROWNUM <= 5 FETCH FIRST 10 ROWS ONLY'
+      );
+      expect(guardSql('SELECT * FROM t OFFSET 5 ROWS FETCH NEXT 5 ROWS ONLY', 'oracle').limitInjected).toBe(false);
+      expect(
+        guardSql('SELECT * FROM (SELECT * FROM t FETCH FIRST 3 ROWS ONLY) s', 'oracle', { maxRows: 10 }).sql
+      ).toBe('SELECT * FROM (SELECT * FROM t FETCH FIRST 3 ROWS ONLY) s FETCH FIRST 10 ROWS ONLY');
+    });
+
+    it('puts LIMIT before a ClickHouse FORMAT clause', () => {
+      expect(guardSql('SELECT * FROM t FORMAT JSON', 'clickhouse', { maxRows: 10 }).sql).toBe(
+        'SELECT * FROM t LIMIT 10 FORMAT JSON'
+      );
+      expect(guardSql('SELECT * FROM t LIMIT 5 FORMAT JSON', 'clickhouse').limitInjected).toBe(false);
+      expect(guardSql('SELECT format FROM t', 'clickhouse', { maxRows: 10 }).sql).toBe(
+        'SELECT format FROM t LIMIT 10'
+      );
+    });
+  });
+});
+
+describe('classifyStatement', () => {
+  it.each([
+    ['SELECT 1', 'select'],
+    ['(SELECT 1)', 'select'],
+    ['WITH t AS (SELECT 1) SELECT * FROM t', 'select'],
+    ['INSERT INTO t VALUES (1)', 'dml'],
+    ['ALTER TABLE t ADD x int', 'ddl'],
+    ['REVOKE ALL ON t FROM bob', 'dcl'],
+    ['COMMIT', 'tcl'],
+    ['CALL refresh()', 'procedural'],
+    ['EXPLAIN SELECT 1', 'unknown'],
+    ["SELECT 'unterminated", 'unknown'],
+  ])('%j is %s', (sql, statementClass) => {
+    expect(classifyStatement(sql, 'postgresql')).toBe(statementClass);
+  });
+});
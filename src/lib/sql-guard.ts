@@ -0,0 +1,563 @@
+import { DATABASE_TYPES } from '@/lib/validation';
+
+/**
+ * SQL dialects the guard understands (every SQL engine in DATABASE_TYPES)
+ * MariaDB is guarded as MySQL
+ */
+export type SqlDialect = Exclude<(typeof DATABASE_TYPES)[number], 'mongodb' | 'mariadb'>;
+
+/**
+ * Broad statement classes
+ */
+export type StatementClass = 'select' | 'dml' | 'ddl' | 'dcl' | 'tcl' | 'procedural' | 'unknown';
+
+/**
+ * Outcome of checking a query
+ * When allowed, `sql` is the statement to run (with a row limit injected if it had none)
+ */
+export interface SqlGuardResult {
+  allowed: boolean;
+  sql: string;
+  statementClass: StatementClass;
+  limitInjected: boolean;
+  reason?: string;
+}
+
+/**
+ * Options for the guard
+ */
+export interface SqlGuardOptions {
+  maxRows?: number;
+}
+
+interface Token {
+  type: 'word' | 'string' | 'ident' | 'number' | 'symbol';
+  value: string;
+  depth: number;
+  start: number;
+  end: number;
+}
+
+/**
+ * Leading keywords and the class of statement they start
+ */
+const STATEMENT_CLASSES: Record<string, StatementClass> = {
+  SELECT: 'select',
+  WITH: 'select',
+  INSERT: 'dml',
+  UPDATE: 'dml',
+  DELETE: 'dml',
+  MERGE: 'dml',
+  REPLACE: 'dml',
+  UPSERT: 'dml',
+  COPY: 'dml',
+  LOAD: 'dml',
+  CREATE: 'ddl',
+  ALTER: 'ddl',
+  DROP: 'ddl',
+  TRUNCATE: 'ddl',
+  RENAME: 'ddl',
+  COMMENT: 'ddl',
+  VACUUM: 'ddl',
+  REINDEX: 'ddl',
+  CLUSTER: 'ddl',
+  GRANT: 'dcl',
+  REVOKE: 'dcl',
+  DENY: 'dcl',
+  BEGIN: 'tcl',
+  START: 'tcl',
+  COMMIT: 'tcl',
+  ROLLBACK: 'tcl',
+  SAVEPOINT: 'tcl',
+  SET: 'tcl',
+  LOCK: 'tcl',
+  EXEC: 'procedural',
+  EXECUTE: 'procedural',
+  CALL: 'procedural',
+  DO: 'procedural',
+  DECLARE: 'procedural',
+  PREPARE: 'procedural',
+  HANDLER: 'procedural',
+};
+
+/**
+ * Keywords that may not appear anywhere in a read-only query
+ * (UPDATE also catches SELECT ... FOR UPDATE, which takes row locks;
+ * the same word followed by "(" is a function call, e.g. REPLACE())
+ */
+const FORBIDDEN_KEYWORDS = [
+  'INSERT', 'UPDATE', 'DELETE', 'MERGE', 'UPSERT', 'REPLACE',
+  'CREATE', 'ALTER', 'DROP', 'TRUNCATE', 'RENAME',
+  'GRANT', 'REVOKE', 'DENY',
+  'EXEC', 'EXECUTE', 'CALL', 'COPY', 'LOAD', 'LOCK', 'INTO',
+  'COMMIT', 'ROLLBACK', 'SAVEPOINT', 'DECLARE', 'PREPARE',
+];
+
+/**
+ * Dangerous functions and procedures per dialect
+ * Entries ending in "*" match by prefix
+ */
+const DANGEROUS_FUNCTIONS: Record<SqlDialect, string[]> = {
+  postgresql: [
+    'PG_SLEEP', 'PG_SLEEP_FOR', 'PG_SLEEP_UNTIL',
+    'PG_READ_FILE', 'PG_READ_BINARY_FILE', 'PG_LS_DIR', 'PG_STAT_FILE',
+    'LO_IMPORT', 'LO_EXPORT', 'LO_UNLINK',
+    'DBLINK', 'DBLINK_EXEC', 'DBLINK_CONNECT',
+    'PG_TERMINATE_BACKEND', 'PG_CANCEL_BACKEND', 'PG_RELOAD_CONF', 'PG_ROTATE_LOGFILE',
+    'SET_CONFIG', 'NEXTVAL', 'SETVAL',
+    'PG_ADVISORY_*', 'PG_TRY_ADVISORY_*',
+    'QUERY_TO_XML', 'QUERY_TO_XML_AND_XMLSCHEMA', 'QUERY_TO_XMLSCHEMA',
+  ],
+  mysql: [
+    'SLEEP', 'BENCHMARK', 'LOAD_FILE',
+    'GET_LOCK', 'RELEASE_LOCK', 'RELEASE_ALL_LOCKS',
+    'MASTER_POS_WAIT', 'SOURCE_POS_WAIT',
+    'SYS_EXEC', 'SYS_EVAL',
+  ],
+  mssql: [
+    'XP_*', 'SP_*',
+    'OPENROWSET', 'OPENDATASOURCE', 'OPENQUERY', 'OPENXML',
+  ],
+  oracle: [
+    'DBMS_*', 'UTL_*', 'OWA_*',
+    'HTTPURITYPE', 'DBURITYPE', 'XDBURITYPE',
+  ],
+  sqlite: [
+    'LOAD_EXTENSION', 'READFILE', 'WRITEFILE', 'EDIT', 'FTS3_TOKENIZER',
+  ],
+  clickhouse: [
+    'URL', 'URLCLUSTER', 'FILE', 'FILECLUSTER', 'INPUT', 'EXECUTABLE*',
+    'REMOTE', 'REMOTESECURE', 'CLUSTER', 'CLUSTERALLREPLICAS',
+    'S3*', 'GCS', 'AZUREBLOBSTORAGE*', 'HDFS*', 'DELTALAKE', 'HUDI', 'ICEBERG*',
+    'MYSQL', 'POSTGRESQL', 'MONGODB', 'REDIS', 'SQLITE', 'JDBC', 'ODBC',
+    'SLEEP', 'SLEEPEACHROW',
+  ],
+  duckdb: [
+    'READ_CSV*', 'READ_PARQUET', 'PARQUET_*', 'READ_JSON*', 'READ_NDJSON*',
+    'READ_TEXT', 'READ_BLOB', 'GLOB', 'SNIFF_CSV',
+    'SQLITE_SCAN', 'POSTGRES_*', 'MYSQL_*', 'DELTA_SCAN', 'ICEBERG_*',
+    'GETENV',
+  ],
+};
+
+/**
+ * Keywords that are dangerous on their own in a dialect
+ */
+const DANGEROUS_KEYWORDS: Record<SqlDialect, string[]> = {
+  postgresql: [],
+  mysql: ['OUTFILE', 'DUMPFILE'],
+  mssql: ['WAITFOR', 'SHUTDOWN', 'BULK', 'RECONFIGURE'],
+  oracle: ['FUNCTION', 'PROCEDURE'], // WITH FUNCTION declares PL/SQL inline
+  clickhouse: ['SETTINGS', 'SYSTEM', 'KILL', 'OPTIMIZE', 'ATTACH', 'DETACH', 'EXCHANGE', 'OUTFILE'],
+  sqlite: ['ATTACH', 'DETACH', 'PRAGMA'],
+  duckdb: ['ATTACH', 'DETACH', 'INSTALL', 'EXPORT', 'IMPORT', 'PRAGMA'],
+};
+
+/**
+ * Dialects whose block comments nest: every opening inside a comment needs its own close
+ */
+const NESTED_COMMENT_DIALECTS: SqlDialect[] = ['postgresql', 'duckdb', 'mssql', 'clickhouse'];
+
+/**
+ * Index just past the block comment starting at `start`
+ */
+function skipBlockComment(sql: string, start: number, nested: boolean): number {
+  let depth = 0;
+  let i = start;
+
+  while (i < sql.length) {
+    if (sql[i] === '/' && sql[i + 1] === '*' && (nested || depth === 0)) {
+      depth++;
+      i += 2;
+    } else if (sql[i] === '*' && sql[i + 1] === '/') {
+      depth--;
+      i += 2;
+      if (depth === 0) return i;
+    } else {
+      i++;
+    }
+  }
+
+  throw new Error('Unterminated comment');
+}
+
+/**
+ * Split SQL into tokens, skipping comments and tracking parenthesis depth
+ * Throws on constructs the guard refuses to reason about
+ */
+function tokenize(sql: string, dialect: SqlDialect): Token[] {
+  const tokens: Token[] = [];
+  let depth = 0;
+  let i = 0;
+
+  const push = (type: Token['type'], start: number, end: number) => {
+    tokens.push({ type, value: sql.slice(start, end), depth, start, end });
+  };
+
+  // Read until an unescaped closing quote (doubled quotes escape)
+  const readQuoted = (start: number, quote: string, backslashEscapes: boolean) => {
+    let j = start + 1;
+    while (j < sql.length) {
+      if (backslashEscapes && sql[j] === '\\') {
+        j += 2;
+        continue;
+      }
+      if (sql[j] === quote) {
+        if (sql[j + 1] === quote) {
+          j += 2;
+          continue;
+        }
+        return j + 1;
+      }
+      j++;
+    }
+    throw new Error('Unterminated string or identifier');
+  };
+
+  while (i < sql.length) {
+    const ch = sql[i];
+    const next = sql[i + 1];
+
+    // Whitespace
+    if (/\s/.test(ch)) {
+      i++;
+      continue;
+    }
+
+    // Line comments (MySQL only reads "--" as a comment when whitespace or the end follows;
+    // "--1" is minus minus one)
+    const dashComment =
+      ch === '-' && next === '-' && (dialect !== 'mysql' || i + 2 >= sql.length || /\s/.test(sql[i + 2]));
+    if (dashComment || ((dialect === 'mysql' || dialect === 'clickhouse') && ch === '#')) {
+      const end = sql.indexOf('\n', i);
+      i = end === -1 ? sql.length : end + 1;
+      continue;
+    }
+
+    // Block comments (MySQL executes /*! ... */ and MariaDB also /*M! ... */, so those are refused)
+    if (ch === '/' && next === '*') {
+      if (dialect === 'mysql' && (sql[i + 2] === '!' || (sql[i + 2]?.toUpperCase() === 'M' && sql[i + 3] === '!'))) {
+        throw new Error('MySQL executable comments (/*! ... */, /*M! ... */) are not allowed');
+      }
+      i = skipBlockComment(sql, i, NESTED_COMMENT_DIALECTS.includes(dialect));
+      continue;
+    }
+
+    // Dollar-quoted strings: $$...$$ or $tag$...$tag$
+    if ((dialect === 'postgresql' || dialect === 'duckdb') && ch === '$') {
+      const tagMatch = /^\$(?:[A-Za-z_][A-Za-z0-9_]*)?\$/.exec(sql.slice(i));
+      if (tagMatch) {
+        const tag = tagMatch[0];
+        const end = sql.indexOf(tag, i + tag.length);
+        if (end === -1) throw new Error('Unterminated dollar-quoted string');
+        push('string', i, end + tag.length);
+        i = end + tag.length;
+        continue;
+      }
+    }
+
+    // Oracle alternative quoting: q'[...]', q'{...}', q'<...>', q'(...)' or q'!...!' with any
+    // other character (also nq'...'); quotes inside need no escaping
+    if (dialect === 'oracle' && /^[Nn]?[Qq]'/.test(sql.slice(i, i + 3))) {
+      const quoteAt = sql.indexOf("'", i);
+      const open = sql[quoteAt + 1];
+      const close = ({ '[': ']', '{': '}', '<': '>', '(': ')' } as Record<string, string>)[open] ?? open;
+      const end = open === undefined ? -1 : sql.indexOf(`${close}'`, quoteAt + 2);
+      if (end === -1) throw new Error('Unterminated string or identifier');
+      push('string', i, end + 2);
+      i = end + 2;
+      continue;
+    }
+
+    // String literals (with E'' / N'' prefixes)
+    if (ch === "'" || ((ch === 'E' || ch === 'e' || ch === 'N' || ch === 'n') && next === "'")) {
+      const quoteAt = ch === "'" ? i : i + 1;
+      const backslash =
+        dialect === 'mysql' || dialect === 'clickhouse' || (dialect === 'postgresql' && quoteAt !== i);
+      const end = readQuoted(quoteAt, "'", backslash);
+      push('string', i, end);
+      i = end;
+      continue;
+    }
+
+    // Double quotes: string in MySQL, identifier elsewhere
+    if (ch === '"') {
+      const end = readQuoted(i, '"', dialect === 'mysql' || dialect === 'clickhouse');
+      push(dialect === 'mysql' ? 'string' : 'ident', i, end);
+      i = end;
+      continue;
+    }
+
+    // Backtick identifiers (MySQL, SQLite, ClickHouse)
+    if (ch === '`' && (dialect === 'mysql' || dialect === 'sqlite' || dialect === 'clickhouse')) {
+      const end = readQuoted(i, '`', dialect === 'clickhouse');
+      push('ident', i, end);
+      i = end;
+      continue;
+    }
+
+    // Bracket identifiers (SQL Server, SQLite)
+    if (ch === '[' && (dialect === 'mssql' || dialect === 'sqlite')) {
+      const end = sql.indexOf(']', i);
+      if (end === -1) throw new Error('Unterminated identifier');
+      push('ident', i, end + 1);
+      i = end + 1;
+      continue;
+    }
+
+    // Words (keywords, identifiers, functions; @ / # for SQL Server variables and temp tables)
+    if (/[A-Za-z_@#]/.test(ch)) {
+      let j = i + 1;
+      while (j < sql.length && /[A-Za-z0-9_$@#]/.test(sql[j])) j++;
+      push('word', i, j);
+      i = j;
+      continue;
+    }
+
+    // Numbers
+    if (/[0-9]/.test(ch)) {
+      let j = i + 1;
+      while (j < sql.length && /[0-9.eE]/.test(sql[j])) j++;
+      push('number', i, j);
+      i = j;
+      continue;
+    }
+
+    // Symbols
+    if (ch === '(') {
+      push('symbol', i, i + 1);
+      depth++;
+    } else if (ch === ')') {
+      depth--;
+      if (depth < 0) throw new Error('Unbalanced parentheses');
+      push('symbol', i, i + 1);
+    } else {
+      push('symbol', i, i + 1);
+    }
+    i++;
+  }
+
+  if (depth !== 0) {
+    throw new Error('Unbalanced parentheses');
+  }
+
+  return tokens;
+}
+
+/**
+ * Upper-cased word value of a token, or empty string
+ */
+function word(token?: Token): string {
+  return token?.type === 'word' ? token.value.toUpperCase() : '';
+}
+
+/**
+ * Upper-cased name of a word or quoted identifier token (for function lookups)
+ */
+function callableName(token: Token): string {
+  if (token.type === 'ident') {
+    return token.value.slice(1, -1).toUpperCase();
+  }
+  return word(token);
+}
+
+/**
+ * Class of the statement started by the first keyword (leading parentheses skipped)
+ */
+function leadingClass(tokens: Token[]): StatementClass {
+  const first = tokens.find((token) => token.type === 'word');
+  return STATEMENT_CLASSES[word(first)] || 'unknown';
+}
+
+/**
+ * Check a name against a dialect list (supports trailing "*" prefixes)
+ */
+function matchesList(name: string, list: string[]): boolean {
+  return list.some((entry) =>
+    entry.endsWith('*') ? name.startsWith(entry.slice(0, -1)) : name === entry
+  );
+}
+
+/**
+ * Classify the first statement of a query by its leading keyword
+ *
+ * @param sql - Query text
+ * @param dialect - SQL dialect
+ * @returns Statement class ('unknown' if it cannot be parsed)
+ */
+export function classifyStatement(sql: string, dialect: SqlDialect): StatementClass {
+  try {
+    return leadingClass(tokenize(sql, dialect));
+  } catch {
+    return 'unknown';
+  }
+}
+
+/**
+ * Inject a row limit into a single SELECT statement when it has none
+ * `sql` is the statement text starting at the first token
+ * - postgresql/mysql: append LIMIT (unless a top-level LIMIT or FETCH exists)
+ * - clickhouse: the same, but before a trailing FORMAT clause
+ * - mssql: add TOP (n) to the top-level SELECT (unless TOP or OFFSET/FETCH exists)
+ * - oracle: append FETCH FIRST n ROWS ONLY (12c and later; a ROWNUM filter can stay alongside it)
+ */
+function injectLimit(
+  sql: string,
+  tokens: Token[],
+  dialect: SqlDialect,
+  maxRows: number
+): { sql: string; injected: boolean } {
+  const topLevel = tokens.filter((token) => token.depth === 0);
+  const topWords = topLevel.map(word);
+
+  if (dialect === 'mssql') {
+    if (topWords.includes('TOP') || topWords.includes('OFFSET') || topWords.includes('FETCH')) {
+      return { sql, injected: false };
+    }
+
+    // TOP on one branch of a set operation would not limit the whole result
+    if (topWords.some((w) => ['UNION', 'EXCEPT', 'INTERSECT'].includes(w))) {
+      return { sql, injected: false };
+    }
+
+    const selectIndex = topLevel.findIndex((token) => word(token) === 'SELECT');
+    if (selectIndex === -1) {
+      return { sql, injected: false };
+    }
+
+    // TOP goes after SELECT [ALL | DISTINCT]
+    let anchor = topLevel[selectIndex];
+    const modifier = word(topLevel[selectIndex + 1]);
+    if (modifier === 'DISTINCT' || modifier === 'ALL') {
+      anchor = topLevel[selectIndex + 1];
+    }
+
+    const offset = anchor.end - tokens[0].start;
+    return {
+      sql: `${sql.slice(0, offset)} TOP (${maxRows})${sql.slice(offset)}`,
+      injected: true,
+    };
+  }
+
+  if (topWords.includes('LIMIT') || topWords.includes('FETCH')) {
+    return { sql, injected: false };
+  }
+
+  if (dialect === 'oracle') {
+    return { sql: `${sql} FETCH FIRST ${maxRows} ROWS ONLY`, injected: true };
+  }
+
+  // ClickHouse output format (FORMAT JSON) ends the statement; LIMIT must come before it
+  const formatToken = tokens[tokens.length - 2];
+  if (
+    dialect === 'clickhouse' &&
+    word(formatToken) === 'FORMAT' &&
+    formatToken.depth === 0 &&
+    tokens[tokens.length - 1].type === 'word'
+  ) {
+    const offset = formatToken.start - tokens[0].start;
+    return {
+      sql: `${sql.slice(0, offset).trimEnd()} LIMIT ${maxRows} ${sql.slice(offset)}`,
+      injected: true,
+    };
+  }
+
+  return { sql: `${sql} LIMIT ${maxRows}`, injected: true };
+}
+
+/**
+ * Check that a query is a single read-only SELECT and make it safe to run
+ * Rejects DDL/DML, multiple statements and dangerous functions, injects a row limit when missing
+ *
+ * @param sql - Query text (typically LLM-generated)
+ * @param dialect - SQL dialect of the target database
+ * @param options - maxRows for the injected limit
+ * @returns Guard result with the statement to run or the reason it was blocked
+ */
+export function guardSql(
+  sql: string,
+  dialect: SqlDialect,
+  options: SqlGuardOptions = {}
+): SqlGuardResult {
+  const maxRows = options.maxRows ?? 1000;
+  const blocked = (reason: string, statementClass: StatementClass = 'unknown'): SqlGuardResult => ({
+    allowed: false,
+    sql,
+    statementClass,
+    limitInjected: false,
+    reason,
+  });
+
+  let tokens: Token[];
+  try {
+    tokens = tokenize(sql, dialect);
+  } catch (error: any) {
+    return blocked(error.message);
+  }
+
+  // Drop leading (T-SQL ";WITH") and trailing semicolons; any other semicolon separates statements
+  while (tokens.length > 0 && tokens[0].value === ';') {
+    tokens.shift();
+  }
+  while (tokens.length > 0 && tokens[tokens.length - 1].value === ';') {
+    tokens.pop();
+  }
+
+  if (tokens.length === 0) {
+    return blocked('Query is empty');
+  }
+
+  const statementClass = leadingClass(tokens);
+
+  if (tokens.some((token) => token.type === 'symbol' && token.value === ';')) {
+    return blocked('Multiple statements are not allowed', statementClass);
+  }
+
+  if (statementClass !== 'select') {
+    const leading = (tokens.find((token) => token.type === 'word') || tokens[0]).value.toUpperCase();
+    return blocked(
+      statementClass === 'unknown'
+        ? `Only SELECT queries are allowed (found "${leading}")`
+        : `${statementClass.toUpperCase()} statements are not allowed (found "${leading}")`,
+      statementClass
+    );
+  }
+
+  for (let i = 0; i < tokens.length; i++) {
+    const isCall = tokens[i + 1]?.value === '(';
+    const name = word(tokens[i]);
+
+    if (name && !isCall && FORBIDDEN_KEYWORDS.includes(name)) {
+      return blocked(`Keyword "${name}" is not allowed in read-only queries`, statementClass);
+    }
+
+    if (name && DANGEROUS_KEYWORDS[dialect].includes(name)) {
+      return blocked(`Keyword "${name}" is not allowed`, statementClass);
+    }
+
+    // Oracle database links (table@link) run the query on another server
+    if (dialect === 'oracle' && tokens[i].type === 'word' && tokens[i].value.includes('@')) {
+      return blocked('Database links are not allowed', statementClass);
+    }
+
+    // Schema-qualified calls (pg_catalog.pg_sleep) are matched on the function part,
+    // quoted names ("pg_sleep") on their unquoted value, SQL Server procedures by name alone
+    // and Oracle packages (dbms_lock.sleep) by the package name
+    const callable = callableName(tokens[i]);
+    const isProcedure = dialect === 'mssql' && /^(XP|SP)_/.test(callable);
+    const isPackage = dialect === 'oracle' && tokens[i + 1]?.value === '.';
+    if (callable && (isCall || isProcedure || isPackage) && matchesList(callable, DANGEROUS_FUNCTIONS[dialect])) {
+      return blocked(`Function "${callable.toLowerCase()}" is not allowed`, statementClass);
+    }
+  }
+
+  const statementSql = sql.slice(tokens[0].start, tokens[tokens.length - 1].end);
+  const limited = injectLimit(statementSql, tokens, dialect, maxRows);
+
+  return {
+    allowed: true,
+    sql: limited.sql,
+    statementClass,
+    limitInjected: limited.injected,
+  };
+}
@@ -0,0 +1,158 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { encrypt } from '@/lib/encryption';
+import type { IConnection } from '@/models/Connection';
+import { acquireTunnel, encryptSshTunnelSettings, hostKeyFingerprint, testTunnel } from '@/lib/ssh-tunnel';
+
+/**
+ * Public key blob of an ed25519 key and its fingerprint as printed by ssh-keygen -lf
+ */
+const HOST_KEY = Buffer.from(
+  'AAAAC3NzaC1lZDI1NTE5AAAAIHpE9imsCex1PdAcNdT3klko4QE6fn3etAGjFzsqZxiZ',
+  'base64'
+);
+const HOST_KEY_FINGERPRINT = 'SHA256:H1fG9jQueksiPjxLzGgOhi5AIYTALgFXxJp44cIpH0E';
+const OTHER_FINGERPRINT = 'SHA256:AAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAA';
+
+/**
+ * Fake ssh2 client: the bastion presents HOST_KEY and the handshake only
+ * completes when the host verifier accepts it
+ */
+const ssh = vi.hoisted(() => ({ connects: 0, hostKey: Buffer.alloc(0) }));
+
+vi.mock('ssh2', async () => {
+  const { EventEmitter } = await import('events');
+
+  class Client extends EventEmitter {
+    connect(config: { hostVerifier: (key: Buffer) => boolean }) {
+      ssh.connects += 1;
+      setImmediate(() => {
+        if (config.hostVerifier(ssh.hostKey)) {
+          this.emit('ready');
+        } else {
+          this.emit('error', new Error('Host denied (verification failed)'));
+        }
+      });
+    }
+    forwardOut(_srcIp: string, _srcPort: number, _dstIp: string, _dstPort: number, callback: any) {
+      callback(undefined, { end: () => undefined });
+    }
+    end() {}
+  }
+
+  return { Client };
+});
+
+const Connection = vi.hoisted(() => ({ updateOne: vi.fn(async () => ({ modifiedCount: 1 })) }));
+
+vi.mock('@/models/Connection', () => ({ default: Connection }));
+
+const bastion = { host: 'bastion.internal', port: 22, username: 'tunnel', password: 'pw' };
+const target = { host: 'db.internal', port: 5432 };
+
+beforeEach(() => {
+  ssh.connects = 0;
+  ssh.hostKey = HOST_KEY;
+  Connection.updateOne.mockClear();
+});
+
+describe('hostKeyFingerprint', () => {
+  it('matches ssh-keygen', () => {
+    expect(hostKeyFingerprint(HOST_KEY)).toBe(HOST_KEY_FINGERPRINT);
+  });
+});
+
+describe('testTunnel', () => {
+  it('reports the host key of a bastion without a pinned key', async () => {
+    expect(await testTunnel(bastion, target)).toBe(HOST_KEY_FINGERPRINT);
+  });
+
+  it('accepts the pinned host key', async () => {
+    expect(await testTunnel({ ...bastion, hostKeyFingerprint: HOST_KEY_FINGERPRINT }, target)).toBe(
+      HOST_KEY_FINGERPRINT
+    );
+  });
+
+  it('refuses any other host key as a tunnel error', async () => {
+    const error = await testTunnel({ ...bastion, hostKeyFingerprint: OTHER_FINGERPRINT }, target).catch(
+      (caught) => caught
+    );
+
+    expect(error.code).toBe('ESSHTUNNEL');
+    expect(error.message).toContain(`host key mismatch (expected ${OTHER_FINGERPRINT}, got ${HOST_KEY_FINGERPRINT})`);
+  });
+});
+
+describe('acquireTunnel', () => {
+  const savedConnection = (hostKeyFingerprint?: string) =>
+    ({
+      _id: { toString: () => `conn-${Math.random()}` },
+      updatedAt: new Date('2026-01-01'),
+      host: target.host,
+      port: target.port,
+      sshTunnel: {
+        enabled: true,
+        host: bastion.host,
+        port: bastion.port,
+        username: bastion.username,
+        authMethod: 'password',
+        password: encrypt(bastion.password),
+        hostKeyFingerprint,
+      },
+    }) as unknown as IConnection;
+
+  it('pins the host key on first use without touching updatedAt', async () => {
+    const connection = savedConnection();
+    const lease = await acquireTunnel(connection, () => undefined);
+    lease.release();
+
+    await vi.waitFor(() => expect(Connection.updateOne).toHaveBeenCalled());
+    expect(Connection.updateOne).toHaveBeenCalledWith(
+      { _id: connection._id, 'sshTunnel.hostKeyFingerprint': { $exists: false } },
+      { $set: { 'sshTunnel.hostKeyFingerprint': HOST_KEY_FINGERPRINT } },
+      { timestamps: false }
+    );
+  });
+
+  it('verifies against the pinned key afterwards', async () => {
+    const lease = await acquireTunnel(savedConnection(HOST_KEY_FINGERPRINT), () => undefined);
+    lease.release();
+    expect(Connection.updateOne).not.toHaveBeenCalled();
+
+    await expect(acquireTunnel(savedConnection(OTHER_FINGERPRINT), () => undefined)).rejects.toThrow(
+      'host key mismatch'
+    );
+  });
+});
+
+describe('encryptSshTunnelSettings', () => {
+  const existing = encryptSshTunnelSettings({
+    ...bastion,
+    enabled: true,
+    authMethod: 'password',
+    hostKeyFingerprint: HOST_KEY_FINGERPRINT,
+  });
+
+  it('keeps the pinned key when the fingerprint is omitted', () => {
+    const updated = encryptSshTunnelSettings({ ...bastion, enabled: true, authMethod: 'password' }, existing);
+
+    expect(updated.hostKeyFingerprint).toBe(HOST_KEY_FINGERPRINT);
+  });
+
+  it('drops the pinned key when the bastion changes', () => {
+    const updated = encryptSshTunnelSettings(
+      { ...bastion, host: 'bastion2.internal', enabled: true, authMethod: 'password' },
+      existing
+    );
+
+    expect(updated.hostKeyFingerprint).toBeUndefined();
+  });
+
+  it('clears the pinned key when a blank fingerprint is sent', () => {
+    const updated = encryptSshTunnelSettings(
+      { ...bastion, enabled: true, authMethod: 'password', hostKeyFingerprint: ' ' },
+      existing
+    );
+
+    expect(updated.hostKeyFingerprint).toBeUndefined();
+  });
+});
@@ -0,0 +1,390 @@
+import crypto from 'crypto';
+import net from 'net';
+import { Client } from 'ssh2';
+import { encrypt, decrypt } from '@/lib/encryption';
+import Connection, { IConnection, IConnectionOptions, IConnectionSshTunnel } from '@/models/Connection';
+
+/**
+ * SSH tunnel timeouts
+ * - SSH_TUNNEL_READY_TIMEOUT_MS: how long the SSH handshake may take
+ */
+const SSH_TUNNEL_READY_TIMEOUT_MS = parseInt(process.env.SSH_TUNNEL_READY_TIMEOUT_MS || '10000');
+const SSH_KEEPALIVE_INTERVAL_MS = 15000;
+
+/**
+ * Plaintext SSH settings, as entered in the form or decrypted from a saved connection
+ */
+export interface SshTunnelSettings {
+  host: string;
+  port: number;
+  username: string;
+  privateKey?: string;
+  passphrase?: string;
+  password?: string;
+  hostKeyFingerprint?: string; // Expected bastion host key; unset = accept and report the presented one
+}
+
+/**
+ * Database host and port as seen from the bastion
+ */
+export interface TunnelTarget {
+  host: string;
+  port: number;
+}
+
+/**
+ * An open tunnel: a local listener whose sockets are forwarded through the bastion
+ */
+export interface SshTunnel {
+  localPort: number;
+  hostKeyFingerprint: string; // Host key the bastion presented
+  close(): void;
+}
+
+interface TunnelEntry {
+  key: string;
+  tunnel: Promise<SshTunnel>;
+  refs: number;
+  onClose: Set<() => void>;
+}
+
+/**
+ * Global is used here so tunnels survive hot reloads in development,
+ * same as the connection pool registry
+ */
+declare global {
+  var sshTunnels: Map<string, TunnelEntry> | undefined;
+}
+
+const tunnels: Map<string, TunnelEntry> = global.sshTunnels || new Map();
+
+if (!global.sshTunnels) {
+  global.sshTunnels = tunnels;
+}
+
+/**
+ * Wrap an SSH failure so it is reported as a tunnel error, not a database error
+ */
+function tunnelError(settings: SshTunnelSettings, message: string, cause?: any): Error {
+  const error: any = new Error(`SSH tunnel via ${settings.host}:${settings.port} failed: ${message}`);
+  error.code = 'ESSHTUNNEL';
+  error.cause = cause;
+  return error;
+}
+
+/**
+ * OpenSSH-style fingerprint of a raw host key ("SHA256:" + unpadded base64), as printed by ssh-keygen -l
+ */
+export function hostKeyFingerprint(key: Buffer): string {
+  return `SHA256:${crypto.createHash('sha256').update(key).digest('base64').replace(/=+$/, '')}`;
+}
+
+/**
+ * Open an authenticated SSH session to the bastion
+ * With a pinned fingerprint, any other host key aborts the handshake before credentials are sent
+ */
+function connectSsh(settings: SshTunnelSettings): Promise<{ ssh: Client; hostKeyFingerprint: string }> {
+  return new Promise((resolve, reject) => {
+    const ssh = new Client();
+    let presented = '';
+
+    ssh.once('ready', () => resolve({ ssh, hostKeyFingerprint: presented }));
+    ssh.once('error', (error: any) => {
+      let message = error.message;
+      if (settings.hostKeyFingerprint && presented && presented !== settings.hostKeyFingerprint) {
+        message = `host key mismatch (expected ${settings.hostKeyFingerprint}, got ${presented}); if the bastion key was changed on purpose, update the fingerprint`;
+      } else if (error.level === 'client-authentication') {
+        message = 'authentication rejected, check the SSH user and key or password';
+      }
+      reject(tunnelError(settings, message, error));
+    });
+
+    try {
+      ssh.connect({
+        host: settings.host,
+        port: settings.port,
+        username: settings.username,
+        privateKey: settings.privateKey || undefined,
+        passphrase: settings.passphrase || undefined,
+        password: settings.password || undefined,
+        readyTimeout: SSH_TUNNEL_READY_TIMEOUT_MS,
+        keepaliveInterval: SSH_KEEPALIVE_INTERVAL_MS,
+        hostVerifier: (key: Buffer) => {
+          presented = hostKeyFingerprint(key);
+          return !settings.hostKeyFingerprint || presented === settings.hostKeyFingerprint;
+        },
+      });
+    } catch (error: any) {
+      // Malformed private keys throw synchronously
+      reject(tunnelError(settings, error.message, error));
+    }
+  });
+}
+
+/**
+ * Open a direct-tcpip channel from the bastion to the target
+ */
+function forward(ssh: Client, settings: SshTunnelSettings, target: TunnelTarget, srcPort = 0) {
+  return new Promise<NodeJS.ReadWriteStream>((resolve, reject) => {
+    ssh.forwardOut('127.0.0.1', srcPort, target.host, target.port, (error, stream) => {
+      if (error) {
+        reject(tunnelError(settings, `bastion cannot reach ${target.host}:${target.port} (${error.message})`, error));
+      } else {
+        resolve(stream);
+      }
+    });
+  });
+}
+
+/**
+ * Open a tunnel on a random local port
+ * One channel is opened up front, so an unreachable target fails here as a tunnel
+ * error rather than later as a reset database connection
+ *
+ * @param settings - Bastion host and credentials
+ * @param target - Database host and port as seen from the bastion
+ * @param onClose - Called once if the SSH session drops
+ */
+export async function openTunnel(
+  settings: SshTunnelSettings,
+  target: TunnelTarget,
+  onClose?: () => void
+): Promise<SshTunnel> {
+  const { ssh, hostKeyFingerprint } = await connectSsh(settings);
+
+  try {
+    (await forward(ssh, settings, target)).end();
+  } catch (error) {
+    ssh.end();
+    throw error;
+  }
+
+  const server = net.createServer((socket) => {
+    forward(ssh, settings, target, socket.remotePort).then(
+      (stream) => {
+        socket.pipe(stream).pipe(socket);
+        stream.on('error', () => socket.destroy());
+        socket.on('error', () => stream.end());
+      },
+      (error) => {
+        console.error(error.message);
+        socket.destroy();
+      }
+    );
+  });
+
+  let closed = false;
+  const close = () => {
+    if (closed) return;
+    closed = true;
+    server.close();
+    ssh.end();
+    onClose?.();
+  };
+
+  ssh.on('close', close);
+  ssh.on('error', (error) => console.error(`SSH tunnel via ${settings.host} error:`, error.message));
+
+  await new Promise<void>((resolve, reject) => {
+    server.once('error', reject);
+    server.listen(0, '127.0.0.1', () => resolve());
+  }).catch((error) => {
+    close();
+    throw tunnelError(settings, `cannot listen locally (${error.message})`, error);
+  });
+
+  return {
+    localPort: (server.address() as net.AddressInfo).port,
+    hostKeyFingerprint,
+    close,
+  };
+}
+
+/**
+ * Check the bastion accepts the credentials and can reach the target
+ *
+ * @returns Fingerprint of the bastion's host key, to pin on the connection
+ * @throws Error with code ESSHTUNNEL describing which step failed
+ */
+export async function testTunnel(settings: SshTunnelSettings, target: TunnelTarget): Promise<string> {
+  const tunnel = await openTunnel(settings, target);
+  tunnel.close();
+  return tunnel.hostKeyFingerprint;
+}
+
+/**
+ * Run a callback with a short-lived tunnel (for unsaved credentials)
+ *
+ * @param callback - Receives the local port to connect to
+ */
+export async function withTunnel<T>(
+  settings: SshTunnelSettings,
+  target: TunnelTarget,
+  callback: (localPort: number) => Promise<T>
+): Promise<T> {
+  const tunnel = await openTunnel(settings, target);
+  try {
+    return await callback(tunnel.localPort);
+  } finally {
+    tunnel.close();
+  }
+}
+
+/**
+ * URI options for a connection reached through a tunnel
+ * Only the primary host is forwarded, so seed hosts and SRV lookup are dropped and
+ * MongoDB connects directly instead of discovering replica set members by their real names
+ */
+export function optionsThroughTunnel(options?: IConnectionOptions): IConnectionOptions {
+  return {
+    srv: false,
+    hosts: [],
+    // Query parameters are only read by the MongoDB connector (and serviceName by Oracle)
+    params: { ...options?.params, directConnection: 'true' },
+  };
+}
+
+/**
+ * Decrypt a saved connection's SSH settings
+ *
+ * @returns Settings, or undefined when the connection has no tunnel
+ */
+export function connectionSshTunnel(connection: IConnection): SshTunnelSettings | undefined {
+  const ssh = connection.sshTunnel;
+  if (!ssh?.enabled) return undefined;
+
+  return {
+    host: ssh.host,
+    port: ssh.port,
+    username: ssh.username,
+    privateKey: ssh.privateKey ? decrypt(ssh.privateKey) : undefined,
+    passphrase: ssh.passphrase ? decrypt(ssh.passphrase) : undefined,
+    password: ssh.password ? decrypt(ssh.password) : undefined,
+    hostKeyFingerprint: ssh.hostKeyFingerprint,
+  };
+}
+
+/**
+ * Encrypt SSH settings for storage
+ * Blank secrets keep the saved value, like a blank password on edit. An omitted
+ * fingerprint keeps the pinned one unless the bastion changed; a blank one clears it,
+ * so the next connection pins whatever key the bastion presents
+ *
+ * @param settings - Settings from the request
+ * @param existing - Currently saved settings (on update)
+ */
+export function encryptSshTunnelSettings(
+  settings: SshTunnelSettings & { enabled: boolean; authMethod: IConnectionSshTunnel['authMethod'] },
+  existing?: IConnectionSshTunnel
+): IConnectionSshTunnel {
+  const secret = (value: string | undefined, saved: string | undefined) =>
+    value && value.trim() ? encrypt(value.trim()) : saved;
+  const usesKey = settings.authMethod === 'privateKey';
+  const sameBastion = existing?.host === settings.host && existing?.port === settings.port;
+
+  return {
+    enabled: settings.enabled,
+    host: settings.host,
+    port: settings.port,
+    username: settings.username,
+    authMethod: settings.authMethod,
+    // Only the secrets for the chosen method are kept
+    privateKey: usesKey ? secret(settings.privateKey, existing?.privateKey) : undefined,
+    passphrase: usesKey ? secret(settings.passphrase, existing?.passphrase) : undefined,
+    password: usesKey ? undefined : secret(settings.password, existing?.password),
+    hostKeyFingerprint:
+      settings.hostKeyFingerprint !== undefined
+        ? settings.hostKeyFingerprint.trim() || undefined
+        : sameBastion
+          ? existing?.hostKeyFingerprint
+          : undefined,
+  };
+}
+
+/**
+ * Record the host key of a connection's bastion the first time it is reached (trust on first use)
+ * Later tunnels refuse any other key. updatedAt is left alone so open pools are kept.
+ */
+async function pinHostKey(connection: IConnection, fingerprint: string): Promise<void> {
+  try {
+    await Connection.updateOne(
+      { _id: connection._id, 'sshTunnel.hostKeyFingerprint': { $exists: false } },
+      { $set: { 'sshTunnel.hostKeyFingerprint': fingerprint } },
+      { timestamps: false }
+    );
+    console.log(`SSH host key for connection ${connection._id} pinned: ${fingerprint}`);
+  } catch (error: any) {
+    console.error('Failed to pin SSH host key:', error.message);
+  }
+}
+
+/**
+ * Share one tunnel per saved connection between all of its pools
+ * The tunnel closes when the last pool releases it; a changed Connection.updatedAt
+ * means the settings were edited, so a new tunnel is opened
+ *
+ * @param connection - Saved connection with sshTunnel enabled
+ * @param onClose - Called if the SSH session drops while leased
+ * @returns Local port and a release function (call exactly once)
+ */
+export async function acquireTunnel(
+  connection: IConnection,
+  onClose: () => void
+): Promise<{ localPort: number; release: () => void }> {
+  const fingerprint = connection.updatedAt ? new Date(connection.updatedAt).getTime() : 0;
+  const key = `${connection._id.toString()}:${fingerprint}`;
+
+  let entry = tunnels.get(key);
+  if (!entry) {
+    const created: TunnelEntry = {
+      key,
+      refs: 0,
+      onClose: new Set(),
+      tunnel: openTunnel(connectionSshTunnel(connection)!, { host: connection.host!, port: connection.port! }, () => {
+        if (tunnels.get(key) === created) tunnels.delete(key);
+        created.onClose.forEach((callback) => callback());
+      }),
+    };
+    created.tunnel.then(
+      (tunnel) => {
+        if (!connection.sshTunnel?.hostKeyFingerprint) {
+          void pinHostKey(connection, tunnel.hostKeyFingerprint);
+        }
+      },
+      () => {
+        if (tunnels.get(key) === created) tunnels.delete(key);
+      }
+    );
+    tunnels.set(key, created);
+    entry = created;
+  }
+
+  const leased = entry;
+  leased.refs += 1;
+  leased.onClose.add(onClose);
+
+  let tunnel: SshTunnel;
+  try {
+    tunnel = await leased.tunnel;
+  } catch (error) {
+    leased.refs -= 1;
+    leased.onClose.delete(onClose);
+    throw error;
+  }
+
+  let released = false;
+  return {
+    localPort: tunnel.localPort,
+    release: () => {
+      if (released) return;
+      released = true;
+      leased.refs -= 1;
+      leased.onClose.delete(onClose);
+
+      if (leased.refs === 0) {
+        if (tunnels.get(key) === leased) tunnels.delete(key);
+        tunnel.close();
+      }
+    },
+  };
+}
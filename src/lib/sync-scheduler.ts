@@ -0,0 +1,139 @@
+import { connectDB } from '@/lib/mongodb';
+import { nextCronRun } from '@/lib/cron';
+import { enqueueSyncJob } from '@/lib/sync-worker';
+import Database, { ISyncSchedule } from '@/models/Database';
+import SyncJob from '@/models/SyncJob';
+
+/**
+ * Scheduler tuning, overridable per deployment
+ * - SYNC_SCHEDULER_MAX_CONCURRENT: scheduled syncs are only queued while fewer
+ *   sync jobs than this are queued or running across all databases
+ */
+const MAX_CONCURRENT_SYNCS = parseInt(process.env.SYNC_SCHEDULER_MAX_CONCURRENT || '2');
+const TICK_INTERVAL_MS = 60000;
+
+interface SchedulerState {
+  timer: NodeJS.Timeout | null;
+  ticking: boolean;
+}
+
+/**
+ * Global is used here so the scheduler survives hot reloads in development
+ */
+declare global {
+  var syncScheduler: SchedulerState | undefined;
+}
+
+const scheduler: SchedulerState = global.syncScheduler || {
+  timer: null,
+  ticking: false,
+};
+
+if (!global.syncScheduler) {
+  global.syncScheduler = scheduler;
+}
+
+/**
+ * Next time a schedule should fire after `from`
+ *
+ * @param schedule - Interval or cron schedule
+ * @param from - Reference time (defaults to now)
+ * @returns Next run time, or undefined if the schedule is paused or never fires
+ */
+export function computeNextRun(
+  schedule: Pick<ISyncSchedule, 'enabled' | 'type' | 'intervalMinutes' | 'cronExpression'>,
+  from: Date = new Date()
+): Date | undefined {
+  if (!schedule.enabled) return undefined;
+
+  if (schedule.type === 'interval') {
+    return schedule.intervalMinutes
+      ? new Date(from.getTime() + schedule.intervalMinutes * 60 * 1000)
+      : undefined;
+  }
+
+  return (schedule.cronExpression && nextCronRun(schedule.cronExpression, from)) || undefined;
+}
+
+/**
+ * Queue syncs for every database whose schedule is due
+ * Runs that find the database already syncing or disconnected are skipped;
+ * runs over the concurrency limit stay due and are retried on the next tick
+ */
+async function tick() {
+  if (scheduler.ticking) return;
+  scheduler.ticking = true;
+
+  try {
+    await connectDB();
+
+    const now = new Date();
+    const dueDatabases = await Database.find({
+      enabled: true,
+      'syncSchedule.enabled': true,
+      'syncSchedule.nextRunAt': { $lte: now },
+    })
+      .select('databaseName connectionStatus syncStatus syncSchedule')
+      .sort({ 'syncSchedule.nextRunAt': 1 });
+
+    if (dueDatabases.length === 0) return;
+
+    let slots =
+      MAX_CONCURRENT_SYNCS -
+      (await SyncJob.countDocuments({ status: { $in: ['queued', 'running'] } }));
+
+    for (const database of dueDatabases) {
+      const schedule = database.syncSchedule!;
+      const canSync = database.connectionStatus === 'connected' && database.syncStatus !== 'syncing';
+
+      if (canSync && slots <= 0) break;
+
+      // Claim this run; another process may have advanced the schedule already
+      const claimed = await Database.findOneAndUpdate(
+        { _id: database._id, 'syncSchedule.nextRunAt': schedule.nextRunAt },
+        {
+          'syncSchedule.nextRunAt': computeNextRun(schedule, now),
+          'syncSchedule.lastRunAt': now,
+        }
+      );
+      if (!claimed) continue;
+
+      if (!canSync) {
+        console.warn(
+          `⏭️ Skipped scheduled sync for ${database.databaseName}: ` +
+            (database.syncStatus === 'syncing' ? 'already syncing' : 'not connected')
+        );
+        continue;
+      }
+
+      const { job, created } = await enqueueSyncJob(database._id.toString(), {
+        forceRegenerate: schedule.forceRegenerate,
+        trigger: 'scheduled',
+      });
+
+      await Database.updateOne({ _id: database._id }, { 'syncSchedule.lastJobId': job._id });
+
+      if (created) {
+        slots--;
+        console.log(`⏰ Queued scheduled sync job ${job._id} for ${database.databaseName}`);
+      }
+    }
+  } catch (error) {
+    console.error('Sync scheduler tick failed:', error);
+  } finally {
+    scheduler.ticking = false;
+  }
+}
+
+/**
+ * Start the scheduler loop (idempotent)
+ */
+export function startSyncScheduler(): void {
+  if (scheduler.timer) return;
+
+  scheduler.timer = setInterval(tick, TICK_INTERVAL_MS);
+  scheduler.timer.unref?.();
+  tick();
+
+  console.log(`⏰ Sync scheduler started (max ${MAX_CONCURRENT_SYNCS} concurrent syncs)`);
+}
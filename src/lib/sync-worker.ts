@@ -0,0 +1,382 @@
+import { randomUUID } from 'crypto';
+import { connectDB } from '@/lib/mongodb';
+import { FASTAPI_ENDPOINTS, getApiUrl } from '@/lib/constants/api';
+import Database from '@/models/Database';
+import SyncJob, { ISyncJob } from '@/models/SyncJob';
+
+/**
+ * Worker tuning, overridable per deployment
+ * - SYNC_WORKER_CONCURRENCY: jobs this process runs at once
+ * - SYNC_TIMEOUT_MS: how long a single FastAPI sync call may take
+ */
+const WORKER_CONCURRENCY = parseInt(process.env.SYNC_WORKER_CONCURRENCY || '1');
+const SYNC_TIMEOUT_MS = parseInt(process.env.SYNC_TIMEOUT_MS || '1800000');
+const POLL_INTERVAL_MS = 5000;
+const HEARTBEAT_INTERVAL_MS = 15000;
+const STALE_JOB_MS = 2 * 60 * 1000; // Running jobs without a heartbeat this long are orphaned
+const RETRY_BASE_DELAY_MS = 30000;
+
+interface WorkerState {
+  workerId: string;
+  timer: NodeJS.Timeout | null;
+  polling: boolean;
+  running: Map<string, AbortController>;
+}
+
+/**
+ * Global is used here so the worker survives hot reloads in development
+ */
+declare global {
+  var syncWorker: WorkerState | undefined;
+}
+
+const worker: WorkerState = global.syncWorker || {
+  workerId: `${process.pid}-${randomUUID().slice(0, 8)}`,
+  timer: null,
+  polling: false,
+  running: new Map(),
+};
+
+if (!global.syncWorker) {
+  global.syncWorker = worker;
+}
+
+/**
+ * Delay before retry n (1-based): 30s, 60s, 120s, ...
+ */
+function retryDelay(attempt: number): number {
+  return RETRY_BASE_DELAY_MS * 2 ** Math.max(attempt - 1, 0);
+}
+
+async function setProgress(job: ISyncJob, progress: number, progressMessage: string) {
+  await SyncJob.updateOne(
+    { _id: job._id, status: 'running' },
+    { progress, progressMessage, heartbeatAt: new Date() }
+  );
+}
+
+/**
+ * Call FastAPI to generate embeddings for the job's database
+ * Heartbeats while waiting and aborts if the job is cancelled meanwhile
+ */
+async function callSyncService(job: ISyncJob, controller: AbortController) {
+  const heartbeat = setInterval(async () => {
+    try {
+      const current = await SyncJob.findOneAndUpdate(
+        { _id: job._id, status: 'running' },
+        { heartbeatAt: new Date() },
+        { new: true }
+      );
+      if (!current) controller.abort(); // Cancelled (possibly from another process)
+    } catch (error) {
+      console.error('Sync job heartbeat failed:', error);
+    }
+  }, HEARTBEAT_INTERVAL_MS);
+
+  const timeout = setTimeout(() => controller.abort(), SYNC_TIMEOUT_MS);
+
+  try {
+    const response = await fetch(getApiUrl(FASTAPI_ENDPOINTS.SYNC_EMBEDDINGS), {
+      method: 'POST',
+      headers: {
+        'Accept': 'application/json',
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({
+        db_id: job.databaseId.toString(),
+        force_regenerate: job.forceRegenerate,
+      }),
+      signal: controller.signal,
+    });
+
+    if (!response.ok) {
+      const errorText = await response.text();
+      throw new Error(`FastAPI returned ${response.status}: ${errorText}`);
+    }
+
+    return await response.json();
+  } finally {
+    clearInterval(heartbeat);
+    clearTimeout(timeout);
+  }
+}
+
+/**
+ * Record a successful sync on the job and its database
+ */
+async function completeJob(job: ISyncJob, fastApiData: any) {
+  await SyncJob.updateOne(
+    { _id: job._id, status: 'running' },
+    {
+      status: 'succeeded',
+      progress: 100,
+      progressMessage: fastApiData.message || 'Sync completed successfully',
+      finishedAt: new Date(),
+      $unset: { errorMessage: 1 },
+      result: {
+        tablesProcessed: fastApiData.tables_processed || 0,
+        embeddingsCreated: fastApiData.embeddings_created || 0,
+        processingTimeMs: fastApiData.processing_time_ms || 0,
+      },
+    }
+  );
+
+  const database = await Database.findById(job.databaseId);
+  if (!database) return;
+
+  database.syncStatus = 'synced';
+  database.syncLastAt = new Date();
+  database.syncErrorMessage = undefined;
+  database.schemaDrift = undefined; // Embeddings now match the live schema
+  database.metadata = {
+    ...database.metadata,
+    lastSyncedBy: job.requestedBy?.toString(),
+    lastSyncJobId: job._id.toString(),
+    lastSyncResponse: fastApiData,
+    tablesProcessed: fastApiData.tables_processed || 0,
+    embeddingsCreated: fastApiData.embeddings_created || 0,
+    indexPath: fastApiData.index_path || '',
+    processingTimeMs: fastApiData.processing_time_ms || 0,
+  };
+
+  await database.save();
+}
+
+/**
+ * Record a failed attempt: requeue with backoff, or fail the job once attempts run out
+ */
+async function failAttempt(job: ISyncJob, errorMessage: string) {
+  if (job.attempts < job.maxAttempts) {
+    const delay = retryDelay(job.attempts);
+
+    await SyncJob.updateOne(
+      { _id: job._id, status: 'running' },
+      {
+        status: 'queued',
+        nextRunAt: new Date(Date.now() + delay),
+        progressMessage: `Attempt ${job.attempts} failed, retrying in ${Math.round(delay / 1000)}s`,
+        errorMessage,
+        $unset: { workerId: 1 },
+      }
+    );
+    return;
+  }
+
+  await SyncJob.updateOne(
+    { _id: job._id, status: 'running' },
+    {
+      status: 'failed',
+      finishedAt: new Date(),
+      progressMessage: `Failed after ${job.attempts} attempts`,
+      errorMessage,
+    }
+  );
+
+  await Database.findByIdAndUpdate(job.databaseId, {
+    syncStatus: 'error',
+    syncErrorMessage: `Sync failed: ${errorMessage}. Please make sure the FastAPI server is running.`,
+  });
+}
+
+/**
+ * Run one claimed job to completion
+ */
+async function runJob(job: ISyncJob) {
+  const jobId = job._id.toString();
+  const controller = new AbortController();
+  worker.running.set(jobId, controller);
+
+  console.log(`🔄 Sync job ${jobId} started (attempt ${job.attempts}/${job.maxAttempts})`);
+
+  try {
+    await setProgress(job, 10, 'Generating embeddings');
+    const fastApiData = await callSyncService(job, controller);
+
+    await setProgress(job, 90, 'Saving sync results');
+    await completeJob(job, fastApiData);
+
+    console.log(`✅ Sync job ${jobId} succeeded`);
+  } catch (error: any) {
+    const current = await SyncJob.findById(jobId).select('status');
+    if (current?.status === 'cancelled') {
+      console.log(`⏹️ Sync job ${jobId} cancelled`);
+      return;
+    }
+
+    const message = controller.signal.aborted
+      ? `Sync timed out after ${Math.round(SYNC_TIMEOUT_MS / 1000)}s`
+      : error.message || 'Sync failed';
+
+    console.error(`❌ Sync job ${jobId} attempt ${job.attempts} failed:`, message);
+    await failAttempt(job, message);
+  } finally {
+    worker.running.delete(jobId);
+  }
+}
+
+/**
+ * Atomically claim the oldest due queued job
+ */
+async function claimNextJob(): Promise<ISyncJob | null> {
+  const now = new Date();
+
+  return SyncJob.findOneAndUpdate(
+    { status: 'queued', nextRunAt: { $lte: now } },
+    {
+      status: 'running',
+      workerId: worker.workerId,
+      startedAt: now,
+      heartbeatAt: now,
+      progress: 5,
+      progressMessage: 'Starting sync',
+      $inc: { attempts: 1 },
+    },
+    { sort: { nextRunAt: 1, createdAt: 1 }, new: true }
+  );
+}
+
+/**
+ * Claim and start jobs until this process is at its concurrency limit
+ */
+async function poll() {
+  if (worker.polling) return;
+  worker.polling = true;
+
+  try {
+    await connectDB();
+
+    while (worker.running.size < WORKER_CONCURRENCY) {
+      const job = await claimNextJob();
+      if (!job) break;
+
+      // Runs in the background; the next poll picks up further jobs
+      runJob(job).catch((error) => console.error('Sync job crashed:', error));
+    }
+  } catch (error) {
+    console.error('Sync worker poll failed:', error);
+  } finally {
+    worker.polling = false;
+  }
+}
+
+/**
+ * Requeue or fail jobs orphaned by a crashed or restarted process,
+ * and reset databases left in 'syncing' with no job behind them
+ *
+ * @returns Number of jobs recovered
+ */
+export async function recoverStuckJobs(): Promise<number> {
+  await connectDB();
+
+  const staleBefore = new Date(Date.now() - STALE_JOB_MS);
+  const stuckJobs = await SyncJob.find({
+    status: 'running',
+    $or: [{ heartbeatAt: { $lt: staleBefore } }, { heartbeatAt: { $exists: false } }],
+  });
+
+  for (const job of stuckJobs) {
+    console.warn(`⚠️ Recovering stuck sync job ${job._id} (worker ${job.workerId || 'unknown'})`);
+    await failAttempt(job, 'Sync was interrupted (worker stopped responding)');
+  }
+
+  // Databases marked syncing by the old blocking endpoint or a lost job
+  const activeDatabaseIds = await SyncJob.distinct('databaseId', {
+    status: { $in: ['queued', 'running'] },
+  });
+
+  const orphaned = await Database.updateMany(
+    { syncStatus: 'syncing', _id: { $nin: activeDatabaseIds } },
+    { syncStatus: 'error', syncErrorMessage: 'Sync was interrupted. Please sync again.' }
+  );
+
+  if (orphaned.modifiedCount > 0) {
+    console.warn(`⚠️ Reset ${orphaned.modifiedCount} database(s) stuck in syncing`);
+  }
+
+  return stuckJobs.length;
+}
+
+/**
+ * Start the background worker loop (idempotent)
+ * Recovers stuck jobs once, then polls for queued jobs
+ */
+export function startSyncWorker(): void {
+  if (worker.timer) return;
+
+  worker.timer = setInterval(poll, POLL_INTERVAL_MS);
+  worker.timer.unref?.();
+
+  recoverStuckJobs()
+    .catch((error) => console.error('Sync job recovery failed:', error))
+    .finally(poll);
+
+  console.log(`🧵 Sync worker ${worker.workerId} started (concurrency ${WORKER_CONCURRENCY})`);
+}
+
+/**
+ * Queue a sync for a database unless one is already queued or running
+ *
+ * @param databaseId - Database to sync
+ * @param options - Requesting user, whether to regenerate all embeddings, and what triggered the sync
+ * @returns The new job, or the already active one with created=false
+ */
+export async function enqueueSyncJob(
+  databaseId: string,
+  options: { requestedBy?: string; forceRegenerate?: boolean; trigger?: 'manual' | 'scheduled' } = {}
+): Promise<{ job: ISyncJob; created: boolean }> {
+  await connectDB();
+
+  const activeJob = await SyncJob.findOne({
+    databaseId,
+    status: { $in: ['queued', 'running'] },
+  });
+
+  if (activeJob) {
+    return { job: activeJob, created: false };
+  }
+
+  const job = await SyncJob.create({
+    databaseId,
+    requestedBy: options.requestedBy,
+    forceRegenerate: options.forceRegenerate ?? false,
+    trigger: options.trigger ?? 'manual',
+    progressMessage: 'Waiting for worker',
+  });
+
+  await Database.findByIdAndUpdate(databaseId, {
+    syncStatus: 'syncing',
+    $unset: { syncErrorMessage: 1 },
+  });
+
+  startSyncWorker();
+  setImmediate(poll);
+
+  return { job, created: true };
+}
+
+/**
+ * Cancel a queued or running job
+ * Running jobs are aborted here if this process owns them, otherwise at their next heartbeat
+ *
+ * @param jobId - Job to cancel
+ * @returns The cancelled job, or null if it was not active
+ */
+export async function cancelSyncJob(jobId: string): Promise<ISyncJob | null> {
+  await connectDB();
+
+  const job = await SyncJob.findOneAndUpdate(
+    { _id: jobId, status: { $in: ['queued', 'running'] } },
+    { status: 'cancelled', finishedAt: new Date(), progressMessage: 'Cancelled' },
+    { new: true }
+  );
+
+  if (!job) return null;
+
+  worker.running.get(jobId)?.abort();
+
+  await Database.findByIdAndUpdate(job.databaseId, {
+    syncStatus: 'yet_to_sync',
+  });
+
+  return job;
+}
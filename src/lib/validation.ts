@@ -1,15 +1,66 @@
 import { z } from 'zod';
+import { validateCron } from './cron';
+import { parseConnectionUri } from './connection-uri';
+import { isValidCidr } from './ip-allowlist';
 
 /**
  * Database type enum
  */
-export const DATABASE_TYPES = ['mysql', 'postgresql', 'mongodb', 'mssql'] as const;
+export const DATABASE_TYPES = ['mysql', 'mariadb', 'postgresql', 'mongodb', 'mssql', 'oracle', 'clickhouse', 'sqlite', 'duckdb'] as const;
+
+/**
+ * Database types that open local files instead of connecting to a server
+ */
+export const FILE_DATABASE_TYPES = ['sqlite', 'duckdb'] as const;
+
+export function isFileDatabaseType(type: string): boolean {
+  return (FILE_DATABASE_TYPES as readonly string[]).includes(type);
+}
+
+/**
+ * TLS modes for server connections
+ */
+export const SSL_MODES = ['disable', 'require', 'verify-ca', 'verify-full'] as const;
+
+/**
+ * SSH tunnel authentication methods
+ */
+export const SSH_AUTH_METHODS = ['privateKey', 'password'] as const;
 
 /**
  * User role enum
  */
 export const USER_ROLES = ['admin', 'user'] as const;
 
+/**
+ * API key scopes
+ * Every route that accepts API keys requires one of these (see API_KEY_USAGE.md).
+ * "*" on a key (legacy) grants all of them.
+ */
+export const API_KEY_SCOPES = [
+  'query:read',
+  'chats:read',
+  'chats:write',
+  'results:read',
+  'vectors:read',
+  'vectors:write',
+  'databases:read',
+  'sync:trigger',
+] as const;
+
+export type ApiKeyScope = (typeof API_KEY_SCOPES)[number];
+
+export const API_KEY_SCOPE_DESCRIPTIONS: Record<ApiKeyScope, string> = {
+  'query:read': 'Ask natural-language questions (POST /api/query)',
+  'chats:read': "List and read the key's own chats and messages",
+  'chats:write': 'Create, rename and delete chats, send messages, re-run SQL',
+  'results:read': 'Download query result files (POST /api/query-results)',
+  'vectors:read': 'Read table embeddings of granted databases',
+  'vectors:write': 'Edit embedding descriptions and skip tables',
+  'databases:read': 'List granted databases and read their schema',
+  'sync:trigger': 'Queue an embeddings sync of a granted database',
+};
+
 /**
  * Connection status enum
  */
@@ -20,6 +71,16 @@ export const CONNECTION_STATUS = ['connected', 'disconnected', 'error'] as const
  */
 export const SYNC_STATUS = ['synced', 'yet_to_sync', 'syncing', 'error'] as const;
 
+/**
+ * Sync job status enum
+ */
+export const SYNC_JOB_STATUS = ['queued', 'running', 'succeeded', 'failed', 'cancelled'] as const;
+
+/**
+ * Sync schedule type enum
+ */
+export const SYNC_SCHEDULE_TYPES = ['interval', 'cron'] as const;
+
 /**
  * Access type enum
  */
@@ -59,43 +120,206 @@ export const updateUserSchema = z.object({
 
 // ==================== Connection Schemas ====================
 
+/**
+ * Server engines need host, port and credentials; file engines need an absolute path
+ */
+function requireConnectionTarget(
+  data: {
+    connectionType: string;
+    host?: string;
+    port?: number;
+    username?: string;
+    password?: string;
+    filePath?: string;
+    sshTunnel?: { enabled: boolean; authMethod: string; privateKey?: string; password?: string };
+    options?: { srv?: boolean; params?: Record<string, string> };
+  },
+  ctx: z.RefinementCtx
+) {
+  if (isFileDatabaseType(data.connectionType)) {
+    if (!data.filePath) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, message: 'File path is required', path: ['filePath'] });
+    } else if (!/^(\/|[a-zA-Z]:[\\/])/.test(data.filePath)) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, message: 'File path must be absolute', path: ['filePath'] });
+    }
+    return;
+  }
+
+  const required: Array<[keyof typeof data, string]> = [
+    ['host', 'Host is required'],
+    ['port', 'Port is required'],
+    ['username', 'Username is required'],
+    ['password', 'Password is required'],
+  ];
+  required.forEach(([field, message]) => {
+    if (data[field] === undefined) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, message, path: [field] });
+    }
+  });
+
+  // Oracle databases are schemas of one service, which the connection logs in to
+  if (data.connectionType === 'oracle' && !data.options?.params?.serviceName?.trim()) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      message: 'Service name is required',
+      path: ['options', 'params', 'serviceName'],
+    });
+  }
+
+  const ssh = data.sshTunnel;
+  if (ssh?.enabled) {
+    const secret = ssh.authMethod === 'privateKey' ? ssh.privateKey : ssh.password;
+    if (!secret?.trim()) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        message: ssh.authMethod === 'privateKey' ? 'SSH private key is required' : 'SSH password is required',
+        path: ['sshTunnel', ssh.authMethod],
+      });
+    }
+    if (data.options?.srv) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        message: 'mongodb+srv cannot go through an SSH tunnel; use a member host:port instead',
+        path: ['options', 'srv'],
+      });
+    }
+  }
+}
+
+/**
+ * TLS settings schema
+ * Certificate fields are PEM text; blank keeps the saved value on update
+ */
+const pemSchema = z
+  .string()
+  .refine((value) => !value.trim() || value.includes('-----BEGIN '), 'Certificates and keys must be PEM encoded')
+  .optional();
+
+export const connectionSslSchema = z
+  .object({
+    mode: z.enum(SSL_MODES, {
+      errorMap: () => ({ message: 'Invalid SSL mode' }),
+    }),
+    ca: pemSchema,
+    cert: pemSchema,
+    key: pemSchema,
+    servername: z.string().optional(),
+  })
+  .refine((ssl) => !ssl.cert?.trim() === !ssl.key?.trim(), {
+    message: 'Client certificate and key must be provided together',
+    path: ['key'],
+  });
+
+/**
+ * SSH tunnel schema
+ * Host and user are only required while enabled; secrets may be blank on update
+ * to keep the saved ones
+ */
+export const connectionSshTunnelSchema = z.object({
+  enabled: z.boolean(),
+  host: z.string().trim().default(''),
+  port: z.number().int().positive('SSH port must be a positive integer').default(22),
+  username: z.string().trim().default(''),
+  authMethod: z.enum(SSH_AUTH_METHODS, {
+    errorMap: () => ({ message: 'SSH auth method must be privateKey or password' }),
+  }),
+  privateKey: z
+    .string()
+    .refine((value) => !value.trim() || value.includes('-----BEGIN '), 'SSH private key must be PEM/OpenSSH encoded')
+    .optional(),
+  passphrase: z.string().optional(),
+  password: z.string().optional(),
+  hostKeyFingerprint: z
+    .string()
+    .trim()
+    .refine(
+      (value) => !value || /^SHA256:[A-Za-z0-9+/]{43}=?$/.test(value),
+      'SSH host key fingerprint must look like SHA256:... (ssh-keygen -lf <host key>)'
+    )
+    .optional(),
+})
+  .refine((ssh) => !ssh.enabled || ssh.host, { message: 'SSH host is required', path: ['host'] })
+  .refine((ssh) => !ssh.enabled || ssh.username, { message: 'SSH username is required', path: ['username'] });
+
+/**
+ * Extra URI parts (seed hosts, query parameters)
+ */
+export const connectionOptionsSchema = z.object({
+  srv: z.boolean().optional(),
+  hosts: z.array(z.string().regex(/^(\[[^\]]+\]|[^:,\s]+):\d+$/, 'Hosts must be host:port')).optional(),
+  params: z.record(z.string()).optional(),
+});
+
+/**
+ * Expand a pasted `uri` into connection fields; fields sent alongside it win
+ */
+function expandConnectionUri(body: unknown, ctx: z.RefinementCtx): unknown {
+  if (!body || typeof body !== 'object' || !('uri' in body)) return body;
+
+  const { uri, ...fields } = body as { uri: unknown } & Record<string, unknown>;
+  if (typeof uri !== 'string' || !uri.trim()) return fields;
+
+  try {
+    const { sslMode, ...parsed } = parseConnectionUri(uri);
+    const fromUri = Object.fromEntries(Object.entries(parsed).filter(([, value]) => value !== undefined));
+    return { ...fromUri, ...(sslMode && { ssl: { mode: sslMode } }), ...fields };
+  } catch (error: any) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, message: error.message, path: ['uri'] });
+    return fields;
+  }
+}
+
 /**
  * Connection creation schema
+ * Accepts a connection `uri` in place of (or in addition to) the separate fields
  */
-export const createConnectionSchema = z.object({
+export const createConnectionSchema = z.preprocess(expandConnectionUri, z.object({
   name: z.string().min(1, 'Connection name is required'),
   connectionType: z.enum(DATABASE_TYPES, {
     errorMap: () => ({ message: 'Invalid database type' }),
   }),
-  host: z.string().min(1, 'Host is required'),
-  port: z.number().int().positive('Port must be a positive integer'),
-  username: z.string().min(1, 'Username is required'),
-  password: z.string().min(1, 'Password is required'),
-});
+  host: z.string().min(1, 'Host is required').optional(),
+  port: z.number().int().positive('Port must be a positive integer').optional(),
+  username: z.string().min(1, 'Username is required').optional(),
+  password: z.string().min(1, 'Password is required').optional(),
+  filePath: z.string().min(1, 'File path is required').optional(),
+  ssl: connectionSslSchema.optional(),
+  sshTunnel: connectionSshTunnelSchema.optional(),
+  options: connectionOptionsSchema.optional(),
+}).superRefine(requireConnectionTarget));
 
 /**
  * Connection update schema
  */
-export const updateConnectionSchema = z.object({
+export const updateConnectionSchema = z.preprocess(expandConnectionUri, z.object({
   name: z.string().min(1, 'Connection name is required').optional(),
   connectionType: z.enum(DATABASE_TYPES).optional(),
   host: z.string().min(1, 'Host is required').optional(),
   port: z.number().int().positive('Port must be a positive integer').optional(),
   username: z.string().min(1, 'Username is required').optional(),
   password: z.string().min(1, 'Password is required').optional(),
-});
+  filePath: z.string().min(1, 'File path is required').optional(),
+  ssl: connectionSslSchema.optional(),
+  sshTunnel: connectionSshTunnelSchema.optional(),
+  options: connectionOptionsSchema.optional(),
+}));
 
 /**
  * Test connection schema
  */
-export const testConnectionSchema = z.object({
+export const testConnectionSchema = z.preprocess(expandConnectionUri, z.object({
   connectionType: z.enum(DATABASE_TYPES),
-  host: z.string().min(1),
-  port: z.number().int().positive(),
-  username: z.string().min(1),
-  password: z.string().min(1),
+  host: z.string().min(1).optional(),
+  port: z.number().int().positive().optional(),
+  username: z.string().min(1).optional(),
+  password: z.string().min(1).optional(),
+  filePath: z.string().min(1).optional(),
+  ssl: connectionSslSchema.optional(),
+  sshTunnel: connectionSshTunnelSchema.optional(),
   databaseName: z.string().optional(), // For testing specific database
-});
+  step: z.enum(['tunnel', 'all']).default('all'), // "tunnel" checks the SSH tunnel only
+  options: connectionOptionsSchema.optional(),
+}).superRefine(requireConnectionTarget));
 
 // ==================== Database Schemas ====================
 
@@ -126,8 +350,60 @@ export const syncDatabaseSchema = z.object({
   databaseId: z.string().regex(/^[a-f\d]{24}$/i, 'Invalid database ID'),
 });
 
+/**
+ * Database sync schedule schema
+ */
+export const syncScheduleSchema = z.object({
+  enabled: z.boolean().default(true),
+  type: z.enum(SYNC_SCHEDULE_TYPES),
+  intervalMinutes: z.number().int().min(5, 'Interval must be at least 5 minutes').optional(),
+  cronExpression: z.string().trim().optional(),
+  forceRegenerate: z.boolean().default(false),
+}).superRefine((data, ctx) => {
+  if (data.type === 'interval' && !data.intervalMinutes) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, message: 'intervalMinutes required for interval schedules' });
+  }
+  if (data.type === 'cron') {
+    if (!data.cronExpression) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, message: 'cronExpression required for cron schedules' });
+      return;
+    }
+    const cronError = validateCron(data.cronExpression);
+    if (cronError) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, message: `Invalid cron expression: ${cronError}` });
+    }
+  }
+});
+
+// ==================== Usage Limit Schemas ====================
+
+const limitValue = (label: string) =>
+  z.number().int(`${label} must be a whole number`).positive(`${label} must be positive`).optional();
+
+/**
+ * Query API rate limit and quotas of an API key or team (omitted fields are unlimited)
+ */
+export const usageLimitsSchema = z
+  .object({
+    requestsPerMinute: limitValue('Requests per minute'),
+    burst: limitValue('Burst'),
+    dailyQuota: limitValue('Daily quota'),
+    monthlyQuota: limitValue('Monthly quota'),
+  })
+  .refine((limits) => !limits.burst || !!limits.requestsPerMinute, {
+    message: 'Burst requires a requests per minute limit',
+    path: ['burst'],
+  });
+
 // ==================== Team Schemas ====================
 
+/**
+ * Single sign-on group claim values mapped to a team (see src/lib/oidc.ts)
+ */
+export const ssoGroupsSchema = z
+  .array(z.string().trim().min(1, 'SSO group names cannot be empty'))
+  .max(50, 'At most 50 SSO groups per team');
+
 /**
  * Team creation schema
  */
@@ -144,6 +420,8 @@ export const updateTeamSchema = z.object({
   name: z.string().min(1, 'Team name is required').optional(),
   description: z.string().optional(),
   members: z.array(z.string().regex(/^[a-f\d]{24}$/i, 'Invalid user ID')).optional(),
+  limits: usageLimitsSchema.optional(),
+  ssoGroups: ssoGroupsSchema.optional(),
 });
 
 /**
@@ -207,6 +485,105 @@ export const chatMessageSchema = z.object({
     .optional(),
 });
 
+// ==================== Query Schemas ====================
+
+/**
+ * Natural language query request (POST /api/query)
+ */
+export const queryRequestSchema = z.object({
+  databaseId: z
+    .string({ required_error: 'Database ID and query are required', invalid_type_error: 'Invalid database ID' })
+    .regex(/^[a-f\d]{24}$/i, 'Invalid database ID'),
+  query: z
+    .string({ required_error: 'Database ID and query are required', invalid_type_error: 'Query must be a string' })
+    .trim()
+    .min(1, 'Database ID and query are required'),
+});
+
+// ==================== Vector Schemas ====================
+
+/**
+ * Table embedding description update (PUT /api/databases/[id]/vectors/[vectorId])
+ * The database comes from the URL; database_id is accepted for older clients and must match it
+ */
+export const updateVectorSchema = z.object({
+  description: z
+    .string({ required_error: 'Description is required', invalid_type_error: 'Description must be a string' })
+    .min(1, 'Description is required'),
+  table_name: z
+    .string({ required_error: 'table_name is required', invalid_type_error: 'table_name must be a string' })
+    .min(1, 'table_name is required'),
+  database_id: z.string({ invalid_type_error: 'Invalid database ID' }).optional(),
+});
+
+// ==================== API Key Schemas ====================
+
+/**
+ * API key creation schema
+ */
+export const createApiKeySchema = z.object({
+  name: z.string().trim().min(1, 'API key name is required'),
+  expiresInDays: z.number().int().positive('Expiry must be a positive number of days').default(90),
+  permissions: z
+    .array(z.enum(API_KEY_SCOPES, { errorMap: () => ({ message: 'Unknown API key scope' }) }))
+    .min(1, 'Select at least one scope')
+    .default(['query:read']),
+  databaseIds: z
+    .array(z.string().regex(/^[a-f\d]{24}$/i, 'Invalid database ID'))
+    .default([]),
+  allowedCidrs: z
+    .array(
+      z
+        .string()
+        .trim()
+        .refine(isValidCidr, (value) => ({ message: `"${value}" is not a valid IP address or CIDR range` }))
+    )
+    .max(50, 'At most 50 IP ranges per key')
+    .default([]),
+  limits: usageLimitsSchema.optional(),
+});
+
+/**
+ * API key rotation: how long the old key keeps working, and the replacement's lifetime
+ * (expiresInDays defaults to the old key's original lifetime)
+ */
+export const rotateApiKeySchema = z.object({
+  gracePeriodHours: z
+    .number()
+    .int()
+    .min(0, 'Grace period cannot be negative')
+    .max(720, 'Grace period can be at most 720 hours (30 days)')
+    .default(24),
+  expiresInDays: z.number().int().positive('Expiry must be a positive number of days').optional(),
+});
+
+/**
+ * API key usage analytics query (?days=&apiKeyId=&teamId=)
+ */
+export const apiKeyUsageQuerySchema = z.object({
+  days: z.coerce.number().int().min(1, 'days must be at least 1').max(365, 'days can be at most 365').default(30),
+  apiKeyId: z.string().regex(/^[a-f\d]{24}$/i, 'Invalid API key ID').optional(),
+  teamId: z.string().regex(/^[a-f\d]{24}$/i, 'Invalid team ID').optional(),
+});
+
+// ==================== Notification Schemas ====================
+
+/**
+ * Mark notifications as read (all of the user's when ids is omitted)
+ */
+export const markNotificationsReadSchema = z.object({
+  ids: z.array(z.string().regex(/^[a-f\d]{24}$/i, 'Invalid notification ID')).optional(),
+});
+
+// ==================== Admin Schemas ====================
+
+/**
+ * Secret re-encryption request (defaults to a dry run)
+ */
+export const reencryptSecretsSchema = z.object({
+  dryRun: z.boolean().default(true),
+});
+
 // ==================== Pagination Schema ====================
 
 /**
@@ -240,10 +617,18 @@ export type SyncDatabaseInput = z.infer<typeof syncDatabaseSchema>;
 
 export type CreateTeamInput = z.infer<typeof createTeamSchema>;
 export type UpdateTeamInput = z.infer<typeof updateTeamSchema>;
+export type UsageLimitsInput = z.infer<typeof usageLimitsSchema>;
 export type ManageMembersInput = z.infer<typeof manageMembersSchema>;
 
 export type GrantAccessInput = z.infer<typeof grantAccessSchema>;
 export type CheckAccessInput = z.infer<typeof checkAccessSchema>;
 
 export type ChatMessageInput = z.infer<typeof chatMessageSchema>;
+export type QueryRequestInput = z.infer<typeof queryRequestSchema>;
+export type UpdateVectorInput = z.infer<typeof updateVectorSchema>;
 export type PaginationInput = z.infer<typeof paginationSchema>;
+export type CreateApiKeyInput = z.infer<typeof createApiKeySchema>;
+export type RotateApiKeyInput = z.infer<typeof rotateApiKeySchema>;
+export type ApiKeyUsageQueryInput = z.infer<typeof apiKeyUsageQuerySchema>;
+export type MarkNotificationsReadInput = z.infer<typeof markNotificationsReadSchema>;
+export type ReencryptSecretsInput = z.infer<typeof reencryptSecretsSchema>;
@@ -1,12 +1,32 @@
 import mongoose, { Document, Model, Schema } from 'mongoose';
-import { encrypt, decrypt as decryptKey, secureCompare } from '@/lib/encryption';
+import { UsageLimitsSchema, type IUsageLimits } from '@/models/RateLimitCounter';
+import { decrypt as decryptKey, hashToken, isTokenHash, secureCompare, verifyTokenHash } from '@/lib/encryption';
+
+/**
+ * Request refused although the key itself was valid (e.g. from an address outside allowedCidrs)
+ */
+export interface IApiKeyRejection {
+  at: Date;
+  ipAddress: string;
+  reason: string;
+}
+
+/**
+ * Rejected attempts kept on each key
+ */
+export const MAX_REJECTED_ATTEMPTS = 20;
+
+/**
+ * Days before expiry that a key counts as expiring soon and its team is warned (API_KEY_EXPIRY_WARNING_DAYS, default 7)
+ */
+export const API_KEY_EXPIRY_WARNING_DAYS = Number(process.env.API_KEY_EXPIRY_WARNING_DAYS) || 7;
 
 /**
  * API Key interface for TypeScript
  */
 export interface IApiKey extends Document {
   _id: string;
-  key: string; // Hashed
+  key: string; // Salted hash (records created before hashing: encrypted until their next use)
   keyPrefix: string; // First 8 chars for display
   name: string;
   teamId: mongoose.Types.ObjectId;
@@ -16,6 +36,16 @@ export interface IApiKey extends Document {
   usageCount: number;
   isActive: boolean;
   permissions: string[];
+  databaseIds: mongoose.Types.ObjectId[]; // Allow-list; empty means every database the team can access
+  allowedCidrs: string[]; // Client IP allow-list; empty means any address
+  limits?: IUsageLimits; // Query API rate limit and quotas (the team's apply too)
+  rejectedCount: number;
+  rejectedAttempts: IApiKeyRejection[]; // Most recent first, capped at MAX_REJECTED_ATTEMPTS
+  rotatedFromId?: mongoose.Types.ObjectId; // Key this one replaced
+  rotatedToId?: mongoose.Types.ObjectId; // Replacement issued by a rotation
+  rotatedAt?: Date;
+  graceEndsAt?: Date; // Rotated keys stay valid until then, then are deactivated
+  expiryNotifiedAt?: Date; // When team members were warned that the key expires soon
   metadata?: {
     lastUsedBy?: string;
     lastUserName?: string;
@@ -79,6 +109,53 @@ const ApiKeySchema = new Schema<IApiKey>(
       type: [String],
       default: ['query:read'],
     },
+    databaseIds: [
+      {
+        type: Schema.Types.ObjectId,
+        ref: 'Database',
+      },
+    ],
+    allowedCidrs: {
+      type: [String],
+      default: [],
+    },
+    limits: {
+      type: UsageLimitsSchema,
+    },
+    rejectedCount: {
+      type: Number,
+      default: 0,
+    },
+    rejectedAttempts: {
+      type: [
+        new Schema<IApiKeyRejection>(
+          {
+            at: { type: Date, required: true },
+            ipAddress: { type: String, required: true },
+            reason: { type: String, required: true },
+          },
+          { _id: false }
+        ),
+      ],
+      default: [],
+    },
+    rotatedFromId: {
+      type: Schema.Types.ObjectId,
+      ref: 'ApiKey',
+    },
+    rotatedToId: {
+      type: Schema.Types.ObjectId,
+      ref: 'ApiKey',
+    },
+    rotatedAt: {
+      type: Date,
+    },
+    graceEndsAt: {
+      type: Date,
+    },
+    expiryNotifiedAt: {
+      type: Date,
+    },
     metadata: {
       lastUsedBy: String,
       lastUserName: String,
@@ -97,17 +174,19 @@ const ApiKeySchema = new Schema<IApiKey>(
 ApiKeySchema.index({ teamId: 1, isActive: 1 });
 ApiKeySchema.index({ expiresAt: 1, isActive: 1 });
 ApiKeySchema.index({ keyPrefix: 1 });
+ApiKeySchema.index({ graceEndsAt: 1, isActive: 1 }, { partialFilterExpression: { graceEndsAt: { $exists: true } } });
 
 /**
- * Pre-save hook to encrypt API key
+ * Pre-save hook to hash API key
+ * The plaintext key is only ever returned once, on creation
  */
 ApiKeySchema.pre('save', async function (next) {
-  if (!this.isModified('key')) {
+  if (!this.isModified('key') || isTokenHash(this.key)) {
     return next();
   }
 
   try {
-    this.key = encrypt(this.key);
+    this.key = hashToken(this.key);
     next();
   } catch (error: any) {
     next(error);
@@ -116,10 +195,16 @@ ApiKeySchema.pre('save', async function (next) {
 
 /**
  * Method to compare API key
+ * Requires the key field to be selected (`.select('+key')`)
  */
 ApiKeySchema.methods.compareKey = async function (
   candidateKey: string
 ): Promise<boolean> {
+  if (isTokenHash(this.key)) {
+    return verifyTokenHash(candidateKey, this.key);
+  }
+
+  // Legacy record, still reversibly encrypted
   try {
     const decrypted = decryptKey(this.key);
     return secureCompare(candidateKey, decrypted);
@@ -0,0 +1,89 @@
+import mongoose, { Document, Model, Schema } from 'mongoose';
+
+/**
+ * ApiKeyUsage interface for TypeScript
+ * One request made with an API key (append-only; ApiKey.metadata only keeps the latest)
+ */
+export interface IApiKeyUsage extends Document {
+  _id: string;
+  apiKeyId: mongoose.Types.ObjectId;
+  teamId: mongoose.Types.ObjectId;
+  method: string;
+  route: string; // Route pattern, e.g. "/api/chats/[id]"
+  databaseId?: mongoose.Types.ObjectId;
+  status: number; // HTTP status of the response
+  latencyMs: number;
+  ipAddress?: string;
+  query?: string; // Truncated question, for the query API
+  createdAt: Date;
+}
+
+/**
+ * Days usage records are kept (API_KEY_USAGE_RETENTION_DAYS, default 90)
+ * The TTL index is created with this value; changing it later needs a collMod on the index
+ */
+export const API_KEY_USAGE_RETENTION_DAYS = Number(process.env.API_KEY_USAGE_RETENTION_DAYS) || 90;
+
+/**
+ * ApiKeyUsage Mongoose Schema
+ */
+const ApiKeyUsageSchema = new Schema<IApiKeyUsage>(
+  {
+    apiKeyId: {
+      type: Schema.Types.ObjectId,
+      ref: 'ApiKey',
+      required: true,
+    },
+    teamId: {
+      type: Schema.Types.ObjectId,
+      ref: 'Team',
+      required: true,
+    },
+    method: {
+      type: String,
+      required: true,
+    },
+    route: {
+      type: String,
+      required: true,
+    },
+    databaseId: {
+      type: Schema.Types.ObjectId,
+      ref: 'Database',
+    },
+    status: {
+      type: Number,
+      required: true,
+    },
+    latencyMs: {
+      type: Number,
+      default: 0,
+    },
+    ipAddress: {
+      type: String,
+    },
+    query: {
+      type: String,
+    },
+  },
+  {
+    timestamps: { createdAt: true, updatedAt: false },
+    versionKey: false,
+  }
+);
+
+/**
+ * Indexes for analytics, plus the retention TTL
+ */
+ApiKeyUsageSchema.index({ apiKeyId: 1, createdAt: -1 });
+ApiKeyUsageSchema.index({ teamId: 1, createdAt: -1 });
+ApiKeyUsageSchema.index({ createdAt: 1 }, { expireAfterSeconds: API_KEY_USAGE_RETENTION_DAYS * 24 * 60 * 60 });
+
+/**
+ * ApiKeyUsage Model
+ * Use singleton pattern to prevent Next.js hot reload issues
+ */
+const ApiKeyUsage: Model<IApiKeyUsage> =
+  mongoose.models.ApiKeyUsage || mongoose.model<IApiKeyUsage>('ApiKeyUsage', ApiKeyUsageSchema);
+
+export default ApiKeyUsage;
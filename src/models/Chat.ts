@@ -3,10 +3,12 @@ import mongoose, { Document, Model, Schema } from 'mongoose';
 /**
  * Chat interface for TypeScript
  * Represents a conversation session with multiple databases
+ * Owned by a user, or by the API key that created it (chats:write scope)
  */
 export interface IChat extends Document {
   _id: string;
-  userId: mongoose.Types.ObjectId;
+  userId?: mongoose.Types.ObjectId;
+  apiKeyId?: mongoose.Types.ObjectId;
   databaseIds: mongoose.Types.ObjectId[]; // Multiple databases
   title: string;
   lastMessageAt?: Date;
@@ -22,7 +24,16 @@ const ChatSchema = new Schema<IChat>(
     userId: {
       type: Schema.Types.ObjectId,
       ref: 'User',
-      required: [true, 'User ID is required'],
+      required: [
+        function (this: IChat) {
+          return !this.apiKeyId;
+        },
+        'User ID is required',
+      ],
+    },
+    apiKeyId: {
+      type: Schema.Types.ObjectId,
+      ref: 'ApiKey',
     },
     databaseIds: {
       type: [Schema.Types.ObjectId],
@@ -54,6 +65,7 @@ const ChatSchema = new Schema<IChat>(
  */
 ChatSchema.index({ userId: 1, createdAt: -1 });
 ChatSchema.index({ userId: 1, lastMessageAt: -1 });
+ChatSchema.index({ apiKeyId: 1, lastMessageAt: -1 });
 ChatSchema.index({ databaseIds: 1 });
 
 /**
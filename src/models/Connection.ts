@@ -1,21 +1,71 @@
 import mongoose, { Document, Model, Schema } from 'mongoose';
 
+/**
+ * TLS settings for server connections
+ * Certificates and the private key are stored encrypted
+ */
+export interface IConnectionSsl {
+  mode: 'disable' | 'require' | 'verify-ca' | 'verify-full';
+  ca?: string; // Encrypted PEM
+  cert?: string; // Encrypted PEM (client certificate)
+  key?: string; // Encrypted PEM (client private key)
+  servername?: string; // Name to verify instead of host (verify-full)
+}
+
+/**
+ * SSH tunnel through a bastion host for server connections
+ * Secrets are stored encrypted; only those of the chosen auth method are kept
+ */
+export interface IConnectionSshTunnel {
+  enabled: boolean;
+  host: string;
+  port: number;
+  username: string;
+  authMethod: 'privateKey' | 'password';
+  privateKey?: string; // Encrypted PEM
+  passphrase?: string; // Encrypted
+  password?: string; // Encrypted
+  hostKeyFingerprint?: string; // Bastion host key ("SHA256:..."), pinned on first use
+}
+
+/**
+ * Connection URI parts that have no field of their own
+ * Kept when a URI is imported; the MongoDB connector builds its URI from them
+ */
+export interface IConnectionOptions {
+  srv?: boolean; // mongodb+srv: host is a DNS seed list name, port unused
+  hosts?: string[]; // Further "host:port" seeds (replica sets)
+  params?: Record<string, string>; // Query parameters (authSource, replicaSet, ...)
+}
+
 /**
  * Connection interface for TypeScript
+ * Server connections use host/port/username/password; sqlite and duckdb use filePath
  */
 export interface IConnection extends Document {
   _id: string;
   name: string;
-  connectionType: 'mysql' | 'postgresql' | 'mongodb' | 'mssql';
-  host: string;
-  port: number;
-  username: string;
-  password: string; // Encrypted
+  connectionType: 'mysql' | 'mariadb' | 'postgresql' | 'mongodb' | 'mssql' | 'oracle' | 'clickhouse' | 'sqlite' | 'duckdb';
+  host?: string;
+  port?: number;
+  username?: string;
+  password?: string; // Encrypted
+  filePath?: string; // Database file, or directory of database files
+  ssl?: IConnectionSsl;
+  sshTunnel?: IConnectionSshTunnel;
+  options?: IConnectionOptions;
   createdBy: mongoose.Types.ObjectId;
   createdAt: Date;
   updatedAt: Date;
 }
 
+/**
+ * Server credentials are only required for server-based engines
+ */
+function requiresServer(this: IConnection): boolean {
+  return this.connectionType !== 'sqlite' && this.connectionType !== 'duckdb';
+}
+
 /**
  * Connection Mongoose Schema
  */
@@ -28,28 +78,105 @@ const ConnectionSchema = new Schema<IConnection>(
     },
     connectionType: {
       type: String,
-      enum: ['mysql', 'postgresql', 'mongodb', 'mssql'],
+      enum: ['mysql', 'mariadb', 'postgresql', 'mongodb', 'mssql', 'oracle', 'clickhouse', 'sqlite', 'duckdb'],
       required: [true, 'Connection type is required'],
     },
     host: {
       type: String,
-      required: [true, 'Host is required'],
+      required: [requiresServer, 'Host is required'],
       trim: true,
     },
     port: {
       type: Number,
-      required: [true, 'Port is required'],
+      required: [requiresServer, 'Port is required'],
     },
     username: {
       type: String,
-      required: [true, 'Username is required'],
+      required: [requiresServer, 'Username is required'],
       trim: true,
     },
     password: {
       type: String,
-      required: [true, 'Password is required'],
+      required: [requiresServer, 'Password is required'],
       // Password will be encrypted before saving
     },
+    filePath: {
+      type: String,
+      required: [
+        function (this: IConnection) {
+          return !requiresServer.call(this);
+        },
+        'File path is required',
+      ],
+      trim: true,
+    },
+    ssl: {
+      type: new Schema<IConnectionSsl>(
+        {
+          mode: {
+            type: String,
+            enum: ['disable', 'require', 'verify-ca', 'verify-full'],
+            default: 'disable',
+          },
+          ca: String,
+          cert: String,
+          key: String,
+          servername: {
+            type: String,
+            trim: true,
+          },
+        },
+        { _id: false }
+      ),
+    },
+    sshTunnel: {
+      type: new Schema<IConnectionSshTunnel>(
+        {
+          enabled: {
+            type: Boolean,
+            default: false,
+          },
+          host: {
+            type: String,
+            trim: true,
+          },
+          port: {
+            type: Number,
+            default: 22,
+          },
+          username: {
+            type: String,
+            trim: true,
+          },
+          authMethod: {
+            type: String,
+            enum: ['privateKey', 'password'],
+            default: 'privateKey',
+          },
+          privateKey: String,
+          passphrase: String,
+          password: String,
+          hostKeyFingerprint: {
+            type: String,
+            trim: true,
+          },
+        },
+        { _id: false }
+      ),
+    },
+    options: {
+      type: new Schema<IConnectionOptions>(
+        {
+          srv: {
+            type: Boolean,
+            default: false,
+          },
+          hosts: [String],
+          params: Schema.Types.Mixed,
+        },
+        { _id: false }
+      ),
+    },
     createdBy: {
       type: Schema.Types.ObjectId,
       ref: 'User',
@@ -67,6 +194,26 @@ const ConnectionSchema = new Schema<IConnection>(
 ConnectionSchema.index({ createdBy: 1 });
 ConnectionSchema.index({ connectionType: 1 });
 
+/**
+ * Transform output to remove sensitive fields
+ */
+ConnectionSchema.set('toJSON', {
+  transform: function (_doc, ret) {
+    delete (ret as any).password;
+    if (ret.ssl) {
+      delete ret.ssl.ca;
+      delete ret.ssl.cert;
+      delete ret.ssl.key;
+    }
+    if (ret.sshTunnel) {
+      delete ret.sshTunnel.privateKey;
+      delete ret.sshTunnel.passphrase;
+      delete ret.sshTunnel.password;
+    }
+    return ret;
+  },
+});
+
 /**
  * Connection Model
  * Use singleton pattern to prevent Next.js hot reload issues
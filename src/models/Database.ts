@@ -1,4 +1,21 @@
 import mongoose, { Document, Model, Schema } from 'mongoose';
+import type { SchemaSnapshot } from '@/lib/schema-introspection';
+import type { SchemaDriftReport } from '@/lib/schema-drift';
+
+/**
+ * Automatic re-sync schedule
+ * Paused schedules keep their settings but have no next run
+ */
+export interface ISyncSchedule {
+  enabled: boolean;
+  type: 'interval' | 'cron';
+  intervalMinutes?: number;
+  cronExpression?: string; // Evaluated in UTC
+  forceRegenerate: boolean;
+  nextRunAt?: Date;
+  lastRunAt?: Date;
+  lastJobId?: mongoose.Types.ObjectId;
+}
 
 /**
  * Database interface for TypeScript
@@ -15,6 +32,9 @@ export interface IDatabase extends Document {
   syncLastAt?: Date;
   syncErrorMessage?: string;
   metadata?: Record<string, any>;
+  schemaSnapshot?: SchemaSnapshot; // Cached introspection, not selected by default
+  schemaDrift?: SchemaDriftReport; // Last drift check against Milvus
+  syncSchedule?: ISyncSchedule;
   createdBy: mongoose.Types.ObjectId;
   createdAt: Date;
   updatedAt: Date;
@@ -65,6 +85,28 @@ const DatabaseSchema = new Schema<IDatabase>(
     metadata: {
       type: Schema.Types.Mixed,
     },
+    schemaSnapshot: {
+      type: Schema.Types.Mixed,
+      select: false,
+    },
+    schemaDrift: {
+      type: Schema.Types.Mixed,
+    },
+    syncSchedule: {
+      type: new Schema<ISyncSchedule>(
+        {
+          enabled: { type: Boolean, default: true },
+          type: { type: String, enum: ['interval', 'cron'], required: true },
+          intervalMinutes: { type: Number, min: 5 },
+          cronExpression: { type: String, trim: true },
+          forceRegenerate: { type: Boolean, default: false },
+          nextRunAt: { type: Date },
+          lastRunAt: { type: Date },
+          lastJobId: { type: Schema.Types.ObjectId, ref: 'SyncJob' },
+        },
+        { _id: false }
+      ),
+    },
     createdBy: {
       type: Schema.Types.ObjectId,
       ref: 'User',
@@ -84,6 +126,7 @@ DatabaseSchema.index({ createdBy: 1 });
 DatabaseSchema.index({ connectionStatus: 1 });
 DatabaseSchema.index({ syncStatus: 1 });
 DatabaseSchema.index({ enabled: 1 });
+DatabaseSchema.index({ 'syncSchedule.enabled': 1, 'syncSchedule.nextRunAt': 1 });
 
 /**
  * Database Model
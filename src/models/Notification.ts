@@ -0,0 +1,78 @@
+import mongoose, { Document, Model, Schema } from 'mongoose';
+
+/**
+ * Notification interface for TypeScript
+ * In-app notification shown to one user in the dashboard's notification center
+ */
+export interface INotification extends Document {
+  _id: string;
+  userId: mongoose.Types.ObjectId;
+  type: 'api_key_expiring' | 'api_key_expired';
+  title: string;
+  message: string;
+  link?: string; // Dashboard page the notification points at
+  dedupeKey: string; // One notification per user and key, e.g. "api_key_expiring:<apiKeyId>"
+  readAt?: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+/**
+ * Days notifications are kept
+ */
+const NOTIFICATION_RETENTION_DAYS = 90;
+
+/**
+ * Notification Mongoose Schema
+ */
+const NotificationSchema = new Schema<INotification>(
+  {
+    userId: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: true,
+    },
+    type: {
+      type: String,
+      enum: ['api_key_expiring', 'api_key_expired'],
+      required: true,
+    },
+    title: {
+      type: String,
+      required: true,
+    },
+    message: {
+      type: String,
+      required: true,
+    },
+    link: {
+      type: String,
+    },
+    dedupeKey: {
+      type: String,
+      required: true,
+    },
+    readAt: {
+      type: Date,
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+/**
+ * Indexes for the notification center, deduplication across sweeps, and retention
+ */
+NotificationSchema.index({ userId: 1, createdAt: -1 });
+NotificationSchema.index({ userId: 1, dedupeKey: 1 }, { unique: true });
+NotificationSchema.index({ createdAt: 1 }, { expireAfterSeconds: NOTIFICATION_RETENTION_DAYS * 24 * 60 * 60 });
+
+/**
+ * Notification Model
+ * Use singleton pattern to prevent Next.js hot reload issues
+ */
+const Notification: Model<INotification> =
+  mongoose.models.Notification || mongoose.model<INotification>('Notification', NotificationSchema);
+
+export default Notification;
@@ -0,0 +1,108 @@
+import mongoose, { Document, Model, Schema } from 'mongoose';
+
+/**
+ * QueryLog interface for TypeScript
+ * Audit record for every call to the public query API
+ */
+export interface IQueryLog extends Document {
+  _id: string;
+  databaseId: mongoose.Types.ObjectId;
+  authMethod: 'session' | 'api-key';
+  userId?: mongoose.Types.ObjectId;
+  teamId?: mongoose.Types.ObjectId;
+  apiKeyId?: mongoose.Types.ObjectId;
+  query: string;
+  status: 'success' | 'error';
+  generatedSql?: string;
+  results?: Record<string, any>[]; // Tier summaries, inline rows stripped
+  rowCount: number;
+  executionTimeMs: number;
+  filePath?: string;
+  errorMessage?: string;
+  ipAddress?: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+/**
+ * QueryLog Mongoose Schema
+ */
+const QueryLogSchema = new Schema<IQueryLog>(
+  {
+    databaseId: {
+      type: Schema.Types.ObjectId,
+      ref: 'Database',
+      required: [true, 'Database ID is required'],
+    },
+    authMethod: {
+      type: String,
+      enum: ['session', 'api-key'],
+      required: true,
+    },
+    userId: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+    },
+    teamId: {
+      type: Schema.Types.ObjectId,
+      ref: 'Team',
+    },
+    apiKeyId: {
+      type: Schema.Types.ObjectId,
+      ref: 'ApiKey',
+    },
+    query: {
+      type: String,
+      required: [true, 'Query is required'],
+    },
+    status: {
+      type: String,
+      enum: ['success', 'error'],
+      required: true,
+    },
+    generatedSql: {
+      type: String,
+    },
+    results: {
+      type: [Schema.Types.Mixed],
+      default: undefined,
+    },
+    rowCount: {
+      type: Number,
+      default: 0,
+    },
+    executionTimeMs: {
+      type: Number,
+      default: 0,
+    },
+    filePath: {
+      type: String,
+    },
+    errorMessage: {
+      type: String,
+    },
+    ipAddress: {
+      type: String,
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+/**
+ * Indexes for audit lookups
+ */
+QueryLogSchema.index({ databaseId: 1, createdAt: -1 });
+QueryLogSchema.index({ teamId: 1, createdAt: -1 });
+QueryLogSchema.index({ apiKeyId: 1, createdAt: -1 });
+QueryLogSchema.index({ userId: 1, createdAt: -1 });
+
+/**
+ * QueryLog Model
+ * Use singleton pattern to prevent Next.js hot reload issues
+ */
+const QueryLog: Model<IQueryLog> =
+  mongoose.models.QueryLog || mongoose.model<IQueryLog>('QueryLog', QueryLogSchema);
+
+export default QueryLog;
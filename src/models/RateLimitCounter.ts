@@ -0,0 +1,86 @@
+import mongoose, { Document, Model, Schema } from 'mongoose';
+
+/**
+ * Query API limits of an API key or a team (unset fields are unlimited)
+ * A team's limits are shared by all of its keys
+ */
+export interface IUsageLimits {
+  requestsPerMinute?: number; // Token bucket refill rate
+  burst?: number; // Token bucket size (default: requestsPerMinute)
+  dailyQuota?: number; // Queries per UTC day
+  monthlyQuota?: number; // Queries per UTC month
+}
+
+/**
+ * Usage limits subdocument, embedded in ApiKey and Team
+ */
+export const UsageLimitsSchema = new Schema<IUsageLimits>(
+  {
+    requestsPerMinute: { type: Number, min: 1 },
+    burst: { type: Number, min: 1 },
+    dailyQuota: { type: Number, min: 1 },
+    monthlyQuota: { type: Number, min: 1 },
+  },
+  { _id: false }
+);
+
+/**
+ * RateLimitCounter interface for TypeScript
+ * Shared state of one limit, so limits hold across Next.js instances
+ * - bucket: token bucket (`tokens` left as of `refilledAt`)
+ * - quota: queries counted in one window (`count`)
+ */
+export interface IRateLimitCounter extends Document {
+  _id: string; // e.g. "bucket:apikey:<id>" or "quota:team:<id>:day:2026-10-19"
+  tokens?: number;
+  refilledAt?: Date;
+  allowed?: boolean; // Whether the last take from the bucket got a token
+  count?: number;
+  expiresAt: Date;
+}
+
+/**
+ * RateLimitCounter Mongoose Schema
+ */
+const RateLimitCounterSchema = new Schema<IRateLimitCounter>(
+  {
+    _id: {
+      type: String,
+      required: true,
+    },
+    tokens: {
+      type: Number,
+    },
+    refilledAt: {
+      type: Date,
+    },
+    allowed: {
+      type: Boolean,
+    },
+    count: {
+      type: Number,
+    },
+    expiresAt: {
+      type: Date,
+      required: true,
+    },
+  },
+  {
+    versionKey: false,
+  }
+);
+
+/**
+ * Expired counters (past quota windows, idle buckets) are removed by MongoDB
+ */
+RateLimitCounterSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 });
+
+/**
+ * RateLimitCounter Model
+ * Use singleton pattern to prevent Next.js hot reload issues
+ */
+const RateLimitCounter: Model<IRateLimitCounter> =
+  mongoose.models.RateLimitCounter ||
+  mongoose.model<IRateLimitCounter>('RateLimitCounter', RateLimitCounterSchema);
+
+export default RateLimitCounter;
@@ -0,0 +1,115 @@
+import mongoose, { Document, Model, Schema } from 'mongoose';
+
+/**
+ * SyncJob interface for TypeScript
+ * One embeddings sync run for a database, processed by the background worker
+ */
+export interface ISyncJob extends Document {
+  _id: string;
+  databaseId: mongoose.Types.ObjectId;
+  requestedBy?: mongoose.Types.ObjectId;
+  forceRegenerate: boolean;
+  trigger: 'manual' | 'scheduled';
+  status: 'queued' | 'running' | 'succeeded' | 'failed' | 'cancelled';
+  progress: number; // 0-100
+  progressMessage?: string;
+  attempts: number;
+  maxAttempts: number;
+  nextRunAt: Date; // Earliest time a queued job may be claimed (retry backoff)
+  workerId?: string;
+  heartbeatAt?: Date;
+  startedAt?: Date;
+  finishedAt?: Date;
+  errorMessage?: string;
+  result?: Record<string, any>;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+/**
+ * SyncJob Mongoose Schema
+ */
+const SyncJobSchema = new Schema<ISyncJob>(
+  {
+    databaseId: {
+      type: Schema.Types.ObjectId,
+      ref: 'Database',
+      required: [true, 'Database ID is required'],
+    },
+    requestedBy: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+    },
+    forceRegenerate: {
+      type: Boolean,
+      default: false,
+    },
+    trigger: {
+      type: String,
+      enum: ['manual', 'scheduled'],
+      default: 'manual',
+    },
+    status: {
+      type: String,
+      enum: ['queued', 'running', 'succeeded', 'failed', 'cancelled'],
+      default: 'queued',
+    },
+    progress: {
+      type: Number,
+      default: 0,
+      min: 0,
+      max: 100,
+    },
+    progressMessage: {
+      type: String,
+    },
+    attempts: {
+      type: Number,
+      default: 0,
+    },
+    maxAttempts: {
+      type: Number,
+      default: 3,
+    },
+    nextRunAt: {
+      type: Date,
+      default: Date.now,
+    },
+    workerId: {
+      type: String,
+    },
+    heartbeatAt: {
+      type: Date,
+    },
+    startedAt: {
+      type: Date,
+    },
+    finishedAt: {
+      type: Date,
+    },
+    errorMessage: {
+      type: String,
+    },
+    result: {
+      type: Schema.Types.Mixed,
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+/**
+ * Indexes for claiming jobs and history lookups
+ */
+SyncJobSchema.index({ status: 1, nextRunAt: 1 });
+SyncJobSchema.index({ databaseId: 1, createdAt: -1 });
+
+/**
+ * SyncJob Model
+ * Use singleton pattern to prevent Next.js hot reload issues
+ */
+const SyncJob: Model<ISyncJob> =
+  mongoose.models.SyncJob || mongoose.model<ISyncJob>('SyncJob', SyncJobSchema);
+
+export default SyncJob;
@@ -1,4 +1,5 @@
 import mongoose, { Document, Model, Schema } from 'mongoose';
+import { UsageLimitsSchema, type IUsageLimits } from '@/models/RateLimitCounter';
 
 /**
  * Team interface for TypeScript
@@ -9,6 +10,8 @@ export interface ITeam extends Document {
   description: string;
   members: mongoose.Types.ObjectId[];
   createdBy: mongoose.Types.ObjectId;
+  limits?: IUsageLimits; // Query API rate limit and quotas shared by all team API keys
+  ssoGroups: string[]; // Single sign-on group claim values whose users are members (synced at sign-in)
   createdAt: Date;
   updatedAt: Date;
 }
@@ -40,6 +43,13 @@ const TeamSchema = new Schema<ITeam>(
       ref: 'User',
       required: true,
     },
+    limits: {
+      type: UsageLimitsSchema,
+    },
+    ssoGroups: {
+      type: [String],
+      default: [],
+    },
   },
   {
     timestamps: true,
@@ -51,6 +61,7 @@ const TeamSchema = new Schema<ITeam>(
  */
 TeamSchema.index({ name: 1 });
 TeamSchema.index({ createdBy: 1 });
+TeamSchema.index({ ssoGroups: 1 });
 
 /**
  * Team Model
@@ -7,10 +7,12 @@ import bcrypt from 'bcryptjs';
 export interface IUser extends Document {
   _id: string;
   email: string;
-  password: string;
+  password?: string; // Unset for users provisioned by single sign-on
   name: string;
   role: 'admin' | 'user';
   isActive: boolean;
+  authProvider?: string; // OIDC provider id the user signs in with (see src/lib/oidc.ts)
+  externalId?: string; // Subject ("sub" claim) at that provider
   createdAt: Date;
   updatedAt: Date;
   comparePassword(candidatePassword: string): Promise<boolean>;
@@ -31,7 +33,12 @@ const UserSchema = new Schema<IUser>(
     },
     password: {
       type: String,
-      required: [true, 'Password is required'],
+      required: [
+        function (this: IUser) {
+          return !this.authProvider;
+        },
+        'Password is required',
+      ],
       minlength: [6, 'Password must be at least 6 characters'],
       select: false, // Don't return password by default in queries
     },
@@ -49,6 +56,12 @@ const UserSchema = new Schema<IUser>(
       type: Boolean,
       default: true,
     },
+    authProvider: {
+      type: String,
+    },
+    externalId: {
+      type: String,
+    },
   },
   {
     timestamps: true,
@@ -59,6 +72,10 @@ const UserSchema = new Schema<IUser>(
  * Index for faster email lookups
  */
 UserSchema.index({ email: 1 });
+UserSchema.index(
+  { authProvider: 1, externalId: 1 },
+  { unique: true, partialFilterExpression: { externalId: { $exists: true } } }
+);
 
 /**
  * Pre-save hook to hash password before saving
@@ -66,7 +83,7 @@ UserSchema.index({ email: 1 });
  */
 UserSchema.pre('save', async function (next) {
   // Only hash the password if it has been modified (or is new)
-  if (!this.isModified('password')) {
+  if (!this.isModified('password') || !this.password) {
     return next();
   }
 
@@ -88,6 +105,10 @@ UserSchema.pre('save', async function (next) {
 UserSchema.methods.comparePassword = async function (
   candidatePassword: string
 ): Promise<boolean> {
+  if (!this.password) {
+    return false; // Single sign-on only
+  }
+
   try {
     return await bcrypt.compare(candidatePassword, this.password);
   } catch (error) {
@@ -0,0 +1,18 @@
+import { defineConfig } from 'vitest/config';
+import path from 'path';
+
+export default defineConfig({
+  resolve: {
+    alias: {
+      '@': path.resolve(__dirname, 'src'),
+    },
+  },
+  test: {
+    environment: 'node',
+    include: ['src/**/*.test.ts'],
+    // Modules such as src/lib/encryption.ts refuse to load without their configuration
+    env: {
+      ENCRYPTION_KEY: '0'.repeat(64),
+    },
+  },
+});